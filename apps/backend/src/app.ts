@@ -17,6 +17,8 @@ import rateLimitPlugin from "./plugins/rate-limit.plugin";
 import authRateLimitPlugin from "./plugins/auth-rate-limit.plugin";
 import healthCheckPlugin from "./plugins/health.plugin";
 import socketPlugin from "./plugins/socket.plugin";
+import embeddingPlugin from "./plugins/embedding.plugin";
+import summaryPlugin from "./plugins/summary.plugin";
 
 // Routes
 import rootRoutes from "./routes";
@@ -56,7 +58,12 @@ const middlewarePlugins: PluginConfig[] = [
 /**
  * Feature plugins loaded last
  */
-const featurePlugins: PluginConfig[] = [{ plugin: healthCheckPlugin }, { plugin: socketPlugin }];
+const featurePlugins: PluginConfig[] = [
+  { plugin: healthCheckPlugin },
+  { plugin: socketPlugin },
+  { plugin: embeddingPlugin },
+  { plugin: summaryPlugin },
+];
 
 /**
  * Register plugins in the correct order
@@ -34,11 +34,21 @@ const envSchema = z.object({
   REDIS_PASSWORD: z.string().optional(),
 
   // AI
+  AI_PROVIDER: z.enum(["openrouter", "fake"]).default("openrouter"),
   OPENROUTER_API_KEY: z.string().min(1),
   AI_MODEL: z.string().default("anthropic/claude-3.5-sonnet"),
   AI_MAX_TOKENS: z.coerce.number().default(4096),
-  AI_RATE_LIMIT_PER_USER: z.coerce.number().default(10),
-  AI_RATE_LIMIT_WINDOW: z.coerce.number().default(60000),
+  // GM prompt token budget as a multiple of AI_MAX_TOKENS
+  AI_PROMPT_BUDGET_RATIO: z.coerce.number().positive().default(4),
+  // GM replies per user and per room within the sliding window (ms)
+  AI_RATE_LIMIT_PER_USER: z.coerce.number().int().positive().default(10),
+  AI_RATE_LIMIT_PER_ROOM: z.coerce.number().int().positive().default(30),
+  AI_RATE_LIMIT_WINDOW: z.coerce.number().int().positive().default(60000),
+  // Model tokens a room may use per UTC day / calendar month; 0 means no cap
+  AI_ROOM_DAILY_TOKEN_LIMIT: z.coerce.number().int().nonnegative().default(200000),
+  AI_ROOM_MONTHLY_TOKEN_LIMIT: z.coerce.number().int().nonnegative().default(3000000),
+  EMBEDDING_PROVIDER: z.enum(["openrouter", "hash"]).default("openrouter"),
+  EMBEDDING_MODEL: z.string().default("openai/text-embedding-3-small"),
 
   // CORS
   CORS_ORIGIN: z.string().default("http://localhost:3000"),
@@ -76,8 +86,17 @@ export function loadEnv(): Env {
         CORS_ORIGIN: process.env.CORS_ORIGIN,
         RATE_LIMIT_MAX: process.env.RATE_LIMIT_MAX,
         RATE_LIMIT_WINDOW: process.env.RATE_LIMIT_WINDOW,
+        AI_PROVIDER: process.env.AI_PROVIDER,
         AI_MODEL: process.env.AI_MODEL,
         AI_MAX_TOKENS: process.env.AI_MAX_TOKENS,
+        AI_PROMPT_BUDGET_RATIO: process.env.AI_PROMPT_BUDGET_RATIO,
+        AI_RATE_LIMIT_PER_USER: process.env.AI_RATE_LIMIT_PER_USER,
+        AI_RATE_LIMIT_PER_ROOM: process.env.AI_RATE_LIMIT_PER_ROOM,
+        AI_RATE_LIMIT_WINDOW: process.env.AI_RATE_LIMIT_WINDOW,
+        AI_ROOM_DAILY_TOKEN_LIMIT: process.env.AI_ROOM_DAILY_TOKEN_LIMIT,
+        AI_ROOM_MONTHLY_TOKEN_LIMIT: process.env.AI_ROOM_MONTHLY_TOKEN_LIMIT,
+        EMBEDDING_PROVIDER: process.env.EMBEDDING_PROVIDER,
+        EMBEDDING_MODEL: process.env.EMBEDDING_MODEL,
         // Sensitive values are masked
         SESSION_SECRET: process.env.SESSION_SECRET ? "[SET]" : "[NOT SET]",
         DATABASE_URL: process.env.DATABASE_URL ? "[SET]" : "[NOT SET]",
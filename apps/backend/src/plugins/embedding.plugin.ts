@@ -0,0 +1,43 @@
+import type { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { env } from "../config/env";
+import { EMBEDDING_BATCH_SIZE, EmbeddingService } from "../services/embedding.service";
+import { scheduleBackgroundJob } from "../utils/background-job.util";
+
+// Batches per run, so one run cannot hold the lock forever while a large backlog drains
+const MAX_BATCHES_PER_RUN = 10;
+
+/**
+ * Background job that embeds new messages for long-term campaign memory
+ */
+const embeddingPlugin: FastifyPluginAsync = async (fastify) => {
+  // Tests embed explicitly instead of racing a background job
+  if (env.NODE_ENV === "test") {
+    return;
+  }
+
+  const embeddingService = new EmbeddingService(fastify.db, fastify.log);
+
+  scheduleBackgroundJob(fastify, {
+    name: "embedding",
+    intervalMs: 10000,
+    lockSeconds: 300,
+    run: async () => {
+      let total = 0;
+      for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+        const embedded = await embeddingService.embedPending();
+        total += embedded;
+        if (embedded < EMBEDDING_BATCH_SIZE) break;
+      }
+
+      if (total > 0) {
+        fastify.log.info({ count: total }, "Embedding job finished");
+      }
+    },
+  });
+};
+
+export default fp(embeddingPlugin, {
+  name: "embedding",
+  dependencies: ["redis", "database"],
+});
@@ -3,6 +3,11 @@ import fp from "fastify-plugin";
 import secureSession from "@fastify/secure-session";
 import { env } from "../config/env";
 
+/**
+ * Session lifetime enforced by secure-session, counted from the last session write
+ */
+export const SESSION_EXPIRY_SECONDS = 24 * 60 * 60; // 24 hours
+
 /**
  * Session plugin configuration
  */
@@ -10,6 +15,7 @@ const sessionPlugin: FastifyPluginAsync = async (fastify) => {
   await fastify.register(secureSession, {
     secret: env.SESSION_SECRET,
     salt: "rpgate-sess-salt",
+    expiry: SESSION_EXPIRY_SECONDS,
     cookie: {
       path: "/",
       httpOnly: true,
@@ -4,12 +4,133 @@ import websocket from "@fastify/websocket";
 import Redis from "ioredis";
 import { env } from "../config/env";
 import type { WebSocketMessage, WebSocketUser } from "@rpgate/shared/types";
+import { WEBSOCKET_CLOSE_CODES, WEBSOCKET_EVENTS } from "@rpgate/shared/constants";
+import { type RoomEventReplay, RoomEventRepository } from "../services/room-event.repository";
 import {
   WebSocketMetrics,
   validateWebSocketMessage,
   sanitizeMessageForLogging,
 } from "../utils/websocket.util";
 
+/**
+ * Prefix for per-room broadcast channels, keeps them apart from other Redis keys
+ */
+const ROOM_CHANNEL_PREFIX = "ws:room:";
+
+/**
+ * Redis channel used to close sockets of a logged-out session on every instance
+ */
+const SESSION_REVOKED_CHANNEL = "ws:sessions:revoked";
+
+/**
+ * Redis channel used to drop sockets from a room on every instance (kick, leave, delete)
+ */
+const ROOM_ACCESS_REVOKED_CHANNEL = "ws:rooms:access_revoked";
+
+/**
+ * Redis channel used to deliver a room event to some users only (whispers) on every instance
+ */
+const ROOM_USERS_CHANNEL = "ws:rooms:users";
+
+/**
+ * Room events kept for replay, and how many a reconnecting client is sent before it has
+ * to refetch history instead. A room's log is dropped after a day without events.
+ */
+const ROOM_EVENT_LOG_MAX_LENGTH = 1000;
+const ROOM_EVENT_REPLAY_LIMIT = 200;
+const ROOM_EVENT_LOG_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Transient room events, published without a seq and never replayed
+ */
+const UNSEQUENCED_EVENTS = new Set<string>([
+  WEBSOCKET_EVENTS.TYPING_START,
+  WEBSOCKET_EVENTS.TYPING_STOP,
+  WEBSOCKET_EVENTS.GM_STREAM_DELTA,
+  WEBSOCKET_EVENTS.USER_JOINED,
+  WEBSOCKET_EVENTS.USER_LEFT,
+  WEBSOCKET_EVENTS.PRESENCE_UPDATE,
+  WEBSOCKET_EVENTS.ROOM_VIEWER_COUNT_UPDATED,
+]);
+
+/**
+ * Identifies the session whose WebSocket connections should be closed.
+ * Without a sessionId, every connection of the user is closed.
+ */
+interface SessionRevocation {
+  userId: string;
+  sessionId?: string;
+}
+
+/**
+ * Identifies sockets to drop from a room. Without a userId, every socket is dropped;
+ * with spectatorsOnly, only sockets following the room as spectators.
+ */
+interface RoomAccessRevocation {
+  roomId: string;
+  userId?: string;
+  spectatorsOnly?: boolean;
+}
+
+/**
+ * A local connection dropped from a room by a revocation
+ */
+interface RevokedRoomConnection {
+  connectionId: string;
+  roomId: string;
+  userId?: string;
+  // Whether it followed the room as a spectator rather than a member
+  spectating: boolean;
+}
+
+/**
+ * A room event for the given users' sockets in the room only
+ */
+interface RoomUsersMessage {
+  roomId: string;
+  userIds: string[];
+  message: WebSocketMessage;
+}
+
+/**
+ * Where a connection stands in a room's event stream after joining it.
+ * refetch is set when the missed events could not be replayed.
+ */
+interface RoomSync {
+  seq: number;
+  replayed: number;
+  refetch: boolean;
+}
+
+declare module "fastify" {
+  interface FastifyInstance {
+    websocketJoinRoom: (
+      connectionId: string,
+      roomId: string,
+      sinceSeq?: number,
+    ) => Promise<RoomSync | null>;
+    websocketLeaveRoom: (connectionId: string, roomId: string) => Promise<void>;
+    websocketDisconnectSession: (revocation: SessionRevocation) => Promise<void>;
+    websocketRevokeRoomAccess: (revocation: RoomAccessRevocation) => Promise<void>;
+    // Called for every connection a revocation drops, so its room presence can be cleared
+    websocketOnRoomAccessRevoked: (listener: (revoked: RevokedRoomConnection) => void) => void;
+    websocketPublish: (roomId: string, message: WebSocketMessage) => Promise<void>;
+    websocketPublishToUsers: (
+      roomId: string,
+      userIds: string[],
+      message: WebSocketMessage,
+    ) => Promise<void>;
+  }
+}
+
+function getRoomChannel(roomId: string): string {
+  return `${ROOM_CHANNEL_PREFIX}${roomId}`;
+}
+
+function getReplayBufferKey(connectionId: string, roomId: string): string {
+  return `${connectionId}|${roomId}`;
+}
+
 /**
  * WebSocket plugin with Redis for pub/sub and enhanced error handling
  */
@@ -25,6 +146,7 @@ const websocketPlugin: FastifyPluginAsync = async (fastify) => {
   });
 
   const subClient = pubClient.duplicate();
+  const roomEvents = new RoomEventRepository(pubClient);
 
   // Handle Redis connection errors
   pubClient.on("error", (error) => {
@@ -83,17 +205,49 @@ const websocketPlugin: FastifyPluginAsync = async (fastify) => {
     {
       socket: any;
       user?: WebSocketUser;
+      sessionId?: string;
       rooms: Set<string>;
+      spectating: Set<string>;
       connectedAt: Date;
       lastActivity: Date;
       messageCount: number;
     }
   >();
 
+  // Local connection count per room; the room channel is subscribed while it is non-zero
+  const roomSubscriptions = new Map<string, number>();
+
+  // Live events held back from a connection ("<connectionId>|<roomId>") while it is sent
+  // the events it missed
+  const replayBuffers = new Map<string, WebSocketMessage[]>();
+
+  const roomAccessRevokedListeners: ((revoked: RevokedRoomConnection) => void)[] = [];
+
   // Redis subscription for broadcasting with error handling
   subClient.on("message", (channel: string, message: string) => {
     try {
       const data = JSON.parse(message);
+
+      if (channel === SESSION_REVOKED_CHANNEL) {
+        closeSessionConnections(data);
+        return;
+      }
+
+      if (channel === ROOM_ACCESS_REVOKED_CHANNEL) {
+        removeConnectionsFromRoom(data);
+        return;
+      }
+
+      if (channel === ROOM_USERS_CHANNEL) {
+        sendToRoomUsers(data);
+        return;
+      }
+
+      if (!channel.startsWith(ROOM_CHANNEL_PREFIX)) {
+        fastify.log.warn({ channel }, "Message received on unknown Redis channel");
+        return;
+      }
+
       const validation = validateWebSocketMessage(data);
 
       if (!validation.valid) {
@@ -108,20 +262,28 @@ const websocketPlugin: FastifyPluginAsync = async (fastify) => {
         return;
       }
 
-      broadcastToRoom(channel, data);
+      broadcastToRoom(channel.slice(ROOM_CHANNEL_PREFIX.length), data);
     } catch (error) {
       fastify.log.error({ error, channel }, "Failed to parse Redis message");
       metrics.trackError();
     }
   });
 
-  // Enhanced broadcast function with error handling
-  function broadcastToRoom(room: string, message: WebSocketMessage) {
+  // Enhanced broadcast function with error handling; userIds limits delivery to those users
+  function broadcastToRoom(room: string, message: WebSocketMessage, userIds?: string[]) {
     let successCount = 0;
     let errorCount = 0;
 
     for (const [connectionId, connection] of connections) {
+      if (userIds && !(connection.user && userIds.includes(connection.user.userId))) continue;
+
       if (connection.rooms.has(room) && connection.socket.readyState === 1) {
+        const buffer = replayBuffers.get(getReplayBufferKey(connectionId, room));
+        if (buffer) {
+          buffer.push(message);
+          continue;
+        }
+
         try {
           connection.socket.send(JSON.stringify(message));
           connection.lastActivity = new Date();
@@ -169,7 +331,17 @@ const websocketPlugin: FastifyPluginAsync = async (fastify) => {
         return;
       }
 
-      await pubClient.publish(room, JSON.stringify(message));
+      if (UNSEQUENCED_EVENTS.has(message.type)) {
+        await pubClient.publish(getRoomChannel(room), JSON.stringify(message));
+      } else {
+        await roomEvents.append(
+          room,
+          message,
+          { channel: getRoomChannel(room) },
+          ROOM_EVENT_LOG_MAX_LENGTH,
+          ROOM_EVENT_LOG_TTL_SECONDS,
+        );
+      }
       metrics.trackMessage();
     } catch (error) {
       fastify.log.error(
@@ -181,17 +353,280 @@ const websocketPlugin: FastifyPluginAsync = async (fastify) => {
     }
   }
 
+  // Deliver a room event to the local sockets of some users in the room
+  function sendToRoomUsers({ roomId, userIds, message }: RoomUsersMessage) {
+    broadcastToRoom(roomId, message, userIds);
+  }
+
+  // Publish a room event for some users only, so it never reaches the room channel
+  async function publishToRoomUsers(roomId: string, userIds: string[], message: WebSocketMessage) {
+    const validation = validateWebSocketMessage(message);
+    if (!validation.valid) {
+      fastify.log.warn(
+        { roomId, error: validation.error, message: sanitizeMessageForLogging(message) },
+        "Invalid WebSocket message for publishing",
+      );
+      return;
+    }
+
+    try {
+      if (UNSEQUENCED_EVENTS.has(message.type)) {
+        const payload: RoomUsersMessage = { roomId, userIds, message };
+        await pubClient.publish(ROOM_USERS_CHANNEL, JSON.stringify(payload));
+      } else {
+        await roomEvents.append(
+          roomId,
+          message,
+          { channel: ROOM_USERS_CHANNEL, userIds },
+          ROOM_EVENT_LOG_MAX_LENGTH,
+          ROOM_EVENT_LOG_TTL_SECONDS,
+        );
+      }
+      metrics.trackMessage();
+    } catch (error) {
+      fastify.log.error(
+        { error, roomId, messageType: message.type },
+        "Failed to publish WebSocket message to room users",
+      );
+      metrics.trackError();
+      throw error;
+    }
+  }
+
+  // Subscribe to a room channel when the first local connection joins it
+  async function retainRoomSubscription(roomId: string) {
+    const count = roomSubscriptions.get(roomId) ?? 0;
+    roomSubscriptions.set(roomId, count + 1);
+    if (count > 0) return;
+
+    try {
+      await subClient.subscribe(getRoomChannel(roomId));
+      fastify.log.debug({ roomId }, "Subscribed to room channel");
+    } catch (error) {
+      fastify.log.error({ error, roomId }, "Failed to subscribe to room channel");
+      metrics.trackError();
+      throw error;
+    }
+  }
+
+  // Unsubscribe from a room channel once the last local connection leaves it
+  async function releaseRoomSubscription(roomId: string) {
+    const count = roomSubscriptions.get(roomId) ?? 0;
+    if (count > 1) {
+      roomSubscriptions.set(roomId, count - 1);
+      return;
+    }
+
+    roomSubscriptions.delete(roomId);
+    if (count === 0) return;
+
+    try {
+      await subClient.unsubscribe(getRoomChannel(roomId));
+      fastify.log.debug({ roomId }, "Unsubscribed from room channel");
+    } catch (error) {
+      fastify.log.error({ error, roomId }, "Failed to unsubscribe from room channel");
+      metrics.trackError();
+    }
+  }
+
+  // Add a connection to a room, subscribing this instance to the room if needed.
+  // With sinceSeq, the connection is first sent the events it missed after that seq.
+  async function joinRoom(
+    connectionId: string,
+    roomId: string,
+    sinceSeq?: number,
+  ): Promise<RoomSync | null> {
+    const connection = connections.get(connectionId);
+    if (!connection) return null;
+    if (connection.rooms.has(roomId)) return getRoomSync(roomId);
+
+    connection.rooms.add(roomId);
+    // Hold back live events from the moment the room is subscribed until the replay is sent
+    const bufferKey = getReplayBufferKey(connectionId, roomId);
+    if (sinceSeq !== undefined) {
+      replayBuffers.set(bufferKey, []);
+    }
+
+    try {
+      await retainRoomSubscription(roomId);
+    } catch (error) {
+      replayBuffers.delete(bufferKey);
+      connection.rooms.delete(roomId);
+      await releaseRoomSubscription(roomId);
+      throw error;
+    }
+
+    return sinceSeq === undefined
+      ? getRoomSync(roomId)
+      : replayMissedEvents(connectionId, roomId, sinceSeq);
+  }
+
+  // Current position in a room's event stream, for a connection that needs no replay
+  async function getRoomSync(roomId: string): Promise<RoomSync> {
+    try {
+      return { seq: await roomEvents.getSeq(roomId), replayed: 0, refetch: false };
+    } catch (error) {
+      fastify.log.error({ error, roomId }, "Failed to read room event seq");
+      metrics.trackError();
+      return { seq: 0, replayed: 0, refetch: false };
+    }
+  }
+
+  // Send a joining connection the events it missed, then the live events held back meanwhile
+  async function replayMissedEvents(
+    connectionId: string,
+    roomId: string,
+    sinceSeq: number,
+  ): Promise<RoomSync> {
+    let replay: RoomEventReplay = { seq: 0, events: null };
+    try {
+      replay = await roomEvents.readSince(roomId, sinceSeq, ROOM_EVENT_REPLAY_LIMIT);
+    } catch (error) {
+      fastify.log.error({ error, connectionId, roomId }, "Failed to read missed room events");
+      metrics.trackError();
+    }
+
+    const bufferKey = getReplayBufferKey(connectionId, roomId);
+    const buffered = replayBuffers.get(bufferKey) ?? [];
+    replayBuffers.delete(bufferKey);
+
+    const connection = connections.get(connectionId);
+    const userId = connection?.user?.userId;
+    const missed = (replay.events ?? [])
+      .filter((event) => !event.userIds || (userId && event.userIds.includes(userId)))
+      .map((event) => event.message);
+    // Live events up to the replayed seq were part of the replay (or of the refetched history)
+    const live = buffered.filter(
+      (message) => message.seq === undefined || message.seq > replay.seq,
+    );
+
+    if (connection?.rooms.has(roomId) && connection.socket.readyState === 1) {
+      for (const message of [...missed, ...live]) {
+        try {
+          connection.socket.send(JSON.stringify(message));
+        } catch (error) {
+          fastify.log.error(
+            { error, connectionId, roomId, messageType: message.type },
+            "Failed to send replayed WebSocket message",
+          );
+          metrics.trackError();
+        }
+      }
+      connection.lastActivity = new Date();
+    }
+
+    // The client takes the sync's seq as its position, so count the live events sent too
+    const seq = live.reduce((last, message) => Math.max(last, message.seq ?? 0), replay.seq);
+    return { seq, replayed: missed.length, refetch: replay.events === null };
+  }
+
+  // Remove a connection from a room, unsubscribing once no local connection is left in it
+  async function leaveRoom(connectionId: string, roomId: string) {
+    const connection = connections.get(connectionId);
+    if (!connection || !connection.rooms.delete(roomId)) return;
+    connection.spectating.delete(roomId);
+    replayBuffers.delete(getReplayBufferKey(connectionId, roomId));
+
+    await releaseRoomSubscription(roomId);
+  }
+
+  // Close local connections belonging to a revoked session
+  function closeSessionConnections(revocation: SessionRevocation) {
+    for (const [connectionId, connection] of connections) {
+      if (connection.user?.userId !== revocation.userId) continue;
+      if (revocation.sessionId && connection.sessionId !== revocation.sessionId) continue;
+
+      try {
+        connection.socket.close(WEBSOCKET_CLOSE_CODES.SESSION_ENDED, "Session ended");
+      } catch (error) {
+        fastify.log.error({ error, connectionId }, "Failed to close revoked WebSocket session");
+      }
+    }
+  }
+
+  // Publish session revocation so every instance drops the session's sockets
+  async function disconnectSession(revocation: SessionRevocation) {
+    try {
+      await pubClient.publish(SESSION_REVOKED_CHANNEL, JSON.stringify(revocation));
+    } catch (error) {
+      fastify.log.error(
+        { error, userId: revocation.userId },
+        "Failed to publish WebSocket session revocation",
+      );
+      // Still close connections held by this instance
+      closeSessionConnections(revocation);
+    }
+  }
+
+  // Drop local connections from a room and tell their clients
+  function removeConnectionsFromRoom(revocation: RoomAccessRevocation) {
+    for (const [connectionId, connection] of connections) {
+      if (!connection.rooms.has(revocation.roomId)) continue;
+      if (revocation.userId && connection.user?.userId !== revocation.userId) continue;
+      if (revocation.spectatorsOnly && !connection.spectating.has(revocation.roomId)) continue;
+
+      connection.rooms.delete(revocation.roomId);
+      const spectating = connection.spectating.delete(revocation.roomId);
+      replayBuffers.delete(getReplayBufferKey(connectionId, revocation.roomId));
+      void releaseRoomSubscription(revocation.roomId);
+
+      for (const listener of roomAccessRevokedListeners) {
+        listener({
+          connectionId,
+          roomId: revocation.roomId,
+          userId: connection.user?.userId,
+          spectating,
+        });
+      }
+
+      if (connection.socket.readyState === 1) {
+        try {
+          connection.socket.send(
+            JSON.stringify({
+              type: WEBSOCKET_EVENTS.ROOM_ACCESS_REVOKED,
+              data: { roomId: revocation.roomId },
+            }),
+          );
+        } catch (error) {
+          fastify.log.error({ error, connectionId }, "Failed to send room access revocation");
+        }
+      }
+    }
+  }
+
+  // Publish room access revocation so every instance drops the affected sockets
+  async function revokeRoomAccess(revocation: RoomAccessRevocation) {
+    try {
+      await pubClient.publish(ROOM_ACCESS_REVOKED_CHANNEL, JSON.stringify(revocation));
+    } catch (error) {
+      fastify.log.error(
+        { error, roomId: revocation.roomId, userId: revocation.userId },
+        "Failed to publish WebSocket room access revocation",
+      );
+      // Still drop connections held by this instance
+      removeConnectionsFromRoom(revocation);
+    }
+  }
+
+  try {
+    await subClient.subscribe(
+      SESSION_REVOKED_CHANNEL,
+      ROOM_ACCESS_REVOKED_CHANNEL,
+      ROOM_USERS_CHANNEL,
+    );
+  } catch (error) {
+    fastify.log.error({ error }, "Failed to subscribe to WebSocket control channels");
+    throw error;
+  }
+
   // Connection cleanup function
   function cleanupConnection(connectionId: string) {
     const connection = connections.get(connectionId);
     if (connection) {
-      // Leave all rooms
+      // Release room subscriptions held by this connection
       for (const room of connection.rooms) {
-        try {
-          subClient.unsubscribe(room);
-        } catch (error) {
-          fastify.log.error({ error, room, connectionId }, "Failed to unsubscribe from room");
-        }
+        replayBuffers.delete(getReplayBufferKey(connectionId, room));
+        void releaseRoomSubscription(room);
       }
 
       // Remove connection
@@ -213,9 +648,20 @@ const websocketPlugin: FastifyPluginAsync = async (fastify) => {
   // Add helper methods to fastify instance
   fastify.decorate("websocketBroadcast", broadcastToRoom);
   fastify.decorate("websocketPublish", publishToRoom);
+  fastify.decorate("websocketPublishToUsers", publishToRoomUsers);
   fastify.decorate("websocketConnections", connections);
   fastify.decorate("websocketMetrics", metrics);
   fastify.decorate("websocketCleanup", cleanupConnection);
+  fastify.decorate("websocketJoinRoom", joinRoom);
+  fastify.decorate("websocketLeaveRoom", leaveRoom);
+  fastify.decorate("websocketDisconnectSession", disconnectSession);
+  fastify.decorate("websocketRevokeRoomAccess", revokeRoomAccess);
+  fastify.decorate(
+    "websocketOnRoomAccessRevoked",
+    (listener: (revoked: RevokedRoomConnection) => void) => {
+      roomAccessRevokedListeners.push(listener);
+    },
+  );
 
   // Periodic cleanup of stale connections
   const cleanupInterval = setInterval(() => {
@@ -247,6 +693,8 @@ const websocketPlugin: FastifyPluginAsync = async (fastify) => {
     }
 
     connections.clear();
+    roomSubscriptions.clear();
+    replayBuffers.clear();
 
     // Close Redis connections
     try {
@@ -0,0 +1,38 @@
+import type { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { env } from "../config/env";
+import { SummaryService } from "../services/summary.service";
+import { scheduleBackgroundJob } from "../utils/background-job.util";
+
+// Rooms summarized per run; each is one model call
+const ROOMS_PER_RUN = 5;
+
+/**
+ * Background job that folds older room history into rolling session summaries
+ */
+const summaryPlugin: FastifyPluginAsync = async (fastify) => {
+  // Tests summarize explicitly instead of racing a background job
+  if (env.NODE_ENV === "test") {
+    return;
+  }
+
+  const summaryService = new SummaryService(fastify.db, fastify.log);
+
+  scheduleBackgroundJob(fastify, {
+    name: "summary",
+    intervalMs: 60000,
+    lockSeconds: 600,
+    run: async () => {
+      const roomIds = await summaryService.findRoomsToSummarize(ROOMS_PER_RUN);
+      for (const roomId of roomIds) {
+        // One failing room must not hold up the others; the service logs the failure
+        await summaryService.summarizeRoom(roomId).catch(() => null);
+      }
+    },
+  });
+};
+
+export default fp(summaryPlugin, {
+  name: "summary",
+  dependencies: ["redis", "database"],
+});
@@ -0,0 +1,55 @@
+import { roomIdSchema } from "@rpgate/shared/schemas";
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import { AiUsageError, AiUsageService } from "../../../services/ai-usage.service";
+import { createErrorResponse, createSuccessResponse } from "../../../utils/response.util";
+import { createValidationHook } from "../../../utils/validation.util";
+import "../../../types/session.types";
+
+/**
+ * Room AI usage routes plugin
+ * Registered under /rooms/:id/ai-usage
+ */
+const aiUsageRoutes: FastifyPluginAsync = async (fastify) => {
+  const aiUsageService = new AiUsageService(fastify.db, fastify.redis, fastify.log);
+
+  /**
+   * GET /api/v1/rooms/:id/ai-usage
+   * Token usage of the room today and this month, with its caps
+   * Requires authentication and the manage room permission (owner or GM)
+   */
+  fastify.get<{ Params: { id: string } }>(
+    "/",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [createValidationHook(roomIdSchema, "params")],
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        const usage = await aiUsageService.getRoomUsage(request.params.id, request.user.id);
+
+        return createSuccessResponse({ usage }, request);
+      } catch (error) {
+        if (error instanceof AiUsageError) {
+          reply.status(error.statusCode);
+          return createErrorResponse(
+            error.message || "Не удалось загрузить использование ИИ",
+            error.statusCode,
+            request,
+            error.code,
+          );
+        }
+
+        fastify.log.error({ error, correlationId: request.id }, "Fetch AI usage error");
+        reply.status(500);
+        return createErrorResponse("Внутренняя ошибка сервера", 500, request, "INTERNAL_ERROR");
+      }
+    },
+  );
+};
+
+export default aiUsageRoutes;
@@ -1,4 +1,5 @@
 import type { FastifyPluginAsync, FastifyRequest, FastifyReply } from "fastify";
+import { randomUUID } from "node:crypto";
 import { registerSchema, loginSchema } from "@rpgate/shared/schemas";
 import type { RegisterInput, LoginInput } from "@rpgate/shared/schemas";
 import { AuthService } from "../../../services/auth.service";
@@ -64,6 +65,7 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
         if (result.user) {
           (request.session as any).set("userId", result.user.id);
           (request.session as any).set("username", result.user.username);
+          (request.session as any).set("sessionId", randomUUID());
         }
 
         reply.status(201);
@@ -99,6 +101,7 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
         if (result.user) {
           (request.session as any).set("userId", result.user.id);
           (request.session as any).set("username", result.user.username);
+          (request.session as any).set("sessionId", randomUUID());
         }
 
         return createSuccessResponse({ user: result.user }, request);
@@ -119,6 +122,7 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
     const session = request.session as any;
     const userId = session.get("userId");
     const username = session.get("username");
+    const sessionId = session.get("sessionId");
 
     try {
       // Log successful logout
@@ -126,6 +130,11 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
         await authService.logout(userId, username, context);
       }
 
+      // Close WebSocket connections opened with this session
+      if (userId) {
+        await fastify.websocketDisconnectSession({ userId, sessionId });
+      }
+
       // Clear session data
       session.delete();
 
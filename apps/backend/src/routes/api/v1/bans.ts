@@ -0,0 +1,169 @@
+import { banMemberSchema, roomIdSchema, roomMemberParamsSchema } from "@rpgate/shared/schemas";
+import type { BanMemberInput, RoomMemberParamsInput } from "@rpgate/shared/schemas";
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import { ModerationError, ModerationService } from "../../../services/moderation.service";
+import { RoomService } from "../../../services/room.service";
+import { createErrorResponse, createSuccessResponse } from "../../../utils/response.util";
+import { createValidationHook } from "../../../utils/validation.util";
+import {
+  notifyMemberCountUpdate,
+  notifyMessage,
+  revokeRoomAccess,
+} from "../../../utils/websocket.util";
+import "../../../types/session.types";
+
+/**
+ * Room ban routes plugin
+ * Registered under /rooms/:id/bans
+ */
+const banRoutes: FastifyPluginAsync = async (fastify) => {
+  const moderationService = new ModerationService(fastify.db, fastify.redis, fastify.log);
+  const roomService = new RoomService(fastify.db, fastify.redis, fastify.log);
+
+  // Map ModerationError to its status code, anything else to a 500
+  const handleError = (
+    error: unknown,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    fallbackMessage: string,
+    logMessage: string,
+  ) => {
+    if (error instanceof ModerationError) {
+      reply.status(error.statusCode);
+      return createErrorResponse(
+        error.message || fallbackMessage,
+        error.statusCode,
+        request,
+        error.code,
+      );
+    }
+
+    fastify.log.error({ error, correlationId: request.id }, logMessage);
+    reply.status(500);
+    return createErrorResponse("Внутренняя ошибка сервера", 500, request, "INTERNAL_ERROR");
+  };
+
+  /**
+   * GET /api/v1/rooms/:id/bans
+   * List the room's bans that still apply, newest first
+   * Requires authentication and the kick permission (owner or GM)
+   */
+  fastify.get<{ Params: { id: string } }>(
+    "/",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [createValidationHook(roomIdSchema, "params")],
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        const bans = await moderationService.listBans(request.params.id, request.user.id);
+
+        return createSuccessResponse({ bans }, request);
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось загрузить список блокировок",
+          "Fetch room bans error",
+        );
+      }
+    },
+  );
+
+  /**
+   * POST /api/v1/rooms/:id/bans
+   * Ban a user, removing them from the room if they are a member
+   * Requires authentication, the kick permission (owner or GM) and a higher role than the member
+   */
+  fastify.post<{ Params: { id: string }; Body: BanMemberInput }>(
+    "/",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [
+        createValidationHook(roomIdSchema, "params"),
+        createValidationHook(banMemberSchema, "body"),
+      ],
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: BanMemberInput }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        const roomId = request.params.id;
+        const result = await moderationService.banMember(roomId, request.user.id, request.body);
+
+        // Disconnect the banned user from live room events, then notify the rest
+        await revokeRoomAccess(fastify, roomId, result.ban.userId);
+        await notifyMessage(fastify, roomId, result.message);
+
+        if (result.removed) {
+          const room = await roomService.getRoomById(roomId, request.user.id);
+          if (room) {
+            await notifyMemberCountUpdate(fastify, roomId, room.memberCount);
+          }
+        }
+
+        reply.status(201);
+        return createSuccessResponse({ ban: result.ban }, request);
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось заблокировать пользователя",
+          "Ban room member error",
+        );
+      }
+    },
+  );
+
+  /**
+   * DELETE /api/v1/rooms/:id/bans/:userId
+   * Lift a user's ban; they can join again but are not added back
+   * Requires authentication and the kick permission (owner or GM)
+   */
+  fastify.delete<{ Params: RoomMemberParamsInput }>(
+    "/:userId",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [createValidationHook(roomMemberParamsSchema, "params")],
+    },
+    async (request: FastifyRequest<{ Params: RoomMemberParamsInput }>, reply: FastifyReply) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        await moderationService.unbanMember(
+          request.params.id,
+          request.user.id,
+          request.params.userId,
+        );
+
+        return createSuccessResponse({ message: "Блокировка снята" }, request);
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось снять блокировку",
+          "Lift room ban error",
+        );
+      }
+    },
+  );
+};
+
+export default banRoutes;
@@ -0,0 +1,284 @@
+import {
+  characterParamsSchema,
+  createCharacterSchema,
+  roomIdSchema,
+  updateCharacterSchema,
+} from "@rpgate/shared/schemas";
+import type {
+  CharacterParamsInput,
+  CreateCharacterInput,
+  UpdateCharacterInput,
+} from "@rpgate/shared/schemas";
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import { CharacterError, CharacterService } from "../../../services/character.service";
+import { createErrorResponse, createSuccessResponse } from "../../../utils/response.util";
+import { createValidationHook } from "../../../utils/validation.util";
+import "../../../types/session.types";
+
+/**
+ * Character sheet routes plugin
+ * Registered under /rooms/:id/characters
+ */
+const characterRoutes: FastifyPluginAsync = async (fastify) => {
+  const characterService = new CharacterService(fastify.db, fastify.log);
+
+  // Map CharacterError to its status code, anything else to a 500
+  const handleError = (
+    error: unknown,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    fallbackMessage: string,
+    logMessage: string,
+  ) => {
+    if (error instanceof CharacterError) {
+      reply.status(error.statusCode);
+      return createErrorResponse(
+        error.message || fallbackMessage,
+        error.statusCode,
+        request,
+        error.code,
+      );
+    }
+
+    fastify.log.error({ error, correlationId: request.id }, logMessage);
+    reply.status(500);
+    return createErrorResponse("Внутренняя ошибка сервера", 500, request, "INTERNAL_ERROR");
+  };
+
+  /**
+   * GET /api/v1/rooms/:id/characters
+   * List the characters in a room
+   * Requires authentication and membership
+   */
+  fastify.get<{ Params: { id: string } }>(
+    "/",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [createValidationHook(roomIdSchema, "params")],
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        const characters = await characterService.listCharacters(
+          request.params.id,
+          request.user.id,
+        );
+
+        return createSuccessResponse({ characters }, request);
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось загрузить персонажей",
+          "Fetch characters error",
+        );
+      }
+    },
+  );
+
+  /**
+   * POST /api/v1/rooms/:id/characters
+   * Create a character for the authenticated member (becomes active if they have none)
+   * Requires authentication and membership
+   */
+  fastify.post<{ Params: { id: string }; Body: CreateCharacterInput }>(
+    "/",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [
+        createValidationHook(roomIdSchema, "params"),
+        createValidationHook(createCharacterSchema, "body"),
+      ],
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: CreateCharacterInput }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        const character = await characterService.createCharacter(
+          request.params.id,
+          request.user.id,
+          request.body,
+        );
+
+        reply.status(201);
+        return createSuccessResponse({ character }, request);
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось создать персонажа",
+          "Create character error",
+        );
+      }
+    },
+  );
+
+  /**
+   * GET /api/v1/rooms/:id/characters/:characterId
+   * Get a character sheet
+   * Requires authentication and membership
+   */
+  fastify.get<{ Params: CharacterParamsInput }>(
+    "/:characterId",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [createValidationHook(characterParamsSchema, "params")],
+    },
+    async (request: FastifyRequest<{ Params: CharacterParamsInput }>, reply: FastifyReply) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        const character = await characterService.getCharacter(
+          request.params.id,
+          request.params.characterId,
+          request.user.id,
+        );
+
+        return createSuccessResponse({ character }, request);
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось загрузить персонажа",
+          "Fetch character error",
+        );
+      }
+    },
+  );
+
+  /**
+   * PATCH /api/v1/rooms/:id/characters/:characterId
+   * Update a character sheet
+   * Requires authentication; the character's player or the room owner
+   */
+  fastify.patch<{ Params: CharacterParamsInput; Body: UpdateCharacterInput }>(
+    "/:characterId",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [
+        createValidationHook(characterParamsSchema, "params"),
+        createValidationHook(updateCharacterSchema, "body"),
+      ],
+    },
+    async (
+      request: FastifyRequest<{ Params: CharacterParamsInput; Body: UpdateCharacterInput }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        const character = await characterService.updateCharacter(
+          request.params.id,
+          request.params.characterId,
+          request.user.id,
+          request.body,
+        );
+
+        return createSuccessResponse({ character }, request);
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось обновить персонажа",
+          "Update character error",
+        );
+      }
+    },
+  );
+
+  /**
+   * DELETE /api/v1/rooms/:id/characters/:characterId
+   * Delete a character
+   * Requires authentication; the character's player or the room owner
+   */
+  fastify.delete<{ Params: CharacterParamsInput }>(
+    "/:characterId",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [createValidationHook(characterParamsSchema, "params")],
+    },
+    async (request: FastifyRequest<{ Params: CharacterParamsInput }>, reply: FastifyReply) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        await characterService.deleteCharacter(
+          request.params.id,
+          request.params.characterId,
+          request.user.id,
+        );
+
+        return createSuccessResponse({ message: "Персонаж удалён" }, request);
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось удалить персонажа",
+          "Delete character error",
+        );
+      }
+    },
+  );
+
+  /**
+   * POST /api/v1/rooms/:id/characters/:characterId/activate
+   * Make one of the member's own characters their active character in the room
+   * Requires authentication; the character's player only
+   */
+  fastify.post<{ Params: CharacterParamsInput }>(
+    "/:characterId/activate",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [createValidationHook(characterParamsSchema, "params")],
+    },
+    async (request: FastifyRequest<{ Params: CharacterParamsInput }>, reply: FastifyReply) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        const character = await characterService.activateCharacter(
+          request.params.id,
+          request.params.characterId,
+          request.user.id,
+        );
+
+        return createSuccessResponse({ character }, request);
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось выбрать персонажа",
+          "Activate character error",
+        );
+      }
+    },
+  );
+};
+
+export default characterRoutes;
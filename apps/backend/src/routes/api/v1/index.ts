@@ -6,6 +6,12 @@ import testRoutes from "./test";
 import authRoutes from "./auth";
 import userRoutes from "./users";
 import roomRoutes from "./rooms";
+import messageRoutes from "./messages";
+import characterRoutes from "./characters";
+import summaryRoutes from "./summaries";
+import aiUsageRoutes from "./ai-usage";
+import banRoutes from "./bans";
+import muteRoutes from "./mutes";
 
 /**
  * API v1 routes plugin
@@ -25,6 +31,12 @@ const v1Routes: FastifyPluginAsync = async (fastify) => {
           auth: "/auth",
           users: "/users",
           rooms: "/rooms",
+          messages: "/rooms/:id/messages",
+          characters: "/rooms/:id/characters",
+          summaries: "/rooms/:id/summaries",
+          aiUsage: "/rooms/:id/ai-usage",
+          bans: "/rooms/:id/bans",
+          mutes: "/rooms/:id/mutes",
           monitoring: "/monitoring",
         },
       },
@@ -37,12 +49,15 @@ const v1Routes: FastifyPluginAsync = async (fastify) => {
   await fastify.register(authRoutes, { prefix: "/auth" });
   await fastify.register(userRoutes, { prefix: "/users" });
   await fastify.register(roomRoutes, { prefix: "/rooms" });
+  await fastify.register(messageRoutes, { prefix: "/rooms/:id/messages" });
+  await fastify.register(characterRoutes, { prefix: "/rooms/:id/characters" });
+  await fastify.register(summaryRoutes, { prefix: "/rooms/:id/summaries" });
+  await fastify.register(aiUsageRoutes, { prefix: "/rooms/:id/ai-usage" });
+  await fastify.register(banRoutes, { prefix: "/rooms/:id/bans" });
+  await fastify.register(muteRoutes, { prefix: "/rooms/:id/mutes" });
 
   // Note: Monitoring endpoints are registered directly in the logging plugin
   // to have access to the request monitor instance
-
-  // Future feature routes will be registered here:
-  // await fastify.register(messageRoutes, { prefix: "/messages" });
 };
 
 export default v1Routes;
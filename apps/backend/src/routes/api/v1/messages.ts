@@ -0,0 +1,187 @@
+import {
+  editMessageSchema,
+  messageHistoryQuerySchema,
+  messageParamsSchema,
+  roomIdSchema,
+} from "@rpgate/shared/schemas";
+import type {
+  EditMessageInput,
+  MessageHistoryQuery,
+  MessageParamsInput,
+} from "@rpgate/shared/schemas";
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import { MessageError, MessageService } from "../../../services/message.service";
+import { ModerationError, ModerationService } from "../../../services/moderation.service";
+import {
+  createErrorResponse,
+  createPaginatedResponse,
+  createSuccessResponse,
+} from "../../../utils/response.util";
+import { createValidationHook } from "../../../utils/validation.util";
+import { notifyMessageDeleted, notifyMessageUpdated } from "../../../utils/websocket.util";
+import "../../../types/session.types";
+
+/**
+ * Room message history routes plugin
+ * Registered under /rooms/:id/messages
+ */
+const messageRoutes: FastifyPluginAsync = async (fastify) => {
+  const messageService = new MessageService(fastify.db, fastify.log);
+  const moderationService = new ModerationService(fastify.db, fastify.redis, fastify.log);
+
+  // Map MessageError and ModerationError to their status code, anything else to a 500
+  const handleError = (
+    error: unknown,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    fallbackMessage: string,
+    logMessage: string,
+  ) => {
+    if (error instanceof MessageError || error instanceof ModerationError) {
+      reply.status(error.statusCode);
+      return createErrorResponse(
+        error.message || fallbackMessage,
+        error.statusCode,
+        request,
+        error.code,
+      );
+    }
+
+    fastify.log.error({ error, correlationId: request.id }, logMessage);
+    reply.status(500);
+    return createErrorResponse("Внутренняя ошибка сервера", 500, request, "INTERNAL_ERROR");
+  };
+
+  /**
+   * GET /api/v1/rooms/:id/messages?before=<cursor>&limit=
+   * Get room message history, newest first, with an opaque cursor for older pages
+   * Requires authentication and membership, or spectating a public room that allows it
+   */
+  fastify.get<{ Params: { id: string }; Querystring: MessageHistoryQuery }>(
+    "/",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [
+        createValidationHook(roomIdSchema, "params"),
+        createValidationHook(messageHistoryQuerySchema, "query"),
+      ],
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Querystring: MessageHistoryQuery }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        const page = await messageService.getRoomMessages(
+          request.params.id,
+          request.user.id,
+          request.query,
+        );
+
+        return createPaginatedResponse(page.messages, request, {
+          limit: request.query.limit,
+          nextCursor: page.nextCursor,
+        });
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось загрузить сообщения",
+          "Fetch room messages error",
+        );
+      }
+    },
+  );
+
+  /**
+   * PATCH /api/v1/rooms/:id/messages/:messageId
+   * Edit a message and broadcast the new version
+   * Requires authentication; the author only, within the edit window and not while muted
+   */
+  fastify.patch<{ Params: MessageParamsInput; Body: EditMessageInput }>(
+    "/:messageId",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [
+        createValidationHook(messageParamsSchema, "params"),
+        createValidationHook(editMessageSchema, "body"),
+      ],
+    },
+    async (
+      request: FastifyRequest<{ Params: MessageParamsInput; Body: EditMessageInput }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        await moderationService.assertCanPost(request.params.id, request.user.id);
+
+        const message = await messageService.editMessage(
+          request.params.id,
+          request.params.messageId,
+          request.user.id,
+          request.body,
+        );
+        await notifyMessageUpdated(fastify, message);
+
+        return createSuccessResponse({ message }, request);
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось изменить сообщение",
+          "Edit message error",
+        );
+      }
+    },
+  );
+
+  /**
+   * DELETE /api/v1/rooms/:id/messages/:messageId
+   * Delete a message; it is kept in the audit trail but hidden from history
+   * Requires authentication; the author or the room owner
+   */
+  fastify.delete<{ Params: MessageParamsInput }>(
+    "/:messageId",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [createValidationHook(messageParamsSchema, "params")],
+    },
+    async (request: FastifyRequest<{ Params: MessageParamsInput }>, reply: FastifyReply) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        const message = await messageService.deleteMessage(
+          request.params.id,
+          request.params.messageId,
+          request.user.id,
+        );
+        await notifyMessageDeleted(fastify, message);
+
+        return createSuccessResponse({ message: "Сообщение удалено" }, request);
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось удалить сообщение",
+          "Delete message error",
+        );
+      }
+    },
+  );
+};
+
+export default messageRoutes;
@@ -0,0 +1,122 @@
+import { muteMemberSchema, roomIdSchema, roomMemberParamsSchema } from "@rpgate/shared/schemas";
+import type { MuteMemberInput, RoomMemberParamsInput } from "@rpgate/shared/schemas";
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import { ModerationError, ModerationService } from "../../../services/moderation.service";
+import { createErrorResponse, createSuccessResponse } from "../../../utils/response.util";
+import { createValidationHook } from "../../../utils/validation.util";
+import "../../../types/session.types";
+
+/**
+ * Room mute routes plugin
+ * Registered under /rooms/:id/mutes
+ */
+const muteRoutes: FastifyPluginAsync = async (fastify) => {
+  const moderationService = new ModerationService(fastify.db, fastify.redis, fastify.log);
+
+  // Map ModerationError to its status code, anything else to a 500
+  const handleError = (
+    error: unknown,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    fallbackMessage: string,
+    logMessage: string,
+  ) => {
+    if (error instanceof ModerationError) {
+      reply.status(error.statusCode);
+      return createErrorResponse(
+        error.message || fallbackMessage,
+        error.statusCode,
+        request,
+        error.code,
+      );
+    }
+
+    fastify.log.error({ error, correlationId: request.id }, logMessage);
+    reply.status(500);
+    return createErrorResponse("Внутренняя ошибка сервера", 500, request, "INTERNAL_ERROR");
+  };
+
+  /**
+   * POST /api/v1/rooms/:id/mutes
+   * Mute a member for a while; muted members cannot post, edit, react or roll
+   * Requires authentication, the moderate messages permission (owner, GM or co-GM)
+   * and a higher role than the member
+   */
+  fastify.post<{ Params: { id: string }; Body: MuteMemberInput }>(
+    "/",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [
+        createValidationHook(roomIdSchema, "params"),
+        createValidationHook(muteMemberSchema, "body"),
+      ],
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: MuteMemberInput }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        const mute = await moderationService.muteMember(
+          request.params.id,
+          request.user.id,
+          request.body,
+        );
+
+        reply.status(201);
+        return createSuccessResponse({ mute }, request);
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось заглушить участника",
+          "Mute room member error",
+        );
+      }
+    },
+  );
+
+  /**
+   * DELETE /api/v1/rooms/:id/mutes/:userId
+   * Lift a member's mute
+   * Requires authentication and the moderate messages permission (owner, GM or co-GM)
+   */
+  fastify.delete<{ Params: RoomMemberParamsInput }>(
+    "/:userId",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [createValidationHook(roomMemberParamsSchema, "params")],
+    },
+    async (request: FastifyRequest<{ Params: RoomMemberParamsInput }>, reply: FastifyReply) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        await moderationService.unmuteMember(
+          request.params.id,
+          request.user.id,
+          request.params.userId,
+        );
+
+        return createSuccessResponse({ message: "Участник снова может писать" }, request);
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось снять заглушение",
+          "Unmute room member error",
+        );
+      }
+    },
+  );
+};
+
+export default muteRoutes;
@@ -5,12 +5,16 @@ import {
   paginationSchema,
   generateInviteSchema,
   roomIdSchema,
+  roomMemberParamsSchema,
+  changeMemberRoleSchema,
 } from "@rpgate/shared/schemas";
 import type {
   CreateRoomInput,
   UpdateRoomInput,
   PaginationInput,
   GenerateInviteInput,
+  RoomMemberParamsInput,
+  ChangeMemberRoleInput,
 } from "@rpgate/shared/schemas";
 import { RoomService } from "../../../services/room.service";
 import { InviteService } from "../../../services/invite.service";
@@ -23,8 +27,9 @@ import {
 import {
   notifyRoomUpdate,
   notifyMemberCountUpdate,
-  notifyUserJoined,
-  notifyUserLeft,
+  notifyMessage,
+  revokeRoomAccess,
+  revokeSpectatorAccess,
 } from "../../../utils/websocket.util";
 import { createValidationHook } from "../../../utils/validation.util";
 import "../../../types/session.types";
@@ -167,8 +172,8 @@ const roomRoutes: FastifyPluginAsync = async (fastify) => {
 
   /**
    * PUT /api/v1/rooms/:id
-   * Update room settings (owner only)
-   * Requires authentication and ownership
+   * Update room settings
+   * Requires authentication and the manage room permission (owner or GM)
    */
   fastify.put<{ Params: { id: string }; Body: UpdateRoomInput }>(
     "/:id",
@@ -189,11 +194,20 @@ const roomRoutes: FastifyPluginAsync = async (fastify) => {
           return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
         }
 
-        const room = await roomService.updateRoom(request.params.id, request.user.id, request.body);
+        const { room, spectatingEnded } = await roomService.updateRoom(
+          request.params.id,
+          request.user.id,
+          request.body,
+        );
 
         // Notify all room members about the update via WebSocket
         await notifyRoomUpdate(fastify, request.params.id, room);
 
+        // Spectators may no longer follow the room
+        if (spectatingEnded) {
+          await revokeSpectatorAccess(fastify, request.params.id);
+        }
+
         return createSuccessResponse({ room }, request);
       } catch (error: any) {
         // Handle RoomError with specific status codes
@@ -217,7 +231,7 @@ const roomRoutes: FastifyPluginAsync = async (fastify) => {
   /**
    * DELETE /api/v1/rooms/:id
    * Delete a room (owner only)
-   * Requires authentication and ownership
+   * Requires authentication and the delete room permission
    */
   fastify.delete<{ Params: { id: string } }>(
     "/:id",
@@ -234,6 +248,9 @@ const roomRoutes: FastifyPluginAsync = async (fastify) => {
 
         await roomService.deleteRoom(request.params.id, request.user.id);
 
+        // Drop every live connection from the deleted room
+        await revokeRoomAccess(fastify, request.params.id);
+
         return createSuccessResponse({ message: "Комната успешно удалена" }, request);
       } catch (error: any) {
         // Handle RoomError with specific status codes
@@ -272,18 +289,18 @@ const roomRoutes: FastifyPluginAsync = async (fastify) => {
           return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
         }
 
-        const { joined } = await roomService.joinRoom(request.params.id, request.user.id);
+        const { joined, message: joinMessage } = await roomService.joinRoom(
+          request.params.id,
+          request.user.id,
+        );
 
         // Get updated room details to return consistent metadata
         const room = await roomService.getRoomById(request.params.id, request.user.id);
         const memberCount = room?.memberCount || 0;
 
-        if (joined) {
+        if (joinMessage) {
           // Notify all room members via WebSocket only when a new member joins
-          await notifyUserJoined(fastify, request.params.id, {
-            id: request.user.id,
-            username: request.user.username,
-          });
+          await notifyMessage(fastify, request.params.id, joinMessage);
           await notifyMemberCountUpdate(fastify, request.params.id, memberCount);
         }
 
@@ -339,11 +356,14 @@ const roomRoutes: FastifyPluginAsync = async (fastify) => {
         const roomId = request.params.id;
         const userId = request.user.id;
 
-        // Notify before leaving (so user is still in room for WebSocket)
-        await notifyUserLeft(fastify, roomId, userId);
-
         // Leave the room
-        await roomService.leaveRoom(roomId, userId);
+        const systemMessages = await roomService.leaveRoom(roomId, userId);
+
+        // Stop delivering room events to the user's open connections, then notify the rest
+        await revokeRoomAccess(fastify, roomId, userId);
+        for (const systemMessage of systemMessages) {
+          await notifyMessage(fastify, roomId, systemMessage);
+        }
 
         // Get updated member count and notify
         try {
@@ -379,8 +399,8 @@ const roomRoutes: FastifyPluginAsync = async (fastify) => {
 
   /**
    * POST /api/v1/rooms/:id/invite
-   * Generate an invite link for the room (owner only)
-   * Requires authentication and ownership
+   * Generate an invite link for the room
+   * Requires authentication and the manage invites permission (owner, GM or co-GM)
    */
   fastify.post<{ Params: { id: string }; Body: GenerateInviteInput }>(
     "/:id/invite",
@@ -468,12 +488,9 @@ const roomRoutes: FastifyPluginAsync = async (fastify) => {
         const room = await roomService.getRoomById(result.roomId, request.user.id);
         const memberCount = room?.memberCount || 0;
 
-        if (result.joined) {
+        if (result.message) {
           // Notify all room members via WebSocket
-          await notifyUserJoined(fastify, result.roomId, {
-            id: request.user.id,
-            username: request.user.username,
-          });
+          await notifyMessage(fastify, result.roomId, result.message);
           await notifyMemberCountUpdate(fastify, result.roomId, memberCount);
         }
 
@@ -549,6 +566,114 @@ const roomRoutes: FastifyPluginAsync = async (fastify) => {
       }
     },
   );
+
+  /**
+   * DELETE /api/v1/rooms/:id/members/:userId
+   * Remove (kick) a member from the room
+   * Requires authentication, the kick permission (owner or GM) and a higher role than the member
+   */
+  fastify.delete<{ Params: RoomMemberParamsInput }>(
+    "/:id/members/:userId",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [createValidationHook(roomMemberParamsSchema, "params")],
+    },
+    async (request: FastifyRequest<{ Params: RoomMemberParamsInput }>, reply: FastifyReply) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        const { id: roomId, userId } = request.params;
+
+        const systemMessage = await roomService.removeMember(roomId, request.user.id, userId);
+
+        // Disconnect the removed member from live room events, then notify the rest
+        await revokeRoomAccess(fastify, roomId, userId);
+        await notifyMessage(fastify, roomId, systemMessage);
+
+        const room = await roomService.getRoomById(roomId, request.user.id);
+        if (room) {
+          await notifyMemberCountUpdate(fastify, roomId, room.memberCount);
+        }
+
+        return createSuccessResponse({ message: "Участник удалён из комнаты" }, request);
+      } catch (error: any) {
+        // Handle RoomError with specific status codes
+        if (error.statusCode) {
+          reply.status(error.statusCode);
+          return createErrorResponse(
+            error.message || "Не удалось удалить участника",
+            error.statusCode,
+            request,
+            error.code || "REMOVE_MEMBER_FAILED",
+          );
+        }
+
+        fastify.log.error({ error, correlationId: request.id }, "Remove room member error");
+        reply.status(500);
+        return createErrorResponse("Внутренняя ошибка сервера", 500, request, "INTERNAL_ERROR");
+      }
+    },
+  );
+
+  /**
+   * PATCH /api/v1/rooms/:id/members/:userId
+   * Change a member's role (owner only)
+   * Requires authentication and the manage roles permission
+   */
+  fastify.patch<{ Params: RoomMemberParamsInput; Body: ChangeMemberRoleInput }>(
+    "/:id/members/:userId",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [
+        createValidationHook(roomMemberParamsSchema, "params"),
+        createValidationHook(changeMemberRoleSchema, "body"),
+      ],
+    },
+    async (
+      request: FastifyRequest<{ Params: RoomMemberParamsInput; Body: ChangeMemberRoleInput }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        const { id: roomId, userId } = request.params;
+        const { role } = request.body;
+
+        const systemMessage = await roomService.changeMemberRole(
+          roomId,
+          request.user.id,
+          userId,
+          role,
+        );
+
+        // Notify all room members so member lists show the new role
+        await notifyMessage(fastify, roomId, systemMessage);
+
+        return createSuccessResponse({ member: { userId, role } }, request);
+      } catch (error: any) {
+        // Handle RoomError with specific status codes
+        if (error.statusCode) {
+          reply.status(error.statusCode);
+          return createErrorResponse(
+            error.message || "Не удалось изменить роль участника",
+            error.statusCode,
+            request,
+            error.code || "CHANGE_ROLE_FAILED",
+          );
+        }
+
+        fastify.log.error({ error, correlationId: request.id }, "Change member role error");
+        reply.status(500);
+        return createErrorResponse("Внутренняя ошибка сервера", 500, request, "INTERNAL_ERROR");
+      }
+    },
+  );
 };
 
 export default roomRoutes;
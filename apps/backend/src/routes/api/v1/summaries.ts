@@ -0,0 +1,158 @@
+import {
+  roomIdSchema,
+  summaryParamsSchema,
+  updateSessionSummarySchema,
+} from "@rpgate/shared/schemas";
+import type { SummaryParamsInput, UpdateSessionSummaryInput } from "@rpgate/shared/schemas";
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import { SummaryError, SummaryService } from "../../../services/summary.service";
+import { createErrorResponse, createSuccessResponse } from "../../../utils/response.util";
+import { createValidationHook } from "../../../utils/validation.util";
+import "../../../types/session.types";
+
+/**
+ * Session summary routes plugin
+ * Registered under /rooms/:id/summaries
+ */
+const summaryRoutes: FastifyPluginAsync = async (fastify) => {
+  const summaryService = new SummaryService(fastify.db, fastify.log);
+
+  // Map SummaryError to its status code, anything else to a 500
+  const handleError = (
+    error: unknown,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    fallbackMessage: string,
+    logMessage: string,
+  ) => {
+    if (error instanceof SummaryError) {
+      reply.status(error.statusCode);
+      return createErrorResponse(
+        error.message || fallbackMessage,
+        error.statusCode,
+        request,
+        error.code,
+      );
+    }
+
+    fastify.log.error({ error, correlationId: request.id }, logMessage);
+    reply.status(500);
+    return createErrorResponse("Внутренняя ошибка сервера", 500, request, "INTERNAL_ERROR");
+  };
+
+  /**
+   * GET /api/v1/rooms/:id/summaries
+   * List the room's session summaries, newest first
+   * Requires authentication and the manage summaries permission (owner, GM or co-GM)
+   */
+  fastify.get<{ Params: { id: string } }>(
+    "/",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [createValidationHook(roomIdSchema, "params")],
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        const summaries = await summaryService.listSummaries(request.params.id, request.user.id);
+
+        return createSuccessResponse({ summaries }, request);
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось загрузить сводки",
+          "Fetch summaries error",
+        );
+      }
+    },
+  );
+
+  /**
+   * GET /api/v1/rooms/:id/summaries/:summaryId
+   * Get a session summary
+   * Requires authentication and the manage summaries permission (owner, GM or co-GM)
+   */
+  fastify.get<{ Params: SummaryParamsInput }>(
+    "/:summaryId",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [createValidationHook(summaryParamsSchema, "params")],
+    },
+    async (request: FastifyRequest<{ Params: SummaryParamsInput }>, reply: FastifyReply) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        const summary = await summaryService.getSummary(
+          request.params.id,
+          request.params.summaryId,
+          request.user.id,
+        );
+
+        return createSuccessResponse({ summary }, request);
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось загрузить сводку",
+          "Fetch summary error",
+        );
+      }
+    },
+  );
+
+  /**
+   * PATCH /api/v1/rooms/:id/summaries/:summaryId
+   * Hand-edit a session summary's text
+   * Requires authentication and the manage summaries permission (owner, GM or co-GM)
+   */
+  fastify.patch<{ Params: SummaryParamsInput; Body: UpdateSessionSummaryInput }>(
+    "/:summaryId",
+    {
+      preHandler: [fastify.requireAuth],
+      preValidation: [
+        createValidationHook(summaryParamsSchema, "params"),
+        createValidationHook(updateSessionSummarySchema, "body"),
+      ],
+    },
+    async (
+      request: FastifyRequest<{ Params: SummaryParamsInput; Body: UpdateSessionSummaryInput }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        if (!request.user) {
+          reply.status(401);
+          return createErrorResponse("Unauthorized", 401, request, "UNAUTHORIZED");
+        }
+
+        const summary = await summaryService.updateSummary(
+          request.params.id,
+          request.params.summaryId,
+          request.user.id,
+          request.body,
+        );
+
+        return createSuccessResponse({ summary }, request);
+      } catch (error) {
+        return handleError(
+          error,
+          request,
+          reply,
+          "Не удалось обновить сводку",
+          "Update summary error",
+        );
+      }
+    },
+  );
+};
+
+export default summaryRoutes;
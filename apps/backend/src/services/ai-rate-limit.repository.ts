@@ -0,0 +1,61 @@
+import type Redis from "ioredis";
+
+/**
+ * A sliding window to count a request against
+ */
+export interface RateLimitWindow {
+  key: string;
+  limit: number;
+}
+
+// Counts every window first and records the request in all of them only if none is full,
+// so a request rejected by one window does not use up another.
+// Returns 0 when allowed, otherwise milliseconds until the fullest window frees a slot.
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local member = ARGV[3]
+local retryAfter = 0
+for i, key in ipairs(KEYS) do
+  redis.call("ZREMRANGEBYSCORE", key, "-inf", now - window)
+  if redis.call("ZCARD", key) >= tonumber(ARGV[3 + i]) then
+    local oldest = redis.call("ZRANGE", key, 0, 0, "WITHSCORES")
+    retryAfter = math.max(retryAfter, tonumber(oldest[2]) + window - now)
+  end
+end
+if retryAfter > 0 then
+  return retryAfter
+end
+for _, key in ipairs(KEYS) do
+  redis.call("ZADD", key, now, member)
+  redis.call("PEXPIRE", key, window)
+end
+return 0
+`;
+
+/**
+ * AI rate limit repository for Redis sliding-window counters (sorted sets of request times)
+ */
+export class AiRateLimitRepository {
+  private readonly RATE_LIMIT_PREFIX = "ai_rate_limit:";
+
+  constructor(private redis: Redis) {}
+
+  /**
+   * Record a request in every window unless one of them is full.
+   * Returns 0 when the request is allowed, otherwise milliseconds to wait.
+   */
+  async hit(windows: RateLimitWindow[], windowMs: number, requestId: string): Promise<number> {
+    const retryAfterMs = await this.redis.eval(
+      SLIDING_WINDOW_SCRIPT,
+      windows.length,
+      ...windows.map(({ key }) => `${this.RATE_LIMIT_PREFIX}${key}`),
+      Date.now(),
+      windowMs,
+      requestId,
+      ...windows.map(({ limit }) => limit),
+    );
+
+    return Number(retryAfterMs);
+  }
+}
@@ -0,0 +1,71 @@
+import type { Database } from "@rpgate/database";
+import { schema } from "@rpgate/database";
+import { and, eq, gte, sql } from "drizzle-orm";
+
+const { roomAiUsage } = schema;
+
+/**
+ * Token usage of one model call
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Summed usage over a period
+ */
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+}
+
+// Providers that do not report usage yield NaN counts
+function toTokenCount(value: number): number {
+  return Number.isFinite(value) ? Math.max(0, Math.round(value)) : 0;
+}
+
+/**
+ * AI usage repository for per-room daily token accounting
+ */
+export class AiUsageRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Add one model call to the room's usage for a day (YYYY-MM-DD, UTC)
+   */
+  async record(roomId: string, day: string, usage: TokenUsage): Promise<void> {
+    const promptTokens = toTokenCount(usage.promptTokens);
+    const completionTokens = toTokenCount(usage.completionTokens);
+
+    await this.db
+      .insert(roomAiUsage)
+      .values({ roomId, day, promptTokens, completionTokens, requests: 1 })
+      .onConflictDoUpdate({
+        target: [roomAiUsage.roomId, roomAiUsage.day],
+        set: {
+          promptTokens: sql`${roomAiUsage.promptTokens} + ${promptTokens}`,
+          completionTokens: sql`${roomAiUsage.completionTokens} + ${completionTokens}`,
+          requests: sql`${roomAiUsage.requests} + 1`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  /**
+   * Sum a room's usage from a day (inclusive) onwards
+   */
+  async sumSince(roomId: string, fromDay: string): Promise<UsageTotals> {
+    const [totals] = await this.db
+      .select({
+        promptTokens: sql<number>`coalesce(sum(${roomAiUsage.promptTokens}), 0)`.mapWith(Number),
+        completionTokens: sql<number>`coalesce(sum(${roomAiUsage.completionTokens}), 0)`.mapWith(
+          Number,
+        ),
+        requests: sql<number>`coalesce(sum(${roomAiUsage.requests}), 0)`.mapWith(Number),
+      })
+      .from(roomAiUsage)
+      .where(and(eq(roomAiUsage.roomId, roomId), gte(roomAiUsage.day, fromDay)));
+
+    return totals ?? { promptTokens: 0, completionTokens: 0, requests: 0 };
+  }
+}
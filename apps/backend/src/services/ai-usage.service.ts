@@ -0,0 +1,204 @@
+import { randomUUID } from "node:crypto";
+import type { Database } from "@rpgate/database";
+import { type AiUsagePeriod, ROOM_PERMISSIONS, type RoomAiUsage } from "@rpgate/shared";
+import type { FastifyBaseLogger } from "fastify";
+import type { Redis } from "ioredis";
+import { env } from "../config/env";
+import { AiRateLimitRepository } from "./ai-rate-limit.repository.js";
+import { AiUsageRepository, type UsageTotals } from "./ai-usage.repository.js";
+import { MessageReactionRepository } from "./message-reaction.repository.js";
+import { RoomRepository } from "./room.repository.js";
+
+/**
+ * Usage periods containing a moment: the UTC day and calendar month, as YYYY-MM-DD
+ * keys of their first day, and when each period ends
+ */
+export interface UsagePeriods {
+  day: string;
+  monthStart: string;
+  dayEndsAt: Date;
+  monthEndsAt: Date;
+}
+
+export function getUsagePeriods(now: Date): UsagePeriods {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const date = now.getUTCDate();
+
+  return {
+    day: now.toISOString().slice(0, 10),
+    monthStart: new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10),
+    dayEndsAt: new Date(Date.UTC(year, month, date + 1)),
+    monthEndsAt: new Date(Date.UTC(year, month + 1, 1)),
+  };
+}
+
+// Error types
+export class AiUsageError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400,
+    // Seconds until the request may be retried, for limit errors
+    public retryAfter?: number,
+  ) {
+    super(message);
+    this.name = "AiUsageError";
+  }
+}
+
+export const AI_USAGE_ERRORS = {
+  RATE_LIMITED: "AI_RATE_LIMITED",
+  QUOTA_EXCEEDED: "AI_QUOTA_EXCEEDED",
+  ROOM_NOT_FOUND: "ROOM_NOT_FOUND",
+  NOT_OWNER: "NOT_OWNER",
+} as const;
+
+/**
+ * AI usage service: GM rate limits, per-room token budgets and feedback on GM replies
+ */
+export class AiUsageService {
+  private rateLimitRepository: AiRateLimitRepository;
+  private usageRepository: AiUsageRepository;
+  private reactionRepository: MessageReactionRepository;
+  private roomRepository: RoomRepository;
+  private logger: FastifyBaseLogger;
+
+  constructor(db: Database, redis: Redis, logger: FastifyBaseLogger) {
+    this.rateLimitRepository = new AiRateLimitRepository(redis);
+    this.usageRepository = new AiUsageRepository(db);
+    this.reactionRepository = new MessageReactionRepository(db);
+    this.roomRepository = new RoomRepository(db);
+    this.logger = logger;
+  }
+
+  /**
+   * Admit one GM invocation by a user in a room: the room must be within its token caps,
+   * and the user and room within their sliding-window rate limits.
+   * An admitted invocation counts against the rate limits.
+   */
+  async checkLimits(roomId: string, userId: string): Promise<void> {
+    try {
+      const now = new Date();
+      const periods = getUsagePeriods(now);
+
+      const monthly = await this.usageRepository.sumSince(roomId, periods.monthStart);
+      this.assertWithinCap(roomId, monthly, env.AI_ROOM_MONTHLY_TOKEN_LIMIT, periods.monthEndsAt);
+
+      const daily = await this.usageRepository.sumSince(roomId, periods.day);
+      this.assertWithinCap(roomId, daily, env.AI_ROOM_DAILY_TOKEN_LIMIT, periods.dayEndsAt);
+
+      const retryAfterMs = await this.rateLimitRepository.hit(
+        [
+          { key: `user:${userId}`, limit: env.AI_RATE_LIMIT_PER_USER },
+          { key: `room:${roomId}`, limit: env.AI_RATE_LIMIT_PER_ROOM },
+        ],
+        env.AI_RATE_LIMIT_WINDOW,
+        randomUUID(),
+      );
+      if (retryAfterMs > 0) {
+        this.logger.warn({ roomId, userId, retryAfterMs }, "Game Master rate limit exceeded");
+        throw new AiUsageError(
+          "Too many requests to the Game Master, please try again later",
+          AI_USAGE_ERRORS.RATE_LIMITED,
+          429,
+          Math.ceil(retryAfterMs / 1000),
+        );
+      }
+    } catch (error) {
+      if (error instanceof AiUsageError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to check AI usage limits",
+      );
+
+      throw new AiUsageError("Failed to check AI usage limits", "USAGE_CHECK_FAILED", 500);
+    }
+  }
+
+  /**
+   * Token usage of a room today and this month, against its caps, and the members'
+   * 👍/👎 reactions on its GM replies (members allowed to manage the room)
+   */
+  async getRoomUsage(roomId: string, userId: string): Promise<RoomAiUsage> {
+    try {
+      const room = await this.roomRepository.findById(roomId);
+      if (!room) {
+        throw new AiUsageError("Room not found", AI_USAGE_ERRORS.ROOM_NOT_FOUND, 404);
+      }
+
+      const canView = await this.roomRepository.hasPermission(
+        roomId,
+        userId,
+        ROOM_PERMISSIONS.MANAGE_ROOM,
+      );
+      if (!canView) {
+        // Hide private rooms from outsiders
+        if (room.isPrivate && !(await this.roomRepository.isMember(roomId, userId))) {
+          throw new AiUsageError("Room not found", AI_USAGE_ERRORS.ROOM_NOT_FOUND, 404);
+        }
+        throw new AiUsageError(
+          "Only the room owner or game master can view AI usage",
+          AI_USAGE_ERRORS.NOT_OWNER,
+          403,
+        );
+      }
+
+      const periods = getUsagePeriods(new Date());
+      const daily = await this.usageRepository.sumSince(roomId, periods.day);
+      const monthly = await this.usageRepository.sumSince(roomId, periods.monthStart);
+
+      return {
+        daily: toUsagePeriod(daily, env.AI_ROOM_DAILY_TOKEN_LIMIT, periods.dayEndsAt),
+        monthly: toUsagePeriod(monthly, env.AI_ROOM_MONTHLY_TOKEN_LIMIT, periods.monthEndsAt),
+        gmFeedback: await this.reactionRepository.countGmFeedback(roomId),
+      };
+    } catch (error) {
+      if (error instanceof AiUsageError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to get room AI usage",
+      );
+
+      throw new AiUsageError("Failed to get room AI usage", "FETCH_FAILED", 500);
+    }
+  }
+
+  private assertWithinCap(roomId: string, totals: UsageTotals, limit: number, endsAt: Date) {
+    // A limit of 0 disables the cap
+    if (limit === 0 || totals.promptTokens + totals.completionTokens < limit) {
+      return;
+    }
+
+    this.logger.warn({ roomId, limit }, "Room AI token budget exhausted");
+    throw new AiUsageError(
+      "The room has used up its Game Master token budget",
+      AI_USAGE_ERRORS.QUOTA_EXCEEDED,
+      429,
+      Math.ceil((endsAt.getTime() - Date.now()) / 1000),
+    );
+  }
+}
+
+function toUsagePeriod(totals: UsageTotals, limit: number, endsAt: Date): AiUsagePeriod {
+  return {
+    ...totals,
+    totalTokens: totals.promptTokens + totals.completionTokens,
+    limit: limit === 0 ? null : limit,
+    resetsAt: endsAt.toISOString(),
+  };
+}
@@ -0,0 +1,189 @@
+import type { Database } from "@rpgate/database";
+import { schema } from "@rpgate/database";
+import type { InventoryItem } from "@rpgate/shared";
+import { and, asc, eq, sql } from "drizzle-orm";
+
+const { characters, roomMembers, users } = schema;
+type Character = typeof characters.$inferSelect;
+type NewCharacter = typeof characters.$inferInsert;
+
+export type CharacterWithPlayer = Character & { username: string };
+
+/**
+ * A character after an in-place change, with its hit points from before the change
+ */
+export interface CharacterHpChange {
+  character: Character;
+  previousHp: number;
+}
+
+/**
+ * Character repository for database operations
+ */
+export class CharacterRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Create a new character
+   */
+  async create(characterData: NewCharacter): Promise<Character> {
+    const [character] = await this.db.insert(characters).values(characterData).returning();
+    if (!character) {
+      throw new Error("Failed to create character");
+    }
+    return character;
+  }
+
+  /**
+   * Find a character by ID within a room
+   */
+  async findById(roomId: string, id: string): Promise<Character | null> {
+    const [character] = await this.db
+      .select()
+      .from(characters)
+      .where(and(eq(characters.roomId, roomId), eq(characters.id, id)))
+      .limit(1);
+
+    return character || null;
+  }
+
+  /**
+   * Find all characters in a room, oldest first
+   */
+  async findByRoom(roomId: string): Promise<Character[]> {
+    return this.db
+      .select()
+      .from(characters)
+      .where(eq(characters.roomId, roomId))
+      .orderBy(asc(characters.createdAt));
+  }
+
+  /**
+   * Update character
+   */
+  async update(id: string, data: Partial<NewCharacter>): Promise<Character> {
+    const [character] = await this.db
+      .update(characters)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(characters.id, id))
+      .returning();
+
+    if (!character) {
+      throw new Error("Failed to update character");
+    }
+    return character;
+  }
+
+  /**
+   * Apply damage (negative amount) or healing (positive amount) in the database, so
+   * concurrent changes add up. Damage stops at 0; healing stops at max HP and never lowers
+   * HP that is already above it. Null if the character does not exist.
+   */
+  async changeHp(roomId: string, id: string, amount: number): Promise<CharacterHpChange | null> {
+    return this.db.transaction(async (tx) => {
+      const [previous] = await tx
+        .select({ currentHp: characters.currentHp })
+        .from(characters)
+        .where(and(eq(characters.roomId, roomId), eq(characters.id, id)))
+        .for("update");
+      if (!previous) return null;
+
+      const currentHp =
+        amount < 0
+          ? sql`greatest(0, ${characters.currentHp} + ${amount})`
+          : sql`greatest(${characters.currentHp}, least(${characters.maxHp}, ${characters.currentHp} + ${amount}))`;
+      const [character] = await tx
+        .update(characters)
+        .set({ currentHp, updatedAt: new Date() })
+        .where(eq(characters.id, id))
+        .returning();
+      if (!character) {
+        throw new Error("Failed to update character");
+      }
+
+      return { character, previousHp: previous.currentHp };
+    });
+  }
+
+  /**
+   * Change a character's inventory with its row locked, so concurrent changes apply one after
+   * another. change returns the new inventory, or null to leave it as it is. Null if the
+   * character does not exist.
+   */
+  async changeInventory(
+    roomId: string,
+    id: string,
+    change: (inventory: InventoryItem[]) => InventoryItem[] | null,
+  ): Promise<{ character: Character; changed: boolean } | null> {
+    return this.db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(characters)
+        .where(and(eq(characters.roomId, roomId), eq(characters.id, id)))
+        .for("update");
+      if (!current) return null;
+
+      const inventory = change(current.inventory);
+      if (!inventory) {
+        return { character: current, changed: false };
+      }
+
+      const [character] = await tx
+        .update(characters)
+        .set({ inventory, updatedAt: new Date() })
+        .where(eq(characters.id, id))
+        .returning();
+      if (!character) {
+        throw new Error("Failed to update character");
+      }
+
+      return { character, changed: true };
+    });
+  }
+
+  /**
+   * Delete character (members playing it are left without an active character)
+   */
+  async delete(id: string): Promise<void> {
+    await this.db.delete(characters).where(eq(characters.id, id));
+  }
+
+  /**
+   * Make a character the member's active one in the room, or clear it with null
+   */
+  async setActive(roomId: string, userId: string, characterId: string | null): Promise<void> {
+    await this.db
+      .update(roomMembers)
+      .set({ activeCharacterId: characterId })
+      .where(and(eq(roomMembers.roomId, roomId), eq(roomMembers.userId, userId)));
+  }
+
+  /**
+   * Get the member's active character in the room
+   */
+  async findActive(roomId: string, userId: string): Promise<Character | null> {
+    const [row] = await this.db
+      .select({ character: characters })
+      .from(roomMembers)
+      .innerJoin(characters, eq(roomMembers.activeCharacterId, characters.id))
+      .where(and(eq(roomMembers.roomId, roomId), eq(roomMembers.userId, userId)))
+      .limit(1);
+
+    return row?.character || null;
+  }
+
+  /**
+   * Get the active character of every member in the room, with the player's username
+   */
+  async findActiveByRoom(roomId: string): Promise<CharacterWithPlayer[]> {
+    const rows = await this.db
+      .select({ character: characters, username: users.username })
+      .from(roomMembers)
+      .innerJoin(characters, eq(roomMembers.activeCharacterId, characters.id))
+      .innerJoin(users, eq(roomMembers.userId, users.id))
+      .where(eq(roomMembers.roomId, roomId))
+      .orderBy(asc(roomMembers.joinedAt));
+
+    return rows.map(({ character, username }) => ({ ...character, username }));
+  }
+}
@@ -0,0 +1,438 @@
+import type { Database } from "@rpgate/database";
+import { schema } from "@rpgate/database";
+import {
+  type CreateCharacterInput,
+  GAME_MASTER,
+  type InventoryItem,
+  ROOM_PERMISSIONS,
+  type UpdateCharacterInput,
+  createCharacterSchema,
+  updateCharacterSchema,
+} from "@rpgate/shared";
+import type { FastifyBaseLogger } from "fastify";
+import { type CharacterHpChange, CharacterRepository } from "./character.repository.js";
+import { RoomRepository } from "./room.repository.js";
+
+const { characters } = schema;
+type Character = typeof characters.$inferSelect;
+
+// Error types
+export class CharacterError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400,
+  ) {
+    super(message);
+    this.name = "CharacterError";
+  }
+}
+
+export const CHARACTER_ERRORS = {
+  INVALID_CHARACTER: "INVALID_CHARACTER",
+  ROOM_NOT_FOUND: "ROOM_NOT_FOUND",
+  NOT_MEMBER: "NOT_MEMBER",
+  CHARACTER_NOT_FOUND: "CHARACTER_NOT_FOUND",
+  NOT_CHARACTER_OWNER: "NOT_CHARACTER_OWNER",
+} as const;
+
+/**
+ * Character service for character sheet business logic
+ */
+export class CharacterService {
+  private characterRepository: CharacterRepository;
+  private roomRepository: RoomRepository;
+  private logger: FastifyBaseLogger;
+
+  constructor(db: Database, logger: FastifyBaseLogger) {
+    this.characterRepository = new CharacterRepository(db);
+    this.roomRepository = new RoomRepository(db);
+    this.logger = logger;
+  }
+
+  /**
+   * List the characters in a room (members only)
+   */
+  async listCharacters(roomId: string, userId: string): Promise<Character[]> {
+    try {
+      await this.assertMember(roomId, userId);
+      return await this.characterRepository.findByRoom(roomId);
+    } catch (error) {
+      if (error instanceof CharacterError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to list characters",
+      );
+
+      throw new CharacterError("Failed to list characters", "FETCH_FAILED", 500);
+    }
+  }
+
+  /**
+   * Get a character sheet (members only)
+   */
+  async getCharacter(roomId: string, characterId: string, userId: string): Promise<Character> {
+    try {
+      await this.assertMember(roomId, userId);
+      return await this.findCharacter(roomId, characterId);
+    } catch (error) {
+      if (error instanceof CharacterError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          characterId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to get character",
+      );
+
+      throw new CharacterError("Failed to get character", "FETCH_FAILED", 500);
+    }
+  }
+
+  /**
+   * Create a character for the calling member.
+   * It becomes their active character if they have none yet.
+   */
+  async createCharacter(
+    roomId: string,
+    userId: string,
+    input: CreateCharacterInput,
+  ): Promise<Character> {
+    const validation = createCharacterSchema.safeParse(input);
+    if (!validation.success) {
+      throw new CharacterError(
+        validation.error.errors[0]?.message || "Invalid character",
+        CHARACTER_ERRORS.INVALID_CHARACTER,
+        400,
+      );
+    }
+
+    const { currentHp, notes, ...data } = validation.data;
+
+    try {
+      await this.assertMember(roomId, userId);
+
+      const character = await this.characterRepository.create({
+        ...data,
+        roomId,
+        userId,
+        currentHp: currentHp ?? data.maxHp,
+        notes: notes ?? null,
+      });
+
+      const active = await this.characterRepository.findActive(roomId, userId);
+      if (!active) {
+        await this.characterRepository.setActive(roomId, userId, character.id);
+      }
+
+      this.logger.info(
+        { roomId, userId, characterId: character.id, activated: !active },
+        "Character created successfully",
+      );
+
+      return character;
+    } catch (error) {
+      if (error instanceof CharacterError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to create character",
+      );
+
+      throw new CharacterError("Failed to create character", "CREATION_FAILED", 500);
+    }
+  }
+
+  /**
+   * Update a character sheet (its player or the room owner)
+   */
+  async updateCharacter(
+    roomId: string,
+    characterId: string,
+    userId: string,
+    input: UpdateCharacterInput,
+  ): Promise<Character> {
+    const validation = updateCharacterSchema.safeParse(input);
+    if (!validation.success) {
+      throw new CharacterError(
+        validation.error.errors[0]?.message || "Invalid character",
+        CHARACTER_ERRORS.INVALID_CHARACTER,
+        400,
+      );
+    }
+
+    try {
+      await this.assertMember(roomId, userId);
+      const character = await this.findCharacter(roomId, characterId);
+      await this.assertCanEdit(roomId, character, userId);
+
+      const updated = await this.characterRepository.update(characterId, validation.data);
+
+      this.logger.info(
+        { roomId, userId, characterId, updates: Object.keys(validation.data) },
+        "Character updated successfully",
+      );
+
+      return updated;
+    } catch (error) {
+      if (error instanceof CharacterError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          characterId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to update character",
+      );
+
+      throw new CharacterError("Failed to update character", "UPDATE_FAILED", 500);
+    }
+  }
+
+  /**
+   * Apply damage (negative amount) or healing (positive amount) to a character's hit points
+   * (its player or members allowed to edit others' characters). The change is made in one
+   * step in the database, so simultaneous changes are never lost.
+   */
+  async changeHp(
+    roomId: string,
+    characterId: string,
+    userId: string,
+    amount: number,
+  ): Promise<CharacterHpChange> {
+    try {
+      await this.assertMember(roomId, userId);
+      const character = await this.findCharacter(roomId, characterId);
+      await this.assertCanEdit(roomId, character, userId);
+
+      const result = await this.characterRepository.changeHp(roomId, characterId, amount);
+      if (!result) {
+        throw new CharacterError("Character not found", CHARACTER_ERRORS.CHARACTER_NOT_FOUND, 404);
+      }
+
+      this.logger.info(
+        { roomId, userId, characterId, amount, currentHp: result.character.currentHp },
+        "Character hit points changed",
+      );
+
+      return result;
+    } catch (error) {
+      if (error instanceof CharacterError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          characterId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to change character hit points",
+      );
+
+      throw new CharacterError("Failed to change hit points", "UPDATE_FAILED", 500);
+    }
+  }
+
+  /**
+   * Change a character's inventory (its player or members allowed to edit others'
+   * characters). change gets the current inventory with the character locked and returns
+   * the new one, or null to leave it unchanged; the result says whether it changed.
+   */
+  async changeInventory(
+    roomId: string,
+    characterId: string,
+    userId: string,
+    change: (inventory: InventoryItem[]) => InventoryItem[] | null,
+  ): Promise<{ character: Character; changed: boolean }> {
+    try {
+      await this.assertMember(roomId, userId);
+      const character = await this.findCharacter(roomId, characterId);
+      await this.assertCanEdit(roomId, character, userId);
+
+      const result = await this.characterRepository.changeInventory(
+        roomId,
+        characterId,
+        (inventory) => {
+          const next = change(inventory);
+          if (!next) return null;
+
+          const validation = updateCharacterSchema.safeParse({ inventory: next });
+          if (!validation.success) {
+            throw new CharacterError(
+              validation.error.errors[0]?.message || "Invalid inventory",
+              CHARACTER_ERRORS.INVALID_CHARACTER,
+              400,
+            );
+          }
+          return next;
+        },
+      );
+      if (!result) {
+        throw new CharacterError("Character not found", CHARACTER_ERRORS.CHARACTER_NOT_FOUND, 404);
+      }
+
+      if (result.changed) {
+        this.logger.info({ roomId, userId, characterId }, "Character inventory changed");
+      }
+
+      return result;
+    } catch (error) {
+      if (error instanceof CharacterError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          characterId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to change character inventory",
+      );
+
+      throw new CharacterError("Failed to change inventory", "UPDATE_FAILED", 500);
+    }
+  }
+
+  /**
+   * Delete a character (its player or the room owner)
+   */
+  async deleteCharacter(roomId: string, characterId: string, userId: string): Promise<void> {
+    try {
+      await this.assertMember(roomId, userId);
+      const character = await this.findCharacter(roomId, characterId);
+      await this.assertCanEdit(roomId, character, userId);
+
+      await this.characterRepository.delete(characterId);
+
+      this.logger.info({ roomId, userId, characterId }, "Character deleted successfully");
+    } catch (error) {
+      if (error instanceof CharacterError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          characterId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to delete character",
+      );
+
+      throw new CharacterError("Failed to delete character", "DELETE_FAILED", 500);
+    }
+  }
+
+  /**
+   * Make one of the caller's own characters their active character in the room
+   */
+  async activateCharacter(roomId: string, characterId: string, userId: string): Promise<Character> {
+    try {
+      await this.assertMember(roomId, userId);
+      const character = await this.findCharacter(roomId, characterId);
+      if (character.userId !== userId) {
+        throw new CharacterError(
+          "Only the character's player can make it active",
+          CHARACTER_ERRORS.NOT_CHARACTER_OWNER,
+          403,
+        );
+      }
+
+      await this.characterRepository.setActive(roomId, userId, characterId);
+
+      this.logger.info({ roomId, userId, characterId }, "Active character changed");
+
+      return character;
+    } catch (error) {
+      if (error instanceof CharacterError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          characterId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to activate character",
+      );
+
+      throw new CharacterError("Failed to activate character", "ACTIVATE_FAILED", 500);
+    }
+  }
+
+  private async assertMember(roomId: string, userId: string): Promise<void> {
+    const room = await this.roomRepository.findById(roomId);
+    if (!room) {
+      throw new CharacterError("Room not found", CHARACTER_ERRORS.ROOM_NOT_FOUND, 404);
+    }
+    // The Game Master's tools act with the room owner's authority
+    if (userId === GAME_MASTER.USER_ID) return;
+
+    const isMember = await this.roomRepository.isMember(roomId, userId);
+    if (!isMember) {
+      // Hide private rooms from non-members
+      if (room.isPrivate) {
+        throw new CharacterError("Room not found", CHARACTER_ERRORS.ROOM_NOT_FOUND, 404);
+      }
+      throw new CharacterError(
+        "Only room members can access characters",
+        CHARACTER_ERRORS.NOT_MEMBER,
+        403,
+      );
+    }
+  }
+
+  private async findCharacter(roomId: string, characterId: string): Promise<Character> {
+    const character = await this.characterRepository.findById(roomId, characterId);
+    if (!character) {
+      throw new CharacterError("Character not found", CHARACTER_ERRORS.CHARACTER_NOT_FOUND, 404);
+    }
+    return character;
+  }
+
+  private async assertCanEdit(roomId: string, character: Character, userId: string): Promise<void> {
+    if (character.userId === userId || userId === GAME_MASTER.USER_ID) return;
+
+    const canEdit = await this.roomRepository.hasPermission(
+      roomId,
+      userId,
+      ROOM_PERMISSIONS.EDIT_OTHERS_CHARACTERS,
+    );
+    if (!canEdit) {
+      throw new CharacterError(
+        "Only the character's player or a game master can change it",
+        CHARACTER_ERRORS.NOT_CHARACTER_OWNER,
+        403,
+      );
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import type { Database } from "@rpgate/database";
+import { schema } from "@rpgate/database";
+import { type CombatState, combatStateSchema } from "@rpgate/shared";
+import { and, desc, eq } from "drizzle-orm";
+
+const { combatEncounters } = schema;
+
+/**
+ * Combat snapshot repository: durable Postgres copies of Redis combat state
+ */
+export class CombatSnapshotRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Insert or overwrite the snapshot of an encounter
+   */
+  async save(state: CombatState): Promise<void> {
+    const values = {
+      status: state.status,
+      round: state.round,
+      state,
+      endedAt: state.status === "ended" ? new Date(state.updatedAt) : null,
+      updatedAt: new Date(state.updatedAt),
+    };
+
+    await this.db
+      .insert(combatEncounters)
+      .values({
+        id: state.id,
+        roomId: state.roomId,
+        startedBy: state.startedBy,
+        startedAt: new Date(state.startedAt),
+        ...values,
+      })
+      .onConflictDoUpdate({ target: combatEncounters.id, set: values });
+  }
+
+  /**
+   * Latest snapshot of the room's running encounter, if any
+   */
+  async findActive(roomId: string): Promise<CombatState | null> {
+    const [encounter] = await this.db
+      .select({ state: combatEncounters.state })
+      .from(combatEncounters)
+      .where(and(eq(combatEncounters.roomId, roomId), eq(combatEncounters.status, "active")))
+      .orderBy(desc(combatEncounters.updatedAt))
+      .limit(1);
+
+    if (!encounter) {
+      return null;
+    }
+
+    const parsed = combatStateSchema.safeParse(encounter.state);
+    return parsed.success ? parsed.data : null;
+  }
+}
@@ -0,0 +1,71 @@
+import { randomUUID } from "node:crypto";
+import { type CombatState, combatStateSchema } from "@rpgate/shared";
+import type Redis from "ioredis";
+
+// Release the lock only while it still holds our token, so an expired lock
+// taken over by another instance is left alone
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Combat repository for Redis-based live combat state (one encounter per room)
+ */
+export class CombatRepository {
+  private readonly COMBAT_PREFIX = "combat:";
+  // Idle encounters expire; the Postgres snapshot outlives them
+  private readonly COMBAT_EXPIRY = 7 * 24 * 60 * 60; // 7 days in seconds
+  private readonly LOCK_PREFIX = "combat:lock:";
+
+  constructor(private redis: Redis) {}
+
+  /**
+   * Get the room's live combat state
+   */
+  async get(roomId: string): Promise<CombatState | null> {
+    const data = await this.redis.get(`${this.COMBAT_PREFIX}${roomId}`);
+    if (!data) {
+      return null;
+    }
+
+    const parsed = combatStateSchema.safeParse(JSON.parse(data));
+    return parsed.success ? parsed.data : null;
+  }
+
+  /**
+   * Store the room's combat state, refreshing its expiry
+   */
+  async save(state: CombatState): Promise<void> {
+    await this.redis.setex(
+      `${this.COMBAT_PREFIX}${state.roomId}`,
+      this.COMBAT_EXPIRY,
+      JSON.stringify(state),
+    );
+  }
+
+  /**
+   * Remove the room's combat state
+   */
+  async delete(roomId: string): Promise<void> {
+    await this.redis.del(`${this.COMBAT_PREFIX}${roomId}`);
+  }
+
+  /**
+   * Take the room's combat lock, returning its token or null when another change holds it
+   */
+  async acquireLock(roomId: string, ttlMs: number): Promise<string | null> {
+    const token = randomUUID();
+    const acquired = await this.redis.set(`${this.LOCK_PREFIX}${roomId}`, token, "PX", ttlMs, "NX");
+    return acquired ? token : null;
+  }
+
+  /**
+   * Release the room's combat lock if it is still held with the given token
+   */
+  async releaseLock(roomId: string, token: string): Promise<void> {
+    await this.redis.eval(RELEASE_LOCK_SCRIPT, 1, `${this.LOCK_PREFIX}${roomId}`, token);
+  }
+}
@@ -0,0 +1,563 @@
+import { randomUUID } from "node:crypto";
+import type { Database } from "@rpgate/database";
+import {
+  type CombatState,
+  type Combatant,
+  type CombatantInput,
+  GAME_MASTER,
+  ROOM_PERMISSIONS,
+  addCombatantSchema,
+  addConditionSchema,
+  advanceTurn,
+  combatRoomSchema,
+  compareInitiative,
+  formatModifier,
+  getAbilityModifier,
+  getCurrentCombatant,
+  insertCombatant,
+  migrateRoomSettings,
+  removeCombatant,
+  removeCombatantSchema,
+  removeConditionSchema,
+  setInitiativeSchema,
+  sortCombatants,
+  startCombatSchema,
+} from "@rpgate/shared";
+import type { FastifyBaseLogger } from "fastify";
+import type { Redis } from "ioredis";
+import type { ZodTypeAny, z } from "zod";
+import { CharacterRepository } from "./character.repository.js";
+import { CombatSnapshotRepository } from "./combat-snapshot.repository.js";
+import { CombatRepository } from "./combat.repository.js";
+import { DiceService } from "./dice.service.js";
+import type { MessageWithAuthor } from "./message.repository.js";
+import { MessageService } from "./message.service.js";
+import { RoomRepository } from "./room.repository.js";
+
+/**
+ * How long one combat change may hold the room's lock before it lapses
+ */
+const COMBAT_LOCK_TTL_MS = 10_000;
+
+/**
+ * How long a change waits for another one in the same room to finish
+ */
+const COMBAT_LOCK_WAIT_MS = 3_000;
+
+const COMBAT_LOCK_RETRY_MS = 50;
+
+/**
+ * Combat state change that is also recorded in room history
+ */
+interface CombatTransition {
+  combat: CombatState;
+  message: MessageWithAuthor;
+}
+
+// Error types
+export class CombatError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400,
+  ) {
+    super(message);
+    this.name = "CombatError";
+  }
+}
+
+export const COMBAT_ERRORS = {
+  INVALID_COMBAT_ACTION: "INVALID_COMBAT_ACTION",
+  ROOM_NOT_FOUND: "ROOM_NOT_FOUND",
+  NOT_MEMBER: "NOT_MEMBER",
+  NOT_OWNER: "NOT_OWNER",
+  COMBAT_NOT_ACTIVE: "COMBAT_NOT_ACTIVE",
+  COMBAT_ALREADY_ACTIVE: "COMBAT_ALREADY_ACTIVE",
+  COMBATANT_NOT_FOUND: "COMBATANT_NOT_FOUND",
+  CHARACTER_NOT_FOUND: "CHARACTER_NOT_FOUND",
+  NOT_YOUR_TURN: "NOT_YOUR_TURN",
+  COMBAT_BUSY: "COMBAT_BUSY",
+} as const;
+
+/**
+ * Combat service for the initiative tracker.
+ * Live state is kept in Redis and every change is snapshotted to Postgres.
+ */
+export class CombatService {
+  private combatRepository: CombatRepository;
+  private snapshotRepository: CombatSnapshotRepository;
+  private characterRepository: CharacterRepository;
+  private roomRepository: RoomRepository;
+  private messageService: MessageService;
+  private diceService: DiceService;
+  private logger: FastifyBaseLogger;
+
+  constructor(db: Database, redis: Redis, logger: FastifyBaseLogger) {
+    this.combatRepository = new CombatRepository(redis);
+    this.snapshotRepository = new CombatSnapshotRepository(db);
+    this.characterRepository = new CharacterRepository(db);
+    this.roomRepository = new RoomRepository(db);
+    this.messageService = new MessageService(db, logger);
+    this.diceService = new DiceService(logger);
+    this.logger = logger;
+  }
+
+  /**
+   * Get the room's running combat, restoring it from the last snapshot if Redis lost it
+   */
+  async getCombat(roomId: string): Promise<CombatState | null> {
+    const live = await this.combatRepository.get(roomId);
+    if (live) {
+      return live;
+    }
+
+    const snapshot = await this.snapshotRepository.findActive(roomId);
+    if (snapshot) {
+      await this.combatRepository.save(snapshot);
+      this.logger.info({ roomId, combatId: snapshot.id }, "Combat restored from snapshot");
+    }
+    return snapshot;
+  }
+
+  /**
+   * Start combat (room owner only), rolling initiative for anyone without a given value
+   */
+  async startCombat(userId: string, input: unknown): Promise<CombatTransition> {
+    const data = this.validate(startCombatSchema, input);
+    const { roomId } = data;
+
+    return this.runLocked("start combat", roomId, userId, async () => {
+      await this.assertCanRunCombat(roomId, userId);
+
+      const existing = await this.getCombat(roomId);
+      if (existing) {
+        throw new CombatError(
+          "Combat is already running in this room",
+          COMBAT_ERRORS.COMBAT_ALREADY_ACTIVE,
+          409,
+        );
+      }
+
+      const combatants: Combatant[] = [];
+      for (const combatantInput of data.combatants) {
+        combatants.push(await this.createCombatant(roomId, combatantInput, combatants));
+      }
+
+      if (data.includeParty) {
+        const party = await this.characterRepository.findActiveByRoom(roomId);
+        for (const character of party) {
+          if (!combatants.some((combatant) => combatant.characterId === character.id)) {
+            combatants.push(
+              await this.createCombatant(roomId, { characterId: character.id }, combatants),
+            );
+          }
+        }
+      }
+
+      if (combatants.length === 0) {
+        throw new CombatError(
+          "Combat needs at least one combatant",
+          COMBAT_ERRORS.INVALID_COMBAT_ACTION,
+          400,
+        );
+      }
+
+      const now = new Date().toISOString();
+      const combat: CombatState = {
+        id: randomUUID(),
+        roomId,
+        status: "active",
+        round: 1,
+        turnIndex: 0,
+        combatants: combatants.sort(compareInitiative),
+        startedBy: userId,
+        startedAt: now,
+        updatedAt: now,
+      };
+
+      await this.persist(combat);
+      const message = await this.messageService.createSystemMessage(roomId, userId, {
+        event: "combat_started",
+        combatId: combat.id,
+      });
+
+      this.logger.info(
+        { roomId, userId, combatId: combat.id, combatants: combatants.length },
+        "Combat started",
+      );
+
+      return { combat, message };
+    });
+  }
+
+  /**
+   * Add a character or NPC to the running combat (room owner only)
+   */
+  async addCombatant(userId: string, input: unknown): Promise<CombatState> {
+    const data = this.validate(addCombatantSchema, input);
+
+    return this.update("add combatant", data.roomId, userId, async (combat) => {
+      await this.assertCanRunCombat(data.roomId, userId);
+      const combatant = await this.createCombatant(data.roomId, data.combatant, combat.combatants);
+      return insertCombatant(combat, combatant);
+    });
+  }
+
+  /**
+   * Remove a combatant (room owner only)
+   */
+  async removeCombatant(userId: string, input: unknown): Promise<CombatState> {
+    const data = this.validate(removeCombatantSchema, input);
+
+    return this.update("remove combatant", data.roomId, userId, async (combat) => {
+      await this.assertCanRunCombat(data.roomId, userId);
+      this.findCombatant(combat, data.combatantId);
+      return removeCombatant(combat, data.combatantId);
+    });
+  }
+
+  /**
+   * Override a combatant's initiative and re-sort the turn order (room owner only)
+   */
+  async setInitiative(userId: string, input: unknown): Promise<CombatState> {
+    const data = this.validate(setInitiativeSchema, input);
+
+    return this.update("set initiative", data.roomId, userId, async (combat) => {
+      await this.assertCanRunCombat(data.roomId, userId);
+      this.findCombatant(combat, data.combatantId);
+      return sortCombatants(
+        this.mapCombatant(combat, data.combatantId, (combatant) => ({
+          ...combatant,
+          initiative: data.initiative,
+        })),
+      );
+    });
+  }
+
+  /**
+   * Apply a condition to a combatant, replacing one with the same name (room owner only)
+   */
+  async addCondition(userId: string, input: unknown): Promise<CombatState> {
+    const data = this.validate(addConditionSchema, input);
+
+    return this.update("add condition", data.roomId, userId, async (combat) => {
+      await this.assertCanRunCombat(data.roomId, userId);
+      this.findCombatant(combat, data.combatantId);
+      return this.mapCombatant(combat, data.combatantId, (combatant) => ({
+        ...combatant,
+        conditions: [
+          ...combatant.conditions.filter(({ name }) => name !== data.name),
+          { name: data.name, remainingRounds: data.rounds ?? null },
+        ],
+      }));
+    });
+  }
+
+  /**
+   * Remove a condition from a combatant (room owner only)
+   */
+  async removeCondition(userId: string, input: unknown): Promise<CombatState> {
+    const data = this.validate(removeConditionSchema, input);
+
+    return this.update("remove condition", data.roomId, userId, async (combat) => {
+      await this.assertCanRunCombat(data.roomId, userId);
+      this.findCombatant(combat, data.combatantId);
+      return this.mapCombatant(combat, data.combatantId, (combatant) => ({
+        ...combatant,
+        conditions: combatant.conditions.filter(({ name }) => name !== data.name),
+      }));
+    });
+  }
+
+  /**
+   * End the current turn. The room owner may always do this; a player only on their own turn.
+   */
+  async nextTurn(userId: string, input: unknown): Promise<CombatState> {
+    const { roomId } = this.validate(combatRoomSchema, input);
+
+    return this.update("advance turn", roomId, userId, async (combat) => {
+      const current = getCurrentCombatant(combat);
+      if (current?.userId !== userId) {
+        await this.assertCanRunCombat(roomId, userId);
+      }
+      return advanceTurn(combat);
+    });
+  }
+
+  /**
+   * End combat (room owner only); the final state stays in Postgres
+   */
+  async endCombat(userId: string, input: unknown): Promise<CombatTransition> {
+    const { roomId } = this.validate(combatRoomSchema, input);
+
+    return this.runLocked("end combat", roomId, userId, async () => {
+      await this.assertCanRunCombat(roomId, userId);
+      const active = await this.requireCombat(roomId);
+
+      const combat: CombatState = {
+        ...active,
+        status: "ended",
+        updatedAt: new Date().toISOString(),
+      };
+      await this.snapshotRepository.save(combat);
+      await this.combatRepository.delete(roomId);
+
+      const message = await this.messageService.createSystemMessage(roomId, userId, {
+        event: "combat_ended",
+        combatId: combat.id,
+        rounds: combat.round,
+      });
+
+      this.logger.info(
+        { roomId, userId, combatId: combat.id, rounds: combat.round },
+        "Combat ended",
+      );
+
+      return { combat, message };
+    });
+  }
+
+  /**
+   * When the room restricts posting during combat, only the current actor's player
+   * (or whoever runs combat, and so the NPCs) may post in character
+   */
+  async checkInCharacterPosting(roomId: string, userId: string): Promise<void> {
+    try {
+      const room = await this.roomRepository.findById(roomId);
+      if (!room || !migrateRoomSettings(room.settings).restrictCombatPosting) {
+        return;
+      }
+
+      const combat = await this.getCombat(roomId);
+      const current = combat && getCurrentCombatant(combat);
+      if (!current || current.userId === userId) {
+        return;
+      }
+
+      const runsCombat = await this.roomRepository.hasPermission(
+        roomId,
+        userId,
+        ROOM_PERMISSIONS.RUN_COMBAT,
+      );
+      if (!runsCombat) {
+        throw new CombatError(`It is ${current.name}'s turn`, COMBAT_ERRORS.NOT_YOUR_TURN, 403);
+      }
+    } catch (error) {
+      if (error instanceof CombatError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to check combat turn",
+      );
+
+      throw new CombatError("Failed to check combat turn", "TURN_CHECK_FAILED", 500);
+    }
+  }
+
+  /**
+   * Run a change to the running combat and persist the result.
+   * Changes hold the room's lock so concurrent ones never overwrite each other.
+   */
+  private update(
+    action: string,
+    roomId: string,
+    userId: string,
+    change: (combat: CombatState) => Promise<CombatState>,
+  ): Promise<CombatState> {
+    return this.runLocked(action, roomId, userId, async () => {
+      const current = await this.requireCombat(roomId);
+      const combat = { ...(await change(current)), updatedAt: new Date().toISOString() };
+
+      await this.persist(combat);
+      this.logger.debug({ roomId, userId, combatId: combat.id, action }, "Combat updated");
+
+      return combat;
+    });
+  }
+
+  /**
+   * Wrap a combat operation with the service's error handling
+   */
+  private async run<T>(
+    action: string,
+    roomId: string,
+    userId: string,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof CombatError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          userId,
+          action,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to update combat",
+      );
+
+      throw new CombatError(`Failed to ${action}`, "COMBAT_FAILED", 500);
+    }
+  }
+
+  /**
+   * Run a combat operation while holding the room's combat lock
+   */
+  private runLocked<T>(
+    action: string,
+    roomId: string,
+    userId: string,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    return this.run(action, roomId, userId, async () => {
+      const token = await this.acquireLock(roomId);
+      try {
+        return await operation();
+      } finally {
+        await this.combatRepository.releaseLock(roomId, token);
+      }
+    });
+  }
+
+  private async acquireLock(roomId: string): Promise<string> {
+    const deadline = Date.now() + COMBAT_LOCK_WAIT_MS;
+
+    while (true) {
+      const token = await this.combatRepository.acquireLock(roomId, COMBAT_LOCK_TTL_MS);
+      if (token) {
+        return token;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new CombatError("Combat is busy, please try again", COMBAT_ERRORS.COMBAT_BUSY, 409);
+      }
+      await new Promise((resolve) => setTimeout(resolve, COMBAT_LOCK_RETRY_MS));
+    }
+  }
+
+  private validate<S extends ZodTypeAny>(schema: S, input: unknown): z.infer<S> {
+    const validation = schema.safeParse(input);
+    if (!validation.success) {
+      throw new CombatError(
+        validation.error.errors[0]?.message || "Invalid combat action",
+        COMBAT_ERRORS.INVALID_COMBAT_ACTION,
+        400,
+      );
+    }
+    return validation.data;
+  }
+
+  private async persist(combat: CombatState): Promise<void> {
+    await this.combatRepository.save(combat);
+    await this.snapshotRepository.save(combat);
+  }
+
+  private async requireCombat(roomId: string): Promise<CombatState> {
+    const combat = await this.getCombat(roomId);
+    if (!combat) {
+      throw new CombatError(
+        "No combat is running in this room",
+        COMBAT_ERRORS.COMBAT_NOT_ACTIVE,
+        409,
+      );
+    }
+    return combat;
+  }
+
+  private async assertCanRunCombat(roomId: string, userId: string): Promise<void> {
+    const room = await this.roomRepository.findById(roomId);
+    if (!room) {
+      throw new CombatError("Room not found", COMBAT_ERRORS.ROOM_NOT_FOUND, 404);
+    }
+    // The Game Master's tools run combat with the room owner's authority
+    if (userId === GAME_MASTER.USER_ID) return;
+
+    const runsCombat = await this.roomRepository.hasPermission(
+      roomId,
+      userId,
+      ROOM_PERMISSIONS.RUN_COMBAT,
+    );
+    if (!runsCombat) {
+      throw new CombatError("Only a game master can run combat", COMBAT_ERRORS.NOT_OWNER, 403);
+    }
+  }
+
+  private findCombatant(combat: CombatState, combatantId: string): Combatant {
+    const combatant = combat.combatants.find(({ id }) => id === combatantId);
+    if (!combatant) {
+      throw new CombatError("Combatant not found", COMBAT_ERRORS.COMBATANT_NOT_FOUND, 404);
+    }
+    return combatant;
+  }
+
+  private mapCombatant(
+    combat: CombatState,
+    combatantId: string,
+    change: (combatant: Combatant) => Combatant,
+  ): CombatState {
+    return {
+      ...combat,
+      combatants: combat.combatants.map((combatant) =>
+        combatant.id === combatantId ? change(combatant) : combatant,
+      ),
+    };
+  }
+
+  /**
+   * Build a combatant from a character sheet (Dexterity sets the initiative modifier)
+   * or an NPC name, rolling 1d20 + modifier unless initiative is given
+   */
+  private async createCombatant(
+    roomId: string,
+    input: CombatantInput,
+    existing: Combatant[],
+  ): Promise<Combatant> {
+    let name = input.name ?? "";
+    let userId: string | null = null;
+    let initiativeModifier = input.initiativeModifier ?? 0;
+
+    if (input.characterId) {
+      const character = await this.characterRepository.findById(roomId, input.characterId);
+      if (!character) {
+        throw new CombatError("Character not found", COMBAT_ERRORS.CHARACTER_NOT_FOUND, 404);
+      }
+      if (existing.some(({ characterId }) => characterId === character.id)) {
+        throw new CombatError(
+          `${character.name} is already in combat`,
+          COMBAT_ERRORS.INVALID_COMBAT_ACTION,
+          400,
+        );
+      }
+
+      name = character.name;
+      userId = character.userId;
+      initiativeModifier =
+        input.initiativeModifier ?? getAbilityModifier(character.abilityScores.dexterity);
+    }
+
+    const initiative =
+      input.initiative ?? this.diceService.roll(`1d20${formatModifier(initiativeModifier)}`).total;
+
+    return {
+      id: randomUUID(),
+      name,
+      kind: input.characterId ? "character" : "npc",
+      characterId: input.characterId ?? null,
+      userId,
+      initiative,
+      initiativeModifier,
+      conditions: [],
+    };
+  }
+}
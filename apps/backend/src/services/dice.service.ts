@@ -0,0 +1,65 @@
+import { randomInt } from "node:crypto";
+import {
+  DiceParseError,
+  type DiceRollResult,
+  parseDiceExpression,
+  rollDiceExpression,
+} from "@rpgate/shared";
+import type { FastifyBaseLogger } from "fastify";
+
+const ROLL_COMMAND_PATTERN = /^\/roll(?:\s+(.*))?$/is;
+
+// Error types
+export class DiceError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400,
+  ) {
+    super(message);
+    this.name = "DiceError";
+  }
+}
+
+export const DICE_ERRORS = {
+  INVALID_DICE_EXPRESSION: "INVALID_DICE_EXPRESSION",
+} as const;
+
+/**
+ * Expression of a `/roll <expression>` chat command, or null if the message is not one
+ */
+export function getRollCommandExpression(content: string): string | null {
+  const match = ROLL_COMMAND_PATTERN.exec(content.trim());
+  if (!match) return null;
+  return match[1]?.trim() ?? "";
+}
+
+/**
+ * Dice service: all rolls happen server-side with a cryptographically secure RNG
+ */
+export class DiceService {
+  private logger: FastifyBaseLogger;
+
+  constructor(logger: FastifyBaseLogger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Parse and roll a dice expression
+   */
+  roll(expression: string): DiceRollResult {
+    try {
+      const parsed = parseDiceExpression(expression);
+      const result = rollDiceExpression(parsed, (sides) => randomInt(1, sides + 1));
+
+      this.logger.debug({ expression: result.expression, total: result.total }, "Dice rolled");
+
+      return result;
+    } catch (error) {
+      if (error instanceof DiceParseError) {
+        throw new DiceError(error.message, DICE_ERRORS.INVALID_DICE_EXPRESSION, 400);
+      }
+      throw error;
+    }
+  }
+}
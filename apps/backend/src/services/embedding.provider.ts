@@ -0,0 +1,137 @@
+import { createHash } from "node:crypto";
+import { EMBEDDING_DIMENSIONS } from "@rpgate/database/schema";
+import type { EmbeddingModel } from "ai";
+import { z } from "zod";
+import { env } from "../config/env";
+
+const OPENROUTER_EMBEDDINGS_URL = "https://openrouter.ai/api/v1/embeddings";
+
+const openRouterEmbeddingsResponseSchema = z.object({
+  data: z.array(z.object({ index: z.number().int(), embedding: z.array(z.number()) })),
+  usage: z.object({ prompt_tokens: z.number() }).optional(),
+});
+
+/**
+ * Source of the embedding model used for long-term campaign memory.
+ * Models must produce vectors of EMBEDDING_DIMENSIONS.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  // Cosine similarity below which a recalled message is treated as unrelated
+  readonly minSimilarity: number;
+  getModel(): EmbeddingModel<string>;
+}
+
+/**
+ * Openrouter-backed provider for production use (OpenAI-compatible embeddings endpoint)
+ */
+export function createOpenRouterEmbeddingProvider(
+  apiKey: string,
+  modelId: string,
+): EmbeddingProvider {
+  const model: EmbeddingModel<string> = {
+    specificationVersion: "v1",
+    provider: "openrouter",
+    modelId,
+    maxEmbeddingsPerCall: 256,
+    supportsParallelCalls: true,
+
+    async doEmbed({ values, abortSignal }) {
+      const response = await fetch(OPENROUTER_EMBEDDINGS_URL, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ model: modelId, input: values, dimensions: EMBEDDING_DIMENSIONS }),
+        signal: abortSignal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding request failed with status ${response.status}`);
+      }
+
+      const body = openRouterEmbeddingsResponseSchema.parse(await response.json());
+      const embeddings = [...body.data]
+        .sort((a, b) => a.index - b.index)
+        .map(({ embedding }) => embedding);
+
+      return {
+        embeddings,
+        usage: body.usage ? { tokens: body.usage.prompt_tokens } : undefined,
+      };
+    },
+  };
+
+  return {
+    name: "openrouter",
+    minSimilarity: 0.3,
+    getModel: () => model,
+  };
+}
+
+/**
+ * Deterministic local provider for tests and offline development.
+ * Hashes words and their character trigrams into a fixed-size vector, so texts that
+ * share names and word stems are similar without any network calls.
+ */
+export function createHashingEmbeddingProvider(): EmbeddingProvider {
+  const model: EmbeddingModel<string> = {
+    specificationVersion: "v1",
+    provider: "hash",
+    modelId: "hashing-embedder",
+    maxEmbeddingsPerCall: undefined,
+    supportsParallelCalls: false,
+
+    async doEmbed({ values }) {
+      return { embeddings: values.map(hashEmbedding) };
+    },
+  };
+
+  return {
+    name: "hash",
+    // Sparse hashed features score lower than dense embeddings for the same overlap
+    minSimilarity: 0.1,
+    getModel: () => model,
+  };
+}
+
+/**
+ * Create the provider selected by EMBEDDING_PROVIDER
+ */
+export function createEmbeddingProvider(): EmbeddingProvider {
+  if (env.EMBEDDING_PROVIDER === "hash") {
+    return createHashingEmbeddingProvider();
+  }
+
+  return createOpenRouterEmbeddingProvider(env.OPENROUTER_API_KEY, env.EMBEDDING_MODEL);
+}
+
+/**
+ * Feature-hashed bag of words and trigrams, L2-normalized
+ */
+export function hashEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  for (const word of words) {
+    addFeature(vector, `w:${word}`, 1);
+
+    // Trigrams let inflected forms ("dragon", "dragons") land close together
+    const padded = `^${word}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.5);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+function addFeature(vector: number[], feature: string, weight: number) {
+  const digest = createHash("md5").update(feature).digest();
+  const index = digest.readUInt32BE(0) % vector.length;
+  // A second hash bit picks the sign so collisions tend to cancel out
+  const sign = digest.readUInt8(4) & 1 ? 1 : -1;
+  vector[index] = (vector[index] ?? 0) + sign * weight;
+}
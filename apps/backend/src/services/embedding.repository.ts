@@ -0,0 +1,123 @@
+import type { Database } from "@rpgate/database";
+import { schema } from "@rpgate/database";
+import type { MessageKind } from "@rpgate/shared";
+import { and, asc, cosineDistance, eq, inArray, isNull, lt, sql } from "drizzle-orm";
+
+const { characters, messageEmbeddings, messages, users } = schema;
+type NewMessageEmbedding = typeof messageEmbeddings.$inferInsert;
+
+/**
+ * Message still waiting for an embedding, with its speaker
+ */
+export interface UnembeddedMessage {
+  id: string;
+  roomId: string;
+  content: string;
+  kind: MessageKind;
+  username: string;
+  characterName: string | null;
+}
+
+/**
+ * Message similar to a query embedding; similarity is cosine similarity (1 is identical)
+ */
+export interface SimilarMessage {
+  messageId: string;
+  similarity: number;
+}
+
+/**
+ * Embedding repository for pgvector message embeddings
+ */
+export class EmbeddingRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Oldest live messages of the given kinds without an embedding from this model
+   */
+  async findUnembedded(
+    model: string,
+    kinds: MessageKind[],
+    limit: number,
+  ): Promise<UnembeddedMessage[]> {
+    return this.db
+      .select({
+        id: messages.id,
+        roomId: messages.roomId,
+        content: messages.content,
+        kind: messages.kind,
+        username: users.username,
+        characterName: characters.name,
+      })
+      .from(messages)
+      .innerJoin(users, eq(messages.userId, users.id))
+      .leftJoin(characters, eq(messages.characterId, characters.id))
+      .leftJoin(
+        messageEmbeddings,
+        and(eq(messageEmbeddings.messageId, messages.id), eq(messageEmbeddings.model, model)),
+      )
+      .where(
+        and(
+          inArray(messages.kind, kinds),
+          isNull(messages.deletedAt),
+          isNull(messageEmbeddings.messageId),
+        ),
+      )
+      .orderBy(asc(messages.createdAt), asc(messages.id))
+      .limit(limit);
+  }
+
+  /**
+   * Store embeddings, replacing any a message already has (e.g. from a previous model)
+   */
+  async upsertMany(rows: NewMessageEmbedding[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    await this.db
+      .insert(messageEmbeddings)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: messageEmbeddings.messageId,
+        set: {
+          embedding: sql`excluded.embedding`,
+          model: sql`excluded.model`,
+          createdAt: sql`excluded.created_at`,
+        },
+      });
+  }
+
+  /**
+   * Live messages in a room most similar to an embedding, optionally only those older than a date
+   */
+  async findNearest(
+    roomId: string,
+    model: string,
+    embedding: number[],
+    limit: number,
+    before?: Date,
+  ): Promise<SimilarMessage[]> {
+    const distance = cosineDistance(messageEmbeddings.embedding, embedding);
+
+    const conditions = [
+      eq(messageEmbeddings.roomId, roomId),
+      eq(messageEmbeddings.model, model),
+      isNull(messages.deletedAt),
+    ];
+    if (before) {
+      conditions.push(lt(messages.createdAt, before));
+    }
+
+    const rows = await this.db
+      .select({
+        messageId: messageEmbeddings.messageId,
+        distance: sql<number>`${distance}`.mapWith(Number),
+      })
+      .from(messageEmbeddings)
+      .innerJoin(messages, eq(messageEmbeddings.messageId, messages.id))
+      .where(and(...conditions))
+      .orderBy(distance)
+      .limit(limit);
+
+    return rows.map(({ messageId, distance }) => ({ messageId, similarity: 1 - distance }));
+  }
+}
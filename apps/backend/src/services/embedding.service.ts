@@ -0,0 +1,163 @@
+import type { Database } from "@rpgate/database";
+import type { MessageKind } from "@rpgate/shared";
+import { embed, embedMany } from "ai";
+import type { FastifyBaseLogger } from "fastify";
+import { type EmbeddingProvider, createEmbeddingProvider } from "./embedding.provider";
+import { EmbeddingRepository, type UnembeddedMessage } from "./embedding.repository.js";
+import { MessageRepository, type MessageWithAuthor } from "./message.repository.js";
+
+/**
+ * Message kinds worth remembering: the story as spoken by players and the GM.
+ * Rolls, out-of-character chatter and room events are not embedded.
+ */
+const EMBEDDED_KINDS: MessageKind[] = ["ic", "gm"];
+
+/**
+ * Messages embedded per batch
+ */
+export const EMBEDDING_BATCH_SIZE = 64;
+
+// Error types
+export class EmbeddingError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400,
+  ) {
+    super(message);
+    this.name = "EmbeddingError";
+  }
+}
+
+export const EMBEDDING_ERRORS = {
+  EMBEDDING_FAILED: "EMBEDDING_FAILED",
+  RECALL_FAILED: "RECALL_FAILED",
+} as const;
+
+/**
+ * Embedding service for long-term campaign memory.
+ * Messages are embedded in the background; recall finds the ones closest to a query.
+ */
+export class EmbeddingService {
+  private embeddingRepository: EmbeddingRepository;
+  private messageRepository: MessageRepository;
+  private logger: FastifyBaseLogger;
+  private provider: EmbeddingProvider;
+
+  constructor(db: Database, logger: FastifyBaseLogger, provider?: EmbeddingProvider) {
+    this.embeddingRepository = new EmbeddingRepository(db);
+    this.messageRepository = new MessageRepository(db);
+    this.logger = logger;
+    this.provider = provider ?? createEmbeddingProvider();
+  }
+
+  /**
+   * Embed the oldest messages that have no embedding from the current model yet.
+   * Returns how many were embedded; fewer than the limit means the backlog is drained.
+   */
+  async embedPending(limit = EMBEDDING_BATCH_SIZE): Promise<number> {
+    const model = this.provider.getModel();
+
+    try {
+      const pending = await this.embeddingRepository.findUnembedded(
+        model.modelId,
+        EMBEDDED_KINDS,
+        limit,
+      );
+      if (pending.length === 0) {
+        return 0;
+      }
+
+      const { embeddings, usage } = await embedMany({
+        model,
+        values: pending.map(toEmbeddingText),
+      });
+
+      await this.embeddingRepository.upsertMany(
+        pending.map((message, index) => ({
+          messageId: message.id,
+          roomId: message.roomId,
+          embedding: embeddings[index] ?? [],
+          model: model.modelId,
+        })),
+      );
+
+      this.logger.debug(
+        {
+          provider: this.provider.name,
+          model: model.modelId,
+          count: pending.length,
+          tokens: usage.tokens,
+        },
+        "Messages embedded",
+      );
+
+      return pending.length;
+    } catch (error) {
+      this.logger.error(
+        {
+          provider: this.provider.name,
+          model: model.modelId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to embed messages",
+      );
+
+      throw new EmbeddingError("Failed to embed messages", EMBEDDING_ERRORS.EMBEDDING_FAILED, 502);
+    }
+  }
+
+  /**
+   * Up to k room messages most relevant to the query, oldest first.
+   * Only messages older than `before` are considered when it is given.
+   */
+  async recallRelevant(
+    roomId: string,
+    query: string,
+    k: number,
+    before?: Date,
+  ): Promise<MessageWithAuthor[]> {
+    const model = this.provider.getModel();
+
+    try {
+      const { embedding } = await embed({ model, value: query });
+      const similar = await this.embeddingRepository.findNearest(
+        roomId,
+        model.modelId,
+        embedding,
+        k,
+        before,
+      );
+
+      const relevant = similar.filter(
+        ({ similarity }) => similarity >= this.provider.minSimilarity,
+      );
+      return await this.messageRepository.findByIdsWithAuthor(
+        relevant.map(({ messageId }) => messageId),
+      );
+    } catch (error) {
+      this.logger.error(
+        {
+          roomId,
+          provider: this.provider.name,
+          model: model.modelId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to recall messages",
+      );
+
+      throw new EmbeddingError("Failed to recall messages", EMBEDDING_ERRORS.RECALL_FAILED, 502);
+    }
+  }
+}
+
+/**
+ * Embedded text names the speaker, so recall by NPC or character name also works
+ */
+function toEmbeddingText(message: UnembeddedMessage): string {
+  if (message.kind === "gm") {
+    return `GM: ${message.content}`;
+  }
+  const speaker = message.characterName ?? message.username;
+  return `${speaker}: ${message.content}`;
+}
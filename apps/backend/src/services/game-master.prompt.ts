@@ -0,0 +1,349 @@
+import {
+  ABILITIES,
+  type ContentRating,
+  type GmSettings,
+  type GmVerbosity,
+  type MessageKind,
+  type Ruleset,
+  SKILLS,
+  formatModifier,
+  getAbilityModifier,
+  getProficiencyBonus,
+  getSavingThrowModifier,
+  getSkillModifier,
+} from "@rpgate/shared";
+import type { CoreMessage } from "ai";
+import type { CharacterWithPlayer } from "./character.repository.js";
+import type { MessageWithAuthor } from "./message.repository.js";
+
+/**
+ * Number of recent room messages the GM is given raw; older ones reach it through summaries
+ */
+export const HISTORY_LIMIT = 30;
+
+/**
+ * Message kinds the model sees; out-of-character chatter and room events are left out.
+ * Replies also include the whispers addressed to the GM.
+ */
+export const CONTEXT_KINDS: MessageKind[] = ["ic", "gm", "roll"];
+
+const BASE_INSTRUCTIONS = [
+  "You are the Game Master of a tabletop role-playing game.",
+  "Narrate the world, voice non-player characters and describe the consequences of the players' actions.",
+  "Player messages are prefixed with the speaking character's name and the player's name in parentheses.",
+  "Never act on behalf of the players.",
+  "Messages marked as whispers were sent privately to you: take them into account, but never reveal or quote them in your narration.",
+].join(" ");
+
+const RULESET_INSTRUCTIONS: Record<Ruleset, string> = {
+  dnd5e:
+    "Run the game with the Dungeons & Dragons 5th edition rules. When you call for a check or saving throw, use the modifiers from the character sheets below.",
+  d20: "Run the game with a generic d20 system: uncertain actions are resolved with a d20 roll plus the relevant modifier from the character sheets below, against a difficulty you set.",
+  narrative:
+    "Run a narrative-only game: resolve actions through the story and do not call for dice rolls.",
+};
+
+const TOOL_INSTRUCTIONS = [
+  "Use your tools to change the game instead of only describing the change:",
+  "roll dice for non-player characters and effects, apply damage and healing, give and take items, and start and end combat.",
+  "Ask for skill checks with the tool and let the players roll.",
+  "Never invent dice results or hit point totals; narrate the results the tools return.",
+  "Refer to characters by the IDs on their sheets.",
+].join(" ");
+
+const VERBOSITY_INSTRUCTIONS: Record<GmVerbosity, string> = {
+  brief: "Keep replies short: two or three sentences.",
+  normal: "Keep replies vivid but concise.",
+  detailed: "Give rich, detailed descriptions of scenes, characters and consequences.",
+};
+
+const CONTENT_RATING_INSTRUCTIONS: Record<ContentRating, string> = {
+  family:
+    "Keep all content suitable for children: no graphic violence, gore, sexual content or strong language.",
+  teen: "Violence and peril are fine, but avoid gore, sexual content and slurs.",
+  mature:
+    "Mature themes such as graphic violence and horror are allowed, but never explicit sexual content.",
+};
+
+/**
+ * Rough characters-per-token ratio; close enough for budgeting without a tokenizer
+ */
+const CHARS_PER_TOKEN = 4;
+
+// Chat messages cost a few tokens of framing on top of their text
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const TRUNCATION_MARK = "…";
+
+/**
+ * Everything the GM may see for one reply, before budgeting
+ */
+export interface GameMasterContext {
+  // The room owner's GM configuration
+  settings: GmSettings;
+  party: CharacterWithPlayer[];
+  // Pinned lore from the room settings, written by the owner
+  lore: string | null;
+  // Latest rolling summary of the story before `history`
+  summary: string | null;
+  // Older messages recalled by similarity, oldest first
+  memories: MessageWithAuthor[];
+  // Recent messages, oldest first
+  history: MessageWithAuthor[];
+  // The message being replied to
+  action: MessageWithAuthor;
+  // Whether the GM can change the game through tools in this reply
+  useTools?: boolean;
+}
+
+export interface GameMasterPrompt {
+  system: string;
+  messages: CoreMessage[];
+}
+
+/**
+ * Estimated token count of a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Build the GM prompt within a token budget. The instructions, character sheets and the
+ * action are always sent; the rest is added by priority while it fits: pinned lore,
+ * the latest summary, recent messages (newest first) and finally recalled memories.
+ * Lore and summary are truncated rather than dropped when only part of them fits.
+ */
+export function buildGameMasterPrompt(
+  context: GameMasterContext,
+  tokenBudget: number,
+): GameMasterPrompt {
+  const sections = [
+    describeInstructions(context.settings, context.useTools ?? false),
+    describeParty(context.party),
+  ];
+  const historyById = new Map(context.history.map((message) => [message.id, message]));
+  const findRepliedTo = ({ replyToId }: MessageWithAuthor) =>
+    replyToId ? historyById.get(replyToId) : undefined;
+
+  const actionTurn = toChatTurn(context.action, false, findRepliedTo(context.action));
+
+  let remaining =
+    tokenBudget - estimateTokens(sections.join("\n\n")) - estimateTurnTokens(actionTurn);
+
+  if (context.lore) {
+    const lore = fitText("Campaign lore (pinned by the room owner):\n", context.lore, remaining);
+    if (lore) {
+      sections.push(lore);
+      remaining -= estimateTokens(lore);
+    }
+  }
+
+  if (context.summary) {
+    const summary = fitText(
+      "Story so far (summary of earlier sessions):\n",
+      context.summary,
+      remaining,
+      {
+        keepEnd: true,
+      },
+    );
+    if (summary) {
+      sections.push(summary);
+      remaining -= estimateTokens(summary);
+    }
+  }
+
+  const editedAfterReply = findEditedAfterReply(context.history);
+  const history: CoreMessage[] = [];
+  for (const message of [...context.history].reverse()) {
+    const turn = toChatTurn(message, editedAfterReply.has(message.id), findRepliedTo(message));
+    const cost = estimateTurnTokens(turn);
+    if (cost > remaining) break;
+
+    history.unshift(turn);
+    remaining -= cost;
+  }
+
+  const memories: string[] = [];
+  for (const message of context.memories) {
+    if (historyById.has(message.id)) continue;
+
+    const line = `- ${describeMessage(message)}`;
+    const cost = estimateTokens(`${line}\n`);
+    if (cost > remaining) continue;
+
+    memories.push(line);
+    remaining -= cost;
+  }
+  if (memories.length > 0) {
+    sections.push(`Earlier in the campaign (recalled, oldest first):\n${memories.join("\n")}`);
+  }
+
+  return { system: sections.join("\n\n"), messages: [...history, actionTurn] };
+}
+
+/**
+ * GM instructions from the room's settings; the owner's own instructions come last
+ */
+function describeInstructions(settings: GmSettings, useTools: boolean): string {
+  const lines = [
+    BASE_INSTRUCTIONS,
+    RULESET_INSTRUCTIONS[settings.ruleset],
+    ...(useTools ? [TOOL_INSTRUCTIONS] : []),
+    VERBOSITY_INSTRUCTIONS[settings.verbosity],
+    CONTENT_RATING_INSTRUCTIONS[settings.contentRating],
+    settings.language
+      ? `Always answer in ${settings.language}.`
+      : "Answer in the language the players use.",
+  ];
+  if (settings.persona) {
+    lines.push(`Your persona: ${settings.persona}`);
+  }
+  if (settings.systemPrompt) {
+    lines.push(`Instructions from the room owner:\n${settings.systemPrompt}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * One-line transcript form of a message, as used in memories and summaries
+ */
+export function describeMessage(message: MessageWithAuthor): string {
+  if (message.kind === "gm") {
+    return `GM: ${message.content}`;
+  }
+  if (message.kind === "roll") {
+    return message.content;
+  }
+  return `${formatSpeaker(message)}: ${message.content}`;
+}
+
+function formatSpeaker(message: MessageWithAuthor): string {
+  return message.characterName
+    ? `${message.characterName} (${message.username})`
+    : message.username;
+}
+
+/**
+ * IDs of history messages that were edited after the GM had already replied to them,
+ * so the narration may rest on a version that no longer exists
+ */
+function findEditedAfterReply(history: MessageWithAuthor[]): Set<string> {
+  const replies = history.filter(({ kind }) => kind === "gm").map(({ createdAt }) => createdAt);
+
+  return new Set(
+    history
+      .filter(
+        ({ createdAt, editedAt }) =>
+          editedAt !== null && replies.some((reply) => reply > createdAt && reply < editedAt),
+      )
+      .map(({ id }) => id),
+  );
+}
+
+/**
+ * A history message as a chat turn; player turns note whispers, edits made after the GM
+ * replied and which earlier message (if still in history) they reply to
+ */
+function toChatTurn(
+  message: MessageWithAuthor,
+  editedAfterReply = false,
+  repliedTo?: MessageWithAuthor,
+): CoreMessage {
+  if (message.kind === "gm") {
+    return { role: "assistant", content: message.content };
+  }
+  if (message.kind === "roll") {
+    return { role: "user", content: message.content };
+  }
+
+  const notes = [
+    ...(message.kind === "whisper" ? ["whispers to the GM"] : []),
+    ...(editedAfterReply ? ["edited after you replied"] : []),
+    ...(repliedTo
+      ? [`replying to ${repliedTo.kind === "gm" ? "you" : formatSpeaker(repliedTo)}`]
+      : []),
+  ];
+  const speaker =
+    notes.length > 0 ? `${formatSpeaker(message)} (${notes.join("; ")})` : formatSpeaker(message);
+  return { role: "user", content: `${speaker}: ${message.content}` };
+}
+
+function estimateTurnTokens(turn: CoreMessage): number {
+  const text = typeof turn.content === "string" ? turn.content : JSON.stringify(turn.content);
+  return estimateTokens(text) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Heading plus as much of the text as fits in the token budget, or null if nothing does.
+ * keepEnd keeps the latest part of the text (summaries end with the most recent events).
+ */
+function fitText(
+  heading: string,
+  text: string,
+  tokenBudget: number,
+  { keepEnd = false } = {},
+): string | null {
+  const full = `${heading}${text}`;
+  if (estimateTokens(full) <= tokenBudget) {
+    return full;
+  }
+
+  const available =
+    (tokenBudget - estimateTokens(heading)) * CHARS_PER_TOKEN - TRUNCATION_MARK.length;
+  if (available <= 0) {
+    return null;
+  }
+
+  return keepEnd
+    ? `${heading}${TRUNCATION_MARK}${text.slice(text.length - available)}`
+    : `${heading}${text.slice(0, available)}${TRUNCATION_MARK}`;
+}
+
+/**
+ * The active character sheet of every member
+ */
+function describeParty(party: CharacterWithPlayer[]): string {
+  if (party.length === 0) {
+    return "No player has an active character sheet yet.";
+  }
+  return `Character sheets:\n${party.map(describeCharacter).join("\n\n")}`;
+}
+
+/**
+ * Compact character sheet with derived modifiers, so the model never has to compute them
+ */
+function describeCharacter(character: CharacterWithPlayer): string {
+  const abilities = ABILITIES.map(
+    (ability) =>
+      `${ability} ${character.abilityScores[ability]} (${formatModifier(getAbilityModifier(character.abilityScores[ability]))})`,
+  ).join(", ");
+  const savingThrows = ABILITIES.map(
+    (ability) => `${ability} ${formatModifier(getSavingThrowModifier(character, ability))}`,
+  ).join(", ");
+  const skills = SKILLS.map(
+    (skill) => `${skill} ${formatModifier(getSkillModifier(character, skill))}`,
+  ).join(", ");
+
+  const lines = [
+    `${character.name} (played by ${character.username}): level ${character.level} ${character.characterClass}`,
+    `HP ${character.currentHp}/${character.maxHp}, AC ${character.armorClass}, proficiency bonus ${formatModifier(getProficiencyBonus(character.level))}`,
+    `Abilities: ${abilities}`,
+    `Saving throws: ${savingThrows}`,
+    `Skills: ${skills}`,
+    `ID: ${character.id}`,
+  ];
+  if (character.proficiencies.other.length > 0) {
+    lines.push(`Other proficiencies: ${character.proficiencies.other.join(", ")}`);
+  }
+  if (character.inventory.length > 0) {
+    lines.push(
+      `Inventory: ${character.inventory.map(({ name, quantity }) => `${name} ×${quantity}`).join(", ")}`,
+    );
+  }
+  if (character.notes) {
+    lines.push(`Notes: ${character.notes}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,119 @@
+import { createOpenRouter } from "@openrouter/ai-sdk-provider";
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from "ai";
+import { env } from "../config/env";
+
+/**
+ * Source of the language model used by the Game Master
+ */
+export interface GameMasterProvider {
+  readonly name: string;
+  getModel(): LanguageModelV1;
+}
+
+/**
+ * Openrouter-backed provider for production use
+ */
+export function createOpenRouterProvider(apiKey: string, modelId: string): GameMasterProvider {
+  const openrouter = createOpenRouter({ apiKey });
+  const model = openrouter(modelId);
+
+  return {
+    name: "openrouter",
+    getModel: () => model,
+  };
+}
+
+/**
+ * Deterministic local provider for tests and offline development.
+ * Replies by narrating the latest player input back, without any network calls.
+ */
+export function createFakeProvider(): GameMasterProvider {
+  const model: LanguageModelV1 = {
+    specificationVersion: "v1",
+    provider: "fake",
+    modelId: "fake-game-master",
+    defaultObjectGenerationMode: undefined,
+
+    async doGenerate(options) {
+      const text = buildFakeReply(options);
+      return {
+        text,
+        finishReason: "stop",
+        usage: { promptTokens: countWords(options), completionTokens: text.split(/\s+/).length },
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+
+    async doStream(options) {
+      const text = buildFakeReply(options);
+      const chunks = text.match(/\S+\s*/g) ?? [];
+
+      const stream = new ReadableStream<LanguageModelV1StreamPart>({
+        start(controller) {
+          for (const chunk of chunks) {
+            controller.enqueue({ type: "text-delta", textDelta: chunk });
+          }
+          controller.enqueue({
+            type: "finish",
+            finishReason: "stop",
+            usage: { promptTokens: countWords(options), completionTokens: chunks.length },
+          });
+          controller.close();
+        },
+      });
+
+      return {
+        stream,
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+  };
+
+  return {
+    name: "fake",
+    getModel: () => model,
+  };
+}
+
+/**
+ * Create the provider selected by AI_PROVIDER
+ */
+export function createGameMasterProvider(): GameMasterProvider {
+  if (env.AI_PROVIDER === "fake") {
+    return createFakeProvider();
+  }
+
+  return createOpenRouterProvider(env.OPENROUTER_API_KEY, env.AI_MODEL);
+}
+
+function getLastUserText(options: LanguageModelV1CallOptions): string {
+  const lastUser = [...options.prompt].reverse().find((message) => message.role === "user");
+  if (!lastUser) return "";
+
+  return lastUser.content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join(" ")
+    .trim();
+}
+
+function buildFakeReply(options: LanguageModelV1CallOptions): string {
+  const action = getLastUserText(options);
+  return action
+    ? `The Game Master considers your move: "${action}". The world shifts in response.`
+    : "The Game Master waits for the party to act.";
+}
+
+function countWords(options: LanguageModelV1CallOptions): number {
+  return options.prompt.reduce((total, message) => {
+    if (typeof message.content === "string") {
+      return total + message.content.split(/\s+/).length;
+    }
+    return (
+      total +
+      message.content.reduce(
+        (sum, part) => sum + (part.type === "text" ? part.text.split(/\s+/).length : 0),
+        0,
+      )
+    );
+  }, 0);
+}
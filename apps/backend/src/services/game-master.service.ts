@@ -0,0 +1,319 @@
+import { randomUUID } from "node:crypto";
+import type { Database } from "@rpgate/database";
+import { GAME_MASTER, ROOM_PERMISSIONS, migrateRoomSettings } from "@rpgate/shared";
+import { InvalidToolArgumentsError, NoSuchToolError, type ToolSet, streamText } from "ai";
+import type { FastifyBaseLogger } from "fastify";
+import { env } from "../config/env";
+import { AiUsageRepository, type TokenUsage } from "./ai-usage.repository.js";
+import { getUsagePeriods } from "./ai-usage.service.js";
+import { CharacterRepository } from "./character.repository.js";
+import type { EmbeddingProvider } from "./embedding.provider";
+import { EmbeddingService } from "./embedding.service.js";
+import { CONTEXT_KINDS, HISTORY_LIMIT, buildGameMasterPrompt } from "./game-master.prompt";
+import { type GameMasterProvider, createGameMasterProvider } from "./game-master.provider";
+import { MessageRepository, type MessageWithAuthor } from "./message.repository.js";
+import { RoomRepository } from "./room.repository.js";
+import { SummaryRepository } from "./summary.repository.js";
+
+/**
+ * Number of older, relevant messages recalled once history outgrows the context window
+ */
+const RECALL_LIMIT = 5;
+
+/**
+ * Token budget for everything sent to the model
+ */
+const PROMPT_TOKEN_BUDGET = Math.floor(env.AI_MAX_TOKENS * env.AI_PROMPT_BUDGET_RATIO);
+
+/**
+ * Model calls per reply when tools are available: tool rounds plus the final narration
+ */
+const MAX_TOOL_STEPS = 5;
+
+const MENTION_PATTERN = /(^|\s)@gm\b/i;
+
+/**
+ * Options for a streamed GM reply
+ */
+export interface GameMasterReplyOptions {
+  // ID the reply is stored under; lets clients match stream events to the final message
+  messageId?: string;
+  onDelta?: (delta: string) => Promise<void> | void;
+  // Tools the GM may call to change the game (see createGameMasterTools)
+  tools?: ToolSet;
+}
+
+// Error types
+export class GameMasterError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400,
+  ) {
+    super(message);
+    this.name = "GameMasterError";
+  }
+}
+
+export const GAME_MASTER_ERRORS = {
+  ROOM_NOT_FOUND: "ROOM_NOT_FOUND",
+  GENERATION_FAILED: "GENERATION_FAILED",
+} as const;
+
+/**
+ * Whether a chat message addresses the Game Master
+ */
+export function mentionsGameMaster(content: string): boolean {
+  return MENTION_PATTERN.test(content);
+}
+
+/**
+ * Game Master service for AI-generated narration
+ */
+export class GameMasterService {
+  private messageRepository: MessageRepository;
+  private roomRepository: RoomRepository;
+  private characterRepository: CharacterRepository;
+  private summaryRepository: SummaryRepository;
+  private aiUsageRepository: AiUsageRepository;
+  private embeddingService: EmbeddingService;
+  private logger: FastifyBaseLogger;
+  private provider: GameMasterProvider;
+
+  constructor(
+    db: Database,
+    logger: FastifyBaseLogger,
+    provider?: GameMasterProvider,
+    embeddingProvider?: EmbeddingProvider,
+  ) {
+    this.messageRepository = new MessageRepository(db);
+    this.roomRepository = new RoomRepository(db);
+    this.characterRepository = new CharacterRepository(db);
+    this.summaryRepository = new SummaryRepository(db);
+    this.aiUsageRepository = new AiUsageRepository(db);
+    this.embeddingService = new EmbeddingService(db, logger, embeddingProvider);
+    this.logger = logger;
+    this.provider = provider ?? createGameMasterProvider();
+  }
+
+  /**
+   * Up to k earlier room messages most relevant to the query (NPCs, places, plot threads),
+   * oldest first. Only messages that have already been embedded can be recalled.
+   */
+  async recallRelevant(roomId: string, query: string, k: number): Promise<MessageWithAuthor[]> {
+    return this.embeddingService.recallRelevant(roomId, query, k);
+  }
+
+  /**
+   * Whether the GM should reply to a newly stored message: always when it is addressed
+   * with @gm, and to every in-character message in rooms set to auto-respond.
+   * Whispers never get a reply, since the narration is public, and neither do members
+   * whose role may not run the AI GM.
+   */
+  async shouldRespond(message: MessageWithAuthor): Promise<boolean> {
+    if (message.kind === "whisper") {
+      return false;
+    }
+    if (!mentionsGameMaster(message.content) && message.kind !== "ic") {
+      return false;
+    }
+
+    const canRun = await this.roomRepository.hasPermission(
+      message.roomId,
+      message.userId,
+      ROOM_PERMISSIONS.RUN_AI_GM,
+    );
+    if (!canRun) {
+      return false;
+    }
+    if (mentionsGameMaster(message.content)) {
+      return true;
+    }
+
+    const room = await this.roomRepository.findById(message.roomId);
+    return room !== null && migrateRoomSettings(room.settings).gm.responseMode === "auto";
+  }
+
+  /**
+   * Stream the GM reply to a player's (already stored) message and store the full text.
+   * Nothing is stored if the stream fails partway.
+   */
+  async respond(
+    action: MessageWithAuthor,
+    options: GameMasterReplyOptions = {},
+  ): Promise<MessageWithAuthor> {
+    const { roomId } = action;
+    const { messageId = randomUUID(), onDelta, tools } = options;
+
+    try {
+      const room = await this.roomRepository.findById(roomId);
+      if (!room) {
+        throw new GameMasterError("Room not found", GAME_MASTER_ERRORS.ROOM_NOT_FOUND, 404);
+      }
+
+      const summary = await this.summaryRepository.findLatest(roomId);
+
+      // Newest first, with whispers addressed to the GM; messages the summary already
+      // covers are left out
+      const history = (
+        await this.messageRepository.findByRoom(
+          roomId,
+          HISTORY_LIMIT,
+          { createdAt: action.createdAt, id: action.id },
+          [...CONTEXT_KINDS, "whisper"],
+          GAME_MASTER.USER_ID,
+        )
+      ).filter((message) => !summary || message.createdAt > summary.toCreatedAt);
+
+      const party = await this.characterRepository.findActiveByRoom(roomId);
+      const olderHistoryExists = history.length === HISTORY_LIMIT || summary !== null;
+      const memories = olderHistoryExists ? await this.recallMemories(action, history) : [];
+      const settings = migrateRoomSettings(room.settings);
+
+      const prompt = buildGameMasterPrompt(
+        {
+          settings: settings.gm,
+          party,
+          lore: settings.lore || null,
+          summary: summary?.content ?? null,
+          memories,
+          history: [...history].reverse(),
+          action,
+          useTools: tools !== undefined,
+        },
+        PROMPT_TOKEN_BUDGET,
+      );
+
+      const result = streamText({
+        model: this.provider.getModel(),
+        system: prompt.system,
+        messages: prompt.messages,
+        maxTokens: env.AI_MAX_TOKENS,
+        ...(tools && { tools, maxSteps: MAX_TOOL_STEPS }),
+      });
+
+      let text = "";
+      for await (const part of result.fullStream) {
+        // A malformed tool call is skipped rather than failing the whole reply
+        if (
+          part.type === "error" &&
+          (InvalidToolArgumentsError.isInstance(part.error) ||
+            NoSuchToolError.isInstance(part.error))
+        ) {
+          this.logger.warn(
+            { roomId, messageId, error: part.error.message },
+            "Game Master made an invalid tool call",
+          );
+          continue;
+        }
+        if (part.type === "error") {
+          throw part.error;
+        }
+        if (part.type === "text-delta") {
+          text += part.textDelta;
+          await onDelta?.(part.textDelta);
+        }
+      }
+
+      // Spent tokens count against the room's budget even if the reply turns out unusable
+      const usage = await result.usage;
+      await this.recordUsage(roomId, usage);
+
+      const content = text.trim();
+      if (!content) {
+        throw new Error("Model returned an empty reply");
+      }
+
+      const created = await this.messageRepository.create({
+        id: messageId,
+        roomId,
+        userId: GAME_MASTER.USER_ID,
+        content,
+        kind: "gm",
+        createdAt: new Date(),
+      });
+      await this.roomRepository.updateLastActivity(roomId);
+
+      const message = await this.messageRepository.findByIdWithAuthor(created.id);
+      if (!message) {
+        throw new Error("Created GM message not found");
+      }
+
+      this.logger.info(
+        {
+          roomId,
+          messageId: message.id,
+          provider: this.provider.name,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+        },
+        "Game Master replied",
+      );
+
+      return message;
+    } catch (error) {
+      if (error instanceof GameMasterError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          actionId: action.id,
+          messageId,
+          provider: this.provider.name,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to generate Game Master reply",
+      );
+
+      throw new GameMasterError(
+        "Game Master failed to respond",
+        GAME_MASTER_ERRORS.GENERATION_FAILED,
+        502,
+      );
+    }
+  }
+
+  /**
+   * Count a model call against the room's token budget. Accounting is best-effort:
+   * a failed write must not lose a reply that was already generated.
+   */
+  private async recordUsage(roomId: string, usage: TokenUsage): Promise<void> {
+    try {
+      await this.aiUsageRepository.record(roomId, getUsagePeriods(new Date()).day, usage);
+    } catch (error) {
+      this.logger.warn(
+        { roomId, error: error instanceof Error ? error.message : "Unknown error" },
+        "Failed to record Game Master token usage",
+      );
+    }
+  }
+
+  /**
+   * Recall messages relevant to the action from before the raw history window.
+   * Memory is best-effort: a failed recall only loses the extra context.
+   */
+  private async recallMemories(
+    action: MessageWithAuthor,
+    history: MessageWithAuthor[],
+  ): Promise<MessageWithAuthor[]> {
+    // History is newest first
+    const oldest = history[history.length - 1] ?? action;
+
+    try {
+      return await this.embeddingService.recallRelevant(
+        action.roomId,
+        action.content,
+        RECALL_LIMIT,
+        oldest.createdAt,
+      );
+    } catch {
+      this.logger.warn(
+        { roomId: action.roomId, actionId: action.id },
+        "Game Master reply continues without recalled memories",
+      );
+      return [];
+    }
+  }
+}
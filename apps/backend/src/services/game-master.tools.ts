@@ -0,0 +1,274 @@
+import {
+  COMBAT_LIMITS,
+  type CombatState,
+  DICE_EXPRESSION_MAX_LENGTH,
+  GAME_MASTER,
+  type SystemEvent,
+  addInventoryItem,
+  checkSchema,
+  inventoryItemSchema,
+  removeInventoryItem,
+} from "@rpgate/shared";
+import { type ToolSet, tool } from "ai";
+import type { FastifyBaseLogger } from "fastify";
+import { z } from "zod";
+import { CharacterError, type CharacterService } from "./character.service.js";
+import { CombatError, type CombatService } from "./combat.service.js";
+import { DiceError, type DiceService } from "./dice.service.js";
+import type { MessageWithAuthor } from "./message.repository.js";
+import type { MessageService } from "./message.service.js";
+
+/**
+ * Services the GM's tools go through; the same ones that handle player actions
+ */
+export interface GameMasterToolServices {
+  characterService: CharacterService;
+  combatService: CombatService;
+  diceService: DiceService;
+  messageService: MessageService;
+}
+
+/**
+ * Callbacks that let the room see what a tool changed as it happens
+ */
+export interface GameMasterToolEvents {
+  onMessage: (message: MessageWithAuthor) => Promise<void> | void;
+  onCombatStarted: (combat: CombatState) => Promise<void> | void;
+  onCombatEnded: (combat: CombatState) => Promise<void> | void;
+}
+
+/**
+ * Result the model sees when a tool could not be applied, so it can narrate around it
+ */
+interface ToolFailure {
+  error: string;
+}
+
+const characterIdSchema = z.string().uuid().describe("ID of the character from the sheets");
+const reasonSchema = z.string().trim().max(200).optional();
+
+/**
+ * Tools the Game Master may call while replying in a room. Every call is validated,
+ * applied as the reserved GM user through the regular services and recorded in
+ * room history as a message.
+ */
+export function createGameMasterTools(
+  services: GameMasterToolServices,
+  roomId: string,
+  events: GameMasterToolEvents,
+  logger: FastifyBaseLogger,
+): ToolSet {
+  const { characterService, combatService, diceService, messageService } = services;
+  const userId = GAME_MASTER.USER_ID;
+
+  const run = async <T>(name: string, apply: () => Promise<T>): Promise<T | ToolFailure> => {
+    try {
+      const result = await apply();
+      logger.info({ roomId, tool: name }, "Game Master tool applied");
+      return result;
+    } catch (error) {
+      if (
+        error instanceof CharacterError ||
+        error instanceof CombatError ||
+        error instanceof DiceError
+      ) {
+        return { error: error.message };
+      }
+
+      logger.error(
+        { roomId, tool: name, error: error instanceof Error ? error.message : "Unknown error" },
+        "Game Master tool failed",
+      );
+      return { error: "The tool failed; continue without it" };
+    }
+  };
+
+  const record = async (event: SystemEvent) => {
+    const message = await messageService.createSystemMessage(roomId, userId, event);
+    await events.onMessage(message);
+  };
+
+  return {
+    request_skill_check: tool({
+      description:
+        "Ask a player to roll a skill check or ability check for their character. The player rolls; do not invent the result.",
+      parameters: z.object({
+        characterId: characterIdSchema,
+        check: checkSchema,
+        dc: z.number().int().min(1).max(30).optional().describe("Difficulty class, if known"),
+        reason: reasonSchema,
+      }),
+      execute: ({ characterId, check, dc, reason }) =>
+        run("request_skill_check", async () => {
+          const character = await characterService.getCharacter(roomId, characterId, userId);
+          await record({
+            event: "skill_check_requested",
+            characterId,
+            characterName: character.name,
+            check,
+            dc: dc ?? null,
+            reason: reason || null,
+          });
+          return { requested: true, character: character.name };
+        }),
+    }),
+
+    roll_dice: tool({
+      description:
+        "Roll dice on the server for a non-player character or an effect, e.g. an attack roll or damage. Use dice notation such as 1d20+5 or 2d6+3.",
+      parameters: z.object({
+        expression: z.string().trim().min(1).max(DICE_EXPRESSION_MAX_LENGTH),
+        roller: z
+          .string()
+          .trim()
+          .max(100)
+          .optional()
+          .describe("Who or what is rolling, e.g. the goblin archer"),
+      }),
+      execute: ({ expression, roller }) =>
+        run("roll_dice", async () => {
+          const roll = diceService.roll(expression);
+          const message = await messageService.createRollMessage(
+            roomId,
+            userId,
+            roller || GAME_MASTER.USERNAME,
+            roll,
+          );
+          await events.onMessage(message);
+          return roll;
+        }),
+    }),
+
+    change_hp: tool({
+      description:
+        "Apply damage (negative amount) or healing (positive amount) to a character's hit points.",
+      parameters: z.object({
+        characterId: characterIdSchema,
+        amount: z
+          .number()
+          .int()
+          .refine((amount) => amount !== 0, { message: "Amount must not be zero" }),
+      }),
+      execute: ({ characterId, amount }) =>
+        run("change_hp", async () => {
+          const { character, previousHp } = await characterService.changeHp(
+            roomId,
+            characterId,
+            userId,
+            amount,
+          );
+          const { currentHp } = character;
+          const change = currentHp - previousHp;
+
+          if (change !== 0) {
+            await characterService.updateCharacter(roomId, characterId, userId, { currentHp });
+            await record({
+              event: "hp_changed",
+              characterId,
+              characterName: character.name,
+              change,
+              currentHp,
+              maxHp: character.maxHp,
+            });
+          }
+          return { character: character.name, currentHp, maxHp: character.maxHp };
+        }),
+    }),
+
+    add_item: tool({
+      description: "Give a character items, e.g. loot or a reward.",
+      parameters: z.object({
+        characterId: characterIdSchema,
+        ...inventoryItemSchema.shape,
+      }),
+      execute: ({ characterId, name, quantity }) =>
+        run("add_item", async () => {
+          const { character } = await characterService.changeInventory(
+            roomId,
+            characterId,
+            userId,
+            (inventory) => addInventoryItem(inventory, name, quantity),
+          );
+
+          await record({
+            event: "inventory_changed",
+            characterId,
+            characterName: character.name,
+            item: name,
+            change: quantity,
+          });
+          return { character: character.name, inventory: character.inventory };
+        }),
+    }),
+
+    remove_item: tool({
+      description: "Take items from a character, e.g. a used potion or spent ammunition.",
+      parameters: z.object({
+        characterId: characterIdSchema,
+        ...inventoryItemSchema.shape,
+      }),
+      execute: ({ characterId, name, quantity }) =>
+        run("remove_item", async () => {
+          const { character, changed } = await characterService.changeInventory(
+            roomId,
+            characterId,
+            userId,
+            (inventory) => removeInventoryItem(inventory, name, quantity),
+          );
+          if (!changed) {
+            return { error: `${character.name} does not carry ${quantity} × ${name}` };
+          }
+
+          await record({
+            event: "inventory_changed",
+            characterId,
+            characterName: character.name,
+            item: name,
+            change: -quantity,
+          });
+          return { character: character.name, inventory: character.inventory };
+        }),
+    }),
+
+    start_combat: tool({
+      description:
+        "Start combat. The party's active characters join automatically; list the opposing non-player characters. Initiative is rolled on the server.",
+      parameters: z.object({
+        npcs: z
+          .array(
+            z.object({
+              name: z.string().trim().min(1).max(100),
+              initiativeModifier: z.number().int().min(-10).max(20).optional(),
+            }),
+          )
+          .max(COMBAT_LIMITS.MAX_COMBATANTS),
+      }),
+      execute: ({ npcs }) =>
+        run("start_combat", async () => {
+          const { combat, message } = await combatService.startCombat(userId, {
+            roomId,
+            combatants: npcs,
+            includeParty: true,
+          });
+          await events.onMessage(message);
+          await events.onCombatStarted(combat);
+          return {
+            round: combat.round,
+            turnOrder: combat.combatants.map(({ name, initiative }) => ({ name, initiative })),
+          };
+        }),
+    }),
+
+    end_combat: tool({
+      description: "End the running combat.",
+      parameters: z.object({}),
+      execute: () =>
+        run("end_combat", async () => {
+          const { combat, message } = await combatService.endCombat(userId, { roomId });
+          await events.onCombatEnded(combat);
+          await events.onMessage(message);
+          return { rounds: combat.round };
+        }),
+    }),
+  };
+}
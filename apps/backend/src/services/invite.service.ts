@@ -1,8 +1,13 @@
 import type { FastifyBaseLogger } from "fastify";
 import type { Redis } from "ioredis";
 import { InviteRepository } from "./invite.repository.js";
+import type { MessageWithAuthor } from "./message.repository.js";
+import { MessageService } from "./message.service.js";
+import { RoomBanRepository } from "./room-ban.repository.js";
 import { RoomRepository } from "./room.repository.js";
+import { UserRepository } from "./user.repository.js";
 import type { Database } from "@rpgate/database";
+import { ROOM_PERMISSIONS } from "@rpgate/shared";
 
 // Types for invite functionality (re-export from repository)
 export interface InviteData {
@@ -45,11 +50,12 @@ export class InviteError extends Error {
 
 export const INVITE_ERRORS = {
   ROOM_NOT_FOUND: "ROOM_NOT_FOUND",
-  NOT_OWNER: "NOT_OWNER",
+  PERMISSION_DENIED: "PERMISSION_DENIED",
   INVALID_TOKEN: "INVALID_TOKEN",
   TOKEN_EXPIRED: "TOKEN_EXPIRED",
   USAGE_LIMIT_EXCEEDED: "USAGE_LIMIT_EXCEEDED",
   ALREADY_MEMBER: "ALREADY_MEMBER",
+  BANNED: "BANNED",
 } as const;
 
 /**
@@ -58,11 +64,17 @@ export const INVITE_ERRORS = {
 export class InviteService {
   private inviteRepository: InviteRepository;
   private roomRepository: RoomRepository;
+  private banRepository: RoomBanRepository;
+  private userRepository: UserRepository;
+  private messageService: MessageService;
   private logger: FastifyBaseLogger;
 
   constructor(db: Database, redis: Redis, logger: FastifyBaseLogger) {
     this.inviteRepository = new InviteRepository(redis);
     this.roomRepository = new RoomRepository(db);
+    this.banRepository = new RoomBanRepository(db);
+    this.userRepository = new UserRepository(db);
+    this.messageService = new MessageService(db, logger);
     this.logger = logger;
   }
 
@@ -81,15 +93,11 @@ export class InviteService {
         throw new InviteError("Room not found", INVITE_ERRORS.ROOM_NOT_FOUND, 404);
       }
 
-      // Check if user is the owner (only owners can generate invite links)
-      const isOwner = await this.roomRepository.isOwner(roomId, userId);
-      if (!isOwner) {
-        throw new InviteError(
-          "Only room owner can generate invite links",
-          INVITE_ERRORS.NOT_OWNER,
-          403,
-        );
-      }
+      await this.assertCanManageInvites(
+        roomId,
+        userId,
+        "You are not allowed to generate invite links",
+      );
 
       // Set default expiration (24 hours)
       const expiresIn = options.expiresIn || 24 * 60 * 60; // 24 hours in seconds
@@ -173,7 +181,13 @@ export class InviteService {
   async joinRoomWithInvite(
     token: string,
     userId: string,
-  ): Promise<{ roomId: string; roomName: string; joined: boolean }> {
+  ): Promise<{
+    roomId: string;
+    roomName: string;
+    joined: boolean;
+    // System message recording the join, when the user was not already a member
+    message?: MessageWithAuthor;
+  }> {
     try {
       // Validate invite token
       const validation = await this.validateInviteToken(token);
@@ -196,6 +210,12 @@ export class InviteService {
         throw new InviteError("Room not found", INVITE_ERRORS.ROOM_NOT_FOUND, 404);
       }
 
+      // Invite links do not get banned users back in
+      const ban = await this.banRepository.findActive(roomId, userId);
+      if (ban) {
+        throw new InviteError("You are banned from this room", INVITE_ERRORS.BANNED, 403);
+      }
+
       // Check if user is already a member
       const isMember = await this.roomRepository.isMember(roomId, userId);
       if (isMember) {
@@ -224,10 +244,18 @@ export class InviteService {
       }
 
       // Add user as member
-      await this.roomRepository.addMember(roomId, userId, "member");
+      await this.roomRepository.addMember(roomId, userId);
 
-      // Update room activity
-      await this.roomRepository.updateLastActivity(roomId);
+      // Record the join in history (also bumps room activity)
+      const user = await this.userRepository.findById(userId);
+      if (!user) {
+        throw new Error(`User ${userId} not found`);
+      }
+      const message = await this.messageService.createSystemMessage(roomId, userId, {
+        event: "member_joined",
+        userId,
+        username: user.username,
+      });
 
       this.logger.info(
         {
@@ -243,6 +271,7 @@ export class InviteService {
         roomId,
         roomName: room.name,
         joined: true,
+        message,
       };
     } catch (error) {
       if (error instanceof InviteError) {
@@ -273,15 +302,11 @@ export class InviteService {
         throw new InviteError("Room not found", INVITE_ERRORS.ROOM_NOT_FOUND, 404);
       }
 
-      // Check if user is the owner (only owners can view invite stats)
-      const isOwner = await this.roomRepository.isOwner(roomId, userId);
-      if (!isOwner) {
-        throw new InviteError(
-          "Only room owner can view invite statistics",
-          INVITE_ERRORS.NOT_OWNER,
-          403,
-        );
-      }
+      await this.assertCanManageInvites(
+        roomId,
+        userId,
+        "You are not allowed to view invite statistics",
+      );
 
       const stats = await this.inviteRepository.getInviteStats(roomId);
 
@@ -324,15 +349,11 @@ export class InviteService {
         throw new InviteError("Invite token not found", INVITE_ERRORS.INVALID_TOKEN, 404);
       }
 
-      // Check if user is the owner of the room
-      const isOwner = await this.roomRepository.isOwner(inviteDetails.roomId, userId);
-      if (!isOwner) {
-        throw new InviteError(
-          "Only room owner can revoke invite tokens",
-          INVITE_ERRORS.NOT_OWNER,
-          403,
-        );
-      }
+      await this.assertCanManageInvites(
+        inviteDetails.roomId,
+        userId,
+        "You are not allowed to revoke invite tokens",
+      );
 
       // Revoke the token
       await this.inviteRepository.revokeInviteToken(token);
@@ -374,15 +395,11 @@ export class InviteService {
         throw new InviteError("Room not found", INVITE_ERRORS.ROOM_NOT_FOUND, 404);
       }
 
-      // Check if user is the owner
-      const isOwner = await this.roomRepository.isOwner(roomId, userId);
-      if (!isOwner) {
-        throw new InviteError(
-          "Only room owner can view invite tokens",
-          INVITE_ERRORS.NOT_OWNER,
-          403,
-        );
-      }
+      await this.assertCanManageInvites(
+        roomId,
+        userId,
+        "You are not allowed to view invite tokens",
+      );
 
       const tokens = await this.inviteRepository.getRoomInviteTokens(roomId);
 
@@ -425,15 +442,11 @@ export class InviteService {
         throw new InviteError("Room not found", INVITE_ERRORS.ROOM_NOT_FOUND, 404);
       }
 
-      // Check if user is the owner
-      const isOwner = await this.roomRepository.isOwner(roomId, userId);
-      if (!isOwner) {
-        throw new InviteError(
-          "Only room owner can revoke all invite tokens",
-          INVITE_ERRORS.NOT_OWNER,
-          403,
-        );
-      }
+      await this.assertCanManageInvites(
+        roomId,
+        userId,
+        "You are not allowed to revoke all invite tokens",
+      );
 
       await this.inviteRepository.revokeAllRoomInvites(roomId);
 
@@ -490,4 +503,22 @@ export class InviteService {
       return 0; // Return 0 on error, don't throw as this is a cleanup operation
     }
   }
+
+  /**
+   * Require a member whose role lets them manage the room's invites
+   */
+  private async assertCanManageInvites(
+    roomId: string,
+    userId: string,
+    message: string,
+  ): Promise<void> {
+    const allowed = await this.roomRepository.hasPermission(
+      roomId,
+      userId,
+      ROOM_PERMISSIONS.MANAGE_INVITES,
+    );
+    if (!allowed) {
+      throw new InviteError(message, INVITE_ERRORS.PERMISSION_DENIED, 403);
+    }
+  }
 }
@@ -0,0 +1,116 @@
+import type { Database } from "@rpgate/database";
+import { schema } from "@rpgate/database";
+import {
+  GAME_MASTER,
+  GM_FEEDBACK_REACTIONS,
+  type GmFeedback,
+  type ReactionCount,
+} from "@rpgate/shared";
+import { and, asc, count, eq, inArray, isNull, min, sql } from "drizzle-orm";
+
+const { messageReactions, messages } = schema;
+
+/**
+ * Message reaction repository for database operations
+ */
+export class MessageReactionRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Add a member's reaction to a message; false if it was already there
+   */
+  async add(messageId: string, userId: string, emoji: string): Promise<boolean> {
+    const added = await this.db
+      .insert(messageReactions)
+      .values({ messageId, userId, emoji })
+      .onConflictDoNothing()
+      .returning({ messageId: messageReactions.messageId });
+
+    return added.length > 0;
+  }
+
+  /**
+   * Remove a member's reaction from a message; false if there was none
+   */
+  async remove(messageId: string, userId: string, emoji: string): Promise<boolean> {
+    const removed = await this.db
+      .delete(messageReactions)
+      .where(
+        and(
+          eq(messageReactions.messageId, messageId),
+          eq(messageReactions.userId, userId),
+          eq(messageReactions.emoji, emoji),
+        ),
+      )
+      .returning({ messageId: messageReactions.messageId });
+
+    return removed.length > 0;
+  }
+
+  /**
+   * How many members react to a message with an emoji
+   */
+  async count(messageId: string, emoji: string): Promise<number> {
+    const [result] = await this.db
+      .select({ count: count() })
+      .from(messageReactions)
+      .where(and(eq(messageReactions.messageId, messageId), eq(messageReactions.emoji, emoji)));
+
+    return result?.count ?? 0;
+  }
+
+  /**
+   * Reactions on messages aggregated per emoji, in the order each emoji was first used
+   */
+  async countByMessages(messageIds: string[]): Promise<Map<string, ReactionCount[]>> {
+    const reactions = new Map<string, ReactionCount[]>();
+    if (messageIds.length === 0) return reactions;
+
+    const rows = await this.db
+      .select({
+        messageId: messageReactions.messageId,
+        emoji: messageReactions.emoji,
+        count: count(),
+        userIds: sql<
+          string[]
+        >`array_agg(${messageReactions.userId} order by ${messageReactions.createdAt})`,
+      })
+      .from(messageReactions)
+      .where(inArray(messageReactions.messageId, messageIds))
+      .groupBy(messageReactions.messageId, messageReactions.emoji)
+      .orderBy(asc(min(messageReactions.createdAt)));
+
+    for (const { messageId, ...reaction } of rows) {
+      reactions.set(messageId, [...(reactions.get(messageId) ?? []), reaction]);
+    }
+
+    return reactions;
+  }
+
+  /**
+   * Feedback reactions on a room's Game Master messages
+   */
+  async countGmFeedback(roomId: string): Promise<GmFeedback> {
+    const rows = await this.db
+      .select({ emoji: messageReactions.emoji, count: count() })
+      .from(messageReactions)
+      .innerJoin(messages, eq(messageReactions.messageId, messages.id))
+      .where(
+        and(
+          eq(messages.roomId, roomId),
+          eq(messages.userId, GAME_MASTER.USER_ID),
+          eq(messages.kind, "gm"),
+          isNull(messages.deletedAt),
+          inArray(messageReactions.emoji, Object.values(GM_FEEDBACK_REACTIONS)),
+        ),
+      )
+      .groupBy(messageReactions.emoji);
+
+    const countOf = (emoji: string) => rows.find((row) => row.emoji === emoji)?.count ?? 0;
+
+    return {
+      positive: countOf(GM_FEEDBACK_REACTIONS.POSITIVE),
+      negative: countOf(GM_FEEDBACK_REACTIONS.NEGATIVE),
+    };
+  }
+}
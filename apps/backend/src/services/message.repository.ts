@@ -0,0 +1,227 @@
+import type { Database } from "@rpgate/database";
+import { schema } from "@rpgate/database";
+import {
+  type MessageKind,
+  type MessageKindPayload,
+  messageKindPayloadSchema,
+} from "@rpgate/shared";
+import { type SQL, and, asc, desc, eq, inArray, isNull, ne, or, sql } from "drizzle-orm";
+
+const { characters, messageEdits, messageEmbeddings, messages, users } = schema;
+type Message = typeof messages.$inferSelect;
+type NewMessage = typeof messages.$inferInsert;
+
+// Deletion is internal bookkeeping; deleted messages are never returned with their author
+type VisibleMessage = Omit<Message, "deletedAt" | "deletedBy">;
+
+export type MessageWithAuthor = Omit<VisibleMessage, "kind" | "payload"> &
+  MessageKindPayload & { username: string; characterName: string | null };
+
+type MessageWithAuthorRow = VisibleMessage & { username: string; characterName: string | null };
+
+const messageWithAuthorColumns = {
+  id: messages.id,
+  roomId: messages.roomId,
+  userId: messages.userId,
+  characterId: messages.characterId,
+  content: messages.content,
+  kind: messages.kind,
+  payload: messages.payload,
+  replyToId: messages.replyToId,
+  createdAt: messages.createdAt,
+  editedAt: messages.editedAt,
+  username: users.username,
+  characterName: characters.name,
+};
+
+/**
+ * Narrow a row's kind and payload to the matching discriminated union member
+ */
+function toMessageWithAuthor(row: MessageWithAuthorRow): MessageWithAuthor {
+  const { kind, payload, ...rest } = row;
+  return { ...rest, ...messageKindPayloadSchema.parse({ kind, payload }) };
+}
+
+/**
+ * Keyset position in a room's history to page from (exclusive)
+ */
+export interface MessagePageCursor {
+  createdAt: Date;
+  id: string;
+}
+
+/**
+ * Message repository for database operations
+ */
+export class MessageRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Create a new message
+   */
+  async create(messageData: NewMessage): Promise<Message> {
+    const [message] = await this.db.insert(messages).values(messageData).returning();
+    if (!message) {
+      throw new Error("Failed to create message");
+    }
+    return message;
+  }
+
+  /**
+   * Find a message in a room by ID, unless it was deleted
+   */
+  async findById(roomId: string, id: string): Promise<Message | null> {
+    const [message] = await this.db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.id, id), eq(messages.roomId, roomId), isNull(messages.deletedAt)))
+      .limit(1);
+
+    return message || null;
+  }
+
+  /**
+   * Replace a message's content, keeping the previous content in the edit history.
+   * Its embedding is dropped so the new text gets embedded again.
+   */
+  async updateContent(message: Message, content: string, editedBy: string): Promise<void> {
+    const editedAt = new Date();
+
+    await this.db.transaction(async (tx) => {
+      await tx.insert(messageEdits).values({
+        messageId: message.id,
+        action: "edit",
+        previousContent: message.content,
+        changedBy: editedBy,
+        createdAt: editedAt,
+      });
+      await tx.update(messages).set({ content, editedAt }).where(eq(messages.id, message.id));
+      await tx.delete(messageEmbeddings).where(eq(messageEmbeddings.messageId, message.id));
+    });
+  }
+
+  /**
+   * Soft-delete a message, recording the deletion in the edit history
+   */
+  async softDelete(message: Message, deletedBy: string): Promise<void> {
+    const deletedAt = new Date();
+
+    await this.db.transaction(async (tx) => {
+      await tx.insert(messageEdits).values({
+        messageId: message.id,
+        action: "delete",
+        previousContent: message.content,
+        changedBy: deletedBy,
+        createdAt: deletedAt,
+      });
+      await tx.update(messages).set({ deletedAt, deletedBy }).where(eq(messages.id, message.id));
+    });
+  }
+
+  /**
+   * Find message by ID with author username
+   */
+  async findByIdWithAuthor(id: string): Promise<MessageWithAuthor | null> {
+    const [message] = await this.db
+      .select(messageWithAuthorColumns)
+      .from(messages)
+      .innerJoin(users, eq(messages.userId, users.id))
+      .leftJoin(characters, eq(messages.characterId, characters.id))
+      .where(eq(messages.id, id))
+      .limit(1);
+
+    return message ? toMessageWithAuthor(message) : null;
+  }
+
+  /**
+   * Find messages by ID with author username, oldest first
+   */
+  async findByIdsWithAuthor(ids: string[]): Promise<MessageWithAuthor[]> {
+    if (ids.length === 0) return [];
+
+    const rows = await this.db
+      .select(messageWithAuthorColumns)
+      .from(messages)
+      .innerJoin(users, eq(messages.userId, users.id))
+      .leftJoin(characters, eq(messages.characterId, characters.id))
+      .where(and(inArray(messages.id, ids), isNull(messages.deletedAt)))
+      .orderBy(asc(messages.createdAt), asc(messages.id));
+
+    return rows.map(toMessageWithAuthor);
+  }
+
+  /**
+   * Find messages in a room, newest first, strictly older than the cursor,
+   * optionally restricted to some kinds and to what one user may see
+   */
+  async findByRoom(
+    roomId: string,
+    limit: number,
+    before?: MessagePageCursor,
+    kinds?: MessageKind[],
+    visibleTo?: string,
+  ): Promise<MessageWithAuthor[]> {
+    const conditions = [eq(messages.roomId, roomId), isNull(messages.deletedAt)];
+    if (kinds) {
+      conditions.push(inArray(messages.kind, kinds));
+    }
+    if (visibleTo) {
+      // Whispers only show up for their author and recipients
+      conditions.push(
+        or(
+          ne(messages.kind, "whisper"),
+          eq(messages.userId, visibleTo),
+          sql`${messages.payload}->'recipientIds' @> ${JSON.stringify([visibleTo])}::jsonb`,
+        ) as SQL,
+      );
+    }
+    if (before) {
+      conditions.push(
+        sql`(${messages.createdAt}, ${messages.id}) < (${before.createdAt.toISOString()}::timestamptz, ${before.id}::uuid)`,
+      );
+    }
+
+    const rows = await this.db
+      .select(messageWithAuthorColumns)
+      .from(messages)
+      .innerJoin(users, eq(messages.userId, users.id))
+      .leftJoin(characters, eq(messages.characterId, characters.id))
+      .where(and(...conditions))
+      .orderBy(desc(messages.createdAt), desc(messages.id))
+      .limit(limit);
+
+    return rows.map(toMessageWithAuthor);
+  }
+
+  /**
+   * Find messages in a room, oldest first, strictly newer than the cursor,
+   * optionally restricted to some kinds
+   */
+  async findByRoomAfter(
+    roomId: string,
+    limit: number,
+    after?: MessagePageCursor,
+    kinds?: MessageKind[],
+  ): Promise<MessageWithAuthor[]> {
+    const conditions = [eq(messages.roomId, roomId), isNull(messages.deletedAt)];
+    if (kinds) {
+      conditions.push(inArray(messages.kind, kinds));
+    }
+    if (after) {
+      conditions.push(
+        sql`(${messages.createdAt}, ${messages.id}) > (${after.createdAt.toISOString()}::timestamptz, ${after.id}::uuid)`,
+      );
+    }
+
+    const rows = await this.db
+      .select(messageWithAuthorColumns)
+      .from(messages)
+      .innerJoin(users, eq(messages.userId, users.id))
+      .leftJoin(characters, eq(messages.characterId, characters.id))
+      .where(and(...conditions))
+      .orderBy(asc(messages.createdAt), asc(messages.id))
+      .limit(limit);
+
+    return rows.map(toMessageWithAuthor);
+  }
+}
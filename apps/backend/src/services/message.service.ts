@@ -0,0 +1,684 @@
+import type { Database } from "@rpgate/database";
+import {
+  type CreateMessageInput,
+  type DiceRollResult,
+  EDITABLE_MESSAGE_KINDS,
+  type EditMessageInput,
+  GAME_MASTER,
+  MESSAGE_EDIT_WINDOW_MINUTES,
+  type MessageHistoryQuery,
+  type MessageKind,
+  type MessageKindPayload,
+  ROOM_PERMISSIONS,
+  type ReactionCount,
+  type ReactionInput,
+  type SystemEvent,
+  canSpectateRoom,
+  canViewMessage,
+  createMessageSchema,
+  describeDiceRoll,
+  describeSystemEvent,
+  editMessageSchema,
+  getMessageAudience,
+  messageKindPayloadSchema,
+  reactionSchema,
+} from "@rpgate/shared";
+import type { FastifyBaseLogger } from "fastify";
+import { decodeCursor, encodeCursor } from "../utils/cursor.util";
+import { CharacterRepository } from "./character.repository.js";
+import { MessageReactionRepository } from "./message-reaction.repository.js";
+import { MessageRepository, type MessageWithAuthor } from "./message.repository.js";
+import { RoomBanRepository } from "./room-ban.repository.js";
+import { RoomRepository } from "./room.repository.js";
+
+export type MessageWithReactions = MessageWithAuthor & { reactions: ReactionCount[] };
+
+interface MessagePage {
+  messages: MessageWithReactions[];
+  nextCursor: string | null;
+}
+
+/**
+ * A member's reaction as it now stands. changed is false when the reaction was already
+ * there (or already gone); audience is who may see the message, or null for the whole room.
+ */
+export interface ReactionChange extends ReactionInput {
+  userId: string;
+  count: number;
+  changed: boolean;
+  audience: string[] | null;
+}
+
+// Error types
+export class MessageError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400,
+  ) {
+    super(message);
+    this.name = "MessageError";
+  }
+}
+
+export const MESSAGE_ERRORS = {
+  INVALID_MESSAGE: "INVALID_MESSAGE",
+  INVALID_RECIPIENTS: "INVALID_RECIPIENTS",
+  INVALID_REPLY: "INVALID_REPLY",
+  ROOM_NOT_FOUND: "ROOM_NOT_FOUND",
+  NOT_MEMBER: "NOT_MEMBER",
+  INVALID_CURSOR: "INVALID_CURSOR",
+  MESSAGE_NOT_FOUND: "MESSAGE_NOT_FOUND",
+  NOT_MESSAGE_AUTHOR: "NOT_MESSAGE_AUTHOR",
+  NOT_EDITABLE: "NOT_EDITABLE",
+  EDIT_WINDOW_EXPIRED: "EDIT_WINDOW_EXPIRED",
+  PERMISSION_DENIED: "PERMISSION_DENIED",
+} as const;
+
+const EDIT_WINDOW_MS = MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+
+/**
+ * Message service for chat message business logic
+ */
+export class MessageService {
+  private messageRepository: MessageRepository;
+  private roomRepository: RoomRepository;
+  private banRepository: RoomBanRepository;
+  private characterRepository: CharacterRepository;
+  private reactionRepository: MessageReactionRepository;
+  private logger: FastifyBaseLogger;
+
+  constructor(db: Database, logger: FastifyBaseLogger) {
+    this.messageRepository = new MessageRepository(db);
+    this.reactionRepository = new MessageReactionRepository(db);
+    this.roomRepository = new RoomRepository(db);
+    this.banRepository = new RoomBanRepository(db);
+    this.characterRepository = new CharacterRepository(db);
+    this.logger = logger;
+  }
+
+  /**
+   * Validate and persist a chat message, bumping the room's activity timestamp
+   */
+  async createMessage(userId: string, input: CreateMessageInput): Promise<MessageWithAuthor> {
+    const validation = createMessageSchema.safeParse(input);
+    if (!validation.success) {
+      throw new MessageError(
+        validation.error.errors[0]?.message || "Invalid message",
+        MESSAGE_ERRORS.INVALID_MESSAGE,
+        400,
+      );
+    }
+
+    const { roomId, content, kind, recipientIds, replyToId } = validation.data;
+
+    try {
+      const room = await this.roomRepository.findById(roomId);
+      if (!room) {
+        throw new MessageError("Room not found", MESSAGE_ERRORS.ROOM_NOT_FOUND, 404);
+      }
+
+      if (
+        kind === "ic" &&
+        !(await this.roomRepository.hasPermission(
+          roomId,
+          userId,
+          ROOM_PERMISSIONS.POST_IN_CHARACTER,
+        ))
+      ) {
+        throw new MessageError(
+          "Your role cannot post in character",
+          MESSAGE_ERRORS.PERMISSION_DENIED,
+          403,
+        );
+      }
+
+      // In-character speech is spoken by the member's active character, if they have one
+      const character =
+        kind === "ic" ? await this.characterRepository.findActive(roomId, userId) : null;
+
+      const kindPayload: MessageKindPayload =
+        kind === "whisper"
+          ? {
+              kind,
+              payload: {
+                recipientIds: await this.resolveRecipients(roomId, userId, recipientIds ?? []),
+              },
+            }
+          : { kind, payload: null };
+
+      if (replyToId) {
+        await this.assertCanReplyTo(roomId, userId, replyToId, kind);
+      }
+
+      const message = await this.store(roomId, userId, content, kindPayload, {
+        characterId: character?.id,
+        replyToId,
+      });
+
+      this.logger.debug(
+        { messageId: message.id, roomId, userId, kind },
+        "Message created successfully",
+      );
+
+      return message;
+    } catch (error) {
+      if (error instanceof MessageError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to create message",
+      );
+
+      throw new MessageError("Failed to create message", "CREATE_FAILED", 500);
+    }
+  }
+
+  /**
+   * Record a room event (join, leave, ownership change) in history.
+   * actorId is the user the event is about and becomes the message author.
+   */
+  async createSystemMessage(
+    roomId: string,
+    actorId: string,
+    event: SystemEvent,
+  ): Promise<MessageWithAuthor> {
+    try {
+      const message = await this.store(roomId, actorId, describeSystemEvent(event), {
+        kind: "system",
+        payload: event,
+      });
+
+      this.logger.debug(
+        { messageId: message.id, roomId, event: event.event },
+        "System message created",
+      );
+
+      return message;
+    } catch (error) {
+      this.logger.error(
+        {
+          roomId,
+          actorId,
+          event: event.event,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to create system message",
+      );
+
+      throw new MessageError("Failed to create message", "CREATE_FAILED", 500);
+    }
+  }
+
+  /**
+   * Record a server-side dice roll in history with its full breakdown
+   */
+  async createRollMessage(
+    roomId: string,
+    userId: string,
+    username: string,
+    roll: DiceRollResult,
+  ): Promise<MessageWithAuthor> {
+    try {
+      // The Game Master rolls for NPCs without being a member
+      if (
+        userId !== GAME_MASTER.USER_ID &&
+        !(await this.roomRepository.hasPermission(roomId, userId, ROOM_PERMISSIONS.ROLL_DICE))
+      ) {
+        throw new MessageError("Your role cannot roll dice", MESSAGE_ERRORS.PERMISSION_DENIED, 403);
+      }
+
+      const message = await this.store(roomId, userId, describeDiceRoll(username, roll), {
+        kind: "roll",
+        payload: { roll },
+      });
+
+      this.logger.debug({ messageId: message.id, roomId, userId }, "Roll message created");
+
+      return message;
+    } catch (error) {
+      if (error instanceof MessageError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to create roll message",
+      );
+
+      throw new MessageError("Failed to create message", "CREATE_FAILED", 500);
+    }
+  }
+
+  /**
+   * Get a page of room history, newest first, with reaction counts (members, and
+   * spectators of public rooms that allow them). Whispers are included only for their
+   * author and recipients.
+   */
+  async getRoomMessages(
+    roomId: string,
+    userId: string,
+    query: MessageHistoryQuery,
+  ): Promise<MessagePage> {
+    try {
+      const room = await this.roomRepository.findById(roomId);
+      if (!room) {
+        throw new MessageError("Room not found", MESSAGE_ERRORS.ROOM_NOT_FOUND, 404);
+      }
+
+      const isMember = await this.roomRepository.isMember(roomId, userId);
+      const isSpectator =
+        !isMember &&
+        canSpectateRoom(room) &&
+        !(await this.banRepository.findActive(roomId, userId));
+      if (!isMember && !isSpectator) {
+        throw new MessageError(
+          "Only room members can view message history",
+          MESSAGE_ERRORS.NOT_MEMBER,
+          403,
+        );
+      }
+
+      const before = query.before ? decodeCursor(query.before) : undefined;
+      if (before === null) {
+        throw new MessageError("Invalid cursor", MESSAGE_ERRORS.INVALID_CURSOR, 400);
+      }
+
+      // Fetch one extra row to know whether an older page exists
+      const rows = await this.messageRepository.findByRoom(
+        roomId,
+        query.limit + 1,
+        before,
+        undefined,
+        userId,
+      );
+      const hasNext = rows.length > query.limit;
+      const page = hasNext ? rows.slice(0, query.limit) : rows;
+      const last = page[page.length - 1];
+
+      const reactions = await this.reactionRepository.countByMessages(page.map(({ id }) => id));
+      const messages = page.map((message) => ({
+        ...message,
+        reactions: reactions.get(message.id) ?? [],
+      }));
+
+      return {
+        messages,
+        nextCursor: hasNext && last ? encodeCursor(last) : null,
+      };
+    } catch (error) {
+      if (error instanceof MessageError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to get room messages",
+      );
+
+      throw new MessageError("Failed to get room messages", "FETCH_FAILED", 500);
+    }
+  }
+
+  /**
+   * Edit one of the caller's own chat messages within the edit window.
+   * The previous content is kept in the edit history.
+   */
+  async editMessage(
+    roomId: string,
+    messageId: string,
+    userId: string,
+    input: EditMessageInput,
+  ): Promise<MessageWithAuthor> {
+    const validation = editMessageSchema.safeParse(input);
+    if (!validation.success) {
+      throw new MessageError(
+        validation.error.errors[0]?.message || "Invalid message",
+        MESSAGE_ERRORS.INVALID_MESSAGE,
+        400,
+      );
+    }
+
+    try {
+      await this.assertMember(roomId, userId);
+      const message = await this.findMessage(roomId, messageId);
+
+      if (message.userId !== userId) {
+        throw new MessageError(
+          "Only the author can edit a message",
+          MESSAGE_ERRORS.NOT_MESSAGE_AUTHOR,
+          403,
+        );
+      }
+      if (!this.isEditableKind(message.kind)) {
+        throw new MessageError(
+          "Only chat messages can be edited",
+          MESSAGE_ERRORS.NOT_EDITABLE,
+          400,
+        );
+      }
+      if (Date.now() - message.createdAt.getTime() > EDIT_WINDOW_MS) {
+        throw new MessageError(
+          `Messages can only be edited within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes`,
+          MESSAGE_ERRORS.EDIT_WINDOW_EXPIRED,
+          403,
+        );
+      }
+
+      await this.messageRepository.updateContent(message, validation.data.content, userId);
+
+      const updated = await this.messageRepository.findByIdWithAuthor(messageId);
+      if (!updated) {
+        throw new Error("Edited message not found");
+      }
+
+      this.logger.info({ roomId, messageId, userId }, "Message edited");
+
+      return updated;
+    } catch (error) {
+      if (error instanceof MessageError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          messageId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to edit message",
+      );
+
+      throw new MessageError("Failed to edit message", "EDIT_FAILED", 500);
+    }
+  }
+
+  /**
+   * Delete a message: authors may delete their own chat messages, moderators any message.
+   * The row is kept for the audit trail; returns the message as it was.
+   */
+  async deleteMessage(
+    roomId: string,
+    messageId: string,
+    userId: string,
+  ): Promise<MessageWithAuthor> {
+    try {
+      await this.assertMember(roomId, userId);
+      const message = await this.findMessage(roomId, messageId);
+
+      const canDeleteAsAuthor = message.userId === userId && this.isEditableKind(message.kind);
+      if (
+        !canDeleteAsAuthor &&
+        !(await this.roomRepository.hasPermission(
+          roomId,
+          userId,
+          ROOM_PERMISSIONS.MODERATE_MESSAGES,
+        ))
+      ) {
+        throw new MessageError(
+          "Only the author or a game master can delete a message",
+          MESSAGE_ERRORS.NOT_MESSAGE_AUTHOR,
+          403,
+        );
+      }
+
+      const deleted = await this.messageRepository.findByIdWithAuthor(messageId);
+      if (!deleted) {
+        throw new Error("Deleted message not found");
+      }
+      await this.messageRepository.softDelete(message, userId);
+
+      this.logger.info({ roomId, messageId, userId, authorId: message.userId }, "Message deleted");
+
+      return deleted;
+    } catch (error) {
+      if (error instanceof MessageError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          messageId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to delete message",
+      );
+
+      throw new MessageError("Failed to delete message", "DELETE_FAILED", 500);
+    }
+  }
+
+  /**
+   * React to a message with an emoji (members who can see the message)
+   */
+  async addReaction(userId: string, input: ReactionInput): Promise<ReactionChange> {
+    return this.changeReaction(userId, input, "add");
+  }
+
+  /**
+   * Take back a reaction
+   */
+  async removeReaction(userId: string, input: ReactionInput): Promise<ReactionChange> {
+    return this.changeReaction(userId, input, "remove");
+  }
+
+  private async changeReaction(
+    userId: string,
+    input: ReactionInput,
+    action: "add" | "remove",
+  ): Promise<ReactionChange> {
+    const validation = reactionSchema.safeParse(input);
+    if (!validation.success) {
+      throw new MessageError(
+        validation.error.errors[0]?.message || "Invalid reaction",
+        MESSAGE_ERRORS.INVALID_MESSAGE,
+        400,
+      );
+    }
+
+    const { roomId, messageId, emoji } = validation.data;
+
+    try {
+      await this.assertMember(roomId, userId);
+      const message = await this.findVisibleMessage(roomId, messageId, userId);
+
+      const changed =
+        action === "add"
+          ? await this.reactionRepository.add(messageId, userId, emoji)
+          : await this.reactionRepository.remove(messageId, userId, emoji);
+      const count = await this.reactionRepository.count(messageId, emoji);
+
+      if (changed) {
+        this.logger.debug({ roomId, messageId, userId, emoji, action }, "Reaction changed");
+      }
+
+      return {
+        roomId,
+        messageId,
+        emoji,
+        userId,
+        count,
+        changed,
+        audience: getMessageAudience(toKindPayload(message)),
+      };
+    } catch (error) {
+      if (error instanceof MessageError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          messageId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to change reaction",
+      );
+
+      throw new MessageError("Failed to change reaction", "REACTION_FAILED", 500);
+    }
+  }
+
+  private async assertMember(roomId: string, userId: string): Promise<void> {
+    const room = await this.roomRepository.findById(roomId);
+    if (!room) {
+      throw new MessageError("Room not found", MESSAGE_ERRORS.ROOM_NOT_FOUND, 404);
+    }
+
+    const isMember = await this.roomRepository.isMember(roomId, userId);
+    if (!isMember) {
+      throw new MessageError(
+        "Only room members can change messages",
+        MESSAGE_ERRORS.NOT_MEMBER,
+        403,
+      );
+    }
+  }
+
+  private async findMessage(roomId: string, messageId: string) {
+    const message = await this.messageRepository.findById(roomId, messageId);
+    if (!message) {
+      throw new MessageError("Message not found", MESSAGE_ERRORS.MESSAGE_NOT_FOUND, 404);
+    }
+    return message;
+  }
+
+  /**
+   * A message the user may see; whispers they are not party to are reported as missing
+   */
+  private async findVisibleMessage(roomId: string, messageId: string, userId: string) {
+    const message = await this.findMessage(roomId, messageId);
+    if (!canViewMessage(toKindPayload(message), userId)) {
+      throw new MessageError("Message not found", MESSAGE_ERRORS.MESSAGE_NOT_FOUND, 404);
+    }
+    return message;
+  }
+
+  /**
+   * A reply must target a message the author can see in the same room,
+   * and only a whisper may reply to a whisper so the thread stays private
+   */
+  private async assertCanReplyTo(
+    roomId: string,
+    userId: string,
+    replyToId: string,
+    kind: MessageKind,
+  ): Promise<void> {
+    const repliedTo = await this.messageRepository.findById(roomId, replyToId);
+    if (!repliedTo || !canViewMessage(toKindPayload(repliedTo), userId)) {
+      throw new MessageError(
+        "The message being replied to was not found",
+        MESSAGE_ERRORS.INVALID_REPLY,
+        400,
+      );
+    }
+    if (repliedTo.kind === "whisper" && kind !== "whisper") {
+      throw new MessageError(
+        "Only a whisper can reply to a whisper",
+        MESSAGE_ERRORS.INVALID_REPLY,
+        400,
+      );
+    }
+  }
+
+  private isEditableKind(kind: MessageKind): boolean {
+    return (EDITABLE_MESSAGE_KINDS as readonly MessageKind[]).includes(kind);
+  }
+
+  /**
+   * Whisper recipients without duplicates or the author. Each must be a room member
+   * or the Game Master.
+   */
+  private async resolveRecipients(
+    roomId: string,
+    userId: string,
+    recipientIds: string[],
+  ): Promise<string[]> {
+    const recipients = [...new Set(recipientIds)].filter((id) => id !== userId);
+    if (recipients.length === 0) {
+      throw new MessageError(
+        "A whisper needs a recipient other than its author",
+        MESSAGE_ERRORS.INVALID_RECIPIENTS,
+        400,
+      );
+    }
+
+    for (const recipientId of recipients) {
+      if (recipientId === GAME_MASTER.USER_ID) continue;
+
+      const isMember = await this.roomRepository.isMember(roomId, recipientId);
+      if (!isMember) {
+        throw new MessageError(
+          "Whisper recipients must be room members",
+          MESSAGE_ERRORS.INVALID_RECIPIENTS,
+          400,
+        );
+      }
+    }
+
+    return recipients;
+  }
+
+  /**
+   * Persist a message, bump the room's activity timestamp and return it with its author
+   */
+  private async store(
+    roomId: string,
+    userId: string,
+    content: string,
+    { kind, payload }: MessageKindPayload,
+    { characterId, replyToId }: { characterId?: string; replyToId?: string } = {},
+  ): Promise<MessageWithAuthor> {
+    // Timestamp set here (millisecond precision) so history cursors round-trip exactly
+    const created = await this.messageRepository.create({
+      roomId,
+      userId,
+      characterId,
+      replyToId,
+      content,
+      kind,
+      payload,
+      createdAt: new Date(),
+    });
+    await this.roomRepository.updateLastActivity(roomId);
+
+    const message = await this.messageRepository.findByIdWithAuthor(created.id);
+    if (!message) {
+      throw new Error("Created message not found");
+    }
+
+    return message;
+  }
+}
+
+/**
+ * A stored message's author with its kind and payload narrowed to the matching union member
+ */
+function toKindPayload(message: {
+  userId: string;
+  kind: MessageKind;
+  payload: unknown;
+}): MessageKindPayload & { userId: string } {
+  return {
+    userId: message.userId,
+    ...messageKindPayloadSchema.parse({ kind: message.kind, payload: message.payload }),
+  };
+}
@@ -0,0 +1,403 @@
+import type { Database } from "@rpgate/database";
+import { schema } from "@rpgate/database";
+import {
+  type BanMemberInput,
+  type MuteMemberInput,
+  ROOM_PERMISSIONS,
+  type RoomPermission,
+  type RoomRole,
+  banMemberSchema,
+  hasRoomPermission,
+  muteMemberSchema,
+  outranksRoomRole,
+} from "@rpgate/shared";
+import type { FastifyBaseLogger } from "fastify";
+import type { Redis } from "ioredis";
+import type { MessageWithAuthor } from "./message.repository.js";
+import { MessageService } from "./message.service.js";
+import { RoomBanRepository, type RoomBanWithUser } from "./room-ban.repository.js";
+import { type RoomMute, RoomMuteRepository } from "./room-mute.repository.js";
+import { RoomRepository } from "./room.repository.js";
+import { UserRepository } from "./user.repository.js";
+
+const { roomBans } = schema;
+type RoomBan = typeof roomBans.$inferSelect;
+
+interface BanMemberResult {
+  ban: RoomBan;
+  // Whether the user was a member and has been removed from the room
+  removed: boolean;
+  // System message recording the ban
+  message: MessageWithAuthor;
+}
+
+// Error types
+export class ModerationError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400,
+  ) {
+    super(message);
+    this.name = "ModerationError";
+  }
+}
+
+export const MODERATION_ERRORS = {
+  INVALID_INPUT: "INVALID_INPUT",
+  ROOM_NOT_FOUND: "ROOM_NOT_FOUND",
+  USER_NOT_FOUND: "USER_NOT_FOUND",
+  NOT_MEMBER: "NOT_MEMBER",
+  PERMISSION_DENIED: "PERMISSION_DENIED",
+  CANNOT_MODERATE_SELF: "CANNOT_MODERATE_SELF",
+  BAN_NOT_FOUND: "BAN_NOT_FOUND",
+  MUTE_NOT_FOUND: "MUTE_NOT_FOUND",
+  BANNED: "BANNED",
+  MUTED: "MUTED",
+} as const;
+
+/**
+ * Moderation service: room bans (kept in the database) and timed mutes (kept in Redis)
+ */
+export class ModerationService {
+  private roomRepository: RoomRepository;
+  private banRepository: RoomBanRepository;
+  private muteRepository: RoomMuteRepository;
+  private userRepository: UserRepository;
+  private messageService: MessageService;
+  private logger: FastifyBaseLogger;
+
+  constructor(db: Database, redis: Redis, logger: FastifyBaseLogger) {
+    this.roomRepository = new RoomRepository(db);
+    this.banRepository = new RoomBanRepository(db);
+    this.muteRepository = new RoomMuteRepository(redis);
+    this.userRepository = new UserRepository(db);
+    this.messageService = new MessageService(db, logger);
+    this.logger = logger;
+  }
+
+  /**
+   * Ban a user from a room (members allowed to kick, and only users they outrank).
+   * A banned member is removed from the room; the ban is recorded in history.
+   */
+  async banMember(
+    roomId: string,
+    actorId: string,
+    input: BanMemberInput,
+  ): Promise<BanMemberResult> {
+    const validation = banMemberSchema.safeParse(input);
+    if (!validation.success) {
+      throw new ModerationError(
+        validation.error.errors[0]?.message || "Invalid ban",
+        MODERATION_ERRORS.INVALID_INPUT,
+        400,
+      );
+    }
+
+    const { userId, reason, expiresIn } = validation.data;
+
+    try {
+      const role = await this.assertCanModerate(
+        roomId,
+        actorId,
+        userId,
+        ROOM_PERMISSIONS.KICK_MEMBERS,
+        "You are not allowed to ban members",
+      );
+
+      const user = await this.userRepository.findById(userId);
+      if (!user) {
+        throw new ModerationError("User not found", MODERATION_ERRORS.USER_NOT_FOUND, 404);
+      }
+
+      // Former members and strangers can be banned too, but members only by a higher role
+      const memberRole = await this.roomRepository.getMemberRole(roomId, userId);
+      if (memberRole && !outranksRoomRole(role, memberRole)) {
+        throw new ModerationError(
+          "You can only ban members with a lower role",
+          MODERATION_ERRORS.PERMISSION_DENIED,
+          403,
+        );
+      }
+
+      const expiresAt = expiresIn ? new Date(Date.now() + expiresIn * 1000) : null;
+      const ban = await this.banRepository.ban(roomId, userId, actorId, reason ?? null, expiresAt);
+
+      if (memberRole) {
+        await this.roomRepository.removeMember(roomId, userId);
+      }
+
+      const message = await this.messageService.createSystemMessage(roomId, userId, {
+        event: "member_banned",
+        userId,
+        username: user.username,
+        bannedBy: actorId,
+        expiresAt: expiresAt?.toISOString() ?? null,
+      });
+
+      this.logger.info({ roomId, actorId, userId, expiresAt }, "User banned from room");
+
+      return { ban, removed: memberRole !== null, message };
+    } catch (error) {
+      if (error instanceof ModerationError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          actorId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to ban user",
+      );
+
+      throw new ModerationError("Failed to ban user", "BAN_FAILED", 500);
+    }
+  }
+
+  /**
+   * Lift a user's ban (members allowed to kick)
+   */
+  async unbanMember(roomId: string, actorId: string, userId: string): Promise<void> {
+    try {
+      await this.assertPermission(
+        roomId,
+        actorId,
+        ROOM_PERMISSIONS.KICK_MEMBERS,
+        "You are not allowed to lift bans",
+      );
+
+      const lifted = await this.banRepository.unban(roomId, userId);
+      if (!lifted) {
+        throw new ModerationError(
+          "User is not banned from this room",
+          MODERATION_ERRORS.BAN_NOT_FOUND,
+          404,
+        );
+      }
+
+      this.logger.info({ roomId, actorId, userId }, "Room ban lifted");
+    } catch (error) {
+      if (error instanceof ModerationError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          actorId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to lift room ban",
+      );
+
+      throw new ModerationError("Failed to lift ban", "UNBAN_FAILED", 500);
+    }
+  }
+
+  /**
+   * A room's bans that still apply, newest first (members allowed to kick)
+   */
+  async listBans(roomId: string, actorId: string): Promise<RoomBanWithUser[]> {
+    try {
+      await this.assertPermission(
+        roomId,
+        actorId,
+        ROOM_PERMISSIONS.KICK_MEMBERS,
+        "You are not allowed to view bans",
+      );
+
+      return await this.banRepository.findActiveByRoom(roomId);
+    } catch (error) {
+      if (error instanceof ModerationError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          actorId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to list room bans",
+      );
+
+      throw new ModerationError("Failed to list bans", "LIST_BANS_FAILED", 500);
+    }
+  }
+
+  /**
+   * Mute a member for a while (members allowed to moderate messages, and only members
+   * they outrank). Muted members stay in the room but cannot post, edit their messages
+   * or react.
+   */
+  async muteMember(roomId: string, actorId: string, input: MuteMemberInput): Promise<RoomMute> {
+    const validation = muteMemberSchema.safeParse(input);
+    if (!validation.success) {
+      throw new ModerationError(
+        validation.error.errors[0]?.message || "Invalid mute",
+        MODERATION_ERRORS.INVALID_INPUT,
+        400,
+      );
+    }
+
+    const { userId, reason, duration } = validation.data;
+
+    try {
+      const role = await this.assertCanModerate(
+        roomId,
+        actorId,
+        userId,
+        ROOM_PERMISSIONS.MODERATE_MESSAGES,
+        "You are not allowed to mute members",
+      );
+
+      const memberRole = await this.roomRepository.getMemberRole(roomId, userId);
+      if (!memberRole) {
+        throw new ModerationError(
+          "User is not a member of this room",
+          MODERATION_ERRORS.NOT_MEMBER,
+          400,
+        );
+      }
+      if (!outranksRoomRole(role, memberRole)) {
+        throw new ModerationError(
+          "You can only mute members with a lower role",
+          MODERATION_ERRORS.PERMISSION_DENIED,
+          403,
+        );
+      }
+
+      const mute = await this.muteRepository.mute(
+        roomId,
+        userId,
+        actorId,
+        reason ?? null,
+        duration,
+      );
+
+      this.logger.info({ roomId, actorId, userId, duration }, "Member muted");
+
+      return mute;
+    } catch (error) {
+      if (error instanceof ModerationError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          actorId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to mute member",
+      );
+
+      throw new ModerationError("Failed to mute member", "MUTE_FAILED", 500);
+    }
+  }
+
+  /**
+   * Lift a member's mute (members allowed to moderate messages)
+   */
+  async unmuteMember(roomId: string, actorId: string, userId: string): Promise<void> {
+    try {
+      await this.assertPermission(
+        roomId,
+        actorId,
+        ROOM_PERMISSIONS.MODERATE_MESSAGES,
+        "You are not allowed to unmute members",
+      );
+
+      const lifted = await this.muteRepository.unmute(roomId, userId);
+      if (!lifted) {
+        throw new ModerationError("Member is not muted", MODERATION_ERRORS.MUTE_NOT_FOUND, 404);
+      }
+
+      this.logger.info({ roomId, actorId, userId }, "Member unmuted");
+    } catch (error) {
+      if (error instanceof ModerationError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          actorId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to unmute member",
+      );
+
+      throw new ModerationError("Failed to unmute member", "UNMUTE_FAILED", 500);
+    }
+  }
+
+  /**
+   * Check that a user is neither banned nor muted before they post, edit or react. A ban
+   * also revokes the user's room subscription, but a socket on another instance may not
+   * have caught up.
+   */
+  async assertCanPost(roomId: string, userId: string): Promise<void> {
+    const ban = await this.banRepository.findActive(roomId, userId);
+    if (ban) {
+      throw new ModerationError("You are banned from this room", MODERATION_ERRORS.BANNED, 403);
+    }
+
+    const mute = await this.muteRepository.find(roomId, userId);
+    if (mute) {
+      throw new ModerationError(
+        `You are muted in this room until ${new Date(mute.expiresAt).toISOString()}`,
+        MODERATION_ERRORS.MUTED,
+        403,
+      );
+    }
+  }
+
+  /**
+   * Require a permission, and an actor other than the user being moderated
+   */
+  private async assertCanModerate(
+    roomId: string,
+    actorId: string,
+    userId: string,
+    permission: RoomPermission,
+    message: string,
+  ): Promise<RoomRole> {
+    const role = await this.assertPermission(roomId, actorId, permission, message);
+    if (actorId === userId) {
+      throw new ModerationError(
+        "You cannot moderate yourself",
+        MODERATION_ERRORS.CANNOT_MODERATE_SELF,
+        400,
+      );
+    }
+    return role;
+  }
+
+  /**
+   * Require an existing room and a member whose role grants the permission; returns their role
+   */
+  private async assertPermission(
+    roomId: string,
+    userId: string,
+    permission: RoomPermission,
+    message: string,
+  ): Promise<RoomRole> {
+    const room = await this.roomRepository.findById(roomId);
+    if (!room) {
+      throw new ModerationError("Room not found", MODERATION_ERRORS.ROOM_NOT_FOUND, 404);
+    }
+
+    const role = await this.roomRepository.getMemberRole(roomId, userId);
+    if (!role || !hasRoomPermission(role, permission)) {
+      throw new ModerationError(message, MODERATION_ERRORS.PERMISSION_DENIED, 403);
+    }
+    return role;
+  }
+}
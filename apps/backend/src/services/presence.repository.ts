@@ -0,0 +1,190 @@
+import type Redis from "ioredis";
+
+/**
+ * One connection of a user subscribed to a room
+ */
+export interface PresenceEntry {
+  roomId: string;
+  userId: string;
+  connectionId: string;
+}
+
+/**
+ * A user whose last connection to a room went away
+ */
+export interface PresenceExpiry {
+  roomId: string;
+  userId: string;
+}
+
+// Members are "<userId>|<connectionId>" scored by when they expire (ms). Room keys carry no
+// Redis TTL: expired entries are pruned explicitly so their users can be reported offline.
+const HAS_LIVE_CONNECTION = `
+local function hasLiveConnection(key, userId, now)
+  local prefix = userId .. "|"
+  for _, member in ipairs(redis.call("ZRANGEBYSCORE", key, "(" .. now, "+inf")) do
+    if string.sub(member, 1, #prefix) == prefix then
+      return true
+    end
+  end
+  return false
+end
+`;
+
+// Adds a connection; returns 1 if the user had no other live connection in the room
+const ADD_SCRIPT = `${HAS_LIVE_CONNECTION}
+local now = tonumber(ARGV[1])
+local online = hasLiveConnection(KEYS[1], ARGV[3], now)
+redis.call("ZADD", KEYS[1], now + tonumber(ARGV[2]), ARGV[3] .. "|" .. ARGV[4])
+redis.call("SADD", KEYS[2], ARGV[5])
+if online then
+  return 0
+end
+return 1
+`;
+
+// Removes a connection; returns 1 if it was there and was the user's last live one
+const REMOVE_SCRIPT = `${HAS_LIVE_CONNECTION}
+local now = tonumber(ARGV[1])
+local removed = redis.call("ZREM", KEYS[1], ARGV[2] .. "|" .. ARGV[3])
+if removed == 0 or hasLiveConnection(KEYS[1], ARGV[2], now) then
+  return 0
+end
+return 1
+`;
+
+// Drops expired connections; returns the users left without a live one.
+// Only the caller whose ZREM removed an entry reports it, so instances never double-report.
+const PRUNE_SCRIPT = `${HAS_LIVE_CONNECTION}
+local now = tonumber(ARGV[1])
+local offline = {}
+local seen = {}
+for _, member in ipairs(redis.call("ZRANGEBYSCORE", KEYS[1], "-inf", now)) do
+  if redis.call("ZREM", KEYS[1], member) == 1 then
+    local userId = string.match(member, "^([^|]+)|")
+    if userId and not seen[userId] and not hasLiveConnection(KEYS[1], userId, now) then
+      seen[userId] = true
+      table.insert(offline, userId)
+    end
+  end
+end
+if redis.call("ZCARD", KEYS[1]) == 0 then
+  redis.call("SREM", KEYS[2], ARGV[2])
+end
+return offline
+`;
+
+/**
+ * Key prefix of the register of spectators watching rooms without being members
+ */
+export const VIEWER_PRESENCE_PREFIX = "viewers";
+
+/**
+ * Presence repository for Redis-backed online tracking shared by every backend instance.
+ * Each connection in a room is an entry with a TTL that its instance keeps refreshing.
+ * The key prefix keeps separate registers apart, e.g. members online and spectators watching.
+ */
+export class PresenceRepository {
+  private readonly PRESENCE_PREFIX: string;
+  private readonly ROOMS_KEY: string;
+
+  constructor(
+    private redis: Redis,
+    keyPrefix = "presence",
+  ) {
+    this.PRESENCE_PREFIX = `${keyPrefix}:room:`;
+    this.ROOMS_KEY = `${keyPrefix}:rooms`;
+  }
+
+  /**
+   * Mark a connection present; true if the user just came online in the room
+   */
+  async add({ roomId, userId, connectionId }: PresenceEntry, ttlMs: number): Promise<boolean> {
+    const cameOnline = await this.redis.eval(
+      ADD_SCRIPT,
+      2,
+      this.getRoomKey(roomId),
+      this.ROOMS_KEY,
+      Date.now(),
+      ttlMs,
+      userId,
+      connectionId,
+      roomId,
+    );
+
+    return Number(cameOnline) === 1;
+  }
+
+  /**
+   * Remove a connection; true if that took the user offline in the room
+   */
+  async remove({ roomId, userId, connectionId }: PresenceEntry): Promise<boolean> {
+    const wentOffline = await this.redis.eval(
+      REMOVE_SCRIPT,
+      1,
+      this.getRoomKey(roomId),
+      Date.now(),
+      userId,
+      connectionId,
+    );
+
+    return Number(wentOffline) === 1;
+  }
+
+  /**
+   * Push back the expiry of live connections
+   */
+  async refresh(entries: PresenceEntry[], ttlMs: number): Promise<void> {
+    if (entries.length === 0) return;
+
+    const expiresAt = Date.now() + ttlMs;
+    const pipeline = this.redis.pipeline();
+    for (const { roomId, userId, connectionId } of entries) {
+      pipeline.zadd(this.getRoomKey(roomId), expiresAt, `${userId}|${connectionId}`);
+      pipeline.sadd(this.ROOMS_KEY, roomId);
+    }
+    await pipeline.exec();
+  }
+
+  /**
+   * Drop connections whose instance stopped refreshing them (e.g. it crashed)
+   */
+  async pruneExpired(): Promise<PresenceExpiry[]> {
+    const roomIds = await this.redis.smembers(this.ROOMS_KEY);
+    const expired: PresenceExpiry[] = [];
+
+    for (const roomId of roomIds) {
+      const userIds = (await this.redis.eval(
+        PRUNE_SCRIPT,
+        2,
+        this.getRoomKey(roomId),
+        this.ROOMS_KEY,
+        Date.now(),
+        roomId,
+      )) as string[];
+
+      for (const userId of userIds) {
+        expired.push({ roomId, userId });
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Users with at least one live connection in a room
+   */
+  async findOnlineUserIds(roomId: string): Promise<string[]> {
+    const members = await this.redis.zrangebyscore(
+      this.getRoomKey(roomId),
+      `(${Date.now()}`,
+      "+inf",
+    );
+
+    return [...new Set(members.map((member) => member.split("|")[0] ?? member))];
+  }
+
+  private getRoomKey(roomId: string): string {
+    return `${this.PRESENCE_PREFIX}${roomId}`;
+  }
+}
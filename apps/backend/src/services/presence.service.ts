@@ -0,0 +1,252 @@
+import type { Database } from "@rpgate/database";
+import type { FastifyBaseLogger } from "fastify";
+import type { Redis } from "ioredis";
+import {
+  type PresenceEntry,
+  PresenceRepository,
+  VIEWER_PRESENCE_PREFIX,
+} from "./presence.repository.js";
+import { RoomRepository } from "./room.repository.js";
+
+/**
+ * How often each instance refreshes the presence of its connections
+ */
+export const PRESENCE_HEARTBEAT_INTERVAL_MS = 30000;
+
+/**
+ * How long a connection counts as present without a refresh; covers missed heartbeats
+ */
+export const PRESENCE_TTL_MS = 3 * PRESENCE_HEARTBEAT_INTERVAL_MS;
+
+/**
+ * A member who went offline in a room
+ */
+export interface PresenceOffline {
+  roomId: string;
+  userId: string;
+  lastSeenAt: Date;
+}
+
+/**
+ * How many spectators are watching a room
+ */
+export interface RoomViewerCount {
+  roomId: string;
+  viewerCount: number;
+}
+
+// Error types
+export class PresenceError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 500,
+  ) {
+    super(message);
+    this.name = "PresenceError";
+  }
+}
+
+export const PRESENCE_ERRORS = {
+  PRESENCE_FAILED: "PRESENCE_FAILED",
+} as const;
+
+/**
+ * Presence service: who is online in each room, agreed on by every backend instance.
+ * A member is online while at least one of their connections is subscribed to the room.
+ */
+export class PresenceService {
+  private presenceRepository: PresenceRepository;
+  private viewerRepository: PresenceRepository;
+  private roomRepository: RoomRepository;
+  private logger: FastifyBaseLogger;
+
+  constructor(db: Database, redis: Redis, logger: FastifyBaseLogger) {
+    this.presenceRepository = new PresenceRepository(redis);
+    this.viewerRepository = new PresenceRepository(redis, VIEWER_PRESENCE_PREFIX);
+    this.roomRepository = new RoomRepository(db);
+    this.logger = logger;
+  }
+
+  /**
+   * Record a connection joining a room. Returns who is online now, and whether
+   * the member just came online (their first connection to the room).
+   */
+  async join(entry: PresenceEntry): Promise<{ onlineUserIds: string[]; cameOnline: boolean }> {
+    try {
+      const cameOnline = await this.presenceRepository.add(entry, PRESENCE_TTL_MS);
+      const onlineUserIds = await this.presenceRepository.findOnlineUserIds(entry.roomId);
+
+      return { onlineUserIds, cameOnline };
+    } catch (error) {
+      this.logger.error(
+        {
+          roomId: entry.roomId,
+          userId: entry.userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to record presence",
+      );
+
+      throw new PresenceError("Failed to record presence", PRESENCE_ERRORS.PRESENCE_FAILED);
+    }
+  }
+
+  /**
+   * Record a connection leaving a room (or disconnecting) and the member's lastSeenAt.
+   * Returns the change when that was the member's last connection to the room.
+   */
+  async leave(entry: PresenceEntry): Promise<PresenceOffline | null> {
+    try {
+      const wentOffline = await this.presenceRepository.remove(entry);
+      const lastSeenAt = new Date();
+      await this.roomRepository.updateLastSeen(entry.roomId, entry.userId, lastSeenAt);
+
+      return wentOffline ? { roomId: entry.roomId, userId: entry.userId, lastSeenAt } : null;
+    } catch (error) {
+      this.logger.error(
+        {
+          roomId: entry.roomId,
+          userId: entry.userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to clear presence",
+      );
+
+      throw new PresenceError("Failed to clear presence", PRESENCE_ERRORS.PRESENCE_FAILED);
+    }
+  }
+
+  /**
+   * Record a spectator connection watching a room. Returns the new viewer count when
+   * this is the spectator's first connection to the room, otherwise null.
+   */
+  async watch(entry: PresenceEntry): Promise<number | null> {
+    try {
+      const newViewer = await this.viewerRepository.add(entry, PRESENCE_TTL_MS);
+      return newViewer ? await this.countViewers(entry.roomId) : null;
+    } catch (error) {
+      this.logger.error(
+        {
+          roomId: entry.roomId,
+          userId: entry.userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to record viewer",
+      );
+
+      throw new PresenceError("Failed to record viewer", PRESENCE_ERRORS.PRESENCE_FAILED);
+    }
+  }
+
+  /**
+   * Record a spectator connection no longer watching a room. Returns the new viewer
+   * count when that was the spectator's last connection to the room, otherwise null.
+   */
+  async unwatch(entry: PresenceEntry): Promise<number | null> {
+    try {
+      const leftRoom = await this.viewerRepository.remove(entry);
+      return leftRoom ? await this.countViewers(entry.roomId) : null;
+    } catch (error) {
+      this.logger.error(
+        {
+          roomId: entry.roomId,
+          userId: entry.userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to clear viewer",
+      );
+
+      throw new PresenceError("Failed to clear viewer", PRESENCE_ERRORS.PRESENCE_FAILED);
+    }
+  }
+
+  /**
+   * Keep this instance's member and spectator connections present for another TTL
+   */
+  async heartbeat(entries: PresenceEntry[], viewerEntries: PresenceEntry[] = []): Promise<void> {
+    try {
+      await this.presenceRepository.refresh(entries, PRESENCE_TTL_MS);
+      await this.viewerRepository.refresh(viewerEntries, PRESENCE_TTL_MS);
+    } catch (error) {
+      this.logger.error(
+        {
+          connections: entries.length,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to refresh presence",
+      );
+
+      throw new PresenceError("Failed to refresh presence", PRESENCE_ERRORS.PRESENCE_FAILED);
+    }
+  }
+
+  /**
+   * Drop connections that stopped heartbeating (their instance died) and record
+   * lastSeenAt for the members that took offline
+   */
+  async expire(): Promise<PresenceOffline[]> {
+    try {
+      const expired = await this.presenceRepository.pruneExpired();
+      const lastSeenAt = new Date();
+
+      for (const { roomId, userId } of expired) {
+        await this.roomRepository.updateLastSeen(roomId, userId, lastSeenAt);
+      }
+      if (expired.length > 0) {
+        this.logger.info({ count: expired.length }, "Expired stale presence");
+      }
+
+      return expired.map((member) => ({ ...member, lastSeenAt }));
+    } catch (error) {
+      this.logger.error(
+        { error: error instanceof Error ? error.message : "Unknown error" },
+        "Failed to expire presence",
+      );
+
+      throw new PresenceError("Failed to expire presence", PRESENCE_ERRORS.PRESENCE_FAILED);
+    }
+  }
+
+  /**
+   * Drop spectator connections that stopped heartbeating; returns the new viewer count
+   * of each room that lost a spectator
+   */
+  async expireViewers(): Promise<RoomViewerCount[]> {
+    try {
+      const expired = await this.viewerRepository.pruneExpired();
+      const roomIds = [...new Set(expired.map(({ roomId }) => roomId))];
+
+      return await Promise.all(
+        roomIds.map(async (roomId) => ({ roomId, viewerCount: await this.countViewers(roomId) })),
+      );
+    } catch (error) {
+      this.logger.error(
+        { error: error instanceof Error ? error.message : "Unknown error" },
+        "Failed to expire viewers",
+      );
+
+      throw new PresenceError("Failed to expire viewers", PRESENCE_ERRORS.PRESENCE_FAILED);
+    }
+  }
+
+  /**
+   * Members with at least one live connection to a room
+   */
+  async getOnlineUserIds(roomId: string): Promise<string[]> {
+    try {
+      return await this.presenceRepository.findOnlineUserIds(roomId);
+    } catch (error) {
+      this.logger.error(
+        { roomId, error: error instanceof Error ? error.message : "Unknown error" },
+        "Failed to get online members",
+      );
+
+      throw new PresenceError("Failed to get online members", PRESENCE_ERRORS.PRESENCE_FAILED);
+    }
+  }
+
+  private async countViewers(roomId: string): Promise<number> {
+    return (await this.viewerRepository.findOnlineUserIds(roomId)).length;
+  }
+}
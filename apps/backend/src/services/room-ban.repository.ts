@@ -0,0 +1,96 @@
+import type { Database } from "@rpgate/database";
+import { schema } from "@rpgate/database";
+import { and, desc, eq, gt, isNull, or } from "drizzle-orm";
+
+const { roomBans, users } = schema;
+
+type RoomBan = typeof roomBans.$inferSelect;
+
+/**
+ * A room ban with the banned user's name, for ban lists
+ */
+export interface RoomBanWithUser extends RoomBan {
+  username: string;
+}
+
+/**
+ * Room ban repository for database operations
+ */
+export class RoomBanRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Ban a user from a room, replacing any earlier ban
+   */
+  async ban(
+    roomId: string,
+    userId: string,
+    bannedBy: string,
+    reason: string | null,
+    expiresAt: Date | null,
+  ): Promise<RoomBan> {
+    const [ban] = await this.db
+      .insert(roomBans)
+      .values({ roomId, userId, bannedBy, reason, expiresAt })
+      .onConflictDoUpdate({
+        target: [roomBans.roomId, roomBans.userId],
+        set: { bannedBy, reason, expiresAt, createdAt: new Date() },
+      })
+      .returning();
+
+    if (!ban) {
+      throw new Error("Failed to store room ban");
+    }
+    return ban;
+  }
+
+  /**
+   * Lift a user's ban; false if there was none
+   */
+  async unban(roomId: string, userId: string): Promise<boolean> {
+    const removed = await this.db
+      .delete(roomBans)
+      .where(and(eq(roomBans.roomId, roomId), eq(roomBans.userId, userId)))
+      .returning({ userId: roomBans.userId });
+
+    return removed.length > 0;
+  }
+
+  /**
+   * The user's ban in a room, unless it has run out
+   */
+  async findActive(roomId: string, userId: string): Promise<RoomBan | null> {
+    const [ban] = await this.db
+      .select()
+      .from(roomBans)
+      .where(and(eq(roomBans.roomId, roomId), eq(roomBans.userId, userId), this.isActive()))
+      .limit(1);
+
+    return ban ?? null;
+  }
+
+  /**
+   * A room's bans that have not run out, newest first
+   */
+  async findActiveByRoom(roomId: string): Promise<RoomBanWithUser[]> {
+    return this.db
+      .select({
+        roomId: roomBans.roomId,
+        userId: roomBans.userId,
+        reason: roomBans.reason,
+        bannedBy: roomBans.bannedBy,
+        expiresAt: roomBans.expiresAt,
+        createdAt: roomBans.createdAt,
+        username: users.username,
+      })
+      .from(roomBans)
+      .innerJoin(users, eq(users.id, roomBans.userId))
+      .where(and(eq(roomBans.roomId, roomId), this.isActive()))
+      .orderBy(desc(roomBans.createdAt));
+  }
+
+  // Expired bans stay in the table until lifted or replaced, but no longer apply
+  private isActive() {
+    return or(isNull(roomBans.expiresAt), gt(roomBans.expiresAt, new Date()));
+  }
+}
@@ -0,0 +1,148 @@
+import type { WebSocketMessage } from "@rpgate/shared/types";
+import type Redis from "ioredis";
+
+/**
+ * A sequenced room event as kept in the room's event log
+ */
+export interface RoomEvent {
+  seq: number;
+  message: WebSocketMessage;
+  // Set when only these users may receive the event (whispers)
+  userIds: string[] | null;
+}
+
+/**
+ * Events a client missed since a sequence number. events is null when the gap
+ * can no longer be replayed and the client has to refetch history instead.
+ */
+export interface RoomEventReplay {
+  seq: number;
+  events: RoomEvent[] | null;
+}
+
+/**
+ * Where and how a sequenced event is published once it is logged
+ */
+export interface RoomEventDelivery {
+  channel: string;
+  // Wraps the event as { roomId, userIds, message } for users-only delivery
+  userIds?: string[];
+}
+
+// Numbers the event, logs it under stream ID "<seq>-0" and publishes it with its seq, all in one
+// step so every subscriber receives a room's events in seq order. Returns the seq.
+// Only the log expires: the counter never does, so a room's seqs keep increasing after a quiet
+// spell (PERSIST clears the TTL that counters were once given).
+const APPEND_SCRIPT = `
+local seq = redis.call("INCR", KEYS[1])
+redis.call("PERSIST", KEYS[1])
+local message = '{"seq":' .. seq .. ',' .. string.sub(ARGV[1], 2)
+redis.call("XADD", KEYS[2], "MAXLEN", "~", ARGV[3], seq .. "-0", "message", message, "userIds", ARGV[2])
+redis.call("EXPIRE", KEYS[2], ARGV[4])
+redis.call("PUBLISH", ARGV[5], ARGV[6] .. message .. ARGV[7])
+return seq
+`;
+
+/**
+ * Room event log repository: a per-room sequence counter and a capped Redis stream of
+ * recent events, so reconnecting clients can be sent what they missed
+ */
+export class RoomEventRepository {
+  private readonly SEQ_PREFIX = "room_events:seq:";
+  private readonly STREAM_PREFIX = "room_events:log:";
+
+  constructor(private redis: Redis) {}
+
+  /**
+   * Sequence, log and publish a room event; returns its seq.
+   * The log is capped at roughly maxLength events and dropped after ttlSeconds of quiet;
+   * the seq counter is kept.
+   */
+  async append(
+    roomId: string,
+    message: WebSocketMessage,
+    delivery: RoomEventDelivery,
+    maxLength: number,
+    ttlSeconds: number,
+  ): Promise<number> {
+    const [prefix, suffix] = delivery.userIds
+      ? [`${JSON.stringify({ roomId, userIds: delivery.userIds }).slice(0, -1)},"message":`, "}"]
+      : ["", ""];
+
+    const seq = await this.redis.eval(
+      APPEND_SCRIPT,
+      2,
+      this.getSeqKey(roomId),
+      this.getStreamKey(roomId),
+      JSON.stringify(message),
+      delivery.userIds ? JSON.stringify(delivery.userIds) : "",
+      maxLength,
+      ttlSeconds,
+      delivery.channel,
+      prefix,
+      suffix,
+    );
+
+    return Number(seq);
+  }
+
+  /**
+   * Events after sinceSeq, unless more than limit were missed or some were already trimmed
+   */
+  async readSince(roomId: string, sinceSeq: number, limit: number): Promise<RoomEventReplay> {
+    const results = await this.redis
+      .multi()
+      .get(this.getSeqKey(roomId))
+      .xrange(this.getStreamKey(roomId), `${sinceSeq + 1}-0`, "+", "COUNT", limit)
+      .exec();
+
+    const [seqResult, rangeResult] = results ?? [];
+    if (seqResult?.[0] || rangeResult?.[0]) {
+      throw seqResult?.[0] ?? rangeResult?.[0];
+    }
+
+    const seq = Number(seqResult?.[1] ?? 0);
+    // A seq ahead of the counter means the counter was lost (e.g. Redis was flushed)
+    if (sinceSeq > seq || seq - sinceSeq > limit) {
+      return { seq, events: null };
+    }
+
+    const entries = (rangeResult?.[1] ?? []) as [string, string[]][];
+    const events = entries.map(([id, fields]) => toRoomEvent(id, fields));
+    // Trimming drops the oldest events, so a short range means the gap starts before the log
+    if (events.length !== seq - sinceSeq) {
+      return { seq, events: null };
+    }
+
+    return { seq, events };
+  }
+
+  /**
+   * Seq of the latest event in a room, 0 before the first one
+   */
+  async getSeq(roomId: string): Promise<number> {
+    return Number((await this.redis.get(this.getSeqKey(roomId))) ?? 0);
+  }
+
+  private getSeqKey(roomId: string): string {
+    return `${this.SEQ_PREFIX}${roomId}`;
+  }
+
+  private getStreamKey(roomId: string): string {
+    return `${this.STREAM_PREFIX}${roomId}`;
+  }
+}
+
+function toRoomEvent(id: string, fields: string[]): RoomEvent {
+  const values = new Map<string, string>();
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    values.set(fields[i] as string, fields[i + 1] as string);
+  }
+
+  const userIds = values.get("userIds");
+  return {
+    seq: Number.parseInt(id, 10),
+    message: JSON.parse(values.get("message") ?? "{}"),
+    userIds: userIds ? JSON.parse(userIds) : null,
+  };
+}
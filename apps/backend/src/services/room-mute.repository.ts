@@ -0,0 +1,63 @@
+import type Redis from "ioredis";
+
+/**
+ * A timed mute of a member in a room
+ */
+export interface RoomMute {
+  roomId: string;
+  userId: string;
+  mutedBy: string;
+  reason: string | null;
+  expiresAt: number;
+}
+
+/**
+ * Room mute repository for Redis-based mutes; each mute's key expires with it
+ */
+export class RoomMuteRepository {
+  private readonly MUTE_PREFIX = "room_mute:";
+
+  constructor(private redis: Redis) {}
+
+  /**
+   * Mute a member for duration seconds, replacing any earlier mute
+   */
+  async mute(
+    roomId: string,
+    userId: string,
+    mutedBy: string,
+    reason: string | null,
+    duration: number,
+  ): Promise<RoomMute> {
+    const mute: RoomMute = {
+      roomId,
+      userId,
+      mutedBy,
+      reason,
+      expiresAt: Date.now() + duration * 1000,
+    };
+
+    await this.redis.setex(this.getMuteKey(roomId, userId), duration, JSON.stringify(mute));
+
+    return mute;
+  }
+
+  /**
+   * Lift a member's mute; false if there was none
+   */
+  async unmute(roomId: string, userId: string): Promise<boolean> {
+    return (await this.redis.del(this.getMuteKey(roomId, userId))) > 0;
+  }
+
+  /**
+   * The member's mute in a room, if one is running
+   */
+  async find(roomId: string, userId: string): Promise<RoomMute | null> {
+    const mute = await this.redis.get(this.getMuteKey(roomId, userId));
+    return mute ? (JSON.parse(mute) as RoomMute) : null;
+  }
+
+  private getMuteKey(roomId: string, userId: string): string {
+    return `${this.MUTE_PREFIX}${roomId}:${userId}`;
+  }
+}
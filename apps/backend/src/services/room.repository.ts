@@ -1,6 +1,13 @@
 import type { Database } from "@rpgate/database";
 import { schema } from "@rpgate/database";
 import { eq, and, desc, count, sql } from "drizzle-orm";
+import {
+  DEFAULT_ROOM_ROLE,
+  ROOM_ROLES,
+  type RoomPermission,
+  type RoomRole,
+  hasRoomPermission,
+} from "@rpgate/shared";
 
 const { rooms, roomMembers, users } = schema;
 type Room = typeof rooms.$inferSelect;
@@ -103,7 +110,7 @@ export class RoomRepository {
   async addMember(
     roomId: string,
     userId: string,
-    role: "owner" | "member" = "member",
+    role: RoomRole = DEFAULT_ROOM_ROLE,
   ): Promise<void> {
     const memberData: NewRoomMember = {
       roomId,
@@ -148,7 +155,7 @@ export class RoomRepository {
         and(
           eq(roomMembers.roomId, roomId),
           eq(roomMembers.userId, userId),
-          eq(roomMembers.role, "owner"),
+          eq(roomMembers.role, ROOM_ROLES.OWNER),
         ),
       )
       .limit(1);
@@ -156,6 +163,41 @@ export class RoomRepository {
     return !!member;
   }
 
+  /**
+   * Role of a member in the room, null if the user is not a member
+   */
+  async getMemberRole(roomId: string, userId: string): Promise<RoomRole | null> {
+    const [member] = await this.db
+      .select({ role: roomMembers.role })
+      .from(roomMembers)
+      .where(and(eq(roomMembers.roomId, roomId), eq(roomMembers.userId, userId)))
+      .limit(1);
+
+    return member?.role ?? null;
+  }
+
+  /**
+   * Check if user is a member whose role grants the permission
+   */
+  async hasPermission(
+    roomId: string,
+    userId: string,
+    permission: RoomPermission,
+  ): Promise<boolean> {
+    const role = await this.getMemberRole(roomId, userId);
+    return role !== null && hasRoomPermission(role, permission);
+  }
+
+  /**
+   * Change a member's role
+   */
+  async updateMemberRole(roomId: string, userId: string, role: RoomRole): Promise<void> {
+    await this.db
+      .update(roomMembers)
+      .set({ role })
+      .where(and(eq(roomMembers.roomId, roomId), eq(roomMembers.userId, userId)));
+  }
+
   /**
    * Get member count for a room
    */
@@ -181,6 +223,16 @@ export class RoomRepository {
     return room?.lastActivityAt || null;
   }
 
+  /**
+   * Record when a member was last connected to the room
+   */
+  async updateLastSeen(roomId: string, userId: string, lastSeenAt: Date): Promise<void> {
+    await this.db
+      .update(roomMembers)
+      .set({ lastSeenAt })
+      .where(and(eq(roomMembers.roomId, roomId), eq(roomMembers.userId, userId)));
+  }
+
   /**
    * Update room's last activity timestamp
    */
@@ -188,7 +240,7 @@ export class RoomRepository {
     await this.db.update(rooms).set({ lastActivityAt: new Date() }).where(eq(rooms.id, roomId));
   }
   /**
-   * Transfer room ownership to another member
+   * Transfer room ownership to another member; the previous owner stays on as game master
    */
   async transferOwnership(
     roomId: string,
@@ -199,13 +251,13 @@ export class RoomRepository {
       // Remove owner role from current owner
       await tx
         .update(roomMembers)
-        .set({ role: "member" })
+        .set({ role: ROOM_ROLES.GAME_MASTER })
         .where(and(eq(roomMembers.roomId, roomId), eq(roomMembers.userId, currentOwnerId)));
 
       // Set new owner
       await tx
         .update(roomMembers)
-        .set({ role: "owner" })
+        .set({ role: ROOM_ROLES.OWNER })
         .where(and(eq(roomMembers.roomId, roomId), eq(roomMembers.userId, newOwnerId)));
     });
   }
@@ -221,6 +273,7 @@ export class RoomRepository {
         joinedAt: roomMembers.joinedAt,
         role: roomMembers.role,
         lastSeenAt: roomMembers.lastSeenAt,
+        activeCharacterId: roomMembers.activeCharacterId,
         username: users.username,
       })
       .from(roomMembers)
@@ -3,8 +3,30 @@ import { schema } from "@rpgate/database";
 import type { FastifyBaseLogger } from "fastify";
 import { RoomRepository } from "./room.repository.js";
 import { InviteRepository } from "./invite.repository.js";
+import type { MessageWithAuthor } from "./message.repository.js";
+import { MessageService } from "./message.service.js";
+import { PresenceRepository, VIEWER_PRESENCE_PREFIX } from "./presence.repository.js";
+import { RoomBanRepository } from "./room-ban.repository.js";
+import { UserRepository } from "./user.repository.js";
 import type { Redis } from "ioredis";
-import { createRoomSchema, type CreateRoomInput } from "@rpgate/shared";
+import {
+  ROOM_PERMISSIONS,
+  ROOM_ROLES,
+  type ChangeMemberRoleInput,
+  createRoomSchema,
+  type CreateRoomInput,
+  type RoomPermission,
+  type RoomRole,
+  type RoomSettings,
+  type UpdateRoomSettingsInput,
+  applyRoomSettingsUpdate,
+  canSpectateRoom,
+  createDefaultRoomSettings,
+  hasRoomPermission,
+  migrateRoomSettings,
+  outranksRoomRole,
+  updateRoomSettingsSchema,
+} from "@rpgate/shared";
 import { randomUUID } from "node:crypto";
 
 // Types from database schema
@@ -12,29 +34,36 @@ const { rooms } = schema;
 type Room = typeof rooms.$inferSelect;
 type NewRoom = typeof rooms.$inferInsert;
 
-// Extended room type with proper settings typing
+// Extended room type with settings migrated to the current version
 interface RoomWithSettings extends Omit<Room, "settings"> {
-  settings: Record<string, any>;
+  settings: RoomSettings;
 }
 
 // Service interfaces
 interface CreateRoomData extends CreateRoomInput {
-  settings?: Record<string, any>;
+  settings?: UpdateRoomSettingsInput;
 }
 
 interface UpdateRoomData {
   name?: string;
   description?: string | null;
   isPrivate?: boolean;
-  settings?: Record<string, any>;
+  settings?: UpdateRoomSettingsInput;
 }
 
 interface RoomWithStats extends RoomWithSettings {
   memberCount: number;
   isOwner: boolean;
   isMember: boolean;
+  // The user's role in the room, null if not a member
+  role: RoomRole | null;
+  // Spectators following the room without being members
+  viewerCount: number;
 }
 
+// How a user may follow a room's live events: as a member, or read-only as a spectator
+export type RoomAccess = "member" | "spectator";
+
 interface PaginationOptions {
   limit?: number;
   offset?: number;
@@ -48,8 +77,17 @@ interface PaginatedRooms {
   hasNext: boolean;
 }
 
+interface UpdateRoomResult {
+  room: RoomWithSettings;
+  // Whether the update stopped the room from being spectated (made private or spectators
+  // turned off), so current spectators have to be dropped
+  spectatingEnded: boolean;
+}
+
 interface JoinRoomResult {
   joined: boolean;
+  // System message recording the join, when the user was not already a member
+  message?: MessageWithAuthor;
 }
 
 // Error types
@@ -69,7 +107,12 @@ export const ROOM_ERRORS = {
   ALREADY_MEMBER: "ALREADY_MEMBER",
   NOT_MEMBER: "NOT_MEMBER",
   NOT_OWNER: "NOT_OWNER",
+  PERMISSION_DENIED: "PERMISSION_DENIED",
+  CANNOT_CHANGE_OWNER_ROLE: "CANNOT_CHANGE_OWNER_ROLE",
   CANNOT_LEAVE_AS_OWNER: "CANNOT_LEAVE_AS_OWNER",
+  BANNED: "BANNED",
+  ROOM_ARCHIVED: "ROOM_ARCHIVED",
+  INVALID_SETTINGS: "INVALID_SETTINGS",
 } as const;
 
 /**
@@ -78,11 +121,21 @@ export const ROOM_ERRORS = {
 export class RoomService {
   private roomRepository: RoomRepository;
   private inviteRepository: InviteRepository;
+  private banRepository: RoomBanRepository;
+  private presenceRepository: PresenceRepository;
+  private viewerRepository: PresenceRepository;
+  private userRepository: UserRepository;
+  private messageService: MessageService;
   private logger: FastifyBaseLogger;
 
   constructor(db: Database, redis: Redis, logger: FastifyBaseLogger) {
     this.roomRepository = new RoomRepository(db);
     this.inviteRepository = new InviteRepository(redis);
+    this.banRepository = new RoomBanRepository(db);
+    this.presenceRepository = new PresenceRepository(redis);
+    this.viewerRepository = new PresenceRepository(redis, VIEWER_PRESENCE_PREFIX);
+    this.userRepository = new UserRepository(db);
+    this.messageService = new MessageService(db, logger);
     this.logger = logger;
   }
 
@@ -93,6 +146,10 @@ export class RoomService {
     try {
       // Validate input
       const validatedData = createRoomSchema.parse(data);
+      const settings = applyRoomSettingsUpdate(
+        createDefaultRoomSettings(),
+        this.validateSettings(data.settings ?? {}),
+      );
 
       // Set default values
       const roomData: NewRoom = {
@@ -101,7 +158,7 @@ export class RoomService {
         description: validatedData.description || null,
         createdBy: userId,
         isPrivate: validatedData.isPrivate || false,
-        settings: data.settings || {},
+        settings,
         lastActivityAt: new Date(),
       };
 
@@ -109,7 +166,7 @@ export class RoomService {
       const room = await this.roomRepository.create(roomData);
 
       // Add creator as owner
-      await this.roomRepository.addMember(room.id, userId, "owner");
+      await this.roomRepository.addMember(room.id, userId, ROOM_ROLES.OWNER);
 
       this.logger.info(
         {
@@ -122,7 +179,7 @@ export class RoomService {
 
       return {
         ...room,
-        settings: room.settings as Record<string, any>,
+        settings: migrateRoomSettings(room.settings),
       };
     } catch (error) {
       this.logger.error(
@@ -158,15 +215,16 @@ export class RoomService {
       }
 
       const memberCount = await this.roomRepository.getMemberCount(roomId);
-      const isOwner = userId ? await this.roomRepository.isOwner(roomId, userId) : false;
-      const isMember = userId ? await this.roomRepository.isMember(roomId, userId) : false;
+      const role = userId ? await this.roomRepository.getMemberRole(roomId, userId) : null;
 
       return {
         ...room,
-        settings: room.settings as Record<string, any>,
+        settings: migrateRoomSettings(room.settings),
         memberCount,
-        isOwner,
-        isMember,
+        isOwner: role === ROOM_ROLES.OWNER,
+        isMember: role !== null,
+        role,
+        viewerCount: await this.countViewers(roomId),
       };
     } catch (error) {
       this.logger.error(
@@ -193,14 +251,16 @@ export class RoomService {
 
       for (const room of rooms) {
         const memberCount = await this.roomRepository.getMemberCount(room.id);
-        const isOwner = await this.roomRepository.isOwner(room.id, userId);
+        const role = await this.roomRepository.getMemberRole(room.id, userId);
 
         roomsWithStats.push({
           ...room,
-          settings: room.settings as Record<string, any>,
+          settings: migrateRoomSettings(room.settings),
           memberCount,
-          isOwner,
+          isOwner: role === ROOM_ROLES.OWNER,
           isMember: true, // User is always a member of their own rooms
+          role,
+          viewerCount: await this.countViewers(room.id),
         });
       }
 
@@ -238,15 +298,16 @@ export class RoomService {
 
       for (const room of actualRooms) {
         const memberCount = await this.roomRepository.getMemberCount(room.id);
-        const isOwner = userId ? await this.roomRepository.isOwner(room.id, userId) : false;
-        const isMember = userId ? await this.roomRepository.isMember(room.id, userId) : false;
+        const role = userId ? await this.roomRepository.getMemberRole(room.id, userId) : null;
 
         roomsWithStats.push({
           ...room,
-          settings: room.settings as Record<string, any>,
+          settings: migrateRoomSettings(room.settings),
           memberCount,
-          isOwner,
-          isMember,
+          isOwner: role === ROOM_ROLES.OWNER,
+          isMember: role !== null,
+          role,
+          viewerCount: await this.countViewers(room.id),
         });
       }
 
@@ -282,6 +343,8 @@ export class RoomService {
         throw new RoomError("Room not found", ROOM_ERRORS.ROOM_NOT_FOUND, 404);
       }
 
+      await this.assertNotBanned(roomId, userId);
+
       // Check if user is already a member
       const isMember = await this.roomRepository.isMember(roomId, userId);
       if (isMember) {
@@ -299,11 +362,15 @@ export class RoomService {
         return { joined: false };
       }
 
-      // Add user as member
-      await this.roomRepository.addMember(roomId, userId, "member");
+      // Add user as member with the default role
+      await this.roomRepository.addMember(roomId, userId);
 
-      // Update room activity
-      await this.roomRepository.updateLastActivity(roomId);
+      // Record the join in history (also bumps room activity)
+      const message = await this.messageService.createSystemMessage(roomId, userId, {
+        event: "member_joined",
+        userId,
+        username: await this.getUsername(userId),
+      });
 
       this.logger.info(
         {
@@ -314,7 +381,7 @@ export class RoomService {
         "User joined room successfully",
       );
 
-      return { joined: true };
+      return { joined: true, message };
     } catch (error) {
       if (error instanceof RoomError) {
         throw error;
@@ -334,9 +401,10 @@ export class RoomService {
   }
 
   /**
-   * Leave a room with ownership transfer handling
+   * Leave a room with ownership transfer handling.
+   * Returns the system messages recorded in history, oldest first.
    */
-  async leaveRoom(roomId: string, userId: string): Promise<void> {
+  async leaveRoom(roomId: string, userId: string): Promise<MessageWithAuthor[]> {
     try {
       // Check if room exists
       const room = await this.roomRepository.findById(roomId);
@@ -350,6 +418,8 @@ export class RoomService {
         throw new RoomError("User is not a member of this room", ROOM_ERRORS.NOT_MEMBER, 400);
       }
 
+      const messages: MessageWithAuthor[] = [];
+
       // Check if user is the owner
       const isOwner = await this.roomRepository.isOwner(roomId, userId);
 
@@ -360,6 +430,15 @@ export class RoomService {
         if (nextOwner) {
           // Transfer ownership before leaving
           await this.roomRepository.transferOwnership(roomId, userId, nextOwner);
+          messages.push(
+            await this.messageService.createSystemMessage(roomId, nextOwner, {
+              event: "ownership_transferred",
+              previousOwnerId: userId,
+              newOwnerId: nextOwner,
+              newOwnerUsername: await this.getUsername(nextOwner),
+              reason: "leave",
+            }),
+          );
           this.logger.info(
             {
               roomId,
@@ -375,13 +454,20 @@ export class RoomService {
       // Remove user from room
       await this.roomRepository.removeMember(roomId, userId);
 
+      messages.push(
+        await this.messageService.createSystemMessage(roomId, userId, {
+          event: "member_left",
+          userId,
+          username: await this.getUsername(userId),
+        }),
+      );
+
       // Check if room is now empty
       const remainingMembers = await this.roomRepository.getMemberCount(roomId);
       if (remainingMembers === 0) {
         // Archive the room (soft delete by updating settings)
-        const currentSettings = room.settings as Record<string, any>;
         await this.roomRepository.update(roomId, {
-          settings: { ...currentSettings, archived: true },
+          settings: { ...migrateRoomSettings(room.settings), archived: true },
         });
 
         this.logger.info(
@@ -391,9 +477,6 @@ export class RoomService {
           },
           "Room archived - no remaining members",
         );
-      } else {
-        // Update room activity
-        await this.roomRepository.updateLastActivity(roomId);
       }
 
       this.logger.info(
@@ -405,6 +488,8 @@ export class RoomService {
         },
         "User left room successfully",
       );
+
+      return messages;
     } catch (error) {
       if (error instanceof RoomError) {
         throw error;
@@ -423,13 +508,13 @@ export class RoomService {
     }
   }
   /**
-   * Update room with owner permission validation
+   * Update room (members allowed to manage the room)
    */
   async updateRoom(
     roomId: string,
     userId: string,
     data: UpdateRoomData,
-  ): Promise<RoomWithSettings> {
+  ): Promise<UpdateRoomResult> {
     try {
       // Check if room exists
       const room = await this.roomRepository.findById(roomId);
@@ -437,15 +522,23 @@ export class RoomService {
         throw new RoomError("Room not found", ROOM_ERRORS.ROOM_NOT_FOUND, 404);
       }
 
-      // Check if user is the owner
-      const isOwner = await this.roomRepository.isOwner(roomId, userId);
-      if (!isOwner) {
-        throw new RoomError("Only room owner can update room settings", ROOM_ERRORS.NOT_OWNER, 403);
-      }
+      await this.assertPermission(
+        roomId,
+        userId,
+        ROOM_PERMISSIONS.MANAGE_ROOM,
+        "You are not allowed to update room settings",
+      );
 
-      // Update room
+      // Settings are merged into the current ones and stored at the current version
+      const { settings, ...fields } = data;
       const updatedRoom = await this.roomRepository.update(roomId, {
-        ...data,
+        ...fields,
+        ...(settings && {
+          settings: applyRoomSettingsUpdate(
+            migrateRoomSettings(room.settings),
+            this.validateSettings(settings),
+          ),
+        }),
         updatedAt: new Date(),
       });
 
@@ -459,8 +552,11 @@ export class RoomService {
       );
 
       return {
-        ...updatedRoom,
-        settings: updatedRoom.settings as Record<string, any>,
+        room: {
+          ...updatedRoom,
+          settings: migrateRoomSettings(updatedRoom.settings),
+        },
+        spectatingEnded: canSpectateRoom(room) && !canSpectateRoom(updatedRoom),
       };
     } catch (error) {
       if (error instanceof RoomError) {
@@ -481,7 +577,7 @@ export class RoomService {
   }
 
   /**
-   * Delete room with owner permission validation
+   * Delete room (owner only)
    */
   async deleteRoom(roomId: string, userId: string): Promise<void> {
     try {
@@ -491,11 +587,12 @@ export class RoomService {
         throw new RoomError("Room not found", ROOM_ERRORS.ROOM_NOT_FOUND, 404);
       }
 
-      // Check if user is the owner
-      const isOwner = await this.roomRepository.isOwner(roomId, userId);
-      if (!isOwner) {
-        throw new RoomError("Only room owner can delete the room", ROOM_ERRORS.NOT_OWNER, 403);
-      }
+      await this.assertPermission(
+        roomId,
+        userId,
+        ROOM_PERMISSIONS.DELETE_ROOM,
+        "You are not allowed to delete the room",
+      );
 
       // Revoke all invite tokens for the room
       await this.inviteRepository.revokeAllRoomInvites(roomId);
@@ -530,13 +627,14 @@ export class RoomService {
   }
 
   /**
-   * Transfer room ownership to another member
+   * Transfer room ownership to another member.
+   * Returns the system message recorded in history.
    */
   async transferOwnership(
     roomId: string,
     currentOwnerId: string,
     newOwnerId: string,
-  ): Promise<void> {
+  ): Promise<MessageWithAuthor> {
     try {
       // Check if room exists
       const room = await this.roomRepository.findById(roomId);
@@ -544,7 +642,7 @@ export class RoomService {
         throw new RoomError("Room not found", ROOM_ERRORS.ROOM_NOT_FOUND, 404);
       }
 
-      // Check if current user is the owner
+      // Ownership is not a permission: only the owner themselves can hand it over
       const isOwner = await this.roomRepository.isOwner(roomId, currentOwnerId);
       if (!isOwner) {
         throw new RoomError("Only room owner can transfer ownership", ROOM_ERRORS.NOT_OWNER, 403);
@@ -559,6 +657,14 @@ export class RoomService {
       // Transfer ownership
       await this.roomRepository.transferOwnership(roomId, currentOwnerId, newOwnerId);
 
+      const message = await this.messageService.createSystemMessage(roomId, newOwnerId, {
+        event: "ownership_transferred",
+        previousOwnerId: currentOwnerId,
+        newOwnerId,
+        newOwnerUsername: await this.getUsername(newOwnerId),
+        reason: "manual",
+      });
+
       this.logger.info(
         {
           roomId,
@@ -568,6 +674,8 @@ export class RoomService {
         },
         "Room ownership transferred successfully",
       );
+
+      return message;
     } catch (error) {
       if (error instanceof RoomError) {
         throw error;
@@ -588,9 +696,14 @@ export class RoomService {
   }
 
   /**
-   * Remove member from room (owner only)
+   * Remove member from room (members allowed to kick, and only members they outrank).
+   * Returns the system message recorded in history.
    */
-  async removeMember(roomId: string, ownerId: string, memberIdToRemove: string): Promise<void> {
+  async removeMember(
+    roomId: string,
+    ownerId: string,
+    memberIdToRemove: string,
+  ): Promise<MessageWithAuthor> {
     try {
       // Check if room exists
       const room = await this.roomRepository.findById(roomId);
@@ -598,15 +711,16 @@ export class RoomService {
         throw new RoomError("Room not found", ROOM_ERRORS.ROOM_NOT_FOUND, 404);
       }
 
-      // Check if user is the owner
-      const isOwner = await this.roomRepository.isOwner(roomId, ownerId);
-      if (!isOwner) {
-        throw new RoomError("Only room owner can remove members", ROOM_ERRORS.NOT_OWNER, 403);
-      }
+      const role = await this.assertPermission(
+        roomId,
+        ownerId,
+        ROOM_PERMISSIONS.KICK_MEMBERS,
+        "You are not allowed to remove members",
+      );
 
       // Check if member to remove exists
-      const isMember = await this.roomRepository.isMember(roomId, memberIdToRemove);
-      if (!isMember) {
+      const memberRole = await this.roomRepository.getMemberRole(roomId, memberIdToRemove);
+      if (!memberRole) {
         throw new RoomError("User is not a member of this room", ROOM_ERRORS.NOT_MEMBER, 400);
       }
 
@@ -619,11 +733,24 @@ export class RoomService {
         );
       }
 
+      if (!outranksRoomRole(role, memberRole)) {
+        throw new RoomError(
+          "You can only remove members with a lower role",
+          ROOM_ERRORS.PERMISSION_DENIED,
+          403,
+        );
+      }
+
       // Remove member
       await this.roomRepository.removeMember(roomId, memberIdToRemove);
 
-      // Update room activity
-      await this.roomRepository.updateLastActivity(roomId);
+      // Record the removal in history (also bumps room activity)
+      const message = await this.messageService.createSystemMessage(roomId, memberIdToRemove, {
+        event: "member_removed",
+        userId: memberIdToRemove,
+        username: await this.getUsername(memberIdToRemove),
+        removedBy: ownerId,
+      });
 
       this.logger.info(
         {
@@ -634,6 +761,8 @@ export class RoomService {
         },
         "Member removed from room successfully",
       );
+
+      return message;
     } catch (error) {
       if (error instanceof RoomError) {
         throw error;
@@ -654,13 +783,140 @@ export class RoomService {
   }
 
   /**
-   * Get room members with details
+   * Change a member's role (members allowed to manage roles).
+   * Returns the system message recorded in history.
+   */
+  async changeMemberRole(
+    roomId: string,
+    userId: string,
+    memberId: string,
+    role: ChangeMemberRoleInput["role"],
+  ): Promise<MessageWithAuthor> {
+    try {
+      const room = await this.roomRepository.findById(roomId);
+      if (!room) {
+        throw new RoomError("Room not found", ROOM_ERRORS.ROOM_NOT_FOUND, 404);
+      }
+
+      await this.assertPermission(
+        roomId,
+        userId,
+        ROOM_PERMISSIONS.MANAGE_ROLES,
+        "You are not allowed to change member roles",
+      );
+
+      const currentRole = await this.roomRepository.getMemberRole(roomId, memberId);
+      if (!currentRole) {
+        throw new RoomError("User is not a member of this room", ROOM_ERRORS.NOT_MEMBER, 400);
+      }
+
+      // The owner keeps their role until they transfer ownership
+      if (currentRole === ROOM_ROLES.OWNER) {
+        throw new RoomError(
+          "The owner's role changes only by transferring ownership",
+          ROOM_ERRORS.CANNOT_CHANGE_OWNER_ROLE,
+          400,
+        );
+      }
+
+      await this.roomRepository.updateMemberRole(roomId, memberId, role);
+
+      const message = await this.messageService.createSystemMessage(roomId, memberId, {
+        event: "member_role_changed",
+        userId: memberId,
+        username: await this.getUsername(memberId),
+        role,
+        changedBy: userId,
+      });
+
+      this.logger.info(
+        { roomId, userId, memberId, previousRole: currentRole, role },
+        "Member role changed successfully",
+      );
+
+      return message;
+    } catch (error) {
+      if (error instanceof RoomError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          userId,
+          memberId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to change member role",
+      );
+
+      throw new RoomError("Failed to change member role", "CHANGE_ROLE_FAILED", 500);
+    }
+  }
+
+  /**
+   * Check that a user may subscribe to a room's live events: members of active rooms,
+   * and anyone else read-only in public rooms that allow spectators
+   */
+  async checkRoomAccess(roomId: string, userId: string): Promise<RoomAccess> {
+    try {
+      const room = await this.roomRepository.findById(roomId);
+      if (!room) {
+        throw new RoomError("Room not found", ROOM_ERRORS.ROOM_NOT_FOUND, 404);
+      }
+
+      await this.assertNotBanned(roomId, userId);
+
+      const isMember = await this.roomRepository.isMember(roomId, userId);
+      if (!isMember) {
+        // Hide private rooms from non-members
+        if (room.isPrivate) {
+          throw new RoomError("Room not found", ROOM_ERRORS.ROOM_NOT_FOUND, 404);
+        }
+        if (!canSpectateRoom(room)) {
+          throw new RoomError("Only room members can join the chat", ROOM_ERRORS.NOT_MEMBER, 403);
+        }
+      }
+
+      if (migrateRoomSettings(room.settings).archived) {
+        throw new RoomError("Room is archived", ROOM_ERRORS.ROOM_ARCHIVED, 410);
+      }
+
+      return isMember ? "member" : "spectator";
+    } catch (error) {
+      if (error instanceof RoomError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to check room access",
+      );
+
+      throw new RoomError("Failed to check room access", "ACCESS_CHECK_FAILED", 500);
+    }
+  }
+
+  /**
+   * Get room members with details and whether each is online in the room
    */
   async getRoomMembers(
     roomId: string,
     userId: string,
   ): Promise<
-    Array<{ userId: string; username: string; role: string; joinedAt: Date; lastSeenAt: Date }>
+    Array<{
+      userId: string;
+      username: string;
+      role: RoomRole;
+      joinedAt: Date;
+      lastSeenAt: Date;
+      activeCharacterId: string | null;
+      isOnline: boolean;
+    }>
   > {
     try {
       // Check if room exists
@@ -676,6 +932,7 @@ export class RoomService {
       }
 
       const members = await this.roomRepository.getRoomMembers(roomId);
+      const onlineUserIds = new Set(await this.presenceRepository.findOnlineUserIds(roomId));
 
       return members.map((member) => ({
         userId: member.userId,
@@ -683,6 +940,8 @@ export class RoomService {
         role: member.role,
         joinedAt: member.joinedAt,
         lastSeenAt: member.lastSeenAt,
+        activeCharacterId: member.activeCharacterId,
+        isOnline: onlineUserIds.has(member.userId),
       }));
     } catch (error) {
       if (error instanceof RoomError) {
@@ -701,4 +960,60 @@ export class RoomService {
       throw new RoomError("Failed to get room members", "GET_MEMBERS_FAILED", 500);
     }
   }
+
+  /**
+   * Require a member whose role grants the permission; returns their role
+   */
+  private async assertPermission(
+    roomId: string,
+    userId: string,
+    permission: RoomPermission,
+    message: string,
+  ): Promise<RoomRole> {
+    const role = await this.roomRepository.getMemberRole(roomId, userId);
+    if (!role || !hasRoomPermission(role, permission)) {
+      throw new RoomError(message, ROOM_ERRORS.PERMISSION_DENIED, 403);
+    }
+    return role;
+  }
+
+  /**
+   * Keep banned users out of the room until their ban runs out or is lifted
+   */
+  private async assertNotBanned(roomId: string, userId: string): Promise<void> {
+    const ban = await this.banRepository.findActive(roomId, userId);
+    if (ban) {
+      throw new RoomError("You are banned from this room", ROOM_ERRORS.BANNED, 403);
+    }
+  }
+
+  private async countViewers(roomId: string): Promise<number> {
+    return (await this.viewerRepository.findOnlineUserIds(roomId)).length;
+  }
+
+  /**
+   * Validate a settings update
+   */
+  private validateSettings(settings: UpdateRoomSettingsInput): UpdateRoomSettingsInput {
+    const validation = updateRoomSettingsSchema.safeParse(settings);
+    if (!validation.success) {
+      throw new RoomError(
+        validation.error.errors[0]?.message || "Invalid room settings",
+        ROOM_ERRORS.INVALID_SETTINGS,
+        400,
+      );
+    }
+    return validation.data;
+  }
+
+  /**
+   * Username for system message text
+   */
+  private async getUsername(userId: string): Promise<string> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new Error(`User ${userId} not found`);
+    }
+    return user.username;
+  }
 }
@@ -0,0 +1,114 @@
+import type { Database } from "@rpgate/database";
+import { schema } from "@rpgate/database";
+import type { MessageKind } from "@rpgate/shared";
+import { and, count, desc, eq, gt, gte, inArray, isNull, max, or } from "drizzle-orm";
+
+const { messages, sessionSummaries } = schema;
+type SessionSummary = typeof sessionSummaries.$inferSelect;
+type NewSessionSummary = typeof sessionSummaries.$inferInsert;
+
+/**
+ * Session summary repository for database operations
+ */
+export class SummaryRepository {
+  constructor(private db: Database) {}
+
+  /**
+   * Create a new summary
+   */
+  async create(summaryData: NewSessionSummary): Promise<SessionSummary> {
+    const [summary] = await this.db.insert(sessionSummaries).values(summaryData).returning();
+    if (!summary) {
+      throw new Error("Failed to create session summary");
+    }
+    return summary;
+  }
+
+  /**
+   * Find a summary in a room by ID
+   */
+  async findById(roomId: string, id: string): Promise<SessionSummary | null> {
+    const [summary] = await this.db
+      .select()
+      .from(sessionSummaries)
+      .where(and(eq(sessionSummaries.id, id), eq(sessionSummaries.roomId, roomId)))
+      .limit(1);
+
+    return summary || null;
+  }
+
+  /**
+   * Find the summaries of a room, newest first
+   */
+  async findByRoom(roomId: string): Promise<SessionSummary[]> {
+    return this.db
+      .select()
+      .from(sessionSummaries)
+      .where(eq(sessionSummaries.roomId, roomId))
+      .orderBy(desc(sessionSummaries.toCreatedAt), desc(sessionSummaries.createdAt));
+  }
+
+  /**
+   * Find the summary covering the most recent messages of a room
+   */
+  async findLatest(roomId: string): Promise<SessionSummary | null> {
+    const [summary] = await this.db
+      .select()
+      .from(sessionSummaries)
+      .where(eq(sessionSummaries.roomId, roomId))
+      .orderBy(desc(sessionSummaries.toCreatedAt), desc(sessionSummaries.createdAt))
+      .limit(1);
+
+    return summary || null;
+  }
+
+  /**
+   * Update a summary
+   */
+  async update(id: string, data: Partial<NewSessionSummary>): Promise<SessionSummary> {
+    const [summary] = await this.db
+      .update(sessionSummaries)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(sessionSummaries.id, id))
+      .returning();
+
+    if (!summary) {
+      throw new Error("Session summary not found");
+    }
+    return summary;
+  }
+
+  /**
+   * Rooms with at least `threshold` messages of the given kinds newer than their latest summary
+   */
+  async findRoomsWithUnsummarized(
+    kinds: MessageKind[],
+    threshold: number,
+    limit: number,
+  ): Promise<string[]> {
+    const latest = this.db
+      .select({
+        roomId: sessionSummaries.roomId,
+        coveredUntil: max(sessionSummaries.toCreatedAt).as("covered_until"),
+      })
+      .from(sessionSummaries)
+      .groupBy(sessionSummaries.roomId)
+      .as("latest");
+
+    const rows = await this.db
+      .select({ roomId: messages.roomId })
+      .from(messages)
+      .leftJoin(latest, eq(latest.roomId, messages.roomId))
+      .where(
+        and(
+          inArray(messages.kind, kinds),
+          or(isNull(latest.coveredUntil), gt(messages.createdAt, latest.coveredUntil)),
+        ),
+      )
+      .groupBy(messages.roomId)
+      .having(gte(count(), threshold))
+      .limit(limit);
+
+    return rows.map(({ roomId }) => roomId);
+  }
+}
@@ -0,0 +1,328 @@
+import type { Database } from "@rpgate/database";
+import { schema } from "@rpgate/database";
+import {
+  ROOM_PERMISSIONS,
+  SESSION_SUMMARY_MAX_LENGTH,
+  type UpdateSessionSummaryInput,
+  updateSessionSummarySchema,
+} from "@rpgate/shared";
+import { generateText } from "ai";
+import type { FastifyBaseLogger } from "fastify";
+import { env } from "../config/env";
+import { AiUsageRepository } from "./ai-usage.repository.js";
+import { getUsagePeriods } from "./ai-usage.service.js";
+import { CONTEXT_KINDS, HISTORY_LIMIT, describeMessage } from "./game-master.prompt";
+import { type GameMasterProvider, createGameMasterProvider } from "./game-master.provider";
+import { MessageRepository } from "./message.repository.js";
+import { RoomRepository } from "./room.repository.js";
+import { SummaryRepository } from "./summary.repository.js";
+
+const { sessionSummaries } = schema;
+type SessionSummary = typeof sessionSummaries.$inferSelect;
+
+/**
+ * Messages folded into the summary per step. Summarizing only starts once this many
+ * messages have fallen out of the GM's raw history window.
+ */
+export const SUMMARY_CHUNK_SIZE = 50;
+
+// Sorts after every message ID, for a boundary whose last message is gone
+const LAST_UUID = "ffffffff-ffff-ffff-ffff-ffffffffffff";
+
+// Generated summaries stay well inside SESSION_SUMMARY_MAX_LENGTH
+const SUMMARY_MAX_TOKENS = 1024;
+
+const SUMMARY_PROMPT = [
+  "You maintain the campaign log of a tabletop role-playing game.",
+  "Rewrite the story so far and the new transcript into a single updated summary.",
+  "Keep every named character, NPC, place, item, open quest and unresolved plot thread; drop small talk and dice mechanics.",
+  "Write in the past tense, in the language of the transcript, as compact paragraphs ordered from oldest to newest events.",
+].join(" ");
+
+// Error types
+export class SummaryError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode = 400,
+  ) {
+    super(message);
+    this.name = "SummaryError";
+  }
+}
+
+export const SUMMARY_ERRORS = {
+  INVALID_SUMMARY: "INVALID_SUMMARY",
+  ROOM_NOT_FOUND: "ROOM_NOT_FOUND",
+  NOT_OWNER: "NOT_OWNER",
+  SUMMARY_NOT_FOUND: "SUMMARY_NOT_FOUND",
+  GENERATION_FAILED: "GENERATION_FAILED",
+} as const;
+
+/**
+ * Session summary service: rolling summaries of room history for the Game Master
+ */
+export class SummaryService {
+  private summaryRepository: SummaryRepository;
+  private messageRepository: MessageRepository;
+  private roomRepository: RoomRepository;
+  private aiUsageRepository: AiUsageRepository;
+  private logger: FastifyBaseLogger;
+  private provider: GameMasterProvider;
+
+  constructor(db: Database, logger: FastifyBaseLogger, provider?: GameMasterProvider) {
+    this.summaryRepository = new SummaryRepository(db);
+    this.messageRepository = new MessageRepository(db);
+    this.roomRepository = new RoomRepository(db);
+    this.aiUsageRepository = new AiUsageRepository(db);
+    this.logger = logger;
+    this.provider = provider ?? createGameMasterProvider();
+  }
+
+  /**
+   * Rooms with enough unsummarized history for another summarization step
+   */
+  async findRoomsToSummarize(limit: number): Promise<string[]> {
+    return this.summaryRepository.findRoomsWithUnsummarized(
+      CONTEXT_KINDS,
+      HISTORY_LIMIT + SUMMARY_CHUNK_SIZE,
+      limit,
+    );
+  }
+
+  /**
+   * Latest summary of a room, if any
+   */
+  async getLatestSummary(roomId: string): Promise<SessionSummary | null> {
+    return this.summaryRepository.findLatest(roomId);
+  }
+
+  /**
+   * Fold the oldest unsummarized chunk of messages into a new rolling summary.
+   * The newest HISTORY_LIMIT messages are left alone, since the GM still sees them raw.
+   * Returns null when there is not enough history yet.
+   */
+  async summarizeRoom(roomId: string): Promise<SessionSummary | null> {
+    try {
+      const previous = await this.summaryRepository.findLatest(roomId);
+      // Without its last message, skip everything sharing the summary's end timestamp
+      const coveredUntil = previous
+        ? { createdAt: previous.toCreatedAt, id: previous.toMessageId ?? LAST_UUID }
+        : undefined;
+      const pending = await this.messageRepository.findByRoomAfter(
+        roomId,
+        HISTORY_LIMIT + SUMMARY_CHUNK_SIZE,
+        coveredUntil,
+        CONTEXT_KINDS,
+      );
+      if (pending.length < HISTORY_LIMIT + SUMMARY_CHUNK_SIZE) {
+        return null;
+      }
+
+      const chunk = pending.slice(0, SUMMARY_CHUNK_SIZE);
+      const first = chunk[0];
+      const last = chunk[chunk.length - 1];
+      if (!first || !last) {
+        return null;
+      }
+
+      const prompt = [
+        `Story so far:\n${previous?.content ?? "(the campaign has just begun)"}`,
+        `New transcript:\n${chunk.map(describeMessage).join("\n")}`,
+      ].join("\n\n");
+
+      const { text, usage } = await generateText({
+        model: this.provider.getModel(),
+        system: SUMMARY_PROMPT,
+        prompt,
+        maxTokens: Math.min(SUMMARY_MAX_TOKENS, env.AI_MAX_TOKENS),
+      });
+
+      // Background summaries count against the room's token budget too; best-effort
+      await this.aiUsageRepository
+        .record(roomId, getUsagePeriods(new Date()).day, usage)
+        .catch((error: unknown) => {
+          this.logger.warn(
+            { roomId, error: error instanceof Error ? error.message : "Unknown error" },
+            "Failed to record summary token usage",
+          );
+        });
+
+      const content = text.trim().slice(0, SESSION_SUMMARY_MAX_LENGTH);
+      if (!content) {
+        throw new Error("Model returned an empty summary");
+      }
+
+      const summary = await this.summaryRepository.create({
+        roomId,
+        content,
+        fromMessageId: previous ? previous.fromMessageId : first.id,
+        toMessageId: last.id,
+        fromCreatedAt: previous ? previous.fromCreatedAt : first.createdAt,
+        toCreatedAt: last.createdAt,
+        messageCount: (previous?.messageCount ?? 0) + chunk.length,
+      });
+
+      this.logger.info(
+        {
+          roomId,
+          summaryId: summary.id,
+          messageCount: summary.messageCount,
+          provider: this.provider.name,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+        },
+        "Session summary created",
+      );
+
+      return summary;
+    } catch (error) {
+      this.logger.error(
+        {
+          roomId,
+          provider: this.provider.name,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to summarize room history",
+      );
+
+      throw new SummaryError(
+        "Failed to summarize room history",
+        SUMMARY_ERRORS.GENERATION_FAILED,
+        502,
+      );
+    }
+  }
+
+  /**
+   * List the summaries of a room, newest first (room owner only)
+   */
+  async listSummaries(roomId: string, userId: string): Promise<SessionSummary[]> {
+    try {
+      await this.assertCanManage(roomId, userId);
+      return await this.summaryRepository.findByRoom(roomId);
+    } catch (error) {
+      if (error instanceof SummaryError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to list session summaries",
+      );
+
+      throw new SummaryError("Failed to list session summaries", "FETCH_FAILED", 500);
+    }
+  }
+
+  /**
+   * Get a summary (room owner only)
+   */
+  async getSummary(roomId: string, summaryId: string, userId: string): Promise<SessionSummary> {
+    try {
+      await this.assertCanManage(roomId, userId);
+      return await this.findSummary(roomId, summaryId);
+    } catch (error) {
+      if (error instanceof SummaryError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          summaryId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to fetch session summary",
+      );
+
+      throw new SummaryError("Failed to fetch session summary", "FETCH_FAILED", 500);
+    }
+  }
+
+  /**
+   * Hand-edit a summary's text (room owner only). Later summaries build on the edited text.
+   */
+  async updateSummary(
+    roomId: string,
+    summaryId: string,
+    userId: string,
+    input: UpdateSessionSummaryInput,
+  ): Promise<SessionSummary> {
+    const validation = updateSessionSummarySchema.safeParse(input);
+    if (!validation.success) {
+      throw new SummaryError(
+        validation.error.errors[0]?.message || "Invalid summary",
+        SUMMARY_ERRORS.INVALID_SUMMARY,
+        400,
+      );
+    }
+
+    try {
+      await this.assertCanManage(roomId, userId);
+      await this.findSummary(roomId, summaryId);
+
+      const summary = await this.summaryRepository.update(summaryId, {
+        content: validation.data.content,
+        editedBy: userId,
+      });
+
+      this.logger.info({ roomId, summaryId, userId }, "Session summary edited");
+
+      return summary;
+    } catch (error) {
+      if (error instanceof SummaryError) {
+        throw error;
+      }
+
+      this.logger.error(
+        {
+          roomId,
+          summaryId,
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Failed to update session summary",
+      );
+
+      throw new SummaryError("Failed to update session summary", "UPDATE_FAILED", 500);
+    }
+  }
+
+  private async assertCanManage(roomId: string, userId: string): Promise<void> {
+    const room = await this.roomRepository.findById(roomId);
+    if (!room) {
+      throw new SummaryError("Room not found", SUMMARY_ERRORS.ROOM_NOT_FOUND, 404);
+    }
+
+    const canManage = await this.roomRepository.hasPermission(
+      roomId,
+      userId,
+      ROOM_PERMISSIONS.MANAGE_SUMMARIES,
+    );
+    if (!canManage) {
+      // Hide private rooms from outsiders
+      if (room.isPrivate && !(await this.roomRepository.isMember(roomId, userId))) {
+        throw new SummaryError("Room not found", SUMMARY_ERRORS.ROOM_NOT_FOUND, 404);
+      }
+      throw new SummaryError(
+        "Only a game master can manage session summaries",
+        SUMMARY_ERRORS.NOT_OWNER,
+        403,
+      );
+    }
+  }
+
+  private async findSummary(roomId: string, summaryId: string): Promise<SessionSummary> {
+    const summary = await this.summaryRepository.findById(roomId, summaryId);
+    if (!summary) {
+      throw new SummaryError("Summary not found", SUMMARY_ERRORS.SUMMARY_NOT_FOUND, 404);
+    }
+    return summary;
+  }
+}
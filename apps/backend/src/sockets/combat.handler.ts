@@ -0,0 +1,175 @@
+import { WEBSOCKET_ERROR_CODES, WEBSOCKET_EVENTS } from "@rpgate/shared/constants";
+import type { ServerToClientMessage } from "@rpgate/shared/types";
+import type { FastifyInstance } from "fastify";
+import { CombatError } from "../services/combat.service";
+import {
+  type SocketConnection,
+  type SocketServices,
+  sendError,
+  toWebSocketErrorCode,
+} from "./socket.context";
+
+/**
+ * CombatService methods that change a running combat
+ */
+export type CombatUpdateAction =
+  | "addCombatant"
+  | "removeCombatant"
+  | "setInitiative"
+  | "addCondition"
+  | "removeCondition"
+  | "nextTurn";
+
+/**
+ * Start combat, broadcast the initial turn order and record the start in room history
+ */
+export async function handleCombatStart(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  connectionId: string,
+  connection: SocketConnection,
+  data: { roomId: string },
+) {
+  const userId = checkCombatAccess(connection, data.roomId);
+  if (!userId) return;
+
+  try {
+    const { combat, message } = await services.combatService.startCombat(userId, data);
+
+    await publish(fastify, data.roomId, { type: WEBSOCKET_EVENTS.MESSAGE_NEW, data: message });
+    await publish(fastify, data.roomId, {
+      type: WEBSOCKET_EVENTS.COMBAT_STARTED,
+      data: { roomId: data.roomId, combat },
+    });
+  } catch (error) {
+    handleCombatError(fastify, connectionId, connection, data.roomId, error);
+  }
+}
+
+/**
+ * Apply a change to the running combat and broadcast the new state
+ */
+export async function handleCombatUpdate(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  connectionId: string,
+  connection: SocketConnection,
+  action: CombatUpdateAction,
+  data: { roomId: string },
+) {
+  const userId = checkCombatAccess(connection, data.roomId);
+  if (!userId) return;
+
+  try {
+    const combat = await services.combatService[action](userId, data);
+
+    await publish(fastify, data.roomId, {
+      type: WEBSOCKET_EVENTS.COMBAT_UPDATED,
+      data: { roomId: data.roomId, combat },
+    });
+  } catch (error) {
+    handleCombatError(fastify, connectionId, connection, data.roomId, error);
+  }
+}
+
+/**
+ * End combat, broadcast the final state and record the end in room history
+ */
+export async function handleCombatEnd(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  connectionId: string,
+  connection: SocketConnection,
+  data: { roomId: string },
+) {
+  const userId = checkCombatAccess(connection, data.roomId);
+  if (!userId) return;
+
+  try {
+    const { combat, message } = await services.combatService.endCombat(userId, data);
+
+    await publish(fastify, data.roomId, {
+      type: WEBSOCKET_EVENTS.COMBAT_ENDED,
+      data: { roomId: data.roomId, combat },
+    });
+    await publish(fastify, data.roomId, { type: WEBSOCKET_EVENTS.MESSAGE_NEW, data: message });
+  } catch (error) {
+    handleCombatError(fastify, connectionId, connection, data.roomId, error);
+  }
+}
+
+/**
+ * Send the room's running combat (if any) to a connection that just joined
+ */
+export async function sendCombatState(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  connectionId: string,
+  connection: SocketConnection,
+  roomId: string,
+) {
+  try {
+    const combat = await services.combatService.getCombat(roomId);
+    if (!combat || connection.socket.readyState !== 1) return;
+
+    const message: ServerToClientMessage = {
+      type: WEBSOCKET_EVENTS.COMBAT_UPDATED,
+      data: { roomId, combat },
+    };
+    connection.socket.send(JSON.stringify(message));
+  } catch (error) {
+    fastify.log.error({ error, connectionId, roomId }, "Failed to send combat state");
+  }
+}
+
+/**
+ * Returns the acting user's ID, or sends an error and returns null
+ */
+function checkCombatAccess(connection: SocketConnection, roomId: string): string | null {
+  if (!connection.user) {
+    sendError(connection.socket, "User not authenticated", WEBSOCKET_ERROR_CODES.NOT_AUTHENTICATED);
+    return null;
+  }
+
+  if (!connection.rooms.has(roomId)) {
+    sendError(
+      connection.socket,
+      "Not joined to this room",
+      WEBSOCKET_ERROR_CODES.NOT_JOINED,
+      roomId,
+    );
+    return null;
+  }
+
+  return connection.user.userId;
+}
+
+function handleCombatError(
+  fastify: FastifyInstance,
+  connectionId: string,
+  connection: SocketConnection,
+  roomId: string,
+  error: unknown,
+) {
+  if (error instanceof CombatError && error.statusCode < 500) {
+    sendError(
+      connection.socket,
+      error.message,
+      toWebSocketErrorCode(error.code, WEBSOCKET_ERROR_CODES.INVALID_COMBAT_ACTION),
+      roomId,
+    );
+    return;
+  }
+
+  fastify.log.error({ error, connectionId, roomId }, "Failed to handle combat action");
+  sendError(
+    connection.socket,
+    "Failed to update combat",
+    WEBSOCKET_ERROR_CODES.COMBAT_FAILED,
+    roomId,
+  );
+}
+
+async function publish(fastify: FastifyInstance, roomId: string, message: ServerToClientMessage) {
+  await fastify.websocketPublish(roomId, message);
+}
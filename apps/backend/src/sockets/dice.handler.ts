@@ -0,0 +1,100 @@
+import { diceRollSchema } from "@rpgate/shared";
+import { WEBSOCKET_ERROR_CODES, WEBSOCKET_EVENTS } from "@rpgate/shared/constants";
+import type { ServerToClientMessage } from "@rpgate/shared/types";
+import type { FastifyInstance } from "fastify";
+import { DiceError } from "../services/dice.service";
+import { MessageError } from "../services/message.service";
+import { ModerationError } from "../services/moderation.service";
+import {
+  type SocketConnection,
+  type SocketServices,
+  sendError,
+  toWebSocketErrorCode,
+} from "./socket.context";
+
+/**
+ * Roll dice for a player, store the result as a roll message and broadcast it to the room
+ */
+export async function handleDiceRoll(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  connectionId: string,
+  connection: SocketConnection,
+  data: { roomId: string; expression: string },
+) {
+  if (!connection.user) {
+    sendError(connection.socket, "User not authenticated", WEBSOCKET_ERROR_CODES.NOT_AUTHENTICATED);
+    return;
+  }
+
+  if (!connection.rooms.has(data.roomId)) {
+    sendError(
+      connection.socket,
+      "Not joined to this room",
+      WEBSOCKET_ERROR_CODES.NOT_JOINED,
+      data.roomId,
+    );
+    return;
+  }
+
+  const validation = diceRollSchema.safeParse(data);
+  if (!validation.success) {
+    sendError(
+      connection.socket,
+      validation.error.errors[0]?.message || "Invalid dice expression",
+      WEBSOCKET_ERROR_CODES.INVALID_DICE_EXPRESSION,
+      data.roomId,
+    );
+    return;
+  }
+
+  try {
+    await services.moderationService.assertCanPost(data.roomId, connection.user.userId);
+
+    const roll = services.diceService.roll(validation.data.expression);
+    const stored = await services.messageService.createRollMessage(
+      data.roomId,
+      connection.user.userId,
+      connection.user.username,
+      roll,
+    );
+
+    const message: ServerToClientMessage = {
+      type: WEBSOCKET_EVENTS.MESSAGE_NEW,
+      data: stored,
+    };
+
+    await fastify.websocketPublish(data.roomId, message);
+  } catch (error) {
+    if (error instanceof DiceError) {
+      sendError(
+        connection.socket,
+        error.message,
+        WEBSOCKET_ERROR_CODES.INVALID_DICE_EXPRESSION,
+        data.roomId,
+      );
+      return;
+    }
+
+    if (
+      (error instanceof MessageError || error instanceof ModerationError) &&
+      error.statusCode < 500
+    ) {
+      sendError(
+        connection.socket,
+        error.message,
+        toWebSocketErrorCode(error.code, WEBSOCKET_ERROR_CODES.WEBSOCKET_ERROR),
+        data.roomId,
+      );
+      return;
+    }
+
+    fastify.log.error({ error, connectionId, roomId: data.roomId }, "Failed to roll dice");
+    sendError(
+      connection.socket,
+      "Failed to roll dice",
+      WEBSOCKET_ERROR_CODES.WEBSOCKET_ERROR,
+      data.roomId,
+    );
+  }
+}
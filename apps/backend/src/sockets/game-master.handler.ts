@@ -0,0 +1,106 @@
+import { randomUUID } from "node:crypto";
+import { WEBSOCKET_ERROR_CODES, WEBSOCKET_EVENTS } from "@rpgate/shared/constants";
+import type { ServerToClientMessage } from "@rpgate/shared/types";
+import type { FastifyInstance } from "fastify";
+import { AiUsageError } from "../services/ai-usage.service";
+import { createGameMasterTools } from "../services/game-master.tools";
+import type { MessageWithAuthor } from "../services/message.repository";
+import {
+  type SocketConnection,
+  type SocketServices,
+  sendError,
+  toWebSocketErrorCode,
+} from "./socket.context";
+
+/**
+ * Stream the GM reply to a player's message to the room, then broadcast the stored message
+ */
+export async function handleGameMasterReply(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  connectionId: string,
+  connection: SocketConnection,
+  action: MessageWithAuthor,
+) {
+  const { roomId } = action;
+  const messageId = randomUUID();
+  const publish = (message: ServerToClientMessage) => fastify.websocketPublish(roomId, message);
+
+  try {
+    await services.aiUsageService.checkLimits(roomId, action.userId);
+  } catch (error) {
+    // Nothing was streamed yet; only the player who addressed the GM is told
+    if (error instanceof AiUsageError && error.statusCode === 429) {
+      sendError(
+        connection.socket,
+        error.message,
+        toWebSocketErrorCode(error.code, WEBSOCKET_ERROR_CODES.AI_RATE_LIMITED),
+        roomId,
+        error.retryAfter,
+      );
+      return;
+    }
+
+    fastify.log.error(
+      { error, connectionId, roomId, actionId: action.id },
+      "GM limit check failed",
+    );
+    sendError(
+      connection.socket,
+      "Game Master failed to respond",
+      WEBSOCKET_ERROR_CODES.GM_FAILED,
+      roomId,
+    );
+    return;
+  }
+
+  try {
+    await publish({ type: WEBSOCKET_EVENTS.GM_STREAM_START, data: { messageId, roomId } });
+
+    // Whatever the GM changes through its tools reaches the room as it happens
+    const tools = createGameMasterTools(
+      services,
+      roomId,
+      {
+        onMessage: (message) => publish({ type: WEBSOCKET_EVENTS.MESSAGE_NEW, data: message }),
+        onCombatStarted: (combat) =>
+          publish({ type: WEBSOCKET_EVENTS.COMBAT_STARTED, data: { roomId, combat } }),
+        onCombatEnded: (combat) =>
+          publish({ type: WEBSOCKET_EVENTS.COMBAT_ENDED, data: { roomId, combat } }),
+      },
+      fastify.log,
+    );
+
+    const reply = await services.gameMasterService.respond(action, {
+      messageId,
+      tools,
+      onDelta: (delta) =>
+        publish({ type: WEBSOCKET_EVENTS.GM_STREAM_DELTA, data: { messageId, roomId, delta } }),
+    });
+
+    await publish({
+      type: WEBSOCKET_EVENTS.GM_STREAM_END,
+      data: { messageId, roomId, message: reply },
+    });
+  } catch (error) {
+    fastify.log.error(
+      { error, connectionId, roomId, actionId: action.id, messageId },
+      "Failed to handle Game Master reply",
+    );
+
+    // Let every client mark the partial reply as interrupted
+    await publish({
+      type: WEBSOCKET_EVENTS.GM_STREAM_ERROR,
+      data: { messageId, roomId, error: "Game Master failed to respond" },
+    }).catch((publishError: unknown) => {
+      fastify.log.error({ error: publishError, roomId, messageId }, "Failed to publish GM error");
+    });
+
+    sendError(
+      connection.socket,
+      "Game Master failed to respond",
+      WEBSOCKET_ERROR_CODES.GM_FAILED,
+      roomId,
+    );
+  }
+}
@@ -1,119 +1,249 @@
-import type { FastifyInstance } from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { ZodError } from "zod";
+import type { WebSocket } from "@fastify/websocket";
+import { clientToServerMessageSchema, socketRequestIdSchema } from "@rpgate/shared/schemas";
 import type {
-  ClientToServerMessage,
+  ParsedClientToServerMessage,
   ServerToClientMessage,
   WebSocketUser,
 } from "@rpgate/shared/types";
-import { WEBSOCKET_EVENTS } from "@rpgate/shared/constants";
+import {
+  WEBSOCKET_CLOSE_CODES,
+  WEBSOCKET_ERROR_CODES,
+  WEBSOCKET_EVENTS,
+  WEBSOCKET_PROTOCOL,
+} from "@rpgate/shared/constants";
+import { AiUsageService } from "../services/ai-usage.service";
+import { CharacterService } from "../services/character.service";
+import { CombatService } from "../services/combat.service";
+import { DiceService } from "../services/dice.service";
+import { GameMasterService } from "../services/game-master.service";
+import { MessageService } from "../services/message.service";
+import { ModerationService } from "../services/moderation.service";
+import { PresenceService } from "../services/presence.service";
+import { RoomService } from "../services/room.service";
+import { SESSION_EXPIRY_SECONDS } from "../plugins/session.plugin";
+import { handleCombatEnd, handleCombatStart, handleCombatUpdate } from "./combat.handler";
+import { handleDiceRoll } from "./dice.handler";
+import {
+  handleMessageDelete,
+  handleMessageEdit,
+  handleMessageSend,
+  handleReactionChange,
+} from "./message.handler";
+import { leavePresence, schedulePresenceHeartbeat, unwatchRoom } from "./presence.handler";
+import { handleRoomJoin, handleRoomLeave, leaveRoomPresence } from "./room.handler";
+import {
+  handleSocketRequest,
+  sendError,
+  type SocketConnection,
+  type SocketServices,
+} from "./socket.context";
+import { handleTypingStart, handleTypingStop } from "./typing.handler";
+import "../types/session.types";
 
 /**
  * Register WebSocket route and handlers
  */
 export async function registerWebSocketHandlers(fastify: FastifyInstance): Promise<void> {
   try {
+    const services: SocketServices = {
+      aiUsageService: new AiUsageService(fastify.db, fastify.redis, fastify.log),
+      characterService: new CharacterService(fastify.db, fastify.log),
+      combatService: new CombatService(fastify.db, fastify.redis, fastify.log),
+      diceService: new DiceService(fastify.log),
+      gameMasterService: new GameMasterService(fastify.db, fastify.log),
+      messageService: new MessageService(fastify.db, fastify.log),
+      moderationService: new ModerationService(fastify.db, fastify.redis, fastify.log),
+      presenceService: new PresenceService(fastify.db, fastify.redis, fastify.log),
+      roomService: new RoomService(fastify.db, fastify.redis, fastify.log),
+    };
+
+    schedulePresenceHeartbeat(fastify, services);
+
+    // Sockets dropped from a room (kick, ban, leave, delete) leave its presence like a room:leave
+    fastify.websocketOnRoomAccessRevoked(({ connectionId, roomId, userId, spectating }) => {
+      if (!userId) return;
+      void leaveRoomPresence(fastify, services, { roomId, userId, connectionId }, spectating);
+    });
+
     // WebSocket route
     await fastify.register(async function (fastify) {
-      fastify.get("/ws", { websocket: true }, (connection: any) => {
-        const connectionId = generateConnectionId();
-        const connectionData = {
-          socket: connection.socket,
-          rooms: new Set<string>(),
-          user: undefined as WebSocketUser | undefined,
-        };
-
-        // Enhanced connection data
-        const enhancedConnectionData = {
-          ...connectionData,
-          connectedAt: new Date(),
-          lastActivity: new Date(),
-          messageCount: 0,
-        };
-
-        // Store connection
-        (fastify as any).websocketConnections.set(connectionId, enhancedConnectionData);
-        (fastify as any).websocketMetrics.trackConnection(connectionId);
-
-        fastify.log.info(
-          {
-            connectionId,
-            remoteAddress: connection.socket.remoteAddress,
-            userAgent: connection.socket.headers?.["user-agent"],
-            timestamp: new Date().toISOString(),
-          },
-          "WebSocket connection established",
-        );
-
-        connection.socket.on("message", (message: any) => {
-          try {
-            const data: ClientToServerMessage = JSON.parse(message.toString());
-
-            // Update activity and message count
-            enhancedConnectionData.lastActivity = new Date();
-            enhancedConnectionData.messageCount++;
-            (fastify as any).websocketMetrics.trackMessage();
-
-            fastify.log.debug(
+      fastify.get(
+        "/ws",
+        { websocket: true, preHandler: [fastify.optionalAuth] },
+        (socket: WebSocket, request: FastifyRequest) => {
+          const connectionId = generateConnectionId();
+
+          // Session cookie is resolved to a user by the optionalAuth pre-handler
+          if (!request.user) {
+            fastify.log.warn(
+              { connectionId, ip: request.ip, event: "websocket_unauthorized" },
+              "WebSocket connection rejected: not authenticated",
+            );
+            socket.close(WEBSOCKET_CLOSE_CODES.UNAUTHORIZED, "Authentication required");
+            return;
+          }
+
+          const requestedVersion = (request.query as { v?: string } | undefined)?.v;
+          const protocolVersion = negotiateProtocolVersion(requestedVersion);
+          if (protocolVersion === null) {
+            fastify.log.warn(
+              { connectionId, userId: request.user.id, requestedVersion },
+              "WebSocket connection rejected: unsupported protocol version",
+            );
+            socket.close(
+              WEBSOCKET_CLOSE_CODES.UNSUPPORTED_PROTOCOL,
+              `Supported protocol versions: ${WEBSOCKET_PROTOCOL.MIN_VERSION}-${WEBSOCKET_PROTOCOL.VERSION}`,
+            );
+            return;
+          }
+
+          const connectionData = {
+            socket,
+            rooms: new Set<string>(),
+            spectating: new Set<string>(),
+            user: {
+              userId: request.user.id,
+              username: request.user.username,
+            } as WebSocketUser,
+            sessionId: request.session.get("sessionId"),
+            protocolVersion,
+          };
+
+          // Enhanced connection data
+          const enhancedConnectionData: SocketConnection = {
+            ...connectionData,
+            connectedAt: new Date(),
+            lastActivity: new Date(),
+            messageCount: 0,
+          };
+
+          // Store connection
+          (fastify as any).websocketConnections.set(connectionId, enhancedConnectionData);
+          (fastify as any).websocketMetrics.trackConnection(connectionId);
+
+          // Close the connection when the session expires
+          const sessionExpiryTimer = setTimeout(() => {
+            fastify.log.info({ connectionId }, "WebSocket session expired");
+            socket.close(WEBSOCKET_CLOSE_CODES.SESSION_ENDED, "Session expired");
+          }, getSessionTimeRemaining(request));
+
+          fastify.log.info(
+            {
+              connectionId,
+              userId: connectionData.user.userId,
+              remoteAddress: request.ip,
+              userAgent: request.headers["user-agent"],
+              timestamp: new Date().toISOString(),
+            },
+            "WebSocket connection established",
+          );
+
+          socket.on("message", (message: any) => {
+            try {
+              const raw: unknown = JSON.parse(message.toString());
+              const validation = clientToServerMessageSchema.safeParse(raw);
+              if (!validation.success) {
+                rejectInvalidMessage(fastify, connectionId, socket, raw, validation.error);
+                return;
+              }
+              const data = validation.data;
+
+              // Update activity and message count
+              enhancedConnectionData.lastActivity = new Date();
+              enhancedConnectionData.messageCount++;
+              (fastify as any).websocketMetrics.trackMessage();
+
+              fastify.log.debug(
+                {
+                  connectionId,
+                  messageType: data.type,
+                  messageCount: enhancedConnectionData.messageCount,
+                },
+                "WebSocket message received",
+              );
+
+              handleSocketRequest(socket, data.requestId, () =>
+                handleClientMessage(fastify, services, connectionId, enhancedConnectionData, data),
+              ).catch((error) => {
+                fastify.log.error(
+                  { error, connectionId, messageType: data.type },
+                  "Failed to handle WebSocket message",
+                );
+              });
+            } catch (error) {
+              (fastify as any).websocketMetrics.trackError();
+              fastify.log.error(
+                {
+                  error,
+                  connectionId,
+                  rawMessage: message.toString().substring(0, 100), // Log first 100 chars
+                  messageCount: enhancedConnectionData.messageCount,
+                },
+                "Failed to parse WebSocket message",
+              );
+              sendError(socket, "Invalid message format", WEBSOCKET_ERROR_CODES.INVALID_MESSAGE);
+            }
+          });
+
+          socket.on("close", (code: number, reason: Buffer) => {
+            clearTimeout(sessionExpiryTimer);
+            const duration = Date.now() - enhancedConnectionData.connectedAt.getTime();
+
+            fastify.log.info(
               {
                 connectionId,
-                messageType: data.type,
+                code,
+                reason: reason.toString(),
+                roomCount: enhancedConnectionData.rooms.size,
                 messageCount: enhancedConnectionData.messageCount,
+                duration: Math.round(duration / 1000), // Duration in seconds
               },
-              "WebSocket message received",
+              "WebSocket connection closed",
             );
 
-            handleClientMessage(fastify, connectionId, enhancedConnectionData, data);
-          } catch (error) {
+            // Members whose last connection this was go offline in its rooms,
+            // and spectators stop counting as viewers
+            for (const roomId of enhancedConnectionData.rooms) {
+              const entry = { roomId, userId: connectionData.user.userId, connectionId };
+              if (enhancedConnectionData.spectating.has(roomId)) {
+                void unwatchRoom(fastify, services, entry);
+              } else {
+                void leavePresence(fastify, services, entry);
+              }
+            }
+
+            // Use cleanup function from plugin
+            (fastify as any).websocketCleanup(connectionId);
+          });
+
+          socket.on("error", (error: any) => {
             (fastify as any).websocketMetrics.trackError();
             fastify.log.error(
               {
                 error,
                 connectionId,
-                rawMessage: message.toString().substring(0, 100), // Log first 100 chars
+                errorCode: error.code,
+                errorMessage: error.message,
                 messageCount: enhancedConnectionData.messageCount,
+                roomCount: enhancedConnectionData.rooms.size,
               },
-              "Failed to parse WebSocket message",
+              "WebSocket connection error",
             );
-            sendError(connection.socket, "Invalid message format", connectionId);
-          }
-        });
-
-        connection.socket.on("close", (code: number, reason: string) => {
-          const duration = Date.now() - enhancedConnectionData.connectedAt.getTime();
-
-          fastify.log.info(
-            {
-              connectionId,
-              code,
-              reason: reason.toString(),
-              roomCount: enhancedConnectionData.rooms.size,
-              messageCount: enhancedConnectionData.messageCount,
-              duration: Math.round(duration / 1000), // Duration in seconds
-            },
-            "WebSocket connection closed",
-          );
-
-          // Use cleanup function from plugin
-          (fastify as any).websocketCleanup(connectionId);
-        });
-
-        connection.socket.on("error", (error: any) => {
-          (fastify as any).websocketMetrics.trackError();
-          fastify.log.error(
-            {
-              error,
-              connectionId,
-              errorCode: error.code,
-              errorMessage: error.message,
-              messageCount: enhancedConnectionData.messageCount,
-              roomCount: enhancedConnectionData.rooms.size,
-            },
-            "WebSocket connection error",
+          });
+
+          const ready: ServerToClientMessage = {
+            type: WEBSOCKET_EVENTS.CONNECTION_READY,
+            data: { protocolVersion },
+          };
+          socket.send(JSON.stringify(ready));
+          fastify.log.debug(
+            { connectionId, protocolVersion },
+            "WebSocket connection ready for messages",
           );
-        });
-
-        // Log connection established (no need to send a message as it's not in the type system)
-        fastify.log.debug({ connectionId }, "WebSocket connection ready for messages");
-      });
+        },
+      );
     });
 
     fastify.log.info("WebSocket handlers registered successfully");
@@ -123,196 +253,238 @@ export async function registerWebSocketHandlers(fastify: FastifyInstance): Promi
   }
 }
 
+/**
+ * Milliseconds until the request's session expires
+ */
+function getSessionTimeRemaining(request: FastifyRequest): number {
+  const issuedAt: number | undefined = request.session.get("__ts");
+  if (!issuedAt) {
+    return SESSION_EXPIRY_SECONDS * 1000;
+  }
+
+  return Math.max(0, (issuedAt + SESSION_EXPIRY_SECONDS) * 1000 - Date.now());
+}
+
+/**
+ * Protocol version to speak with a client, or null when the server no longer supports it.
+ * Clients that send no version predate negotiation and speak version 1.
+ */
+function negotiateProtocolVersion(requested: string | undefined): number | null {
+  const version = requested === undefined ? 1 : Number(requested);
+  if (!Number.isInteger(version) || version < WEBSOCKET_PROTOCOL.MIN_VERSION) {
+    return null;
+  }
+
+  return Math.min(version, WEBSOCKET_PROTOCOL.VERSION);
+}
+
+/**
+ * Tell the client why its event was rejected; a nack when it carried a requestId
+ */
+function rejectInvalidMessage(
+  fastify: FastifyInstance,
+  connectionId: string,
+  socket: WebSocket,
+  raw: unknown,
+  error: ZodError,
+) {
+  (fastify as any).websocketMetrics.trackError();
+
+  const type = (raw as { type?: unknown } | null)?.type;
+  const requestId = socketRequestIdSchema.safeParse(
+    (raw as { requestId?: unknown } | null)?.requestId,
+  );
+  const unknownType = error.issues.some((issue) => issue.code === "invalid_union_discriminator");
+
+  fastify.log.warn(
+    {
+      connectionId,
+      messageType: typeof type === "string" ? type : undefined,
+      issues: error.issues.length,
+    },
+    "Invalid WebSocket message",
+  );
+
+  void handleSocketRequest(socket, requestId.success ? requestId.data : undefined, () =>
+    sendError(
+      socket,
+      unknownType ? "Unknown message type" : error.issues[0]?.message || "Invalid message format",
+      unknownType
+        ? WEBSOCKET_ERROR_CODES.UNKNOWN_MESSAGE_TYPE
+        : WEBSOCKET_ERROR_CODES.INVALID_MESSAGE,
+    ),
+  );
+}
+
 function generateConnectionId(): string {
   return `ws_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
-function handleClientMessage(
+async function handleClientMessage(
   fastify: FastifyInstance,
+  services: SocketServices,
   connectionId: string,
-  connectionData: any,
-  message: ClientToServerMessage,
-) {
+  connection: SocketConnection,
+  message: ParsedClientToServerMessage,
+): Promise<void> {
+  // Spectators only follow along; anything but joining or leaving needs membership
+  if (
+    message.type !== WEBSOCKET_EVENTS.ROOM_JOIN &&
+    message.type !== WEBSOCKET_EVENTS.ROOM_LEAVE &&
+    connection.spectating.has(message.data.roomId)
+  ) {
+    sendError(
+      connection.socket,
+      "Join the room to take part",
+      WEBSOCKET_ERROR_CODES.NOT_MEMBER,
+      message.data.roomId,
+    );
+    return;
+  }
+
   switch (message.type) {
     case WEBSOCKET_EVENTS.MESSAGE_SEND:
-      handleMessageSend(fastify, connectionId, connectionData, message.data);
+      await handleMessageSend(fastify, services, connectionId, connection, message.data);
       break;
 
-    case WEBSOCKET_EVENTS.ROOM_JOIN:
-      handleRoomJoin(fastify, connectionId, connectionData, message.data.roomId);
+    case WEBSOCKET_EVENTS.MESSAGE_EDIT:
+      await handleMessageEdit(fastify, services, connectionId, connection, message.data);
       break;
 
-    case WEBSOCKET_EVENTS.ROOM_LEAVE:
-      handleRoomLeave(fastify, connectionId, connectionData, message.data.roomId);
+    case WEBSOCKET_EVENTS.MESSAGE_DELETE:
+      await handleMessageDelete(fastify, services, connectionId, connection, message.data);
       break;
 
-    case WEBSOCKET_EVENTS.TYPING_START:
-      handleTypingStart(fastify, connectionId, connectionData, message.data.roomId);
+    case WEBSOCKET_EVENTS.REACTION_ADD:
+      await handleReactionChange(fastify, services, connectionId, connection, "add", message.data);
       break;
 
-    case WEBSOCKET_EVENTS.TYPING_STOP:
-      handleTypingStop(fastify, connectionId, connectionData, message.data.roomId);
+    case WEBSOCKET_EVENTS.REACTION_REMOVE:
+      await handleReactionChange(
+        fastify,
+        services,
+        connectionId,
+        connection,
+        "remove",
+        message.data,
+      );
       break;
 
-    default:
-      // TypeScript exhaustiveness check - this should never happen
-      const exhaustiveCheck: never = message;
-      fastify.log.warn(
-        {
-          type: (exhaustiveCheck as any).type,
-          connectionId,
-        },
-        "Unknown message type",
+    case WEBSOCKET_EVENTS.ROOM_JOIN:
+      await handleRoomJoin(
+        fastify,
+        services,
+        connectionId,
+        connection,
+        message.data.roomId,
+        message.data.sinceSeq,
       );
-      sendError(connectionData.socket, "Unknown message type", connectionId);
-  }
-}
-
-function handleMessageSend(
-  fastify: FastifyInstance,
-  _connectionId: string,
-  connectionData: any,
-  data: { roomId: string; content: string },
-) {
-  if (!connectionData.user) {
-    sendError(connectionData.socket, "User not authenticated");
-    return;
-  }
-
-  if (!connectionData.rooms.has(data.roomId)) {
-    sendError(connectionData.socket, "Not joined to this room");
-    return;
-  }
-
-  // TODO: Save message to database and broadcast
-  const message: ServerToClientMessage = {
-    type: WEBSOCKET_EVENTS.MESSAGE_NEW,
-    data: {
-      id: generateConnectionId(), // Temporary ID
-      content: data.content,
-      roomId: data.roomId,
-      userId: connectionData.user.userId,
-      username: connectionData.user.username,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    } as any,
-  };
-
-  (fastify as any).websocketPublish(data.roomId, message);
-}
-
-function handleRoomJoin(
-  fastify: FastifyInstance,
-  _connectionId: string,
-  connectionData: any,
-  roomId: string,
-) {
-  if (!connectionData.user) {
-    sendError(connectionData.socket, "User not authenticated");
-    return;
-  }
-
-  connectionData.rooms.add(roomId);
-
-  const message: ServerToClientMessage = {
-    type: WEBSOCKET_EVENTS.USER_JOINED,
-    data: {
-      user: {
-        id: connectionData.user.userId,
-        username: connectionData.user.username,
-      } as any,
-      roomId,
-    },
-  };
+      break;
 
-  (fastify as any).websocketPublish(roomId, message);
-}
+    case WEBSOCKET_EVENTS.ROOM_LEAVE:
+      await handleRoomLeave(fastify, services, connectionId, connection, message.data.roomId);
+      break;
 
-function handleRoomLeave(
-  fastify: FastifyInstance,
-  connectionId: string,
-  connectionData: any,
-  roomId: string,
-) {
-  leaveRoom(fastify, connectionId, connectionData, roomId);
-}
+    case WEBSOCKET_EVENTS.DICE_ROLL:
+      await handleDiceRoll(fastify, services, connectionId, connection, message.data);
+      break;
 
-function leaveRoom(
-  fastify: FastifyInstance,
-  _connectionId: string,
-  connectionData: any,
-  roomId: string,
-) {
-  if (!connectionData.rooms.has(roomId)) return;
+    case WEBSOCKET_EVENTS.COMBAT_START:
+      await handleCombatStart(fastify, services, connectionId, connection, message.data);
+      break;
 
-  connectionData.rooms.delete(roomId);
+    case WEBSOCKET_EVENTS.COMBAT_ADD_COMBATANT:
+      await handleCombatUpdate(
+        fastify,
+        services,
+        connectionId,
+        connection,
+        "addCombatant",
+        message.data,
+      );
+      break;
 
-  if (connectionData.user) {
-    const message: ServerToClientMessage = {
-      type: WEBSOCKET_EVENTS.USER_LEFT,
-      data: {
-        userId: connectionData.user.userId,
-        roomId,
-      },
-    };
+    case WEBSOCKET_EVENTS.COMBAT_REMOVE_COMBATANT:
+      await handleCombatUpdate(
+        fastify,
+        services,
+        connectionId,
+        connection,
+        "removeCombatant",
+        message.data,
+      );
+      break;
 
-    (fastify as any).websocketPublish(roomId, message);
-  }
-}
+    case WEBSOCKET_EVENTS.COMBAT_SET_INITIATIVE:
+      await handleCombatUpdate(
+        fastify,
+        services,
+        connectionId,
+        connection,
+        "setInitiative",
+        message.data,
+      );
+      break;
 
-function handleTypingStart(
-  fastify: FastifyInstance,
-  _connectionId: string,
-  connectionData: any,
-  roomId: string,
-) {
-  if (!connectionData.user || !connectionData.rooms.has(roomId)) return;
+    case WEBSOCKET_EVENTS.COMBAT_ADD_CONDITION:
+      await handleCombatUpdate(
+        fastify,
+        services,
+        connectionId,
+        connection,
+        "addCondition",
+        message.data,
+      );
+      break;
 
-  const message: ServerToClientMessage = {
-    type: WEBSOCKET_EVENTS.TYPING_START,
-    data: {
-      userId: connectionData.user.userId,
-      roomId,
-    },
-  };
+    case WEBSOCKET_EVENTS.COMBAT_REMOVE_CONDITION:
+      await handleCombatUpdate(
+        fastify,
+        services,
+        connectionId,
+        connection,
+        "removeCondition",
+        message.data,
+      );
+      break;
 
-  (fastify as any).websocketPublish(roomId, message);
-}
+    case WEBSOCKET_EVENTS.COMBAT_NEXT_TURN:
+      await handleCombatUpdate(
+        fastify,
+        services,
+        connectionId,
+        connection,
+        "nextTurn",
+        message.data,
+      );
+      break;
 
-function handleTypingStop(
-  fastify: FastifyInstance,
-  _connectionId: string,
-  connectionData: any,
-  roomId: string,
-) {
-  if (!connectionData.user || !connectionData.rooms.has(roomId)) return;
+    case WEBSOCKET_EVENTS.COMBAT_END:
+      await handleCombatEnd(fastify, services, connectionId, connection, message.data);
+      break;
 
-  const message: ServerToClientMessage = {
-    type: WEBSOCKET_EVENTS.TYPING_STOP,
-    data: {
-      userId: connectionData.user.userId,
-      roomId,
-    },
-  };
+    case WEBSOCKET_EVENTS.TYPING_START:
+      handleTypingStart(fastify, connectionId, connection, message.data.roomId);
+      break;
 
-  (fastify as any).websocketPublish(roomId, message);
-}
+    case WEBSOCKET_EVENTS.TYPING_STOP:
+      handleTypingStop(fastify, connectionId, connection, message.data.roomId);
+      break;
 
-function sendError(socket: any, message: string, _connectionId?: string) {
-  const errorMessage: ServerToClientMessage = {
-    type: WEBSOCKET_EVENTS.ERROR,
-    data: {
-      message,
-      code: "WEBSOCKET_ERROR",
-    },
-  };
-
-  if (socket.readyState === 1) {
-    try {
-      socket.send(JSON.stringify(errorMessage));
-    } catch (error) {
-      // Log error but don't throw to avoid cascading failures
-      console.error("Failed to send WebSocket error message:", error);
-    }
+    default:
+      // TypeScript exhaustiveness check - this should never happen
+      const exhaustiveCheck: never = message;
+      fastify.log.warn(
+        {
+          type: (exhaustiveCheck as any).type,
+          connectionId,
+        },
+        "Unknown message type",
+      );
+      sendError(
+        connection.socket,
+        "Unknown message type",
+        WEBSOCKET_ERROR_CODES.UNKNOWN_MESSAGE_TYPE,
+      );
   }
 }
@@ -0,0 +1,254 @@
+import { getMessageAudience } from "@rpgate/shared";
+import { WEBSOCKET_ERROR_CODES, WEBSOCKET_EVENTS } from "@rpgate/shared/constants";
+import type {
+  MessageDeleteEvent,
+  MessageEditEvent,
+  MessageSendEvent,
+  ReactionAddEvent,
+  ServerToClientMessage,
+} from "@rpgate/shared/types";
+import type { FastifyInstance } from "fastify";
+import { COMBAT_ERRORS, CombatError } from "../services/combat.service";
+import { getRollCommandExpression } from "../services/dice.service";
+import { MessageError } from "../services/message.service";
+import { ModerationError } from "../services/moderation.service";
+import {
+  notifyMessageDeleted,
+  notifyMessageUpdated,
+  notifyReactionChanged,
+} from "../utils/websocket.util";
+import { handleDiceRoll } from "./dice.handler";
+import { handleGameMasterReply } from "./game-master.handler";
+import {
+  type SocketConnection,
+  type SocketServices,
+  detachFromSocketRequest,
+  sendError,
+  toWebSocketErrorCode,
+} from "./socket.context";
+
+/**
+ * Persist a chat message and broadcast the stored row to the room.
+ * Whispers go only to the sockets of their author and recipients.
+ */
+export async function handleMessageSend(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  connectionId: string,
+  connection: SocketConnection,
+  data: MessageSendEvent["data"],
+) {
+  if (!connection.user) {
+    sendError(connection.socket, "User not authenticated", WEBSOCKET_ERROR_CODES.NOT_AUTHENTICATED);
+    return;
+  }
+
+  if (!connection.rooms.has(data.roomId)) {
+    sendError(
+      connection.socket,
+      "Not joined to this room",
+      WEBSOCKET_ERROR_CODES.NOT_JOINED,
+      data.roomId,
+    );
+    return;
+  }
+
+  // "/roll <expression>" is a dice roll, not chat
+  const rollExpression = getRollCommandExpression(data.content);
+  if (rollExpression !== null) {
+    await handleDiceRoll(fastify, services, connectionId, connection, {
+      roomId: data.roomId,
+      expression: rollExpression,
+    });
+    return;
+  }
+
+  try {
+    await services.moderationService.assertCanPost(data.roomId, connection.user.userId);
+
+    if ((data.kind ?? "ic") === "ic") {
+      await services.combatService.checkInCharacterPosting(data.roomId, connection.user.userId);
+    }
+
+    const stored = await services.messageService.createMessage(connection.user.userId, data);
+
+    const message: ServerToClientMessage = {
+      type: WEBSOCKET_EVENTS.MESSAGE_NEW,
+      data: stored,
+    };
+
+    const audience = getMessageAudience(stored);
+    if (audience) {
+      await fastify.websocketPublishToUsers(data.roomId, audience, message);
+    } else {
+      await fastify.websocketPublish(data.roomId, message);
+    }
+
+    if (await services.gameMasterService.shouldRespond(stored)) {
+      void detachFromSocketRequest(() =>
+        handleGameMasterReply(fastify, services, connectionId, connection, stored),
+      );
+    }
+  } catch (error) {
+    if (error instanceof CombatError && error.code === COMBAT_ERRORS.NOT_YOUR_TURN) {
+      sendError(connection.socket, error.message, WEBSOCKET_ERROR_CODES.NOT_YOUR_TURN, data.roomId);
+      return;
+    }
+
+    if (
+      (error instanceof MessageError || error instanceof ModerationError) &&
+      error.statusCode < 500
+    ) {
+      sendError(
+        connection.socket,
+        error.message,
+        toWebSocketErrorCode(error.code, WEBSOCKET_ERROR_CODES.INVALID_MESSAGE),
+        data.roomId,
+      );
+      return;
+    }
+
+    fastify.log.error(
+      { error, connectionId, roomId: data.roomId },
+      "Failed to handle WebSocket message",
+    );
+    sendError(
+      connection.socket,
+      "Failed to send message",
+      WEBSOCKET_ERROR_CODES.MESSAGE_FAILED,
+      data.roomId,
+    );
+  }
+}
+
+/**
+ * Edit the sender's own message and broadcast the new version (not while muted or banned)
+ */
+export async function handleMessageEdit(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  connectionId: string,
+  connection: SocketConnection,
+  data: MessageEditEvent["data"],
+) {
+  const userId = checkMessageAccess(connection, data.roomId);
+  if (!userId) return;
+
+  try {
+    await services.moderationService.assertCanPost(data.roomId, userId);
+
+    const message = await services.messageService.editMessage(data.roomId, data.messageId, userId, {
+      content: data.content,
+    });
+    await notifyMessageUpdated(fastify, message);
+  } catch (error) {
+    handleMessageChangeError(fastify, connectionId, connection, data.roomId, error);
+  }
+}
+
+/**
+ * Delete a message (its author or the room owner) and tell the room
+ */
+export async function handleMessageDelete(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  connectionId: string,
+  connection: SocketConnection,
+  data: MessageDeleteEvent["data"],
+) {
+  const userId = checkMessageAccess(connection, data.roomId);
+  if (!userId) return;
+
+  try {
+    const message = await services.messageService.deleteMessage(
+      data.roomId,
+      data.messageId,
+      userId,
+    );
+    await notifyMessageDeleted(fastify, message);
+  } catch (error) {
+    handleMessageChangeError(fastify, connectionId, connection, data.roomId, error);
+  }
+}
+
+/**
+ * Add or take back the sender's reaction on a message and tell everyone who can see it
+ * (not while muted or banned)
+ */
+export async function handleReactionChange(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  connectionId: string,
+  connection: SocketConnection,
+  action: "add" | "remove",
+  data: ReactionAddEvent["data"],
+) {
+  const userId = checkMessageAccess(connection, data.roomId);
+  if (!userId) return;
+
+  try {
+    await services.moderationService.assertCanPost(data.roomId, userId);
+
+    const change =
+      action === "add"
+        ? await services.messageService.addReaction(userId, data)
+        : await services.messageService.removeReaction(userId, data);
+
+    if (change.changed) {
+      await notifyReactionChanged(fastify, action, change);
+    }
+  } catch (error) {
+    handleMessageChangeError(fastify, connectionId, connection, data.roomId, error);
+  }
+}
+
+/**
+ * The acting user's ID, or null (after telling the client) if they may not act in the room
+ */
+function checkMessageAccess(connection: SocketConnection, roomId: string): string | null {
+  if (!connection.user) {
+    sendError(connection.socket, "User not authenticated", WEBSOCKET_ERROR_CODES.NOT_AUTHENTICATED);
+    return null;
+  }
+
+  if (!connection.rooms.has(roomId)) {
+    sendError(
+      connection.socket,
+      "Not joined to this room",
+      WEBSOCKET_ERROR_CODES.NOT_JOINED,
+      roomId,
+    );
+    return null;
+  }
+
+  return connection.user.userId;
+}
+
+function handleMessageChangeError(
+  fastify: FastifyInstance,
+  connectionId: string,
+  connection: SocketConnection,
+  roomId: string,
+  error: unknown,
+) {
+  if (
+    (error instanceof MessageError || error instanceof ModerationError) &&
+    error.statusCode < 500
+  ) {
+    sendError(
+      connection.socket,
+      error.message,
+      toWebSocketErrorCode(error.code, WEBSOCKET_ERROR_CODES.MESSAGE_FAILED),
+      roomId,
+    );
+    return;
+  }
+
+  fastify.log.error({ error, connectionId, roomId }, "Failed to change message");
+  sendError(
+    connection.socket,
+    "Failed to change message",
+    WEBSOCKET_ERROR_CODES.MESSAGE_FAILED,
+    roomId,
+  );
+}
@@ -0,0 +1,193 @@
+import { WEBSOCKET_EVENTS } from "@rpgate/shared/constants";
+import type { ServerToClientMessage } from "@rpgate/shared/types";
+import type { FastifyInstance } from "fastify";
+import type { PresenceEntry } from "../services/presence.repository";
+import {
+  PRESENCE_HEARTBEAT_INTERVAL_MS,
+  type PresenceOffline,
+  type RoomViewerCount,
+} from "../services/presence.service";
+import { scheduleBackgroundJob } from "../utils/background-job.util";
+import type { SocketConnection, SocketServices } from "./socket.context";
+
+/**
+ * Mark a connection present in a room, send it who is online and announce the member
+ * if this is their first connection to the room
+ */
+export async function joinPresence(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  connectionId: string,
+  connection: SocketConnection,
+  roomId: string,
+) {
+  if (!connection.user) return;
+
+  try {
+    const userId = connection.user.userId;
+    const { onlineUserIds, cameOnline } = await services.presenceService.join({
+      roomId,
+      userId,
+      connectionId,
+    });
+
+    if (connection.socket.readyState === 1) {
+      const snapshot: ServerToClientMessage = {
+        type: WEBSOCKET_EVENTS.PRESENCE_SNAPSHOT,
+        data: { roomId, userIds: onlineUserIds },
+      };
+      connection.socket.send(JSON.stringify(snapshot));
+    }
+
+    if (cameOnline) {
+      const message: ServerToClientMessage = {
+        type: WEBSOCKET_EVENTS.PRESENCE_UPDATE,
+        data: { roomId, userId, status: "online" },
+      };
+      await fastify.websocketPublish(roomId, message);
+    }
+  } catch (error) {
+    fastify.log.error({ error, connectionId, roomId }, "Failed to join room presence");
+  }
+}
+
+/**
+ * Clear a connection's presence in a room (leave or disconnect) and announce the member
+ * if that was their last connection to the room
+ */
+export async function leavePresence(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  entry: PresenceEntry,
+) {
+  try {
+    const offline = await services.presenceService.leave(entry);
+    if (offline) {
+      await publishOffline(fastify, offline);
+    }
+  } catch (error) {
+    fastify.log.error(
+      { error, connectionId: entry.connectionId, roomId: entry.roomId },
+      "Failed to leave room presence",
+    );
+  }
+}
+
+/**
+ * Count a spectator connection as watching a room and announce the new viewer count
+ * if this is the spectator's first connection to the room
+ */
+export async function watchRoom(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  entry: PresenceEntry,
+) {
+  try {
+    const viewerCount = await services.presenceService.watch(entry);
+    if (viewerCount !== null) {
+      await publishViewerCount(fastify, { roomId: entry.roomId, viewerCount });
+    }
+  } catch (error) {
+    fastify.log.error(
+      { error, connectionId: entry.connectionId, roomId: entry.roomId },
+      "Failed to watch room",
+    );
+  }
+}
+
+/**
+ * Stop counting a spectator connection (leave, join as a member or disconnect) and
+ * announce the new viewer count if that was the spectator's last connection to the room
+ */
+export async function unwatchRoom(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  entry: PresenceEntry,
+) {
+  try {
+    const viewerCount = await services.presenceService.unwatch(entry);
+    if (viewerCount !== null) {
+      await publishViewerCount(fastify, { roomId: entry.roomId, viewerCount });
+    }
+  } catch (error) {
+    fastify.log.error(
+      { error, connectionId: entry.connectionId, roomId: entry.roomId },
+      "Failed to unwatch room",
+    );
+  }
+}
+
+/**
+ * Keep this instance's connections present, and expire connections of instances
+ * that stopped heartbeating. Both stop when the server closes.
+ */
+export function schedulePresenceHeartbeat(fastify: FastifyInstance, services: SocketServices) {
+  // Every instance refreshes its own connections
+  const heartbeatInterval = setInterval(() => {
+    const entries: PresenceEntry[] = [];
+    const viewerEntries: PresenceEntry[] = [];
+    for (const [connectionId, connection] of (fastify as any).websocketConnections as Map<
+      string,
+      SocketConnection
+    >) {
+      if (!connection.user) continue;
+      for (const roomId of connection.rooms) {
+        const entry = { roomId, userId: connection.user.userId, connectionId };
+        (connection.spectating.has(roomId) ? viewerEntries : entries).push(entry);
+      }
+    }
+
+    services.presenceService.heartbeat(entries, viewerEntries).catch((error) => {
+      fastify.log.warn({ error }, "Presence heartbeat failed");
+    });
+  }, PRESENCE_HEARTBEAT_INTERVAL_MS);
+
+  fastify.addHook("onClose", async () => {
+    clearInterval(heartbeatInterval);
+  });
+
+  // One instance at a time expires entries nobody refreshed
+  scheduleBackgroundJob(fastify, {
+    name: "presence-expiry",
+    intervalMs: PRESENCE_HEARTBEAT_INTERVAL_MS,
+    lockSeconds: 60,
+    run: async () => {
+      const expired = await services.presenceService.expire();
+      for (const offline of expired) {
+        await publishOffline(fastify, offline);
+      }
+
+      const viewerCounts = await services.presenceService.expireViewers();
+      for (const viewerCount of viewerCounts) {
+        await publishViewerCount(fastify, viewerCount);
+      }
+    },
+  });
+}
+
+// Publishes never throw, so one failure does not cut short a batch of expired entries
+async function publishOffline(
+  fastify: FastifyInstance,
+  { roomId, userId, lastSeenAt }: PresenceOffline,
+) {
+  const message: ServerToClientMessage = {
+    type: WEBSOCKET_EVENTS.PRESENCE_UPDATE,
+    data: { roomId, userId, status: "offline", lastSeenAt: lastSeenAt.toISOString() },
+  };
+  await fastify.websocketPublish(roomId, message).catch((error) => {
+    fastify.log.error({ error, roomId, userId }, "Failed to publish offline presence");
+  });
+}
+
+async function publishViewerCount(
+  fastify: FastifyInstance,
+  { roomId, viewerCount }: RoomViewerCount,
+) {
+  const message: ServerToClientMessage = {
+    type: WEBSOCKET_EVENTS.ROOM_VIEWER_COUNT_UPDATED,
+    data: { roomId, viewerCount },
+  };
+  await fastify.websocketPublish(roomId, message).catch((error) => {
+    fastify.log.error({ error, roomId }, "Failed to publish viewer count");
+  });
+}
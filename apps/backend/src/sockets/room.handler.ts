@@ -0,0 +1,159 @@
+import { WEBSOCKET_ERROR_CODES, WEBSOCKET_EVENTS } from "@rpgate/shared/constants";
+import type { ServerToClientMessage } from "@rpgate/shared/types";
+import type { FastifyInstance } from "fastify";
+import type { PresenceEntry } from "../services/presence.repository";
+import { type RoomAccess, RoomError } from "../services/room.service";
+import { sendCombatState } from "./combat.handler";
+import { joinPresence, leavePresence, unwatchRoom, watchRoom } from "./presence.handler";
+import {
+  type SocketConnection,
+  type SocketServices,
+  sendError,
+  toWebSocketErrorCode,
+} from "./socket.context";
+
+/**
+ * Subscribe a connection to a room's events after checking membership and room state.
+ * A reconnecting client passes sinceSeq to be sent the events it missed. Non-members of
+ * public rooms that allow it follow read-only, counted as viewers rather than members.
+ */
+export async function handleRoomJoin(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  connectionId: string,
+  connection: SocketConnection,
+  roomId: string,
+  sinceSeq?: number,
+) {
+  if (!connection.user) {
+    sendError(connection.socket, "User not authenticated", WEBSOCKET_ERROR_CODES.NOT_AUTHENTICATED);
+    return;
+  }
+
+  let access: RoomAccess;
+  try {
+    access = await services.roomService.checkRoomAccess(roomId, connection.user.userId);
+  } catch (error) {
+    if (error instanceof RoomError && error.statusCode < 500) {
+      fastify.log.warn(
+        { connectionId, roomId, userId: connection.user.userId, code: error.code },
+        "WebSocket room join rejected",
+      );
+      sendError(
+        connection.socket,
+        error.message,
+        toWebSocketErrorCode(error.code, WEBSOCKET_ERROR_CODES.JOIN_FAILED),
+        roomId,
+      );
+      return;
+    }
+
+    fastify.log.error({ error, connectionId, roomId }, "Failed to join WebSocket room");
+    sendError(connection.socket, "Failed to join room", WEBSOCKET_ERROR_CODES.JOIN_FAILED, roomId);
+    return;
+  }
+
+  try {
+    const sync = await fastify.websocketJoinRoom(connectionId, roomId, sinceSeq);
+    if (sync && connection.socket.readyState === 1) {
+      const message: ServerToClientMessage = {
+        type: WEBSOCKET_EVENTS.ROOM_SYNC,
+        data: { roomId, ...sync, spectating: access === "spectator" },
+      };
+      connection.socket.send(JSON.stringify(message));
+    }
+  } catch (error) {
+    fastify.log.error({ error, connectionId, roomId }, "Failed to subscribe WebSocket to room");
+    sendError(connection.socket, "Failed to join room", WEBSOCKET_ERROR_CODES.JOIN_FAILED, roomId);
+    return;
+  }
+
+  const entry = { roomId, userId: connection.user.userId, connectionId };
+  if (access === "spectator") {
+    if (!connection.spectating.has(roomId)) {
+      connection.spectating.add(roomId);
+      await watchRoom(fastify, services, entry);
+    }
+    await sendCombatState(fastify, services, connectionId, connection, roomId);
+    return;
+  }
+
+  // A spectator who has since joined the room now counts as a member
+  if (connection.spectating.delete(roomId)) {
+    await unwatchRoom(fastify, services, entry);
+  }
+
+  const message: ServerToClientMessage = {
+    type: WEBSOCKET_EVENTS.USER_JOINED,
+    data: {
+      user: {
+        id: connection.user.userId,
+        username: connection.user.username,
+      },
+      roomId,
+    },
+  };
+
+  await fastify.websocketPublish(roomId, message).catch((error) => {
+    fastify.log.error({ error, connectionId, roomId }, "Failed to announce room join");
+  });
+
+  await joinPresence(fastify, services, connectionId, connection, roomId);
+  await sendCombatState(fastify, services, connectionId, connection, roomId);
+}
+
+export async function handleRoomLeave(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  connectionId: string,
+  connection: SocketConnection,
+  roomId: string,
+) {
+  if (!connection.rooms.has(roomId)) return;
+
+  const spectating = connection.spectating.has(roomId);
+  await fastify.websocketLeaveRoom(connectionId, roomId);
+
+  if (connection.user) {
+    await leaveRoomPresence(
+      fastify,
+      services,
+      { roomId, userId: connection.user.userId, connectionId },
+      spectating,
+    );
+  }
+}
+
+/**
+ * Clear the presence of a connection that left a room or was dropped from it: a spectator
+ * stops counting as a viewer, a member goes offline with their last connection and is
+ * announced as having left
+ */
+export async function leaveRoomPresence(
+  fastify: FastifyInstance,
+  services: SocketServices,
+  entry: PresenceEntry,
+  spectating: boolean,
+) {
+  if (spectating) {
+    await unwatchRoom(fastify, services, entry);
+    return;
+  }
+
+  await leavePresence(fastify, services, entry);
+
+  const message: ServerToClientMessage = {
+    type: WEBSOCKET_EVENTS.USER_LEFT,
+    data: {
+      userId: entry.userId,
+      roomId: entry.roomId,
+    },
+  };
+
+  await fastify.websocketPublish(entry.roomId, message).catch((error) => {
+    fastify.log.error(
+      { error, connectionId: entry.connectionId, roomId: entry.roomId },
+      "Failed to announce room leave",
+    );
+  });
+}
@@ -0,0 +1,152 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { WebSocket } from "@fastify/websocket";
+import { WEBSOCKET_ERROR_CODES, WEBSOCKET_EVENTS } from "@rpgate/shared/constants";
+import type {
+  ServerToClientMessage,
+  WebSocketErrorCode,
+  WebSocketUser,
+} from "@rpgate/shared/types";
+import type { AiUsageService } from "../services/ai-usage.service";
+import type { CharacterService } from "../services/character.service";
+import type { CombatService } from "../services/combat.service";
+import type { DiceService } from "../services/dice.service";
+import type { GameMasterService } from "../services/game-master.service";
+import type { MessageService } from "../services/message.service";
+import type { ModerationService } from "../services/moderation.service";
+import type { PresenceService } from "../services/presence.service";
+import type { RoomService } from "../services/room.service";
+
+/**
+ * Services shared by all WebSocket handlers
+ */
+export interface SocketServices {
+  aiUsageService: AiUsageService;
+  characterService: CharacterService;
+  combatService: CombatService;
+  diceService: DiceService;
+  gameMasterService: GameMasterService;
+  messageService: MessageService;
+  moderationService: ModerationService;
+  presenceService: PresenceService;
+  roomService: RoomService;
+}
+
+/**
+ * Per-connection state tracked for each open socket
+ */
+export interface SocketConnection {
+  socket: WebSocket;
+  user?: WebSocketUser;
+  sessionId?: string;
+  // Protocol version agreed with the client on connect
+  protocolVersion: number;
+  rooms: Set<string>;
+  // Rooms among those followed read-only, as a spectator rather than a member
+  spectating: Set<string>;
+  connectedAt: Date;
+  lastActivity: Date;
+  messageCount: number;
+}
+
+const KNOWN_ERROR_CODES = new Set<string>(Object.values(WEBSOCKET_ERROR_CODES));
+
+/**
+ * Map a service error code onto a WebSocket error code, if it has one
+ */
+export function toWebSocketErrorCode(
+  code: string,
+  fallback: WebSocketErrorCode,
+): WebSocketErrorCode {
+  return KNOWN_ERROR_CODES.has(code) ? (code as WebSocketErrorCode) : fallback;
+}
+
+/**
+ * A client event being handled whose sender asked for an ack or nack
+ */
+interface SocketRequest {
+  socket: WebSocket;
+  requestId: string;
+  // Set once the ack or nack went out; later errors are sent as plain error events
+  settled: boolean;
+}
+
+const socketRequests = new AsyncLocalStorage<SocketRequest>();
+
+/**
+ * Handle a client event. With a requestId, the first error the handler reports for the
+ * socket becomes a nack; a handler that finishes without one is acked.
+ */
+export async function handleSocketRequest(
+  socket: WebSocket,
+  requestId: string | undefined,
+  handler: () => Promise<void> | void,
+): Promise<void> {
+  if (!requestId) {
+    await handler();
+    return;
+  }
+
+  const request: SocketRequest = { socket, requestId, settled: false };
+  try {
+    await socketRequests.run(request, handler);
+  } catch (error) {
+    sendError(socket, "Failed to handle message", WEBSOCKET_ERROR_CODES.WEBSOCKET_ERROR);
+    throw error;
+  }
+
+  if (!request.settled) {
+    request.settled = true;
+    sendToSocket(socket, { type: WEBSOCKET_EVENTS.ACK, data: { requestId } });
+  }
+}
+
+/**
+ * Run work started by a client event that outlives it (e.g. a GM reply), so its
+ * errors reach the client as error events instead of answering the request
+ */
+export function detachFromSocketRequest<T>(work: () => T): T {
+  return socketRequests.exit(work);
+}
+
+/**
+ * Send an error event to a single socket, or a nack when it answers the socket's request
+ */
+export function sendError(
+  socket: WebSocket,
+  message: string,
+  code: WebSocketErrorCode = WEBSOCKET_ERROR_CODES.WEBSOCKET_ERROR,
+  roomId?: string,
+  // Seconds until a rate-limited action may be retried
+  retryAfter?: number,
+) {
+  const request = socketRequests.getStore();
+  if (request && !request.settled && request.socket === socket) {
+    request.settled = true;
+    sendToSocket(socket, {
+      type: WEBSOCKET_EVENTS.NACK,
+      data: { requestId: request.requestId, message, code, roomId, retryAfter },
+    });
+    return;
+  }
+
+  sendToSocket(socket, {
+    type: WEBSOCKET_EVENTS.ERROR,
+    data: {
+      message,
+      code,
+      roomId,
+      retryAfter,
+    },
+  });
+}
+
+function sendToSocket(socket: WebSocket, message: ServerToClientMessage) {
+  if (socket.readyState === 1) {
+    try {
+      socket.send(JSON.stringify(message));
+    } catch (error) {
+      // Log error but don't throw to avoid cascading failures
+      console.error("Failed to send WebSocket message:", error);
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { WEBSOCKET_EVENTS } from "@rpgate/shared/constants";
+import type { ServerToClientMessage } from "@rpgate/shared/types";
+import type { FastifyInstance } from "fastify";
+import type { SocketConnection } from "./socket.context";
+
+export function handleTypingStart(
+  fastify: FastifyInstance,
+  _connectionId: string,
+  connection: SocketConnection,
+  roomId: string,
+) {
+  if (!connection.user || !connection.rooms.has(roomId)) return;
+
+  const message: ServerToClientMessage = {
+    type: WEBSOCKET_EVENTS.TYPING_START,
+    data: {
+      userId: connection.user.userId,
+      roomId,
+    },
+  };
+
+  void fastify.websocketPublish(roomId, message).catch((error) => {
+    fastify.log.error({ error, roomId }, "Failed to publish typing indicator");
+  });
+}
+
+export function handleTypingStop(
+  fastify: FastifyInstance,
+  _connectionId: string,
+  connection: SocketConnection,
+  roomId: string,
+) {
+  if (!connection.user || !connection.rooms.has(roomId)) return;
+
+  const message: ServerToClientMessage = {
+    type: WEBSOCKET_EVENTS.TYPING_STOP,
+    data: {
+      userId: connection.user.userId,
+      roomId,
+    },
+  };
+
+  void fastify.websocketPublish(roomId, message).catch((error) => {
+    fastify.log.error({ error, roomId }, "Failed to publish typing indicator");
+  });
+}
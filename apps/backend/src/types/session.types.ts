@@ -6,6 +6,8 @@ declare module "@fastify/secure-session" {
   interface SessionData {
     userId?: string;
     username?: string;
+    // Identifies a login so its WebSocket connections can be closed on logout
+    sessionId?: string;
   }
 }
 
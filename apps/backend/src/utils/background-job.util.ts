@@ -0,0 +1,50 @@
+import type { FastifyInstance } from "fastify";
+
+/**
+ * Periodic job run in every instance, but by only one at a time
+ */
+export interface BackgroundJob {
+  name: string;
+  intervalMs: number;
+  // The lock outlives a run that hangs, so a stuck instance cannot block the job forever
+  lockSeconds: number;
+  run: () => Promise<void>;
+}
+
+/**
+ * Schedule a background job guarded by a Redis lock; stopped when the server closes.
+ * A failed run is logged and retried on the next interval.
+ */
+export function scheduleBackgroundJob(fastify: FastifyInstance, job: BackgroundJob): void {
+  const lockKey = `job:${job.name}:lock`;
+  let running = false;
+
+  const runOnce = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const locked = await fastify.redis.set(lockKey, "1", "EX", job.lockSeconds, "NX");
+      if (!locked) return;
+
+      try {
+        await job.run();
+      } finally {
+        await fastify.redis.del(lockKey);
+      }
+    } catch (error) {
+      fastify.log.warn(
+        { job: job.name, error: error instanceof Error ? error.message : "Unknown error" },
+        "Background job run failed",
+      );
+    } finally {
+      running = false;
+    }
+  };
+
+  const interval = setInterval(() => void runOnce(), job.intervalMs);
+
+  fastify.addHook("onClose", async () => {
+    clearInterval(interval);
+  });
+}
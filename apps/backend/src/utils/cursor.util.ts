@@ -0,0 +1,37 @@
+/**
+ * Keyset cursor position (timestamp plus ID as a tie-breaker)
+ */
+export interface KeysetCursor {
+  createdAt: Date;
+  id: string;
+}
+
+/**
+ * Encode a keyset position into an opaque cursor string
+ */
+export function encodeCursor(cursor: KeysetCursor): string {
+  const payload = JSON.stringify({ t: cursor.createdAt.toISOString(), id: cursor.id });
+  return Buffer.from(payload, "utf8").toString("base64url");
+}
+
+/**
+ * Decode an opaque cursor string, returning null if it is malformed
+ */
+export function decodeCursor(value: string): KeysetCursor | null {
+  try {
+    const payload = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+
+    if (typeof payload?.t !== "string" || typeof payload?.id !== "string") {
+      return null;
+    }
+
+    const createdAt = new Date(payload.t);
+    if (Number.isNaN(createdAt.getTime())) {
+      return null;
+    }
+
+    return { createdAt, id: payload.id };
+  } catch {
+    return null;
+  }
+}
@@ -28,7 +28,7 @@ export interface ResponseMeta {
   timestamp: string;
   correlationId: string;
   version?: string;
-  pagination?: PaginationMeta;
+  pagination?: PaginationMeta | CursorPaginationMeta;
 }
 
 /**
@@ -43,6 +43,15 @@ export interface PaginationMeta {
   hasPrev: boolean;
 }
 
+/**
+ * Cursor pagination metadata
+ */
+export interface CursorPaginationMeta {
+  limit: number;
+  nextCursor: string | null;
+  hasNext: boolean;
+}
+
 /**
  * Create a successful API response
  */
@@ -92,25 +101,50 @@ export function createErrorResponse(
 
 /**
  * Create a paginated response
+ * Accepts either page-based (page/total) or cursor-based (nextCursor) pagination
  */
 export function createPaginatedResponse<T>(
   data: T[],
   request: FastifyRequest,
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-  },
+  pagination:
+    | {
+        page: number;
+        limit: number;
+        total: number;
+      }
+    | {
+        limit: number;
+        nextCursor: string | null;
+      },
 ): ApiResponse<T[]> {
+  const meta = {
+    timestamp: new Date().toISOString(),
+    correlationId: request.id,
+    version: "v1",
+  };
+
+  if ("nextCursor" in pagination) {
+    return {
+      success: true,
+      data,
+      meta: {
+        ...meta,
+        pagination: {
+          limit: pagination.limit,
+          nextCursor: pagination.nextCursor,
+          hasNext: pagination.nextCursor !== null,
+        },
+      },
+    };
+  }
+
   const totalPages = Math.ceil(pagination.total / pagination.limit);
 
   return {
     success: true,
     data,
     meta: {
-      timestamp: new Date().toISOString(),
-      correlationId: request.id,
-      version: "v1",
+      ...meta,
       pagination: {
         page: pagination.page,
         limit: pagination.limit,
@@ -1,4 +1,15 @@
+import { getMessageAudience } from "@rpgate/shared";
+import type {
+  MessageDeletedEvent,
+  MessageNewEvent,
+  MessageUpdatedEvent,
+  ReactionAddedEvent,
+  ReactionRemovedEvent,
+  ServerToClientMessage,
+} from "@rpgate/shared/types";
 import type { FastifyInstance } from "fastify";
+import type { MessageWithAuthor } from "../services/message.repository";
+import type { ReactionChange } from "../services/message.service";
 
 /**
  * WebSocket connection statistics
@@ -280,57 +291,163 @@ export async function notifyMemberCountUpdate(
 }
 
 /**
- * Publish user joined notification to all members
+ * Publish a stored message (e.g. a system message about a membership change) to all members
  */
-export async function notifyUserJoined(
+export async function notifyMessage(
   fastify: FastifyInstance,
   roomId: string,
-  user: any,
+  message: MessageWithAuthor,
 ): Promise<void> {
   try {
-    const message = {
-      type: "user:joined" as const,
-      data: {
-        user,
-        roomId,
-      },
+    const event: MessageNewEvent = {
+      type: "message:new",
+      data: message,
     };
 
-    await (fastify as any).websocketPublish(roomId, message);
+    await (fastify as any).websocketPublish(roomId, event);
 
     fastify.log.debug(
-      { roomId, userId: user.id, event: "user:joined" },
-      "User joined notification sent",
+      { roomId, messageId: message.id, kind: message.kind, event: "message:new" },
+      "Message notification sent",
     );
   } catch (error) {
     fastify.log.error(
-      { error, roomId, userId: user.id },
-      "Failed to send user joined notification",
+      { error, roomId, messageId: message.id },
+      "Failed to send message notification",
     );
   }
 }
 
 /**
- * Publish user left notification to all members
+ * Publish an event about a message to everyone who can see it (a whisper's audience only)
  */
-export async function notifyUserLeft(
+async function publishToMessageAudience(
   fastify: FastifyInstance,
-  roomId: string,
-  userId: string,
+  message: MessageWithAuthor,
+  event: ServerToClientMessage,
+): Promise<void> {
+  const audience = getMessageAudience(message);
+  if (audience) {
+    await fastify.websocketPublishToUsers(message.roomId, audience, event);
+  } else {
+    await (fastify as any).websocketPublish(message.roomId, event);
+  }
+}
+
+/**
+ * Publish an edited message to everyone who can see it
+ */
+export async function notifyMessageUpdated(
+  fastify: FastifyInstance,
+  message: MessageWithAuthor,
 ): Promise<void> {
   try {
-    const message = {
-      type: "user:left" as const,
-      data: {
-        userId,
-        roomId,
-      },
+    const event: MessageUpdatedEvent = {
+      type: "message:updated",
+      data: message,
     };
 
-    await (fastify as any).websocketPublish(roomId, message);
+    await publishToMessageAudience(fastify, message, event);
+
+    fastify.log.debug(
+      { roomId: message.roomId, messageId: message.id, event: "message:updated" },
+      "Message update notification sent",
+    );
+  } catch (error) {
+    fastify.log.error(
+      { error, roomId: message.roomId, messageId: message.id },
+      "Failed to send message update notification",
+    );
+  }
+}
+
+/**
+ * Tell everyone who could see a message that it was deleted
+ */
+export async function notifyMessageDeleted(
+  fastify: FastifyInstance,
+  message: MessageWithAuthor,
+): Promise<void> {
+  try {
+    const event: MessageDeletedEvent = {
+      type: "message:deleted",
+      data: { roomId: message.roomId, messageId: message.id },
+    };
+
+    await publishToMessageAudience(fastify, message, event);
+
+    fastify.log.debug(
+      { roomId: message.roomId, messageId: message.id, event: "message:deleted" },
+      "Message deletion notification sent",
+    );
+  } catch (error) {
+    fastify.log.error(
+      { error, roomId: message.roomId, messageId: message.id },
+      "Failed to send message deletion notification",
+    );
+  }
+}
+
+/**
+ * Publish a reaction change to everyone who can see the message
+ */
+export async function notifyReactionChanged(
+  fastify: FastifyInstance,
+  action: "add" | "remove",
+  { audience, roomId, messageId, emoji, userId, count }: ReactionChange,
+): Promise<void> {
+  try {
+    const data = { roomId, messageId, emoji, userId, count };
+    const event: ReactionAddedEvent | ReactionRemovedEvent =
+      action === "add" ? { type: "reaction:added", data } : { type: "reaction:removed", data };
+
+    if (audience) {
+      await fastify.websocketPublishToUsers(roomId, audience, event);
+    } else {
+      await (fastify as any).websocketPublish(roomId, event);
+    }
+
+    fastify.log.debug(
+      { roomId: roomId, messageId: messageId, event: event.type },
+      "Reaction notification sent",
+    );
+  } catch (error) {
+    fastify.log.error(
+      { error, roomId: roomId, messageId: messageId },
+      "Failed to send reaction notification",
+    );
+  }
+}
+
+/**
+ * Drop a user's sockets (or every socket, if no userId) from a room's live events
+ */
+export async function revokeRoomAccess(
+  fastify: FastifyInstance,
+  roomId: string,
+  userId?: string,
+): Promise<void> {
+  try {
+    await fastify.websocketRevokeRoomAccess({ roomId, userId });
+
+    fastify.log.debug({ roomId, userId, event: "room:access_revoked" }, "Room access revoked");
+  } catch (error) {
+    fastify.log.error({ error, roomId, userId }, "Failed to revoke room access");
+  }
+}
+
+/**
+ * Drop the sockets following a room as spectators, e.g. once it stops allowing them
+ */
+export async function revokeSpectatorAccess(
+  fastify: FastifyInstance,
+  roomId: string,
+): Promise<void> {
+  try {
+    await fastify.websocketRevokeRoomAccess({ roomId, spectatorsOnly: true });
 
-    fastify.log.debug({ roomId, userId, event: "user:left" }, "User left notification sent");
+    fastify.log.debug({ roomId, event: "room:access_revoked" }, "Spectator access revoked");
   } catch (error) {
-    fastify.log.error({ error, roomId, userId }, "Failed to send user left notification");
+    fastify.log.error({ error, roomId }, "Failed to revoke spectator access");
   }
 }
@@ -0,0 +1,88 @@
+import { db } from "@rpgate/database";
+import { rooms, users } from "@rpgate/database/schema";
+import { eq, inArray } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { env } from "../src/config/env";
+import { logger } from "../src/config/logger";
+import { redis } from "../src/config/redis";
+import { AiUsageRepository } from "../src/services/ai-usage.repository";
+import { AI_USAGE_ERRORS, AiUsageService, getUsagePeriods } from "../src/services/ai-usage.service";
+import { RoomRepository } from "../src/services/room.repository";
+
+describe("getUsagePeriods", () => {
+  it("should use UTC days and calendar months", () => {
+    const periods = getUsagePeriods(new Date("2025-12-31T23:30:00.000Z"));
+
+    expect(periods.day).toBe("2025-12-31");
+    expect(periods.monthStart).toBe("2025-12-01");
+    expect(periods.dayEndsAt.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+    expect(periods.monthEndsAt.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+  });
+});
+
+describe("AiUsageService", () => {
+  let service: AiUsageService;
+  let ownerId: string;
+  let playerId: string;
+  let testRoomId: string;
+
+  beforeAll(async () => {
+    const [owner, player] = await db
+      .insert(users)
+      .values([
+        { username: "usageowner1", email: "usageowner1@example.com", passwordHash: "hash" },
+        { username: "usageplayer1", email: "usageplayer1@example.com", passwordHash: "hash" },
+      ])
+      .returning();
+    if (!owner || !player) throw new Error("Failed to create test users");
+
+    const [room] = await db
+      .insert(rooms)
+      .values({ name: "Busy Tavern", createdBy: owner.id })
+      .returning();
+    if (!room) throw new Error("Failed to create test room");
+
+    ownerId = owner.id;
+    playerId = player.id;
+    testRoomId = room.id;
+
+    const roomRepository = new RoomRepository(db);
+    await roomRepository.addMember(testRoomId, ownerId, "owner");
+    await roomRepository.addMember(testRoomId, playerId);
+
+    service = new AiUsageService(db, redis, logger);
+  });
+
+  afterAll(async () => {
+    await redis.del(`ai_rate_limit:user:${playerId}`, `ai_rate_limit:room:${testRoomId}`);
+    await db.delete(rooms).where(eq(rooms.id, testRoomId));
+    await db.delete(users).where(inArray(users.id, [ownerId, playerId]));
+  });
+
+  it("should limit GM requests per user within the window", async () => {
+    for (let i = 0; i < env.AI_RATE_LIMIT_PER_USER; i++) {
+      await service.checkLimits(testRoomId, playerId);
+    }
+
+    const error = await service.checkLimits(testRoomId, playerId).catch((e: unknown) => e);
+
+    expect(error).toMatchObject({ code: AI_USAGE_ERRORS.RATE_LIMITED, statusCode: 429 });
+    expect((error as { retryAfter: number }).retryAfter).toBeGreaterThan(0);
+  });
+
+  it("should report token usage to the owner only", async () => {
+    const repository = new AiUsageRepository(db);
+    const { day } = getUsagePeriods(new Date());
+    await repository.record(testRoomId, day, { promptTokens: 100, completionTokens: 20 });
+    await repository.record(testRoomId, day, { promptTokens: 50, completionTokens: Number.NaN });
+
+    const usage = await service.getRoomUsage(testRoomId, ownerId);
+
+    expect(usage.daily).toMatchObject({ promptTokens: 150, completionTokens: 20, requests: 2 });
+    expect(usage.monthly.totalTokens).toBeGreaterThanOrEqual(170);
+    expect(usage.gmFeedback).toEqual({ positive: 0, negative: 0 });
+    await expect(service.getRoomUsage(testRoomId, playerId)).rejects.toMatchObject({
+      code: AI_USAGE_ERRORS.NOT_OWNER,
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  addInventoryItem,
+  applyHpChange,
+  createCharacterSchema,
+  formatModifier,
+  getAbilityModifier,
+  getProficiencyBonus,
+  getSavingThrowModifier,
+  getSkillModifier,
+  removeInventoryItem,
+} from "@rpgate/shared";
+import { describe, expect, it } from "vitest";
+
+const rogue = {
+  level: 5,
+  abilityScores: {
+    strength: 8,
+    dexterity: 17,
+    constitution: 12,
+    intelligence: 13,
+    wisdom: 10,
+    charisma: 14,
+  },
+  proficiencies: {
+    skills: ["stealth" as const, "perception" as const],
+    savingThrows: ["dexterity" as const, "intelligence" as const],
+  },
+};
+
+describe("Character sheet modifiers", () => {
+  it("should derive ability modifiers from scores", () => {
+    expect(getAbilityModifier(8)).toBe(-1);
+    expect(getAbilityModifier(10)).toBe(0);
+    expect(getAbilityModifier(11)).toBe(0);
+    expect(getAbilityModifier(17)).toBe(3);
+    expect(getAbilityModifier(30)).toBe(10);
+  });
+
+  it("should scale the proficiency bonus with level", () => {
+    expect(getProficiencyBonus(1)).toBe(2);
+    expect(getProficiencyBonus(4)).toBe(2);
+    expect(getProficiencyBonus(5)).toBe(3);
+    expect(getProficiencyBonus(17)).toBe(6);
+    expect(getProficiencyBonus(20)).toBe(6);
+  });
+
+  it("should add proficiency only to proficient skills and saves", () => {
+    expect(getSkillModifier(rogue, "stealth")).toBe(3 + 3);
+    expect(getSkillModifier(rogue, "acrobatics")).toBe(3);
+    expect(getSkillModifier(rogue, "perception")).toBe(0 + 3);
+    expect(getSavingThrowModifier(rogue, "strength")).toBe(-1);
+    expect(getSavingThrowModifier(rogue, "intelligence")).toBe(1 + 3);
+  });
+
+  it("should format modifiers with a sign", () => {
+    expect(formatModifier(3)).toBe("+3");
+    expect(formatModifier(0)).toBe("+0");
+    expect(formatModifier(-1)).toBe("-1");
+  });
+
+  it("should fill in defaults for a new character", () => {
+    const result = createCharacterSchema.parse({
+      name: " Vex ",
+      characterClass: "Rogue",
+      abilityScores: rogue.abilityScores,
+      maxHp: 33,
+    });
+
+    expect(result).toMatchObject({
+      name: "Vex",
+      level: 1,
+      armorClass: 10,
+      proficiencies: { skills: [], savingThrows: [], other: [] },
+      inventory: [],
+    });
+    expect(result.currentHp).toBeUndefined();
+  });
+
+  it("should keep hit points between 0 and the maximum", () => {
+    expect(applyHpChange(10, 20, -4)).toBe(6);
+    expect(applyHpChange(3, 20, -10)).toBe(0);
+    expect(applyHpChange(15, 20, 10)).toBe(20);
+    // Healing never lowers HP that is already above the maximum
+    expect(applyHpChange(25, 20, 5)).toBe(25);
+  });
+
+  it("should stack and remove inventory items by name", () => {
+    const inventory = addInventoryItem([{ name: "Torch", quantity: 2 }], "torch", 3);
+    expect(inventory).toEqual([{ name: "Torch", quantity: 5 }]);
+
+    const withRope = addInventoryItem(inventory, " Rope ", 1);
+    expect(withRope).toEqual([
+      { name: "Torch", quantity: 5 },
+      { name: "Rope", quantity: 1 },
+    ]);
+
+    expect(removeInventoryItem(withRope, "Rope", 1)).toEqual([{ name: "Torch", quantity: 5 }]);
+    expect(removeInventoryItem(withRope, "Torch", 6)).toBeNull();
+    expect(removeInventoryItem(withRope, "Lantern", 1)).toBeNull();
+  });
+});
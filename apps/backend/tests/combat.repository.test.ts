@@ -0,0 +1,34 @@
+import { randomUUID } from "node:crypto";
+import { afterEach, describe, expect, it } from "vitest";
+import { redis } from "../src/config/redis";
+import { CombatRepository } from "../src/services/combat.repository";
+
+describe("CombatRepository", () => {
+  const repository = new CombatRepository(redis);
+  const roomId = randomUUID();
+
+  afterEach(async () => {
+    await redis.del(`combat:lock:${roomId}`);
+  });
+
+  it("should hand the room's lock to one holder at a time", async () => {
+    const token = await repository.acquireLock(roomId, 5000);
+
+    expect(token).toBeTruthy();
+    expect(await repository.acquireLock(roomId, 5000)).toBeNull();
+
+    await repository.releaseLock(roomId, token as string);
+    expect(await repository.acquireLock(roomId, 5000)).toBeTruthy();
+  });
+
+  it("should leave a lock taken over by another holder alone", async () => {
+    const staleToken = await repository.acquireLock(roomId, 50);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const token = await repository.acquireLock(roomId, 5000);
+
+    await repository.releaseLock(roomId, staleToken as string);
+
+    expect(token).toBeTruthy();
+    expect(await redis.get(`combat:lock:${roomId}`)).toBe(token);
+  });
+});
@@ -0,0 +1,130 @@
+import { randomUUID } from "node:crypto";
+import {
+  type CombatState,
+  type Combatant,
+  advanceTurn,
+  compareInitiative,
+  getCurrentCombatant,
+  insertCombatant,
+  removeCombatant,
+  sortCombatants,
+} from "@rpgate/shared";
+import { describe, expect, it } from "vitest";
+
+function createCombatant(name: string, initiative: number, initiativeModifier = 0): Combatant {
+  return {
+    id: randomUUID(),
+    name,
+    kind: "npc",
+    characterId: null,
+    userId: null,
+    initiative,
+    initiativeModifier,
+    conditions: [],
+  };
+}
+
+function createCombat(combatants: Combatant[]): CombatState {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    roomId: randomUUID(),
+    status: "active",
+    round: 1,
+    turnIndex: 0,
+    combatants: [...combatants].sort(compareInitiative),
+    startedBy: randomUUID(),
+    startedAt: now,
+    updatedAt: now,
+  };
+}
+
+const names = (state: CombatState) => state.combatants.map(({ name }) => name);
+
+describe("Combat turn order", () => {
+  it("should order combatants by initiative, breaking ties by modifier", () => {
+    const combat = createCombat([
+      createCombatant("Goblin", 12, 2),
+      createCombatant("Rogue", 18, 4),
+      createCombatant("Orc", 12, 1),
+    ]);
+
+    expect(names(combat)).toEqual(["Rogue", "Goblin", "Orc"]);
+    expect(getCurrentCombatant(combat)?.name).toBe("Rogue");
+  });
+
+  it("should keep the current actor when the order is re-sorted", () => {
+    const goblin = createCombatant("Goblin", 10);
+    const combat = advanceTurn(createCombat([createCombatant("Rogue", 18), goblin]));
+
+    const updated = sortCombatants({
+      ...combat,
+      combatants: combat.combatants.map((combatant) =>
+        combatant.id === goblin.id ? { ...combatant, initiative: 20 } : combatant,
+      ),
+    });
+
+    expect(names(updated)).toEqual(["Goblin", "Rogue"]);
+    expect(getCurrentCombatant(updated)?.name).toBe("Goblin");
+  });
+
+  it("should insert a combatant without changing whose turn it is", () => {
+    const combat = advanceTurn(
+      createCombat([createCombatant("Rogue", 18), createCombatant("Goblin", 10)]),
+    );
+
+    const updated = insertCombatant(combat, createCombatant("Wizard", 20));
+
+    expect(names(updated)).toEqual(["Wizard", "Rogue", "Goblin"]);
+    expect(getCurrentCombatant(updated)?.name).toBe("Goblin");
+  });
+
+  it("should advance turns and start a new round after the last combatant", () => {
+    let combat = createCombat([createCombatant("Rogue", 18), createCombatant("Goblin", 10)]);
+
+    combat = advanceTurn(combat);
+    expect(getCurrentCombatant(combat)?.name).toBe("Goblin");
+    expect(combat.round).toBe(1);
+
+    combat = advanceTurn(combat);
+    expect(getCurrentCombatant(combat)?.name).toBe("Rogue");
+    expect(combat.round).toBe(2);
+  });
+
+  it("should tick down the acting combatant's conditions at the end of their turn", () => {
+    const rogue = {
+      ...createCombatant("Rogue", 18),
+      conditions: [
+        { name: "poisoned", remainingRounds: 1 },
+        { name: "blessed", remainingRounds: 2 },
+        { name: "prone", remainingRounds: null },
+      ],
+    };
+    const combat = advanceTurn(createCombat([rogue, createCombatant("Goblin", 10)]));
+
+    expect(combat.combatants[0]?.conditions).toEqual([
+      { name: "blessed", remainingRounds: 1 },
+      { name: "prone", remainingRounds: null },
+    ]);
+  });
+
+  it("should keep the current actor when an earlier combatant is removed", () => {
+    const rogue = createCombatant("Rogue", 18);
+    const combat = advanceTurn(createCombat([rogue, createCombatant("Goblin", 10)]));
+
+    const updated = removeCombatant(combat, rogue.id);
+
+    expect(getCurrentCombatant(updated)?.name).toBe("Goblin");
+    expect(updated.round).toBe(1);
+  });
+
+  it("should pass the turn on when the acting combatant is removed", () => {
+    const goblin = createCombatant("Goblin", 10);
+    const combat = advanceTurn(createCombat([createCombatant("Rogue", 18), goblin]));
+
+    const updated = removeCombatant(combat, goblin.id);
+
+    expect(getCurrentCombatant(updated)?.name).toBe("Rogue");
+    expect(updated.round).toBe(2);
+  });
+});
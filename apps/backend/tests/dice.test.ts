@@ -0,0 +1,94 @@
+import {
+  DiceParseError,
+  formatDiceExpression,
+  parseDiceExpression,
+  rollDiceExpression,
+} from "@rpgate/shared/utils";
+import { describe, expect, it } from "vitest";
+
+/**
+ * Deterministic random source that replays the given values
+ */
+function sequence(...values: number[]) {
+  let index = 0;
+  return () => {
+    const value = values[index % values.length];
+    index++;
+    return value ?? 1;
+  };
+}
+
+describe("Dice notation", () => {
+  describe("parseDiceExpression", () => {
+    it("should parse multiple terms into canonical notation", () => {
+      expect(formatDiceExpression(parseDiceExpression("1d20 + 5 + d4"))).toBe("1d20+5+1d4");
+      expect(formatDiceExpression(parseDiceExpression("2D6-1"))).toBe("2d6-1");
+      expect(formatDiceExpression(parseDiceExpression("d%"))).toBe("1d100");
+    });
+
+    it("should normalize drops, advantage and disadvantage to keeps", () => {
+      expect(formatDiceExpression(parseDiceExpression("4d6dl1"))).toBe("4d6kh3");
+      expect(formatDiceExpression(parseDiceExpression("1d20adv+3"))).toBe("2d20kh1+3");
+      expect(formatDiceExpression(parseDiceExpression("dis"))).toBe("2d20kl1");
+    });
+
+    it.each([
+      "",
+      "d",
+      "2d",
+      "1d20+",
+      "3d6kh4",
+      "4d6dh4",
+      "2d20adv",
+      "1d1!",
+      "101d6",
+      "1d1001",
+      "1d6x",
+    ])("should reject %j", (input) => {
+      expect(() => parseDiceExpression(input)).toThrow(DiceParseError);
+    });
+  });
+
+  describe("rollDiceExpression", () => {
+    it("should keep the highest dice", () => {
+      const result = rollDiceExpression(parseDiceExpression("4d6kh3"), sequence(3, 6, 1, 4));
+
+      expect(result.terms[0]).toMatchObject({
+        type: "dice",
+        dice: [
+          { value: 3, kept: true },
+          { value: 6, kept: true },
+          { value: 1, kept: false },
+          { value: 4, kept: true },
+        ],
+        subtotal: 13,
+      });
+      expect(result.total).toBe(13);
+    });
+
+    it("should add explosions as extra dice", () => {
+      const result = rollDiceExpression(parseDiceExpression("1d6!"), sequence(6, 6, 2));
+
+      expect(result.terms[0]).toMatchObject({
+        dice: [
+          { value: 6, exploded: true },
+          { value: 6, exploded: true },
+          { value: 2, exploded: false },
+        ],
+        subtotal: 14,
+      });
+    });
+
+    it("should apply signs and constants to the total", () => {
+      const result = rollDiceExpression(parseDiceExpression("1d20+5-1d4"), sequence(12, 3));
+
+      expect(result.expression).toBe("1d20+5-1d4");
+      expect(result.total).toBe(12 + 5 - 3);
+    });
+
+    it("should roll disadvantage as the lower of two d20s", () => {
+      const result = rollDiceExpression(parseDiceExpression("dis"), sequence(17, 4));
+      expect(result.total).toBe(4);
+    });
+  });
+});
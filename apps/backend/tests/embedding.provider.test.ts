@@ -0,0 +1,36 @@
+import { EMBEDDING_DIMENSIONS } from "@rpgate/database/schema";
+import { describe, expect, it } from "vitest";
+import { createHashingEmbeddingProvider, hashEmbedding } from "../src/services/embedding.provider";
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + value * (b[index] ?? 0), 0);
+}
+
+describe("Hashing embedder", () => {
+  it("should produce normalized vectors of the stored dimensions", () => {
+    const embedding = hashEmbedding("The dragon sleeps beneath the mountain");
+
+    expect(embedding).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(cosineSimilarity(embedding, embedding)).toBeCloseTo(1, 6);
+  });
+
+  it("should be deterministic and case-insensitive", () => {
+    expect(hashEmbedding("Borin Oakbarrel")).toEqual(hashEmbedding("borin OAKBARREL"));
+  });
+
+  it("should rank texts sharing names and word stems as more similar", () => {
+    const query = hashEmbedding("Где сейчас трактирщик Борин?");
+    const related = hashEmbedding("Трактирщик Борин рассказал о призраке на мельнице");
+    const unrelated = hashEmbedding("Мы покупаем верёвку и провизию");
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it("should embed through the model interface", async () => {
+    const model = createHashingEmbeddingProvider().getModel();
+    const { embeddings } = await model.doEmbed({ values: ["a dragon", "a dragon"] });
+
+    expect(embeddings).toHaveLength(2);
+    expect(embeddings[0]).toEqual(embeddings[1]);
+  });
+});
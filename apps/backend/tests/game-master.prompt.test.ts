@@ -0,0 +1,170 @@
+import { randomUUID } from "node:crypto";
+import { createDefaultRoomSettings } from "@rpgate/shared";
+import { describe, expect, it } from "vitest";
+import {
+  type GameMasterContext,
+  buildGameMasterPrompt,
+  estimateTokens,
+} from "../src/services/game-master.prompt";
+import type { MessageWithAuthor } from "../src/services/message.repository";
+
+const roomId = randomUUID();
+
+function createMessage(content: string, minutesAgo: number): MessageWithAuthor {
+  return {
+    id: randomUUID(),
+    roomId,
+    userId: randomUUID(),
+    characterId: null,
+    content,
+    replyToId: null,
+    createdAt: new Date(Date.now() - minutesAgo * 60000),
+    editedAt: null,
+    kind: "ic",
+    payload: null,
+    username: "player",
+    characterName: "Aria",
+  };
+}
+
+function createContext(overrides: Partial<GameMasterContext> = {}): GameMasterContext {
+  return {
+    settings: createDefaultRoomSettings().gm,
+    party: [],
+    lore: null,
+    summary: null,
+    memories: [],
+    history: [],
+    action: createMessage("@gm I open the door", 0),
+    ...overrides,
+  };
+}
+
+describe("Game Master prompt builder", () => {
+  it("should always include the action as the last turn", () => {
+    const prompt = buildGameMasterPrompt(createContext(), 0);
+
+    expect(prompt.messages).toEqual([
+      { role: "user", content: "Aria (player): @gm I open the door" },
+    ]);
+  });
+
+  it("should include lore, summary and history when the budget allows", () => {
+    const history = [createMessage("We enter the crypt", 2), createMessage("I light a torch", 1)];
+    const prompt = buildGameMasterPrompt(
+      createContext({
+        lore: "The crypt belongs to the Lich of Vel",
+        summary: "The party left the village of Oakvale",
+        history,
+      }),
+      10000,
+    );
+
+    expect(prompt.system).toContain("The crypt belongs to the Lich of Vel");
+    expect(prompt.system).toContain("The party left the village of Oakvale");
+    expect(prompt.messages).toHaveLength(3);
+    expect(prompt.messages[0]).toEqual({
+      role: "user",
+      content: "Aria (player): We enter the crypt",
+    });
+  });
+
+  it("should drop the oldest history first when over budget", () => {
+    const history = Array.from({ length: 20 }, (_, index) =>
+      createMessage(`Message number ${index} ${"x".repeat(200)}`, 20 - index),
+    );
+    const unlimited = buildGameMasterPrompt(createContext({ history }), 100000);
+    const budget = estimateTokens(unlimited.system) + 300;
+
+    const prompt = buildGameMasterPrompt(createContext({ history }), budget);
+
+    expect(prompt.messages.length).toBeGreaterThan(1);
+    expect(prompt.messages.length).toBeLessThan(21);
+    expect(prompt.messages.at(-2)?.content).toContain("Message number 19");
+  });
+
+  it("should keep the end of a summary that does not fit", () => {
+    const summary = `${"Early events. ".repeat(500)}The dragon was slain at dawn.`;
+    const base = buildGameMasterPrompt(createContext(), 100000);
+
+    const prompt = buildGameMasterPrompt(
+      createContext({ summary }),
+      estimateTokens(base.system) + 200,
+    );
+
+    expect(prompt.system).toContain("The dragon was slain at dawn.");
+    expect(prompt.system).toContain("…");
+    expect(prompt.system.length).toBeLessThan(base.system.length + summary.length);
+  });
+
+  it("should not repeat recalled memories that are already in history", () => {
+    const shared = createMessage("Borin mentioned the haunted mill", 5);
+    const old = createMessage("We swore an oath to Borin", 500);
+
+    const prompt = buildGameMasterPrompt(
+      createContext({ history: [shared], memories: [old, shared] }),
+      10000,
+    );
+
+    expect(prompt.system).toContain("We swore an oath to Borin");
+    expect(prompt.system).not.toContain("- Aria (player): Borin mentioned the haunted mill");
+  });
+
+  it("should follow the room's GM settings", () => {
+    const settings = {
+      ...createDefaultRoomSettings().gm,
+      ruleset: "narrative" as const,
+      language: "Russian",
+      persona: "A weary old bard",
+      systemPrompt: "Never kill a player character.",
+    };
+
+    const prompt = buildGameMasterPrompt(createContext({ settings }), 0);
+
+    expect(prompt.system).toContain("do not call for dice rolls");
+    expect(prompt.system).toContain("Always answer in Russian.");
+    expect(prompt.system).toContain("A weary old bard");
+    expect(prompt.system).toContain("Never kill a player character.");
+  });
+
+  it("should tell the GM to use its tools only when it has them", () => {
+    const withTools = buildGameMasterPrompt(createContext({ useTools: true }), 0);
+    const withoutTools = buildGameMasterPrompt(createContext(), 0);
+
+    expect(withTools.system).toContain("Never invent dice results");
+    expect(withoutTools.system).not.toContain("Never invent dice results");
+  });
+
+  it("should flag messages edited after the GM replied to them", () => {
+    const original = createMessage("I attack the goblin", 3);
+    const reply: MessageWithAuthor = {
+      ...createMessage("The goblin falls", 2),
+      kind: "gm",
+      payload: null,
+    };
+    const edited = { ...original, editedAt: new Date() };
+
+    const prompt = buildGameMasterPrompt(createContext({ history: [edited, reply] }), 10000);
+
+    expect(prompt.messages[0]).toEqual({
+      role: "user",
+      content: "Aria (player) (edited after you replied): I attack the goblin",
+    });
+  });
+
+  it("should note which message a player replies to", () => {
+    const narration: MessageWithAuthor = {
+      ...createMessage("A door creaks open", 2),
+      kind: "gm",
+      payload: null,
+    };
+    const action = { ...createMessage("@gm Who is there?", 0), replyToId: narration.id };
+
+    const prompt = buildGameMasterPrompt(createContext({ history: [narration], action }), 10000);
+
+    expect(prompt.messages.at(-1)).toEqual({
+      role: "user",
+      content: "Aria (player) (replying to you): @gm Who is there?",
+    });
+  });
+});
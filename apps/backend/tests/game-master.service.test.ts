@@ -0,0 +1,165 @@
+import { db } from "@rpgate/database";
+import { rooms, users } from "@rpgate/database/schema";
+import { GAME_MASTER, ROOM_ROLES, createDefaultRoomSettings } from "@rpgate/shared";
+import { eq } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { logger } from "../src/config/logger";
+import { createHashingEmbeddingProvider } from "../src/services/embedding.provider";
+import { EMBEDDING_BATCH_SIZE, EmbeddingService } from "../src/services/embedding.service";
+import { createFakeProvider } from "../src/services/game-master.provider";
+import {
+  GameMasterError,
+  GameMasterService,
+  mentionsGameMaster,
+} from "../src/services/game-master.service";
+import { MessageRepository, type MessageWithAuthor } from "../src/services/message.repository";
+import { RoomRepository } from "../src/services/room.repository";
+
+describe("GameMasterService", () => {
+  let service: GameMasterService;
+  let messageRepository: MessageRepository;
+  let roomRepository: RoomRepository;
+  let testUserId: string;
+  let testRoomId: string;
+
+  beforeAll(async () => {
+    const [user] = await db
+      .insert(users)
+      .values({
+        username: "gmplayer1",
+        email: "gmplayer1@example.com",
+        passwordHash: "hashedpassword",
+      })
+      .returning();
+
+    const [room] = await db
+      .insert(rooms)
+      .values({ name: "Dungeon", createdBy: user.id })
+      .returning();
+
+    testUserId = user.id;
+    testRoomId = room.id;
+
+    roomRepository = new RoomRepository(db);
+    await roomRepository.addMember(room.id, user.id);
+
+    service = new GameMasterService(
+      db,
+      logger,
+      createFakeProvider(),
+      createHashingEmbeddingProvider(),
+    );
+    messageRepository = new MessageRepository(db);
+  });
+
+  afterAll(async () => {
+    await db.delete(rooms).where(eq(rooms.id, testRoomId));
+    await db.delete(users).where(eq(users.id, testUserId));
+  });
+
+  async function createAction(content: string): Promise<MessageWithAuthor> {
+    const created = await messageRepository.create({
+      roomId: testRoomId,
+      userId: testUserId,
+      content,
+      createdAt: new Date(),
+    });
+    return { ...created, kind: "ic", payload: null, username: "gmplayer1", characterName: null };
+  }
+
+  it("should store the reply as a message from the GM", async () => {
+    const action = await createAction("@gm I open the door");
+
+    const reply = await service.respond(action);
+
+    expect(reply.roomId).toBe(testRoomId);
+    expect(reply.userId).toBe(GAME_MASTER.USER_ID);
+    expect(reply.username).toBe(GAME_MASTER.USERNAME);
+    expect(reply.kind).toBe("gm");
+    expect(reply.content).toContain("gmplayer1: @gm I open the door");
+  });
+
+  it("should stream deltas that add up to the stored reply", async () => {
+    const action = await createAction("@gm I light a torch");
+
+    const deltas: string[] = [];
+    const reply = await service.respond(action, {
+      messageId: "11111111-1111-4111-8111-111111111111",
+      onDelta: (d) => {
+        deltas.push(d);
+      },
+    });
+
+    expect(reply.id).toBe("11111111-1111-4111-8111-111111111111");
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join("").trim()).toBe(reply.content);
+  });
+
+  it("should not store anything when the stream fails", async () => {
+    const fakeModel = createFakeProvider().getModel();
+    const broken = new GameMasterService(db, logger, {
+      name: "broken",
+      getModel: () => ({
+        ...fakeModel,
+        doStream: async () => {
+          throw new Error("connection reset");
+        },
+      }),
+    });
+
+    const action = await createAction("@gm anyone there?");
+
+    await expect(
+      broken.respond(action, { messageId: "22222222-2222-4222-8222-222222222222" }),
+    ).rejects.toThrow(GameMasterError);
+    expect(
+      await messageRepository.findByIdWithAuthor("22222222-2222-4222-8222-222222222222"),
+    ).toBeNull();
+  });
+
+  it("should recall relevant messages once they are embedded", async () => {
+    await createAction("We meet the innkeeper Borin Oakbarrel, who fears the haunted mill");
+    await createAction("I buy rations and a length of rope");
+
+    const embeddingService = new EmbeddingService(db, logger, createHashingEmbeddingProvider());
+    while ((await embeddingService.embedPending()) === EMBEDDING_BATCH_SIZE) {
+      // Drain the backlog left by other tests
+    }
+
+    const recalled = await service.recallRelevant(testRoomId, "What did Borin say?", 1);
+
+    expect(recalled).toHaveLength(1);
+    expect(recalled[0]?.content).toContain("Borin Oakbarrel");
+  });
+
+  it("should reply to unaddressed messages only in auto-respond rooms", async () => {
+    const action = await createAction("I search the room");
+    expect(await service.shouldRespond(action)).toBe(false);
+
+    const settings = createDefaultRoomSettings();
+    await db
+      .update(rooms)
+      .set({ settings: { ...settings, gm: { ...settings.gm, responseMode: "auto" } } })
+      .where(eq(rooms.id, testRoomId));
+
+    expect(await service.shouldRespond(action)).toBe(true);
+    expect(await service.shouldRespond({ ...action, kind: "ooc", payload: null })).toBe(false);
+  });
+
+  it("should not reply to members whose role may not run the GM", async () => {
+    const action = await createAction("@gm what do I see?");
+    await roomRepository.updateMemberRole(testRoomId, testUserId, ROOM_ROLES.SPECTATOR);
+
+    try {
+      expect(await service.shouldRespond(action)).toBe(false);
+    } finally {
+      await roomRepository.updateMemberRole(testRoomId, testUserId, ROOM_ROLES.PLAYER);
+    }
+  });
+
+  it("should detect @gm mentions", () => {
+    expect(mentionsGameMaster("@gm what do I see?")).toBe(true);
+    expect(mentionsGameMaster("I ask the @GM")).toBe(true);
+    expect(mentionsGameMaster("email@gmail.com")).toBe(false);
+  });
+});
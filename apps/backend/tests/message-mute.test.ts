@@ -0,0 +1,119 @@
+import { db } from "@rpgate/database";
+import { rooms, users } from "@rpgate/database/schema";
+import { WEBSOCKET_EVENTS } from "@rpgate/shared/constants";
+import type { ServerToClientMessage } from "@rpgate/shared/types";
+import { eq, inArray } from "drizzle-orm";
+import type { FastifyInstance } from "fastify";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createApp } from "../src/app";
+import { MessageService } from "../src/services/message.service";
+import { RoomRepository } from "../src/services/room.repository";
+
+describe("Muted members", () => {
+  let app: FastifyInstance;
+  let ownerCookie: string;
+  let playerCookie: string;
+  let ownerId: string;
+  let playerId: string;
+  let testRoomId: string;
+  let messageId: string;
+
+  const register = async (username: string) => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/v1/auth/register",
+      payload: { username, email: `${username}@example.com`, password: "password123" },
+    });
+    expect(response.statusCode).toBe(201);
+
+    const sessionCookie = response.cookies[0];
+    return {
+      cookie: `${sessionCookie.name}=${sessionCookie.value}`,
+      userId: JSON.parse(response.payload).data.user.id as string,
+    };
+  };
+
+  beforeAll(async () => {
+    app = await createApp();
+    await app.ready();
+
+    const owner = await register("muteowner1");
+    const player = await register("muteplayer1");
+    ownerCookie = owner.cookie;
+    ownerId = owner.userId;
+    playerCookie = player.cookie;
+    playerId = player.userId;
+
+    const repository = new RoomRepository(db);
+    const room = await repository.create({ name: "Quiet Library", createdBy: ownerId });
+    await repository.addMember(room.id, ownerId, "owner");
+    await repository.addMember(room.id, playerId);
+    testRoomId = room.id;
+
+    const message = await new MessageService(db, app.log).createMessage(playerId, {
+      roomId: testRoomId,
+      content: "Before the mute",
+      kind: "ooc",
+    });
+    messageId = message.id;
+
+    const mute = await app.inject({
+      method: "POST",
+      url: `/api/v1/rooms/${testRoomId}/mutes`,
+      headers: { cookie: ownerCookie },
+      payload: { userId: playerId, duration: 600 },
+    });
+    expect(mute.statusCode).toBe(201);
+  });
+
+  afterAll(async () => {
+    await app.redis.del(`room_mute:${testRoomId}:${playerId}`);
+    await app?.close();
+    if (testRoomId) await db.delete(rooms).where(eq(rooms.id, testRoomId));
+    await db.delete(users).where(inArray(users.id, [ownerId, playerId].filter(Boolean)));
+  });
+
+  it("should not let a muted member rewrite their messages", async () => {
+    const response = await app.inject({
+      method: "PATCH",
+      url: `/api/v1/rooms/${testRoomId}/messages/${messageId}`,
+      headers: { cookie: playerCookie },
+      payload: { content: "Something the mute was meant to stop" },
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(JSON.parse(response.payload).error.code).toBe("MUTED");
+  });
+
+  it("should not let a muted member react", async () => {
+    const socket = await app.injectWS("/ws", { headers: { cookie: playerCookie } });
+    const waitFor = (type: ServerToClientMessage["type"]) =>
+      new Promise<ServerToClientMessage>((resolve) => {
+        socket.on("message", (raw: Buffer) => {
+          const event = JSON.parse(raw.toString()) as ServerToClientMessage;
+          if (event.type === type) resolve(event);
+        });
+      });
+
+    const synced = waitFor(WEBSOCKET_EVENTS.ROOM_SYNC);
+    socket.send(JSON.stringify({ type: WEBSOCKET_EVENTS.ROOM_JOIN, data: { roomId: testRoomId } }));
+    await synced;
+
+    const nacked = waitFor(WEBSOCKET_EVENTS.NACK);
+    socket.send(
+      JSON.stringify({
+        type: WEBSOCKET_EVENTS.REACTION_ADD,
+        data: { roomId: testRoomId, messageId, emoji: "👍" },
+        requestId: "req_react",
+      }),
+    );
+
+    const nack = await nacked;
+    if (nack.type === WEBSOCKET_EVENTS.NACK) {
+      expect(nack.data.requestId).toBe("req_react");
+      expect(nack.data.code).toBe("MUTED");
+    }
+
+    socket.terminate();
+  });
+});
@@ -0,0 +1,100 @@
+import { db } from "@rpgate/database";
+import { messages, rooms, users } from "@rpgate/database/schema";
+import { GAME_MASTER, GM_FEEDBACK_REACTIONS } from "@rpgate/shared";
+import { eq, inArray } from "drizzle-orm";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { MessageReactionRepository } from "../src/services/message-reaction.repository";
+import { MessageRepository } from "../src/services/message.repository";
+
+describe("MessageReactionRepository", () => {
+  let repository: MessageReactionRepository;
+  let messageRepository: MessageRepository;
+  let firstUserId: string;
+  let secondUserId: string;
+  let testRoomId: string;
+
+  beforeAll(async () => {
+    const [first, second] = await db
+      .insert(users)
+      .values([
+        { username: "reactuser1", email: "react1@example.com", passwordHash: "hashedpassword" },
+        { username: "reactuser2", email: "react2@example.com", passwordHash: "hashedpassword" },
+      ])
+      .returning();
+
+    const [room] = await db
+      .insert(rooms)
+      .values({ name: "Reaction Room", createdBy: first.id })
+      .returning();
+
+    firstUserId = first.id;
+    secondUserId = second.id;
+    testRoomId = room.id;
+
+    repository = new MessageReactionRepository(db);
+    messageRepository = new MessageRepository(db);
+  });
+
+  afterAll(async () => {
+    await db.delete(rooms).where(eq(rooms.id, testRoomId));
+    await db.delete(users).where(inArray(users.id, [firstUserId, secondUserId]));
+  });
+
+  beforeEach(async () => {
+    await db.delete(messages).where(eq(messages.roomId, testRoomId));
+  });
+
+  it("should add each member's reaction once and aggregate them per emoji", async () => {
+    const message = await messageRepository.create({
+      roomId: testRoomId,
+      userId: firstUserId,
+      content: "We rest at the inn",
+    });
+
+    expect(await repository.add(message.id, firstUserId, "🍺")).toBe(true);
+    expect(await repository.add(message.id, firstUserId, "🍺")).toBe(false);
+    await repository.add(message.id, secondUserId, "🍺");
+    await repository.add(message.id, secondUserId, "😴");
+
+    const reactions = await repository.countByMessages([message.id]);
+
+    expect(reactions.get(message.id)).toEqual([
+      { emoji: "🍺", count: 2, userIds: [firstUserId, secondUserId] },
+      { emoji: "😴", count: 1, userIds: [secondUserId] },
+    ]);
+  });
+
+  it("should remove a reaction and report whether there was one", async () => {
+    const message = await messageRepository.create({
+      roomId: testRoomId,
+      userId: firstUserId,
+      content: "I search the chest",
+    });
+    await repository.add(message.id, secondUserId, "👀");
+
+    expect(await repository.remove(message.id, secondUserId, "👀")).toBe(true);
+    expect(await repository.remove(message.id, secondUserId, "👀")).toBe(false);
+    expect(await repository.count(message.id, "👀")).toBe(0);
+  });
+
+  it("should count feedback on Game Master replies only", async () => {
+    const reply = await messageRepository.create({
+      roomId: testRoomId,
+      userId: GAME_MASTER.USER_ID,
+      content: "The dragon wakes",
+      kind: "gm",
+    });
+    const speech = await messageRepository.create({
+      roomId: testRoomId,
+      userId: firstUserId,
+      content: "Run!",
+    });
+
+    await repository.add(reply.id, firstUserId, GM_FEEDBACK_REACTIONS.POSITIVE);
+    await repository.add(reply.id, secondUserId, GM_FEEDBACK_REACTIONS.NEGATIVE);
+    await repository.add(reply.id, secondUserId, "🔥");
+    await repository.add(speech.id, secondUserId, GM_FEEDBACK_REACTIONS.POSITIVE);
+
+    expect(await repository.countGmFeedback(testRoomId)).toEqual({ positive: 1, negative: 1 });
+  });
+});
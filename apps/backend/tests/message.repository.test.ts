@@ -0,0 +1,231 @@
+import { randomUUID } from "node:crypto";
+import { db } from "@rpgate/database";
+import {
+  EMBEDDING_DIMENSIONS,
+  messageEdits,
+  messageEmbeddings,
+  messages,
+  rooms,
+  users,
+} from "@rpgate/database/schema";
+import { GAME_MASTER } from "@rpgate/shared";
+import { eq } from "drizzle-orm";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { MessageRepository } from "../src/services/message.repository";
+
+describe("MessageRepository", () => {
+  let repository: MessageRepository;
+  let testUserId: string;
+  let testRoomId: string;
+
+  beforeAll(async () => {
+    const [user] = await db
+      .insert(users)
+      .values({
+        username: "msguser1",
+        email: "msg1@example.com",
+        passwordHash: "hashedpassword",
+      })
+      .returning();
+
+    const [room] = await db
+      .insert(rooms)
+      .values({ name: "Message Room", createdBy: user.id })
+      .returning();
+
+    testUserId = user.id;
+    testRoomId = room.id;
+
+    repository = new MessageRepository(db);
+  });
+
+  afterAll(async () => {
+    await db.delete(rooms).where(eq(rooms.id, testRoomId));
+    await db.delete(users).where(eq(users.id, testUserId));
+  });
+
+  beforeEach(async () => {
+    await db.delete(messages).where(eq(messages.roomId, testRoomId));
+  });
+
+  describe("create", () => {
+    it("should create a message and resolve its author", async () => {
+      const created = await repository.create({
+        roomId: testRoomId,
+        userId: testUserId,
+        content: "Hello, adventurers",
+      });
+
+      const found = await repository.findByIdWithAuthor(created.id);
+
+      expect(found).toBeDefined();
+      expect(found?.id).toBe(created.id);
+      expect(found?.content).toBe("Hello, adventurers");
+      expect(found?.username).toBe("msguser1");
+    });
+  });
+
+  describe("findByRoom", () => {
+    it("should page through history newest first without gaps or duplicates", async () => {
+      const base = Date.now();
+      for (let i = 0; i < 5; i++) {
+        await repository.create({
+          roomId: testRoomId,
+          userId: testUserId,
+          content: `Message ${i}`,
+          createdAt: new Date(base + i * 1000),
+        });
+      }
+
+      const firstPage = await repository.findByRoom(testRoomId, 3);
+      expect(firstPage.map((m) => m.content)).toEqual(["Message 4", "Message 3", "Message 2"]);
+
+      const last = firstPage[firstPage.length - 1];
+      const secondPage = await repository.findByRoom(testRoomId, 3, {
+        createdAt: last.createdAt,
+        id: last.id,
+      });
+      expect(secondPage.map((m) => m.content)).toEqual(["Message 1", "Message 0"]);
+    });
+
+    it("should break timestamp ties by ID", async () => {
+      const createdAt = new Date();
+      await repository.create({ roomId: testRoomId, userId: testUserId, content: "A", createdAt });
+      await repository.create({ roomId: testRoomId, userId: testUserId, content: "B", createdAt });
+
+      const [first] = await repository.findByRoom(testRoomId, 1);
+      const rest = await repository.findByRoom(testRoomId, 10, {
+        createdAt: first.createdAt,
+        id: first.id,
+      });
+
+      expect(rest).toHaveLength(1);
+      expect(rest[0].id).not.toBe(first.id);
+    });
+
+    it("should filter by kind and return typed payloads", async () => {
+      const createdAt = new Date();
+      await repository.create({
+        roomId: testRoomId,
+        userId: testUserId,
+        content: "brb",
+        kind: "ooc",
+        createdAt,
+      });
+      await repository.create({
+        roomId: testRoomId,
+        userId: testUserId,
+        content: "msguser1 присоединяется к комнате",
+        kind: "system",
+        payload: { event: "member_joined", userId: testUserId, username: "msguser1" },
+        createdAt,
+      });
+
+      const [system] = await repository.findByRoom(testRoomId, 10, undefined, ["system"]);
+      expect(system?.kind).toBe("system");
+      expect(system?.payload).toMatchObject({ event: "member_joined", username: "msguser1" });
+
+      const ooc = await repository.findByRoom(testRoomId, 10, undefined, ["ooc"]);
+      expect(ooc.map((m) => m.content)).toEqual(["brb"]);
+    });
+
+    it("should show whispers only to their author and recipients", async () => {
+      await repository.create({
+        roomId: testRoomId,
+        userId: testUserId,
+        content: "I pocket the ruby",
+        kind: "whisper",
+        payload: { recipientIds: [GAME_MASTER.USER_ID] },
+      });
+
+      const author = await repository.findByRoom(testRoomId, 10, undefined, undefined, testUserId);
+      const gm = await repository.findByRoom(
+        testRoomId,
+        10,
+        undefined,
+        undefined,
+        GAME_MASTER.USER_ID,
+      );
+      const other = await repository.findByRoom(testRoomId, 10, undefined, undefined, randomUUID());
+
+      expect(author.map((m) => m.content)).toEqual(["I pocket the ruby"]);
+      expect(gm[0]?.payload).toEqual({ recipientIds: [GAME_MASTER.USER_ID] });
+      expect(other).toEqual([]);
+    });
+  });
+
+  describe("findByRoomAfter", () => {
+    it("should resume after the cursor, keeping messages that share its timestamp", async () => {
+      const createdAt = new Date();
+      await repository.create({ roomId: testRoomId, userId: testUserId, content: "A", createdAt });
+      await repository.create({ roomId: testRoomId, userId: testUserId, content: "B", createdAt });
+
+      const [first] = await repository.findByRoomAfter(testRoomId, 1);
+      const rest = await repository.findByRoomAfter(testRoomId, 10, {
+        createdAt: first.createdAt,
+        id: first.id,
+      });
+
+      expect(rest).toHaveLength(1);
+      expect(rest[0].id).not.toBe(first.id);
+    });
+  });
+
+  describe("updateContent and softDelete", () => {
+    it("should keep the previous content in the edit history", async () => {
+      const created = await repository.create({
+        roomId: testRoomId,
+        userId: testUserId,
+        content: "I attack the goblin",
+      });
+
+      await repository.updateContent(created, "I attack the orc", testUserId);
+
+      const found = await repository.findByIdWithAuthor(created.id);
+      expect(found?.content).toBe("I attack the orc");
+      expect(found?.editedAt).toBeInstanceOf(Date);
+
+      const edits = await db
+        .select()
+        .from(messageEdits)
+        .where(eq(messageEdits.messageId, created.id));
+      expect(edits).toHaveLength(1);
+      expect(edits[0]).toMatchObject({ action: "edit", previousContent: "I attack the goblin" });
+    });
+
+    it("should drop the embedding of an edited message so it is embedded again", async () => {
+      const created = await repository.create({
+        roomId: testRoomId,
+        userId: testUserId,
+        content: "I insult the innkeeper",
+      });
+      await db.insert(messageEmbeddings).values({
+        messageId: created.id,
+        roomId: testRoomId,
+        embedding: new Array(EMBEDDING_DIMENSIONS).fill(0.1),
+        model: "test-model",
+      });
+
+      await repository.updateContent(created, "I greet the innkeeper", testUserId);
+
+      const embeddings = await db
+        .select()
+        .from(messageEmbeddings)
+        .where(eq(messageEmbeddings.messageId, created.id));
+      expect(embeddings).toEqual([]);
+    });
+
+    it("should hide soft-deleted messages from history", async () => {
+      const created = await repository.create({
+        roomId: testRoomId,
+        userId: testUserId,
+        content: "Oops, wrong room",
+      });
+
+      await repository.softDelete(created, testUserId);
+
+      expect(await repository.findById(testRoomId, created.id)).toBeNull();
+      expect(await repository.findByRoom(testRoomId, 10)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { db } from "@rpgate/database";
+import { rooms, users } from "@rpgate/database/schema";
+import { eq, inArray } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { logger } from "../src/config/logger";
+import { redis } from "../src/config/redis";
+import { INVITE_ERRORS, InviteService } from "../src/services/invite.service";
+import { MODERATION_ERRORS, ModerationService } from "../src/services/moderation.service";
+import { RoomRepository } from "../src/services/room.repository";
+import { ROOM_ERRORS, RoomService } from "../src/services/room.service";
+
+describe("ModerationService", () => {
+  let service: ModerationService;
+  let roomService: RoomService;
+  let roomRepository: RoomRepository;
+  let ownerId: string;
+  let playerId: string;
+  let testRoomId: string;
+
+  beforeAll(async () => {
+    const [owner, player] = await db
+      .insert(users)
+      .values([
+        { username: "modowner1", email: "modowner1@example.com", passwordHash: "hash" },
+        { username: "modplayer1", email: "modplayer1@example.com", passwordHash: "hash" },
+      ])
+      .returning();
+    if (!owner || !player) throw new Error("Failed to create test users");
+
+    const [room] = await db
+      .insert(rooms)
+      .values({ name: "Rowdy Tavern", createdBy: owner.id })
+      .returning();
+    if (!room) throw new Error("Failed to create test room");
+
+    ownerId = owner.id;
+    playerId = player.id;
+    testRoomId = room.id;
+
+    roomRepository = new RoomRepository(db);
+    await roomRepository.addMember(testRoomId, ownerId, "owner");
+    await roomRepository.addMember(testRoomId, playerId);
+
+    service = new ModerationService(db, redis, logger);
+    roomService = new RoomService(db, redis, logger);
+  });
+
+  afterAll(async () => {
+    await redis.del(`room_mute:${testRoomId}:${playerId}`);
+    await db.delete(rooms).where(eq(rooms.id, testRoomId));
+    await db.delete(users).where(inArray(users.id, [ownerId, playerId]));
+  });
+
+  it("should mute a member until the mute is lifted", async () => {
+    const mute = await service.muteMember(testRoomId, ownerId, {
+      userId: playerId,
+      reason: "Spam",
+      duration: 600,
+    });
+
+    expect(mute.expiresAt).toBeGreaterThan(Date.now());
+    await expect(service.assertCanPost(testRoomId, playerId)).rejects.toMatchObject({
+      code: MODERATION_ERRORS.MUTED,
+      statusCode: 403,
+    });
+
+    await service.unmuteMember(testRoomId, ownerId, playerId);
+    await expect(service.assertCanPost(testRoomId, playerId)).resolves.toBeUndefined();
+  });
+
+  it("should not let members moderate higher roles", async () => {
+    await expect(
+      service.muteMember(testRoomId, playerId, { userId: ownerId, duration: 600 }),
+    ).rejects.toMatchObject({ code: MODERATION_ERRORS.PERMISSION_DENIED, statusCode: 403 });
+    await expect(service.banMember(testRoomId, ownerId, { userId: ownerId })).rejects.toMatchObject(
+      { code: MODERATION_ERRORS.CANNOT_MODERATE_SELF },
+    );
+  });
+
+  it("should remove a banned member and keep them out, even with an invite", async () => {
+    const result = await service.banMember(testRoomId, ownerId, {
+      userId: playerId,
+      reason: "Harassment",
+    });
+
+    expect(result.removed).toBe(true);
+    expect(result.ban.expiresAt).toBeNull();
+    expect(result.message.kind).toBe("system");
+    expect(await roomRepository.isMember(testRoomId, playerId)).toBe(false);
+
+    await expect(roomService.joinRoom(testRoomId, playerId)).rejects.toMatchObject({
+      code: ROOM_ERRORS.BANNED,
+      statusCode: 403,
+    });
+    await expect(roomService.checkRoomAccess(testRoomId, playerId)).rejects.toMatchObject({
+      code: ROOM_ERRORS.BANNED,
+    });
+
+    const inviteService = new InviteService(db, redis, logger);
+    const token = await inviteService.generateInviteLink(testRoomId, ownerId);
+    await expect(inviteService.joinRoomWithInvite(token, playerId)).rejects.toMatchObject({
+      code: INVITE_ERRORS.BANNED,
+      statusCode: 403,
+    });
+
+    const bans = await service.listBans(testRoomId, ownerId);
+    expect(bans.map((ban) => ban.username)).toEqual(["modplayer1"]);
+  });
+
+  it("should let a user back in once the ban is lifted", async () => {
+    await service.unbanMember(testRoomId, ownerId, playerId);
+
+    expect(await service.listBans(testRoomId, ownerId)).toEqual([]);
+    expect((await roomService.joinRoom(testRoomId, playerId)).joined).toBe(true);
+    await expect(service.unbanMember(testRoomId, ownerId, playerId)).rejects.toMatchObject({
+      code: MODERATION_ERRORS.BAN_NOT_FOUND,
+      statusCode: 404,
+    });
+  });
+});
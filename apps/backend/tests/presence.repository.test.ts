@@ -0,0 +1,67 @@
+import { randomUUID } from "node:crypto";
+import { afterEach, describe, expect, it } from "vitest";
+import { redis } from "../src/config/redis";
+import { PresenceRepository, VIEWER_PRESENCE_PREFIX } from "../src/services/presence.repository";
+
+describe("PresenceRepository", () => {
+  const repository = new PresenceRepository(redis);
+  const roomId = randomUUID();
+  const firstUserId = randomUUID();
+  const secondUserId = randomUUID();
+
+  afterEach(async () => {
+    await redis.del(`presence:room:${roomId}`);
+    await redis.srem("presence:rooms", roomId);
+    await redis.del(`${VIEWER_PRESENCE_PREFIX}:room:${roomId}`);
+    await redis.srem(`${VIEWER_PRESENCE_PREFIX}:rooms`, roomId);
+  });
+
+  it("should report a member online on their first connection only", async () => {
+    expect(await repository.add({ roomId, userId: firstUserId, connectionId: "a" }, 60000)).toBe(
+      true,
+    );
+    expect(await repository.add({ roomId, userId: firstUserId, connectionId: "b" }, 60000)).toBe(
+      false,
+    );
+    await repository.add({ roomId, userId: secondUserId, connectionId: "c" }, 60000);
+
+    const online = await repository.findOnlineUserIds(roomId);
+    expect(online.sort()).toEqual([firstUserId, secondUserId].sort());
+  });
+
+  it("should report a member offline when their last connection leaves", async () => {
+    await repository.add({ roomId, userId: firstUserId, connectionId: "a" }, 60000);
+    await repository.add({ roomId, userId: firstUserId, connectionId: "b" }, 60000);
+
+    expect(await repository.remove({ roomId, userId: firstUserId, connectionId: "a" })).toBe(false);
+    expect(await repository.remove({ roomId, userId: firstUserId, connectionId: "b" })).toBe(true);
+    expect(await repository.remove({ roomId, userId: firstUserId, connectionId: "b" })).toBe(false);
+    expect(await repository.findOnlineUserIds(roomId)).toEqual([]);
+  });
+
+  it("should expire connections that were not refreshed", async () => {
+    await repository.add({ roomId, userId: firstUserId, connectionId: "a" }, 1);
+    await repository.add({ roomId, userId: secondUserId, connectionId: "b" }, 1);
+    await repository.refresh([{ roomId, userId: secondUserId, connectionId: "b" }], 60000);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(await repository.findOnlineUserIds(roomId)).toEqual([secondUserId]);
+
+    const expired = await repository.pruneExpired();
+    expect(expired.filter((entry) => entry.roomId === roomId)).toEqual([
+      { roomId, userId: firstUserId },
+    ]);
+    // Already pruned, so it is not reported twice
+    const again = await repository.pruneExpired();
+    expect(again.filter((entry) => entry.roomId === roomId)).toEqual([]);
+  });
+
+  it("should keep spectators apart from members online", async () => {
+    const viewers = new PresenceRepository(redis, VIEWER_PRESENCE_PREFIX);
+    await repository.add({ roomId, userId: firstUserId, connectionId: "a" }, 60000);
+    await viewers.add({ roomId, userId: secondUserId, connectionId: "b" }, 60000);
+
+    expect(await repository.findOnlineUserIds(roomId)).toEqual([firstUserId]);
+    expect(await viewers.findOnlineUserIds(roomId)).toEqual([secondUserId]);
+  });
+});
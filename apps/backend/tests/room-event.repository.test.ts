@@ -0,0 +1,103 @@
+import { randomUUID } from "node:crypto";
+import { afterEach, describe, expect, it } from "vitest";
+import { redis } from "../src/config/redis";
+import { RoomEventRepository } from "../src/services/room-event.repository";
+
+describe("RoomEventRepository", () => {
+  const repository = new RoomEventRepository(redis);
+  const roomId = randomUUID();
+  const userId = randomUUID();
+  const channel = `test:room_events:${roomId}`;
+
+  const append = (content: string, userIds?: string[]) =>
+    repository.append(
+      roomId,
+      { type: "message:new", data: { roomId, content } },
+      { channel, userIds },
+      1000,
+      60,
+    );
+
+  afterEach(async () => {
+    await redis.del(`room_events:seq:${roomId}`, `room_events:log:${roomId}`);
+  });
+
+  it("should number a room's events in order", async () => {
+    expect(await repository.getSeq(roomId)).toBe(0);
+    expect(await append("first")).toBe(1);
+    expect(await append("second")).toBe(2);
+    expect(await repository.getSeq(roomId)).toBe(2);
+  });
+
+  it("should replay the events after a seq with their seq and audience", async () => {
+    await append("first");
+    await append("second", [userId]);
+    await append("third");
+
+    const replay = await repository.readSince(roomId, 1, 200);
+
+    expect(replay.seq).toBe(3);
+    expect(replay.events?.map((event) => event.seq)).toEqual([2, 3]);
+    expect(replay.events?.[0]?.message).toEqual({
+      seq: 2,
+      type: "message:new",
+      data: { roomId, content: "second" },
+    });
+    expect(replay.events?.[0]?.userIds).toEqual([userId]);
+    expect(replay.events?.[1]?.userIds).toBeNull();
+    expect((await repository.readSince(roomId, 3, 200)).events).toEqual([]);
+  });
+
+  it("should ask for a refetch when the gap is too large or the log started over", async () => {
+    for (let i = 0; i < 5; i++) {
+      await append(`message ${i}`);
+    }
+
+    expect((await repository.readSince(roomId, 0, 3)).events).toBeNull();
+    expect((await repository.readSince(roomId, 2, 3)).events).toHaveLength(3);
+    expect((await repository.readSince(roomId, 9, 3)).events).toBeNull();
+  });
+
+  it("should ask for a refetch once missed events were trimmed", async () => {
+    await append("first");
+    await append("second");
+    await redis.xtrim(`room_events:log:${roomId}`, "MAXLEN", 1);
+
+    expect((await repository.readSince(roomId, 0, 200)).events).toBeNull();
+    expect((await repository.readSince(roomId, 1, 200)).events).toHaveLength(1);
+  });
+
+  it("should keep numbering up and ask for a refetch once the log expired", async () => {
+    await append("first");
+    await append("second");
+    expect(await redis.ttl(`room_events:seq:${roomId}`)).toBe(-1);
+
+    // The log expires after a quiet spell, the counter does not
+    await redis.del(`room_events:log:${roomId}`);
+    expect(await append("third")).toBe(3);
+
+    expect((await repository.readSince(roomId, 1, 200)).events).toBeNull();
+    expect((await repository.readSince(roomId, 2, 200)).events?.map((event) => event.seq)).toEqual([
+      3,
+    ]);
+  });
+
+  it("should publish each event with its seq", async () => {
+    const subscriber = redis.duplicate();
+    const received = new Promise<string>((resolve) => {
+      subscriber.on("message", (_channel: string, message: string) => resolve(message));
+    });
+    await subscriber.subscribe(channel);
+
+    try {
+      await append("whisper", [userId]);
+      expect(JSON.parse(await received)).toEqual({
+        roomId,
+        userIds: [userId],
+        message: { seq: 1, type: "message:new", data: { roomId, content: "whisper" } },
+      });
+    } finally {
+      await subscriber.quit();
+    }
+  });
+});
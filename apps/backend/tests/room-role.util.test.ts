@@ -0,0 +1,45 @@
+import {
+  ROOM_PERMISSIONS,
+  ROOM_ROLES,
+  hasRoomPermission,
+  outranksRoomRole,
+  parseRoomRole,
+} from "@rpgate/shared";
+import { describe, expect, it } from "vitest";
+
+describe("Room roles", () => {
+  it("should let players play but not run the room", () => {
+    expect(hasRoomPermission(ROOM_ROLES.PLAYER, ROOM_PERMISSIONS.POST_IN_CHARACTER)).toBe(true);
+    expect(hasRoomPermission(ROOM_ROLES.PLAYER, ROOM_PERMISSIONS.ROLL_DICE)).toBe(true);
+    expect(hasRoomPermission(ROOM_ROLES.PLAYER, ROOM_PERMISSIONS.RUN_AI_GM)).toBe(true);
+    expect(hasRoomPermission(ROOM_ROLES.PLAYER, ROOM_PERMISSIONS.EDIT_OTHERS_CHARACTERS)).toBe(
+      false,
+    );
+    expect(hasRoomPermission(ROOM_ROLES.PLAYER, ROOM_PERMISSIONS.MANAGE_INVITES)).toBe(false);
+  });
+
+  it("should give each staff role its own share of the owner's powers", () => {
+    expect(hasRoomPermission(ROOM_ROLES.CO_GM, ROOM_PERMISSIONS.MANAGE_INVITES)).toBe(true);
+    expect(hasRoomPermission(ROOM_ROLES.CO_GM, ROOM_PERMISSIONS.KICK_MEMBERS)).toBe(false);
+    expect(hasRoomPermission(ROOM_ROLES.GAME_MASTER, ROOM_PERMISSIONS.KICK_MEMBERS)).toBe(true);
+    expect(hasRoomPermission(ROOM_ROLES.GAME_MASTER, ROOM_PERMISSIONS.MANAGE_ROLES)).toBe(false);
+    for (const permission of Object.values(ROOM_PERMISSIONS)) {
+      expect(hasRoomPermission(ROOM_ROLES.OWNER, permission)).toBe(true);
+    }
+  });
+
+  it("should give spectators and unknown roles nothing", () => {
+    for (const permission of Object.values(ROOM_PERMISSIONS)) {
+      expect(hasRoomPermission(ROOM_ROLES.SPECTATOR, permission)).toBe(false);
+    }
+    expect(parseRoomRole("member")).toBe(ROOM_ROLES.SPECTATOR);
+    expect(hasRoomPermission("admin", ROOM_PERMISSIONS.ROLL_DICE)).toBe(false);
+  });
+
+  it("should rank roles from spectator up to owner", () => {
+    expect(outranksRoomRole(ROOM_ROLES.GAME_MASTER, ROOM_ROLES.PLAYER)).toBe(true);
+    expect(outranksRoomRole(ROOM_ROLES.GAME_MASTER, ROOM_ROLES.OWNER)).toBe(false);
+    expect(outranksRoomRole(ROOM_ROLES.CO_GM, ROOM_ROLES.CO_GM)).toBe(false);
+    expect(outranksRoomRole(ROOM_ROLES.PLAYER, ROOM_ROLES.SPECTATOR)).toBe(true);
+  });
+});
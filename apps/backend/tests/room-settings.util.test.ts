@@ -0,0 +1,72 @@
+import {
+  ROOM_SETTINGS_VERSION,
+  applyRoomSettingsUpdate,
+  canSpectateRoom,
+  createDefaultRoomSettings,
+  migrateRoomSettings,
+} from "@rpgate/shared";
+import { describe, expect, it } from "vitest";
+
+describe("Room settings", () => {
+  it("should fill in defaults for new rooms", () => {
+    const settings = createDefaultRoomSettings();
+
+    expect(settings.version).toBe(ROOM_SETTINGS_VERSION);
+    expect(settings.gm.ruleset).toBe("dnd5e");
+    expect(settings.gm.responseMode).toBe("mention");
+    expect(settings.archived).toBe(false);
+  });
+
+  it("should migrate unversioned settings and keep known keys", () => {
+    const settings = migrateRoomSettings({
+      lore: "The kingdom of Vel",
+      restrictCombatPosting: true,
+      archived: true,
+      theme: "dark",
+    });
+
+    expect(settings).toEqual({
+      ...createDefaultRoomSettings(),
+      lore: "The kingdom of Vel",
+      restrictCombatPosting: true,
+      archived: true,
+    });
+  });
+
+  it("should drop legacy values of the wrong type", () => {
+    const settings = migrateRoomSettings({ lore: 42, restrictCombatPosting: "yes" });
+
+    expect(settings.lore).toBe("");
+    expect(settings.restrictCombatPosting).toBe(false);
+  });
+
+  it("should read empty or malformed blobs as defaults", () => {
+    expect(migrateRoomSettings(null)).toEqual(createDefaultRoomSettings());
+    expect(migrateRoomSettings([])).toEqual(createDefaultRoomSettings());
+    expect(
+      migrateRoomSettings({ version: ROOM_SETTINGS_VERSION, gm: { ruleset: "gurps" } }),
+    ).toEqual(createDefaultRoomSettings());
+  });
+
+  it("should merge GM settings field by field", () => {
+    const settings = applyRoomSettingsUpdate(createDefaultRoomSettings(), {
+      gm: { verbosity: "brief", persona: undefined },
+      lore: "A new world",
+    });
+
+    expect(settings.gm).toEqual({ ...createDefaultRoomSettings().gm, verbosity: "brief" });
+    expect(settings.lore).toBe("A new world");
+    expect(settings.restrictCombatPosting).toBe(false);
+  });
+
+  it("should let only public rooms that allow it be spectated", () => {
+    const settings = applyRoomSettingsUpdate(createDefaultRoomSettings(), {
+      allowSpectators: true,
+    });
+
+    expect(createDefaultRoomSettings().allowSpectators).toBe(false);
+    expect(canSpectateRoom({ isPrivate: false, settings })).toBe(true);
+    expect(canSpectateRoom({ isPrivate: true, settings })).toBe(false);
+    expect(canSpectateRoom({ isPrivate: false, settings: { lore: "Legacy room" } })).toBe(false);
+  });
+});
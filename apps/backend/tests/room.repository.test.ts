@@ -115,7 +115,7 @@ describe("RoomRepository", () => {
 
       // Add user as member to both rooms
       await repository.addMember(room1.id, testUserId, "owner");
-      await repository.addMember(room2.id, testUserId, "member");
+      await repository.addMember(room2.id, testUserId, "player");
 
       const userRooms = await repository.findByUserId(testUserId);
 
@@ -212,7 +212,7 @@ describe("RoomRepository", () => {
         createdBy: testUserId,
       });
 
-      await repository.addMember(room.id, testUserId2, "member");
+      await repository.addMember(room.id, testUserId2, "player");
 
       const isMember = await repository.isMember(room.id, testUserId2);
       expect(isMember).toBe(true);
@@ -244,7 +244,7 @@ describe("RoomRepository", () => {
         createdBy: testUserId,
       });
 
-      await repository.addMember(room.id, testUserId2, "member");
+      await repository.addMember(room.id, testUserId2, "player");
       await repository.removeMember(room.id, testUserId2);
 
       const isMember = await repository.isMember(room.id, testUserId2);
@@ -262,7 +262,7 @@ describe("RoomRepository", () => {
         createdBy: testUserId,
       });
 
-      await repository.addMember(room.id, testUserId, "member");
+      await repository.addMember(room.id, testUserId, "player");
 
       const result = await repository.isMember(room.id, testUserId);
       expect(result).toBe(true);
@@ -307,7 +307,7 @@ describe("RoomRepository", () => {
         createdBy: testUserId,
       });
 
-      await repository.addMember(room.id, testUserId2, "member");
+      await repository.addMember(room.id, testUserId2, "player");
 
       const result = await repository.isOwner(room.id, testUserId2);
       expect(result).toBe(false);
@@ -325,7 +325,7 @@ describe("RoomRepository", () => {
       });
 
       await repository.addMember(room.id, testUserId, "owner");
-      await repository.addMember(room.id, testUserId2, "member");
+      await repository.addMember(room.id, testUserId2, "player");
 
       const count = await repository.getMemberCount(room.id);
       expect(count).toBe(2);
@@ -356,7 +356,7 @@ describe("RoomRepository", () => {
       });
 
       await repository.addMember(room.id, testUserId, "owner");
-      await repository.addMember(room.id, testUserId2, "member");
+      await repository.addMember(room.id, testUserId2, "player");
 
       await repository.transferOwnership(room.id, testUserId, testUserId2);
 
@@ -369,6 +369,28 @@ describe("RoomRepository", () => {
       // Check room createdBy is updated
       const updatedRoom = await repository.findById(room.id);
       expect(updatedRoom?.createdBy).toBe(testUserId2);
+      expect(await repository.getMemberRole(room.id, testUserId)).toBe("gm");
+    });
+  });
+
+  describe("member roles", () => {
+    it("should check permissions against the member's role", async () => {
+      const room = await repository.create({
+        name: "Test Room",
+        description: "Test",
+        isPrivate: false,
+        maxMembers: 10,
+        createdBy: testUserId,
+      });
+
+      await repository.addMember(room.id, testUserId2);
+      expect(await repository.getMemberRole(room.id, testUserId2)).toBe("player");
+      expect(await repository.hasPermission(room.id, testUserId2, "manage_invites")).toBe(false);
+
+      await repository.updateMemberRole(room.id, testUserId2, "co_gm");
+      expect(await repository.hasPermission(room.id, testUserId2, "manage_invites")).toBe(true);
+      expect(await repository.hasPermission(room.id, testUserId, "roll_dice")).toBe(false);
+      expect(await repository.getMemberRole(room.id, testUserId)).toBeNull();
     });
   });
 
@@ -383,7 +405,7 @@ describe("RoomRepository", () => {
       });
 
       await repository.addMember(room.id, testUserId, "owner");
-      await repository.addMember(room.id, testUserId2, "member");
+      await repository.addMember(room.id, testUserId2, "player");
 
       const members = await repository.getRoomMembers(room.id);
 
@@ -406,10 +428,10 @@ describe("RoomRepository", () => {
 
       // Add members with different join times
       await repository.addMember(room.id, testUserId, "owner");
-      
+
       // Wait a bit to ensure different timestamps
       await new Promise((resolve) => setTimeout(resolve, 10));
-      await repository.addMember(room.id, testUserId2, "member");
+      await repository.addMember(room.id, testUserId2, "player");
 
       const nextOwner = await repository.findNextOldestMember(room.id, testUserId);
 
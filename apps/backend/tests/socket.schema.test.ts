@@ -0,0 +1,123 @@
+import {
+  SOCKET_REQUEST_ID_MAX_LENGTH,
+  WEBSOCKET_EVENTS,
+  clientToServerMessageSchema,
+  serverToClientMessageSchema,
+} from "@rpgate/shared";
+import { describe, expect, it } from "vitest";
+
+const roomId = "6f1c7a2e-3b4d-4e5f-8a9b-0c1d2e3f4a5b";
+const userId = "0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d";
+
+describe("WebSocket event schemas", () => {
+  it("should accept a client event with a requestId and apply defaults", () => {
+    const result = clientToServerMessageSchema.safeParse({
+      type: WEBSOCKET_EVENTS.MESSAGE_SEND,
+      data: { roomId, content: "I open the door" },
+      requestId: "req_1",
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success && result.data.type === WEBSOCKET_EVENTS.MESSAGE_SEND) {
+      expect(result.data.data.kind).toBe("ic");
+      expect(result.data.requestId).toBe("req_1");
+    }
+  });
+
+  it("should reject unknown event types by their discriminator", () => {
+    const result = clientToServerMessageSchema.safeParse({ type: "room:explode", data: {} });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.code).toBe("invalid_union_discriminator");
+  });
+
+  it("should reject malformed event data and request IDs", () => {
+    expect(
+      clientToServerMessageSchema.safeParse({
+        type: WEBSOCKET_EVENTS.ROOM_JOIN,
+        data: { roomId: "not-a-uuid" },
+      }).success,
+    ).toBe(false);
+    expect(
+      clientToServerMessageSchema.safeParse({
+        type: WEBSOCKET_EVENTS.ROOM_JOIN,
+        data: { roomId },
+        requestId: "x".repeat(SOCKET_REQUEST_ID_MAX_LENGTH + 1),
+      }).success,
+    ).toBe(false);
+    // Whispers need recipients, and only whispers may have them
+    expect(
+      clientToServerMessageSchema.safeParse({
+        type: WEBSOCKET_EVENTS.MESSAGE_SEND,
+        data: { roomId, content: "psst", kind: "whisper" },
+      }).success,
+    ).toBe(false);
+  });
+
+  it("should accept a room join resuming from a seq", () => {
+    expect(
+      clientToServerMessageSchema.safeParse({
+        type: WEBSOCKET_EVENTS.ROOM_JOIN,
+        data: { roomId, sinceSeq: 42 },
+      }).success,
+    ).toBe(true);
+    expect(
+      clientToServerMessageSchema.safeParse({
+        type: WEBSOCKET_EVENTS.ROOM_JOIN,
+        data: { roomId, sinceSeq: -1 },
+      }).success,
+    ).toBe(false);
+  });
+
+  it("should describe server acks, nacks, presence updates, room sync and viewer counts", () => {
+    expect(
+      serverToClientMessageSchema.safeParse({
+        type: WEBSOCKET_EVENTS.ACK,
+        data: { requestId: "req_1" },
+      }).success,
+    ).toBe(true);
+    expect(
+      serverToClientMessageSchema.safeParse({
+        type: WEBSOCKET_EVENTS.NACK,
+        data: { requestId: "req_2", message: "Not joined to this room", code: "NOT_JOINED" },
+      }).success,
+    ).toBe(true);
+    expect(
+      serverToClientMessageSchema.safeParse({
+        type: WEBSOCKET_EVENTS.NACK,
+        data: { requestId: "req_3", message: "Oops", code: "SOMETHING_ELSE" },
+      }).success,
+    ).toBe(false);
+    expect(
+      serverToClientMessageSchema.safeParse({
+        type: WEBSOCKET_EVENTS.PRESENCE_UPDATE,
+        data: { roomId, userId, status: "offline", lastSeenAt: new Date().toISOString() },
+      }).success,
+    ).toBe(true);
+    expect(
+      serverToClientMessageSchema.safeParse({
+        type: WEBSOCKET_EVENTS.ROOM_SYNC,
+        data: { roomId, seq: 12, replayed: 3, refetch: false },
+      }).success,
+    ).toBe(true);
+    expect(
+      serverToClientMessageSchema.safeParse({
+        type: WEBSOCKET_EVENTS.ROOM_SYNC,
+        data: { roomId, seq: 0, replayed: 0, refetch: false, spectating: true },
+      }).success,
+    ).toBe(true);
+    expect(
+      serverToClientMessageSchema.safeParse({
+        type: WEBSOCKET_EVENTS.ROOM_VIEWER_COUNT_UPDATED,
+        data: { roomId, viewerCount: -1 },
+      }).success,
+    ).toBe(false);
+    expect(
+      serverToClientMessageSchema.safeParse({
+        type: WEBSOCKET_EVENTS.MESSAGE_DELETED,
+        data: { roomId, messageId: userId },
+        seq: 13,
+      }).success,
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+import { db } from "@rpgate/database";
+import { rooms, users } from "@rpgate/database/schema";
+import { eq, inArray } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { logger } from "../src/config/logger";
+import { HISTORY_LIMIT } from "../src/services/game-master.prompt";
+import { createFakeProvider } from "../src/services/game-master.provider";
+import { MessageRepository } from "../src/services/message.repository";
+import { RoomRepository } from "../src/services/room.repository";
+import {
+  SUMMARY_CHUNK_SIZE,
+  SUMMARY_ERRORS,
+  SummaryService,
+} from "../src/services/summary.service";
+
+describe("SummaryService", () => {
+  let service: SummaryService;
+  let messageRepository: MessageRepository;
+  let ownerId: string;
+  let playerId: string;
+  let testRoomId: string;
+
+  beforeAll(async () => {
+    const [owner, player] = await db
+      .insert(users)
+      .values([
+        { username: "summaryowner1", email: "summaryowner1@example.com", passwordHash: "hash" },
+        { username: "summaryplayer1", email: "summaryplayer1@example.com", passwordHash: "hash" },
+      ])
+      .returning();
+    if (!owner || !player) throw new Error("Failed to create test users");
+
+    const [room] = await db
+      .insert(rooms)
+      .values({ name: "Long Campaign", createdBy: owner.id })
+      .returning();
+    if (!room) throw new Error("Failed to create test room");
+
+    ownerId = owner.id;
+    playerId = player.id;
+    testRoomId = room.id;
+
+    const roomRepository = new RoomRepository(db);
+    await roomRepository.addMember(testRoomId, ownerId, "owner");
+    await roomRepository.addMember(testRoomId, playerId);
+
+    service = new SummaryService(db, logger, createFakeProvider());
+    messageRepository = new MessageRepository(db);
+  });
+
+  afterAll(async () => {
+    await db.delete(rooms).where(eq(rooms.id, testRoomId));
+    await db.delete(users).where(inArray(users.id, [ownerId, playerId]));
+  });
+
+  it("should wait until enough history has left the raw window", async () => {
+    await messageRepository.create({
+      roomId: testRoomId,
+      userId: playerId,
+      content: "We set out from Oakvale",
+      createdAt: new Date(),
+    });
+
+    expect(await service.summarizeRoom(testRoomId)).toBeNull();
+  });
+
+  it("should summarize the oldest chunk and leave recent messages raw", async () => {
+    const start = Date.now();
+    for (let i = 0; i < HISTORY_LIMIT + SUMMARY_CHUNK_SIZE; i++) {
+      await messageRepository.create({
+        roomId: testRoomId,
+        userId: playerId,
+        content: `Step ${i} of the journey`,
+        createdAt: new Date(start + (i + 1) * 1000),
+      });
+    }
+
+    const summary = await service.summarizeRoom(testRoomId);
+
+    expect(summary).not.toBeNull();
+    expect(summary?.messageCount).toBe(SUMMARY_CHUNK_SIZE);
+    expect(summary?.content.length).toBeGreaterThan(0);
+    expect(await service.summarizeRoom(testRoomId)).toBeNull();
+  });
+
+  it("should let the owner hand-edit a summary", async () => {
+    const [latest] = await service.listSummaries(testRoomId, ownerId);
+    if (!latest) throw new Error("Expected a summary");
+
+    const edited = await service.updateSummary(testRoomId, latest.id, ownerId, {
+      content: "The party travelled from Oakvale to the coast.",
+    });
+
+    expect(edited.content).toBe("The party travelled from Oakvale to the coast.");
+    expect(edited.editedBy).toBe(ownerId);
+  });
+
+  it("should not let other members view summaries", async () => {
+    await expect(service.listSummaries(testRoomId, playerId)).rejects.toMatchObject({
+      code: SUMMARY_ERRORS.NOT_OWNER,
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import type { WebSocket } from "@fastify/websocket";
+import { db } from "@rpgate/database";
+import { rooms, users } from "@rpgate/database/schema";
+import {
+  WEBSOCKET_CLOSE_CODES,
+  WEBSOCKET_EVENTS,
+  WEBSOCKET_PROTOCOL,
+} from "@rpgate/shared/constants";
+import type { ServerToClientMessage } from "@rpgate/shared/types";
+import { eq, inArray } from "drizzle-orm";
+import type { FastifyInstance } from "fastify";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createApp } from "../src/app";
+import { RoomRepository } from "../src/services/room.repository";
+
+/**
+ * Wait for the first server event of the given type on a socket
+ */
+function waitForEvent(
+  socket: WebSocket,
+  type: ServerToClientMessage["type"],
+  timeoutMs = 2000,
+): Promise<ServerToClientMessage> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("message", onMessage);
+      reject(new Error(`Timed out waiting for ${type}`));
+    }, timeoutMs);
+
+    function onMessage(raw: Buffer) {
+      const event = JSON.parse(raw.toString()) as ServerToClientMessage;
+      if (event.type !== type) return;
+      clearTimeout(timer);
+      socket.off("message", onMessage);
+      resolve(event);
+    }
+
+    socket.on("message", onMessage);
+  });
+}
+
+/**
+ * Join a room and wait until the join has been broadcast back
+ */
+async function joinRoom(socket: WebSocket, roomId: string) {
+  const joined = waitForEvent(socket, WEBSOCKET_EVENTS.USER_JOINED);
+  socket.send(JSON.stringify({ type: WEBSOCKET_EVENTS.ROOM_JOIN, data: { roomId } }));
+  await joined;
+}
+
+describe("WebSocket broadcasting across instances", () => {
+  let appA: FastifyInstance;
+  let appB: FastifyInstance;
+  let cookie: string;
+  let spectatorCookie: string;
+  let testUserId: string;
+  let spectatorUserId: string;
+  let testRoomId: string;
+
+  beforeAll(async () => {
+    appA = await createApp();
+    appB = await createApp();
+    await Promise.all([appA.ready(), appB.ready()]);
+
+    const response = await appA.inject({
+      method: "POST",
+      url: "/api/v1/auth/register",
+      payload: {
+        username: "wsmulti1",
+        email: "wsmulti1@example.com",
+        password: "password123",
+      },
+    });
+    expect(response.statusCode).toBe(201);
+
+    const sessionCookie = response.cookies[0];
+    cookie = `${sessionCookie.name}=${sessionCookie.value}`;
+    testUserId = JSON.parse(response.payload).data.user.id;
+
+    const spectatorResponse = await appA.inject({
+      method: "POST",
+      url: "/api/v1/auth/register",
+      payload: {
+        username: "wsmulti2",
+        email: "wsmulti2@example.com",
+        password: "password123",
+      },
+    });
+    expect(spectatorResponse.statusCode).toBe(201);
+
+    const spectatorSessionCookie = spectatorResponse.cookies[0];
+    spectatorCookie = `${spectatorSessionCookie.name}=${spectatorSessionCookie.value}`;
+    spectatorUserId = JSON.parse(spectatorResponse.payload).data.user.id;
+
+    const repository = new RoomRepository(db);
+    const room = await repository.create({ name: "Multi-instance Room", createdBy: testUserId });
+    await repository.addMember(room.id, testUserId, "owner");
+    testRoomId = room.id;
+  });
+
+  afterAll(async () => {
+    await appA?.close();
+    await appB?.close();
+    if (testRoomId) await db.delete(rooms).where(eq(rooms.id, testRoomId));
+    const userIds = [testUserId, spectatorUserId].filter(Boolean);
+    if (userIds.length > 0) await db.delete(users).where(inArray(users.id, userIds));
+  });
+
+  it("should deliver a message sent on one instance to sockets on another", async () => {
+    const sender = await appA.injectWS("/ws", { headers: { cookie } });
+    const receiver = await appB.injectWS("/ws", { headers: { cookie } });
+
+    await joinRoom(receiver, testRoomId);
+    await joinRoom(sender, testRoomId);
+
+    const received = waitForEvent(receiver, WEBSOCKET_EVENTS.MESSAGE_NEW);
+    sender.send(
+      JSON.stringify({
+        type: WEBSOCKET_EVENTS.MESSAGE_SEND,
+        data: { roomId: testRoomId, content: "Across the wire" },
+      }),
+    );
+
+    const event = await received;
+    expect(event.type).toBe(WEBSOCKET_EVENTS.MESSAGE_NEW);
+    if (event.type === WEBSOCKET_EVENTS.MESSAGE_NEW) {
+      expect(event.data.content).toBe("Across the wire");
+      expect(event.data.roomId).toBe(testRoomId);
+    }
+
+    sender.terminate();
+    receiver.terminate();
+  });
+
+  it("should keep the room subscribed while another local socket remains in it", async () => {
+    const sender = await appA.injectWS("/ws", { headers: { cookie } });
+    const leaving = await appB.injectWS("/ws", { headers: { cookie } });
+    const staying = await appB.injectWS("/ws", { headers: { cookie } });
+
+    await joinRoom(leaving, testRoomId);
+    await joinRoom(staying, testRoomId);
+    await joinRoom(sender, testRoomId);
+
+    leaving.send(
+      JSON.stringify({ type: WEBSOCKET_EVENTS.ROOM_LEAVE, data: { roomId: testRoomId } }),
+    );
+    await waitForEvent(staying, WEBSOCKET_EVENTS.USER_LEFT);
+
+    const received = waitForEvent(staying, WEBSOCKET_EVENTS.MESSAGE_NEW);
+    sender.send(
+      JSON.stringify({
+        type: WEBSOCKET_EVENTS.MESSAGE_SEND,
+        data: { roomId: testRoomId, content: "Still here" },
+      }),
+    );
+
+    const event = await received;
+    if (event.type === WEBSOCKET_EVENTS.MESSAGE_NEW) {
+      expect(event.data.content).toBe("Still here");
+    }
+
+    sender.terminate();
+    leaving.terminate();
+    staying.terminate();
+  });
+
+  it("should ack handled requests and nack rejected ones", async () => {
+    const socket = await appA.injectWS("/ws", { headers: { cookie } });
+    await joinRoom(socket, testRoomId);
+
+    const acked = waitForEvent(socket, WEBSOCKET_EVENTS.ACK);
+    socket.send(
+      JSON.stringify({
+        type: WEBSOCKET_EVENTS.MESSAGE_SEND,
+        data: { roomId: testRoomId, content: "Acknowledged" },
+        requestId: "req_ok",
+      }),
+    );
+    const ack = await acked;
+    if (ack.type === WEBSOCKET_EVENTS.ACK) {
+      expect(ack.data.requestId).toBe("req_ok");
+    }
+
+    const nacked = waitForEvent(socket, WEBSOCKET_EVENTS.NACK);
+    socket.send(
+      JSON.stringify({
+        type: WEBSOCKET_EVENTS.MESSAGE_SEND,
+        data: { roomId: testRoomId, content: "" },
+        requestId: "req_invalid",
+      }),
+    );
+    const nack = await nacked;
+    if (nack.type === WEBSOCKET_EVENTS.NACK) {
+      expect(nack.data.requestId).toBe("req_invalid");
+      expect(nack.data.code).toBe("INVALID_MESSAGE");
+    }
+
+    socket.terminate();
+  });
+
+  it("should replay events missed while disconnected on rejoin", async () => {
+    const sender = await appA.injectWS("/ws", { headers: { cookie } });
+    const dropped = await appB.injectWS("/ws", { headers: { cookie } });
+
+    const synced = waitForEvent(dropped, WEBSOCKET_EVENTS.ROOM_SYNC);
+    await joinRoom(dropped, testRoomId);
+    const sync = await synced;
+    const sinceSeq = sync.type === WEBSOCKET_EVENTS.ROOM_SYNC ? sync.data.seq : 0;
+    await joinRoom(sender, testRoomId);
+    dropped.terminate();
+
+    const acked = waitForEvent(sender, WEBSOCKET_EVENTS.ACK);
+    sender.send(
+      JSON.stringify({
+        type: WEBSOCKET_EVENTS.MESSAGE_SEND,
+        data: { roomId: testRoomId, content: "While you were away" },
+        requestId: "req_missed",
+      }),
+    );
+    await acked;
+
+    const reconnected = await appB.injectWS("/ws", { headers: { cookie } });
+    const replayed = waitForEvent(reconnected, WEBSOCKET_EVENTS.MESSAGE_NEW);
+    const resynced = waitForEvent(reconnected, WEBSOCKET_EVENTS.ROOM_SYNC);
+    reconnected.send(
+      JSON.stringify({
+        type: WEBSOCKET_EVENTS.ROOM_JOIN,
+        data: { roomId: testRoomId, sinceSeq },
+      }),
+    );
+
+    const missed = await replayed;
+    expect(missed.seq).toBeGreaterThan(sinceSeq);
+    if (missed.type === WEBSOCKET_EVENTS.MESSAGE_NEW) {
+      expect(missed.data.content).toBe("While you were away");
+    }
+    const resync = await resynced;
+    if (resync.type === WEBSOCKET_EVENTS.ROOM_SYNC) {
+      expect(resync.data.refetch).toBe(false);
+      expect(resync.data.replayed).toBeGreaterThanOrEqual(1);
+      expect(resync.data.seq).toBeGreaterThanOrEqual(missed.seq ?? 0);
+    }
+
+    sender.terminate();
+    reconnected.terminate();
+  });
+
+  it("should agree on a protocol version and refuse unsupported ones", async () => {
+    // The server speaks first, so listen before the socket opens
+    let ready: Promise<ServerToClientMessage> | undefined;
+    const socket = await appA.injectWS(
+      `/ws?v=${WEBSOCKET_PROTOCOL.VERSION + 1}`,
+      { headers: { cookie } },
+      {
+        onInit: (ws) => {
+          ready = waitForEvent(ws, WEBSOCKET_EVENTS.CONNECTION_READY);
+        },
+      },
+    );
+    const event = await ready;
+    if (event?.type === WEBSOCKET_EVENTS.CONNECTION_READY) {
+      expect(event.data.protocolVersion).toBe(WEBSOCKET_PROTOCOL.VERSION);
+    }
+    socket.terminate();
+
+    let closed: Promise<number> | undefined;
+    await appA.injectWS(
+      "/ws?v=0",
+      { headers: { cookie } },
+      {
+        onInit: (ws) => {
+          closed = new Promise((resolve) => ws.on("close", resolve));
+        },
+      },
+    );
+    expect(await closed).toBe(WEBSOCKET_CLOSE_CODES.UNSUPPORTED_PROTOCOL);
+  });
+
+  it("should stop sending room events to spectators once the room stops allowing them", async () => {
+    const updateSettings = (allowSpectators: boolean) =>
+      appA.inject({
+        method: "PUT",
+        url: `/api/v1/rooms/${testRoomId}`,
+        headers: { cookie },
+        payload: { settings: { allowSpectators } },
+      });
+    expect((await updateSettings(true)).statusCode).toBe(200);
+
+    const member = await appA.injectWS("/ws", { headers: { cookie } });
+    const spectator = await appB.injectWS("/ws", { headers: { cookie: spectatorCookie } });
+    await joinRoom(member, testRoomId);
+
+    const synced = waitForEvent(spectator, WEBSOCKET_EVENTS.ROOM_SYNC);
+    spectator.send(
+      JSON.stringify({ type: WEBSOCKET_EVENTS.ROOM_JOIN, data: { roomId: testRoomId } }),
+    );
+    const sync = await synced;
+    if (sync.type === WEBSOCKET_EVENTS.ROOM_SYNC) {
+      expect(sync.data.spectating).toBe(true);
+    }
+
+    const revoked = waitForEvent(spectator, WEBSOCKET_EVENTS.ROOM_ACCESS_REVOKED);
+    expect((await updateSettings(false)).statusCode).toBe(200);
+    await revoked;
+
+    const seen: string[] = [];
+    spectator.on("message", (raw: Buffer) => {
+      seen.push((JSON.parse(raw.toString()) as ServerToClientMessage).type);
+    });
+    const received = waitForEvent(member, WEBSOCKET_EVENTS.MESSAGE_NEW);
+    member.send(
+      JSON.stringify({
+        type: WEBSOCKET_EVENTS.MESSAGE_SEND,
+        data: { roomId: testRoomId, content: "Members only now" },
+      }),
+    );
+    await received;
+    // Give the event time to cross instances before checking it never arrived
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(seen).not.toContain(WEBSOCKET_EVENTS.MESSAGE_NEW);
+
+    member.terminate();
+    spectator.terminate();
+  });
+});
@@ -5,7 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useRoom } from "@/hooks/use-rooms";
 import type { RoomWithStats } from "@/lib/rooms-api";
-import { Settings, Users } from "lucide-react";
+import { Eye, Settings, Users } from "lucide-react";
 import Link from "next/link";
 import { useParams } from "next/navigation";
 import React from "react";
@@ -91,6 +91,12 @@ function RoomDetailContent() {
                   <Users className="h-4 w-4" />
                   <span>{roomWithStats?.memberCount || 0} участников</span>
                 </div>
+                {!!roomWithStats?.viewerCount && (
+                  <div className="flex items-center gap-1.5">
+                    <Eye className="h-4 w-4" />
+                    <span>{roomWithStats.viewerCount} зрителей</span>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
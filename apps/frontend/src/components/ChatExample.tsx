@@ -1,5 +1,100 @@
+import {
+  type DiceRollResult,
+  GM_FEEDBACK_REACTIONS,
+  type MessageKind,
+  type MessageWithAuthor,
+  type ReactionCount,
+} from "@rpgate/shared";
+import { GAME_MASTER } from "@rpgate/shared/constants";
 import { useEffect, useState } from "react";
 import { useWebSocket } from "../hooks/useWebSocket";
+import { fetchRoomMessages } from "../lib/rooms-api";
+
+interface ChatMessage {
+  id: string;
+  userId: string;
+  username: string;
+  // Character the message is spoken by, shown instead of the username
+  characterName?: string | null;
+  content: string;
+  kind: MessageKind;
+  // Set while a GM reply is streaming in, or when its stream broke off
+  status?: "streaming" | "interrupted";
+  roll?: DiceRollResult;
+  edited?: boolean;
+  replyToId?: string | null;
+  reactions?: ReactionCount[];
+}
+
+// Quick reactions offered on every message; GM replies get the feedback pair instead
+const QUICK_REACTIONS = ["👍", "😂", "😮"];
+const GM_QUICK_REACTIONS = [GM_FEEDBACK_REACTIONS.POSITIVE, GM_FEEDBACK_REACTIONS.NEGATIVE];
+
+function toChatMessage(message: MessageWithAuthor): ChatMessage {
+  return {
+    id: message.id,
+    userId: message.userId,
+    username: message.username,
+    characterName: message.characterName,
+    content: message.content,
+    kind: message.kind,
+    roll: message.kind === "roll" ? message.payload.roll : undefined,
+    edited: message.editedAt !== null,
+    replyToId: message.replyToId,
+  };
+}
+
+/**
+ * Reactions after one member added or removed an emoji, with the server's new count
+ */
+function applyReaction(
+  reactions: ReactionCount[] | undefined,
+  { emoji, userId, count }: { emoji: string; userId: string; count: number },
+  added: boolean,
+): ReactionCount[] {
+  const current = reactions ?? [];
+  const existing = current.find((reaction) => reaction.emoji === emoji);
+  const others = existing?.userIds.filter((id) => id !== userId) ?? [];
+  const updated = { emoji, count, userIds: added ? [...others, userId] : others };
+
+  if (!existing) {
+    return count > 0 ? [...current, updated] : current;
+  }
+  return count > 0
+    ? current.map((reaction) => (reaction.emoji === emoji ? updated : reaction))
+    : current.filter((reaction) => reaction.emoji !== emoji);
+}
+
+/**
+ * Breakdown of a roll; dice removed by keep/drop are struck through
+ */
+function RollBreakdown({ roll }: { roll: DiceRollResult }) {
+  return (
+    <div className="text-sm text-gray-700 font-mono">
+      {roll.terms.map((term, termIndex) => (
+        <span key={termIndex}>
+          {termIndex > 0 && (term.sign === -1 ? " - " : " + ")}
+          {termIndex === 0 && term.sign === -1 && "-"}
+          {term.notation}
+          {term.type === "dice" && (
+            <>
+              {" ["}
+              {term.dice.map((die, dieIndex) => (
+                <span key={dieIndex} className={die.kept ? "" : "line-through text-gray-400"}>
+                  {dieIndex > 0 && ", "}
+                  {die.value}
+                  {die.exploded && "!"}
+                </span>
+              ))}
+              {"]"}
+            </>
+          )}
+        </span>
+      ))}
+      <span className="font-semibold"> = {roll.total}</span>
+    </div>
+  );
+}
 
 interface ChatExampleProps {
   user: {
@@ -10,24 +105,45 @@ interface ChatExampleProps {
 }
 
 export function ChatExample({ user, roomId }: ChatExampleProps) {
-  const [messages, setMessages] = useState<any[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [newMessage, setNewMessage] = useState("");
+  const [outOfCharacter, setOutOfCharacter] = useState(false);
+  // Send privately to the Game Master instead of to the room
+  const [whisperToGm, setWhisperToGm] = useState(false);
+  // Message the next one is sent as a reply to
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null);
   const [typingUsers, setTypingUsers] = useState<string[]>([]);
+  // Why the last message was not delivered; its text is put back in the input
+  const [deliveryError, setDeliveryError] = useState<string | null>(null);
 
   const {
     isConnected,
     error,
     connect,
     sendMessage,
+    sendWhisper,
+    editMessage,
+    deleteMessage,
+    addReaction,
+    removeReaction,
     joinRoom,
     leaveRoom,
     startTyping,
     stopTyping,
     onMessage,
+    onMessageUpdated,
+    onMessageDeleted,
+    onReactionAdded,
+    onReactionRemoved,
     onUserJoined,
     onUserLeft,
     onTypingStart,
     onTypingStop,
+    onGmStreamStart,
+    onGmStreamDelta,
+    onGmStreamEnd,
+    onGmStreamError,
+    onRoomSync,
   } = useWebSocket({ user, autoConnect: true });
 
   useEffect(() => {
@@ -40,11 +156,80 @@ export function ChatExample({ user, roomId }: ChatExampleProps) {
         leaveRoom(roomId);
       }
     };
-  }, [isConnected, roomId]);
+  }, [isConnected, roomId, joinRoom, leaveRoom]);
 
   useEffect(() => {
     const unsubscribeMessage = onMessage((message) => {
-      setMessages((prev) => [...prev, message]);
+      setMessages((prev) => [...prev, toChatMessage(message)]);
+    });
+
+    const updateMessage = (id: string, update: (message: ChatMessage) => ChatMessage) => {
+      setMessages((prev) => prev.map((message) => (message.id === id ? update(message) : message)));
+    };
+
+    const unsubscribeMessageUpdated = onMessageUpdated((message) => {
+      updateMessage(message.id, () => toChatMessage(message));
+    });
+
+    const unsubscribeMessageDeleted = onMessageDeleted(({ messageId }) => {
+      setMessages((prev) => prev.filter((message) => message.id !== messageId));
+    });
+
+    const unsubscribeReactionAdded = onReactionAdded((reaction) => {
+      updateMessage(reaction.messageId, (message) => ({
+        ...message,
+        reactions: applyReaction(message.reactions, reaction, true),
+      }));
+    });
+
+    const unsubscribeReactionRemoved = onReactionRemoved((reaction) => {
+      updateMessage(reaction.messageId, (message) => ({
+        ...message,
+        reactions: applyReaction(message.reactions, reaction, false),
+      }));
+    });
+
+    const unsubscribeGmStreamStart = onGmStreamStart(({ messageId }) => {
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: messageId,
+          userId: GAME_MASTER.USER_ID,
+          username: GAME_MASTER.USERNAME,
+          content: "",
+          kind: "gm",
+          status: "streaming",
+        },
+      ]);
+    });
+
+    const unsubscribeGmStreamDelta = onGmStreamDelta(({ messageId, delta }) => {
+      updateMessage(messageId, (message) => ({ ...message, content: message.content + delta }));
+    });
+
+    const unsubscribeGmStreamEnd = onGmStreamEnd(({ messageId, message }) => {
+      updateMessage(messageId, () => toChatMessage(message));
+    });
+
+    const unsubscribeGmStreamError = onGmStreamError(({ messageId }) => {
+      updateMessage(messageId, (message) => ({ ...message, status: "interrupted" }));
+    });
+
+    // Too much was missed while disconnected to replay; start over from the latest history
+    const unsubscribeRoomSync = onRoomSync(({ roomId: syncedRoomId, refetch }) => {
+      if (!refetch || syncedRoomId !== roomId) return;
+
+      fetchRoomMessages(roomId)
+        .then((history) => {
+          setMessages(
+            history
+              .reverse()
+              .map((message) => ({ ...toChatMessage(message), reactions: message.reactions })),
+          );
+        })
+        .catch((err: Error) => {
+          console.error("Failed to reload room history:", err);
+        });
     });
 
     const unsubscribeUserJoined = onUserJoined((data) => {
@@ -65,17 +250,76 @@ export function ChatExample({ user, roomId }: ChatExampleProps) {
 
     return () => {
       unsubscribeMessage();
+      unsubscribeMessageUpdated();
+      unsubscribeMessageDeleted();
+      unsubscribeReactionAdded();
+      unsubscribeReactionRemoved();
+      unsubscribeGmStreamStart();
+      unsubscribeGmStreamDelta();
+      unsubscribeGmStreamEnd();
+      unsubscribeGmStreamError();
+      unsubscribeRoomSync();
       unsubscribeUserJoined();
       unsubscribeUserLeft();
       unsubscribeTypingStart();
       unsubscribeTypingStop();
     };
-  }, []);
+  }, [
+    roomId,
+    onMessage,
+    onMessageUpdated,
+    onMessageDeleted,
+    onReactionAdded,
+    onReactionRemoved,
+    onUserJoined,
+    onUserLeft,
+    onTypingStart,
+    onTypingStop,
+    onGmStreamStart,
+    onGmStreamDelta,
+    onGmStreamEnd,
+    onGmStreamError,
+    onRoomSync,
+  ]);
 
   const handleSendMessage = () => {
-    if (newMessage.trim() && isConnected) {
-      sendMessage(roomId, newMessage.trim());
+    const content = newMessage.trim();
+    if (content && isConnected) {
+      const delivery = whisperToGm
+        ? sendWhisper(roomId, content, [GAME_MASTER.USER_ID])
+        : sendMessage(roomId, content, outOfCharacter ? "ooc" : "ic", replyTo?.id);
       setNewMessage("");
+      setReplyTo(null);
+      setDeliveryError(null);
+
+      delivery.catch((err: Error) => {
+        setDeliveryError(`Message not delivered: ${err.message}`);
+        setNewMessage((current) => current || content);
+      });
+    }
+  };
+
+  const handleEditMessage = (message: ChatMessage) => {
+    const content = window.prompt("Edit message", message.content)?.trim();
+    if (content && content !== message.content) {
+      editMessage(roomId, message.id, content);
+    }
+  };
+
+  const handleDeleteMessage = (message: ChatMessage) => {
+    if (window.confirm("Delete this message?")) {
+      deleteMessage(roomId, message.id);
+    }
+  };
+
+  const handleToggleReaction = (message: ChatMessage, emoji: string) => {
+    const reacted = message.reactions?.some(
+      (reaction) => reaction.emoji === emoji && reaction.userIds.includes(user.userId),
+    );
+    if (reacted) {
+      removeReaction(roomId, message.id, emoji);
+    } else {
+      addReaction(roomId, message.id, emoji);
     }
   };
 
@@ -108,12 +352,113 @@ export function ChatExample({ user, roomId }: ChatExampleProps) {
       </div>
 
       <div className="h-64 overflow-y-auto p-4 space-y-2">
-        {messages.map((message, index) => (
-          <div key={index} className="bg-gray-100 p-2 rounded">
-            <div className="font-semibold text-sm text-blue-600">{message.username}</div>
-            <div className="text-gray-800">{message.content}</div>
-          </div>
-        ))}
+        {messages.map((message) =>
+          message.kind === "system" ? (
+            <div key={message.id} className="text-center text-xs text-gray-500 italic">
+              {message.content}
+            </div>
+          ) : (
+            <div
+              key={message.id}
+              className={
+                message.kind === "ooc"
+                  ? "bg-gray-50 p-2 rounded opacity-75"
+                  : message.kind === "whisper"
+                    ? "bg-purple-50 p-2 rounded italic"
+                    : "bg-gray-100 p-2 rounded"
+              }
+            >
+              {message.replyToId && (
+                <div className="text-xs text-gray-500 border-l-2 border-gray-300 pl-2 mb-1 truncate">
+                  {(() => {
+                    const original = messages.find(({ id }) => id === message.replyToId);
+                    return original
+                      ? `↪ ${original.characterName ?? original.username}: ${original.content}`
+                      : "↪ earlier message";
+                  })()}
+                </div>
+              )}
+              <div className="font-semibold text-sm text-blue-600">
+                {message.characterName ?? message.username}
+                {message.characterName && (
+                  <span className="ml-1 text-xs text-gray-500">({message.username})</span>
+                )}
+                {message.kind === "ooc" && (
+                  <span className="ml-1 text-xs text-gray-500">(OOC)</span>
+                )}
+                {message.kind === "whisper" && (
+                  <span className="ml-1 text-xs text-purple-600">(whisper)</span>
+                )}
+                {message.edited && <span className="ml-1 text-xs text-gray-400">(edited)</span>}
+                {message.userId === user.userId && message.kind !== "roll" && (
+                  <span className="ml-2 text-xs font-normal">
+                    <button
+                      type="button"
+                      onClick={() => handleEditMessage(message)}
+                      className="text-gray-500 hover:underline"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteMessage(message)}
+                      className="ml-1 text-red-500 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </span>
+                )}
+              </div>
+              <div className="text-gray-800 whitespace-pre-wrap">
+                {message.content}
+                {message.status === "streaming" && <span className="animate-pulse">▍</span>}
+              </div>
+              {message.roll && <RollBreakdown roll={message.roll} />}
+              {message.status === "interrupted" && (
+                <div className="text-xs text-red-600 mt-1">
+                  Reply interrupted — the text is incomplete
+                </div>
+              )}
+              {!message.status && (
+                <div className="flex flex-wrap items-center gap-1 mt-1 text-xs">
+                  {message.reactions?.map((reaction) => (
+                    <button
+                      key={reaction.emoji}
+                      type="button"
+                      onClick={() => handleToggleReaction(message, reaction.emoji)}
+                      className={`px-1 rounded border ${
+                        reaction.userIds.includes(user.userId)
+                          ? "border-blue-400 bg-blue-50"
+                          : "border-gray-300"
+                      }`}
+                    >
+                      {reaction.emoji} {reaction.count}
+                    </button>
+                  ))}
+                  {(message.kind === "gm" ? GM_QUICK_REACTIONS : QUICK_REACTIONS)
+                    .filter((emoji) => !message.reactions?.some((r) => r.emoji === emoji))
+                    .map((emoji) => (
+                      <button
+                        key={emoji}
+                        type="button"
+                        onClick={() => handleToggleReaction(message, emoji)}
+                        className="px-1 opacity-40 hover:opacity-100"
+                      >
+                        {emoji}
+                      </button>
+                    ))}
+                  <button
+                    type="button"
+                    onClick={() => setReplyTo(message)}
+                    className="ml-1 text-gray-500 hover:underline"
+                  >
+                    Reply
+                  </button>
+                </div>
+              )}
+            </div>
+          ),
+        )}
 
         {typingUsers.length > 0 && (
           <div className="text-sm text-gray-500 italic">
@@ -123,6 +468,28 @@ export function ChatExample({ user, roomId }: ChatExampleProps) {
       </div>
 
       <div className="p-4 border-t">
+        {deliveryError && (
+          <div className="flex justify-between text-xs text-red-600 mb-2">
+            <span>{deliveryError}</span>
+            <button
+              type="button"
+              onClick={() => setDeliveryError(null)}
+              className="ml-2 hover:underline"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+        {replyTo && (
+          <div className="flex justify-between text-xs text-gray-500 mb-2">
+            <span className="truncate">
+              Replying to {replyTo.characterName ?? replyTo.username}: {replyTo.content}
+            </span>
+            <button type="button" onClick={() => setReplyTo(null)} className="ml-2 hover:underline">
+              Cancel
+            </button>
+          </div>
+        )}
         <div className="flex space-x-2">
           <input
             type="text"
@@ -133,6 +500,24 @@ export function ChatExample({ user, roomId }: ChatExampleProps) {
             className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             disabled={!isConnected}
           />
+          <label className="flex items-center text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={outOfCharacter}
+              onChange={(e) => setOutOfCharacter(e.target.checked)}
+              className="mr-1"
+            />
+            OOC
+          </label>
+          <label className="flex items-center text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={whisperToGm}
+              onChange={(e) => setWhisperToGm(e.target.checked)}
+              className="mr-1"
+            />
+            Whisper to GM
+          </label>
           <button
             onClick={handleSendMessage}
             disabled={!isConnected || !newMessage.trim()}
@@ -13,7 +13,22 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useRoom } from "@/hooks/use-rooms";
-import { type UpdateRoomInput, updateRoomSchema } from "@rpgate/shared/schemas";
+import { fetchRoomAiUsage } from "@/lib/rooms-api";
+import {
+  type ContentRating,
+  GM_FEEDBACK_REACTIONS,
+  GM_PERSONA_MAX_LENGTH,
+  GM_SYSTEM_PROMPT_MAX_LENGTH,
+  type GmResponseMode,
+  type GmSettings,
+  type GmVerbosity,
+  ROOM_LORE_MAX_LENGTH,
+  type Ruleset,
+  type UpdateRoomInput,
+  type UpdateRoomSettingsInput,
+  updateRoomSchema,
+} from "@rpgate/shared/schemas";
+import type { AiUsagePeriod, RoomAiUsage } from "@rpgate/shared/types";
 import { Copy, Link as LinkIcon, Trash2 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import type React from "react";
@@ -31,9 +46,48 @@ interface RoomSettingsFormProps {
 interface FormErrors {
   name?: string[];
   description?: string[];
+  settings?: string[];
   general?: string;
 }
 
+const RULESET_LABELS: Record<Ruleset, string> = {
+  dnd5e: "D&D 5e",
+  d20: "Универсальная d20",
+  narrative: "Повествовательная, без бросков",
+};
+
+const VERBOSITY_LABELS: Record<GmVerbosity, string> = {
+  brief: "Кратко",
+  normal: "Обычно",
+  detailed: "Подробно",
+};
+
+const CONTENT_RATING_LABELS: Record<ContentRating, string> = {
+  family: "Для всей семьи",
+  teen: "Подростковый (12+)",
+  mature: "Для взрослых (18+)",
+};
+
+const RESPONSE_MODE_LABELS: Record<GmResponseMode, string> = {
+  mention: "Только при упоминании @gm",
+  auto: "На каждое сообщение от лица персонажа",
+};
+
+/**
+ * Token usage of one period against its cap
+ */
+function AiUsageLine({ label, period }: { label: string; period: AiUsagePeriod }) {
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span>{label}</span>
+      <span className="text-muted-foreground">
+        {period.totalTokens.toLocaleString("ru-RU")}
+        {period.limit !== null && ` / ${period.limit.toLocaleString("ru-RU")}`} токенов
+      </span>
+    </div>
+  );
+}
+
 export function RoomSettingsForm({ roomId }: RoomSettingsFormProps) {
   const router = useRouter();
   const { room, loading, error, updateRoom, deleteRoom, generateInviteLink, clearError } =
@@ -52,6 +106,7 @@ export function RoomSettingsForm({ roomId }: RoomSettingsFormProps) {
   const [inviteLink, setInviteLink] = useState<string | null>(null);
   const [isGeneratingInvite, setIsGeneratingInvite] = useState(false);
   const [inviteCopied, setInviteCopied] = useState(false);
+  const [aiUsage, setAiUsage] = useState<RoomAiUsage | null>(null);
 
   /**
    * Initialize form with room data
@@ -62,10 +117,25 @@ export function RoomSettingsForm({ roomId }: RoomSettingsFormProps) {
         name: room.name,
         description: room.description,
         isPrivate: room.isPrivate,
+        settings: {
+          gm: room.settings.gm,
+          lore: room.settings.lore,
+          restrictCombatPosting: room.settings.restrictCombatPosting,
+          allowSpectators: room.settings.allowSpectators,
+        },
       });
     }
   }, [room]);
 
+  /**
+   * Load the room's AI token usage; only the owner can see it
+   */
+  useEffect(() => {
+    fetchRoomAiUsage(roomId)
+      .then(setAiUsage)
+      .catch(() => setAiUsage(null));
+  }, [roomId]);
+
   /**
    * Validate form data using Zod schema
    */
@@ -133,6 +203,34 @@ export function RoomSettingsForm({ roomId }: RoomSettingsFormProps) {
     }
   };
 
+  /**
+   * Handle room settings changes
+   */
+  const updateSettings = (changes: UpdateRoomSettingsInput) => {
+    setFormData((prev) => ({
+      ...prev,
+      settings: { ...prev.settings, ...changes },
+    }));
+
+    if (formErrors.settings) {
+      setFormErrors((prev) => ({
+        ...prev,
+        settings: undefined,
+      }));
+    }
+
+    if (error) {
+      clearError();
+    }
+  };
+
+  /**
+   * Handle Game Master settings changes
+   */
+  const updateGmSetting = <K extends keyof GmSettings>(field: K, value: GmSettings[K]) => {
+    updateSettings({ gm: { ...formData.settings?.gm, [field]: value } });
+  };
+
   /**
    * Handle form submission
    */
@@ -313,6 +411,205 @@ export function RoomSettingsForm({ roomId }: RoomSettingsFormProps) {
               </Select>
             </div>
 
+            {/* Game Master Settings */}
+            <div className="space-y-4 border-t pt-6">
+              <div>
+                <h3 className="font-medium">Мастер игры</h3>
+                <p className="text-sm text-muted-foreground">
+                  Как ИИ-мастер ведёт игру в этой комнате
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="gm-persona">Персона мастера</Label>
+                <Input
+                  id="gm-persona"
+                  type="text"
+                  placeholder="Например: ворчливый гном-сказитель"
+                  value={formData.settings?.gm?.persona ?? ""}
+                  onChange={(event) => updateGmSetting("persona", event.target.value)}
+                  disabled={isFormDisabled}
+                  maxLength={GM_PERSONA_MAX_LENGTH}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="gm-system-prompt">Дополнительные инструкции мастеру</Label>
+                <Textarea
+                  id="gm-system-prompt"
+                  placeholder="Например: не убивай персонажей игроков без их согласия"
+                  value={formData.settings?.gm?.systemPrompt ?? ""}
+                  onChange={(event) => updateGmSetting("systemPrompt", event.target.value)}
+                  disabled={isFormDisabled}
+                  maxLength={GM_SYSTEM_PROMPT_MAX_LENGTH}
+                  rows={4}
+                />
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="gm-ruleset">Система правил</Label>
+                  <Select
+                    value={formData.settings?.gm?.ruleset}
+                    onValueChange={(value) => updateGmSetting("ruleset", value as Ruleset)}
+                    disabled={isFormDisabled}
+                  >
+                    <SelectTrigger id="gm-ruleset">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(RULESET_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="gm-language">Язык ответов</Label>
+                  <Input
+                    id="gm-language"
+                    type="text"
+                    placeholder="Как у игроков"
+                    value={formData.settings?.gm?.language ?? ""}
+                    onChange={(event) => updateGmSetting("language", event.target.value || null)}
+                    disabled={isFormDisabled}
+                    maxLength={50}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="gm-verbosity">Подробность ответов</Label>
+                  <Select
+                    value={formData.settings?.gm?.verbosity}
+                    onValueChange={(value) => updateGmSetting("verbosity", value as GmVerbosity)}
+                    disabled={isFormDisabled}
+                  >
+                    <SelectTrigger id="gm-verbosity">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(VERBOSITY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="gm-content-rating">Возрастной рейтинг</Label>
+                  <Select
+                    value={formData.settings?.gm?.contentRating}
+                    onValueChange={(value) =>
+                      updateGmSetting("contentRating", value as ContentRating)
+                    }
+                    disabled={isFormDisabled}
+                  >
+                    <SelectTrigger id="gm-content-rating">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CONTENT_RATING_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="gm-response-mode">Когда мастер отвечает</Label>
+                <Select
+                  value={formData.settings?.gm?.responseMode}
+                  onValueChange={(value) =>
+                    updateGmSetting("responseMode", value as GmResponseMode)
+                  }
+                  disabled={isFormDisabled}
+                >
+                  <SelectTrigger id="gm-response-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RESPONSE_MODE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="lore">Описание мира</Label>
+                <Textarea
+                  id="lore"
+                  placeholder="Мир, ключевые персонажи и события, которые мастер должен помнить всегда"
+                  value={formData.settings?.lore ?? ""}
+                  onChange={(event) => updateSettings({ lore: event.target.value })}
+                  disabled={isFormDisabled}
+                  maxLength={ROOM_LORE_MAX_LENGTH}
+                  rows={6}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="combat-posting">Сообщения в бою</Label>
+                <Select
+                  value={formData.settings?.restrictCombatPosting ? "turn" : "everyone"}
+                  onValueChange={(value) =>
+                    updateSettings({ restrictCombatPosting: value === "turn" })
+                  }
+                  disabled={isFormDisabled}
+                >
+                  <SelectTrigger id="combat-posting">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="everyone">Все участники в любой момент</SelectItem>
+                    <SelectItem value="turn">Только участник, чей сейчас ход</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="spectators">Зрители</Label>
+                <Select
+                  value={formData.settings?.allowSpectators ? "everyone" : "members"}
+                  onValueChange={(value) =>
+                    updateSettings({ allowSpectators: value === "everyone" })
+                  }
+                  disabled={isFormDisabled || formData.isPrivate}
+                >
+                  <SelectTrigger id="spectators">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="members">Только участники</SelectItem>
+                    <SelectItem value="everyone">Все могут смотреть без вступления</SelectItem>
+                  </SelectContent>
+                </Select>
+                {formData.isPrivate && (
+                  <p className="text-sm text-muted-foreground">
+                    Зрители доступны только в публичных комнатах
+                  </p>
+                )}
+              </div>
+
+              {formErrors.settings && (
+                <div className="text-sm text-destructive">
+                  {formErrors.settings.map((error) => (
+                    <div key={error}>{error}</div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {/* General Error Display */}
             {(error || formErrors.general) && (
               <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
@@ -338,6 +635,28 @@ export function RoomSettingsForm({ roomId }: RoomSettingsFormProps) {
         </CardContent>
       </Card>
 
+      {/* AI Usage Section */}
+      {aiUsage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Использование ИИ</CardTitle>
+            <CardDescription>Токены, потраченные мастером игры в этой комнате</CardDescription>
+          </CardHeader>
+
+          <CardContent className="space-y-2">
+            <AiUsageLine label="Сегодня" period={aiUsage.daily} />
+            <AiUsageLine label="В этом месяце" period={aiUsage.monthly} />
+            <div className="flex items-center justify-between text-sm">
+              <span>Оценки ответов мастера</span>
+              <span className="text-muted-foreground">
+                {GM_FEEDBACK_REACTIONS.POSITIVE} {aiUsage.gmFeedback.positive} ·{" "}
+                {GM_FEEDBACK_REACTIONS.NEGATIVE} {aiUsage.gmFeedback.negative}
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Invite Link Section */}
       <Card>
         <CardHeader>
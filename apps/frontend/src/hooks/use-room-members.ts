@@ -2,13 +2,13 @@
 
 import { joinRoom as apiJoinRoom, leaveRoom as apiLeaveRoom } from "@/lib/rooms-api";
 import { getWebSocketClient } from "@/lib/websocket";
-import { WEBSOCKET_EVENTS } from "@rpgate/shared/constants";
-import type { PublicUser } from "@rpgate/shared/schemas";
+import { ROOM_ROLES, WEBSOCKET_EVENTS } from "@rpgate/shared/constants";
+import type { MessageWithAuthor, RoomRole } from "@rpgate/shared/schemas";
 import { useCallback, useEffect, useRef, useState } from "react";
 
 /**
  * Custom hook for room membership management
- * Handles joining/leaving rooms with real-time member count updates via WebSocket
+ * Handles joining/leaving rooms with real-time member count and presence updates via WebSocket
  */
 
 export interface UseRoomMembersOptions {
@@ -19,8 +19,10 @@ export interface UseRoomMembersOptions {
 export interface RoomMember {
   userId: string;
   username: string;
-  role?: "owner" | "member";
+  role?: RoomRole;
   joinedAt?: Date;
+  isOnline?: boolean;
+  lastSeenAt?: Date;
 }
 
 export function useRoomMembers(options: UseRoomMembersOptions) {
@@ -28,7 +30,9 @@ export function useRoomMembers(options: UseRoomMembersOptions) {
 
   // State
   const [memberCount, setMemberCount] = useState<number>(0);
+  const [viewerCount, setViewerCount] = useState<number>(0);
   const [members, setMembers] = useState<RoomMember[]>([]);
+  const [onlineUserIds, setOnlineUserIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isMember, setIsMember] = useState(false);
@@ -166,44 +170,119 @@ export function useRoomMembers(options: UseRoomMembersOptions) {
       }
     };
 
-    const handleUserJoined = (data: { user: PublicUser; roomId: string }) => {
+    const handleViewerCountUpdate = (data: { roomId: string; viewerCount: number }) => {
       if (data.roomId === roomId) {
-        setMemberCount((prev) => prev + 1);
-        setMembers((prev) => [
-          ...prev,
-          {
-            userId: data.user.id,
-            username: data.user.username,
-            role: "member",
-            joinedAt: new Date(),
-          },
-        ]);
+        setViewerCount(data.viewerCount);
       }
     };
 
-    const handleUserLeft = (data: { userId: string; roomId: string }) => {
-      if (data.roomId === roomId) {
-        setMemberCount((prev) => Math.max(0, prev - 1));
-        setMembers((prev) => prev.filter((member) => member.userId !== data.userId));
+    // Membership changes arrive as system messages in the room's history
+    const handleSystemMessage = (message: MessageWithAuthor) => {
+      if (message.roomId !== roomId || message.kind !== "system") return;
+
+      const event = message.payload;
+      switch (event.event) {
+        case "member_joined":
+          setMembers((prev) => [
+            ...prev.filter((member) => member.userId !== event.userId),
+            {
+              userId: event.userId,
+              username: event.username,
+              role: ROOM_ROLES.PLAYER,
+              joinedAt: new Date(message.createdAt),
+            },
+          ]);
+          break;
+        case "member_left":
+        case "member_removed":
+        case "member_banned":
+          setMembers((prev) => prev.filter((member) => member.userId !== event.userId));
+          break;
+        case "ownership_transferred":
+          setMembers((prev) =>
+            prev.map((member) =>
+              member.userId === event.newOwnerId
+                ? { ...member, role: ROOM_ROLES.OWNER }
+                : member.userId === event.previousOwnerId
+                  ? { ...member, role: ROOM_ROLES.GAME_MASTER }
+                  : member,
+            ),
+          );
+          break;
+        case "member_role_changed":
+          setMembers((prev) =>
+            prev.map((member) =>
+              member.userId === event.userId ? { ...member, role: event.role } : member,
+            ),
+          );
+          break;
       }
     };
 
+    // Everyone online, sent when this connection joins the room
+    const handlePresenceSnapshot = (data: { roomId: string; userIds: string[] }) => {
+      if (data.roomId !== roomId) return;
+
+      const online = new Set(data.userIds);
+      setOnlineUserIds(online);
+      setMembers((prev) =>
+        prev.map((member) => ({ ...member, isOnline: online.has(member.userId) })),
+      );
+    };
+
+    const handlePresenceUpdate = (data: {
+      roomId: string;
+      userId: string;
+      status: "online" | "offline";
+      lastSeenAt?: string;
+    }) => {
+      if (data.roomId !== roomId) return;
+
+      const isOnline = data.status === "online";
+      setOnlineUserIds((prev) => {
+        const next = new Set(prev);
+        if (isOnline) {
+          next.add(data.userId);
+        } else {
+          next.delete(data.userId);
+        }
+        return next;
+      });
+      setMembers((prev) =>
+        prev.map((member) =>
+          member.userId === data.userId
+            ? {
+                ...member,
+                isOnline,
+                lastSeenAt: data.lastSeenAt ? new Date(data.lastSeenAt) : member.lastSeenAt,
+              }
+            : member,
+        ),
+      );
+    };
+
     // Subscribe to events
     wsClient.current.on(WEBSOCKET_EVENTS.ROOM_MEMBER_COUNT_UPDATED, handleMemberCountUpdate);
-    wsClient.current.on(WEBSOCKET_EVENTS.USER_JOINED, handleUserJoined);
-    wsClient.current.on(WEBSOCKET_EVENTS.USER_LEFT, handleUserLeft);
+    wsClient.current.on(WEBSOCKET_EVENTS.ROOM_VIEWER_COUNT_UPDATED, handleViewerCountUpdate);
+    wsClient.current.on(WEBSOCKET_EVENTS.MESSAGE_NEW, handleSystemMessage);
+    wsClient.current.on(WEBSOCKET_EVENTS.PRESENCE_SNAPSHOT, handlePresenceSnapshot);
+    wsClient.current.on(WEBSOCKET_EVENTS.PRESENCE_UPDATE, handlePresenceUpdate);
 
     // Cleanup on unmount
     return () => {
       wsClient.current.off(WEBSOCKET_EVENTS.ROOM_MEMBER_COUNT_UPDATED, handleMemberCountUpdate);
-      wsClient.current.off(WEBSOCKET_EVENTS.USER_JOINED, handleUserJoined);
-      wsClient.current.off(WEBSOCKET_EVENTS.USER_LEFT, handleUserLeft);
+      wsClient.current.off(WEBSOCKET_EVENTS.ROOM_VIEWER_COUNT_UPDATED, handleViewerCountUpdate);
+      wsClient.current.off(WEBSOCKET_EVENTS.MESSAGE_NEW, handleSystemMessage);
+      wsClient.current.off(WEBSOCKET_EVENTS.PRESENCE_SNAPSHOT, handlePresenceSnapshot);
+      wsClient.current.off(WEBSOCKET_EVENTS.PRESENCE_UPDATE, handlePresenceUpdate);
     };
   }, [roomId, autoSubscribe]);
 
   return {
     memberCount,
+    viewerCount,
     members,
+    onlineUserIds,
     loading,
     error,
     isMember,
@@ -1,6 +1,20 @@
 import { WEBSOCKET_EVENTS } from "@rpgate/shared/constants";
-import type { WebSocketUser } from "@rpgate/shared/types";
-import { useEffect, useRef, useState } from "react";
+import type { MessageWithAuthor, StartCombatInput } from "@rpgate/shared/schemas";
+import type {
+  CombatEndedEvent,
+  CombatStartedEvent,
+  CombatUpdatedEvent,
+  GmStreamDeltaEvent,
+  GmStreamEndEvent,
+  GmStreamErrorEvent,
+  GmStreamStartEvent,
+  MessageDeletedEvent,
+  ReactionAddedEvent,
+  ReactionRemovedEvent,
+  RoomSyncEvent,
+  WebSocketUser,
+} from "@rpgate/shared/types";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { getWebSocketClient } from "../lib/websocket";
 
 interface UseWebSocketOptions {
@@ -14,17 +28,7 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
   const [error, setError] = useState<string | null>(null);
   const wsClient = useRef(getWebSocketClient());
 
-  useEffect(() => {
-    if (autoConnect && user) {
-      connect();
-    }
-
-    return () => {
-      disconnect();
-    };
-  }, [autoConnect, user]);
-
-  const connect = async () => {
+  const connect = useCallback(async () => {
     if (!user) {
       setError("User is required to connect");
       return;
@@ -38,63 +42,176 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
       setError(err instanceof Error ? err.message : "Connection failed");
       setIsConnected(false);
     }
-  };
+  }, [user]);
 
-  const disconnect = () => {
+  const disconnect = useCallback(() => {
     wsClient.current.disconnect();
     setIsConnected(false);
-  };
+  }, []);
 
-  const sendMessage = (roomId: string, content: string) => {
-    wsClient.current.sendMessage(roomId, content);
-  };
+  useEffect(() => {
+    if (autoConnect && user) {
+      connect();
+    }
+
+    return () => {
+      disconnect();
+    };
+  }, [autoConnect, user, connect, disconnect]);
+
+  const sendMessage = useCallback(
+    (roomId: string, content: string, kind?: "ic" | "ooc", replyToId?: string) => {
+      return wsClient.current.sendMessage(roomId, content, kind, replyToId);
+    },
+    [],
+  );
 
-  const joinRoom = (roomId: string) => {
+  const sendWhisper = useCallback((roomId: string, content: string, recipientIds: string[]) => {
+    return wsClient.current.sendWhisper(roomId, content, recipientIds);
+  }, []);
+
+  const editMessage = useCallback((roomId: string, messageId: string, content: string) => {
+    wsClient.current.editMessage(roomId, messageId, content);
+  }, []);
+
+  const deleteMessage = useCallback((roomId: string, messageId: string) => {
+    wsClient.current.deleteMessage(roomId, messageId);
+  }, []);
+
+  const addReaction = useCallback((roomId: string, messageId: string, emoji: string) => {
+    wsClient.current.addReaction(roomId, messageId, emoji);
+  }, []);
+
+  const removeReaction = useCallback((roomId: string, messageId: string, emoji: string) => {
+    wsClient.current.removeReaction(roomId, messageId, emoji);
+  }, []);
+
+  const joinRoom = useCallback((roomId: string) => {
     wsClient.current.joinRoom(roomId);
-  };
+  }, []);
 
-  const leaveRoom = (roomId: string) => {
+  const leaveRoom = useCallback((roomId: string) => {
     wsClient.current.leaveRoom(roomId);
-  };
+  }, []);
+
+  const rollDice = useCallback((roomId: string, expression: string) => {
+    wsClient.current.rollDice(roomId, expression);
+  }, []);
+
+  const startCombat = useCallback((input: StartCombatInput) => {
+    wsClient.current.startCombat(input);
+  }, []);
+
+  const nextTurn = useCallback((roomId: string) => {
+    wsClient.current.nextTurn(roomId);
+  }, []);
+
+  const endCombat = useCallback((roomId: string) => {
+    wsClient.current.endCombat(roomId);
+  }, []);
 
-  const startTyping = (roomId: string) => {
+  const startTyping = useCallback((roomId: string) => {
     wsClient.current.startTyping(roomId);
-  };
+  }, []);
 
-  const stopTyping = (roomId: string) => {
+  const stopTyping = useCallback((roomId: string) => {
     wsClient.current.stopTyping(roomId);
-  };
+  }, []);
 
   // Event subscription helpers
-  const onMessage = (callback: (message: any) => void) => {
+  const onMessage = useCallback((callback: (message: MessageWithAuthor) => void) => {
     wsClient.current.on(WEBSOCKET_EVENTS.MESSAGE_NEW, callback);
     return () => wsClient.current.off(WEBSOCKET_EVENTS.MESSAGE_NEW, callback);
-  };
-
-  const onUserJoined = (callback: (data: any) => void) => {
+  }, []);
+
+  const onMessageUpdated = useCallback((callback: (message: MessageWithAuthor) => void) => {
+    wsClient.current.on(WEBSOCKET_EVENTS.MESSAGE_UPDATED, callback);
+    return () => wsClient.current.off(WEBSOCKET_EVENTS.MESSAGE_UPDATED, callback);
+  }, []);
+
+  const onMessageDeleted = useCallback((callback: (data: MessageDeletedEvent["data"]) => void) => {
+    wsClient.current.on(WEBSOCKET_EVENTS.MESSAGE_DELETED, callback);
+    return () => wsClient.current.off(WEBSOCKET_EVENTS.MESSAGE_DELETED, callback);
+  }, []);
+
+  const onReactionAdded = useCallback((callback: (data: ReactionAddedEvent["data"]) => void) => {
+    wsClient.current.on(WEBSOCKET_EVENTS.REACTION_ADDED, callback);
+    return () => wsClient.current.off(WEBSOCKET_EVENTS.REACTION_ADDED, callback);
+  }, []);
+
+  const onReactionRemoved = useCallback(
+    (callback: (data: ReactionRemovedEvent["data"]) => void) => {
+      wsClient.current.on(WEBSOCKET_EVENTS.REACTION_REMOVED, callback);
+      return () => wsClient.current.off(WEBSOCKET_EVENTS.REACTION_REMOVED, callback);
+    },
+    [],
+  );
+
+  const onUserJoined = useCallback((callback: (data: any) => void) => {
     wsClient.current.on(WEBSOCKET_EVENTS.USER_JOINED, callback);
     return () => wsClient.current.off(WEBSOCKET_EVENTS.USER_JOINED, callback);
-  };
+  }, []);
 
-  const onUserLeft = (callback: (data: any) => void) => {
+  const onUserLeft = useCallback((callback: (data: any) => void) => {
     wsClient.current.on(WEBSOCKET_EVENTS.USER_LEFT, callback);
     return () => wsClient.current.off(WEBSOCKET_EVENTS.USER_LEFT, callback);
-  };
+  }, []);
 
-  const onTypingStart = (callback: (data: any) => void) => {
+  const onTypingStart = useCallback((callback: (data: any) => void) => {
     wsClient.current.on(WEBSOCKET_EVENTS.TYPING_START, callback);
     return () => wsClient.current.off(WEBSOCKET_EVENTS.TYPING_START, callback);
-  };
+  }, []);
 
-  const onTypingStop = (callback: (data: any) => void) => {
+  const onTypingStop = useCallback((callback: (data: any) => void) => {
     wsClient.current.on(WEBSOCKET_EVENTS.TYPING_STOP, callback);
     return () => wsClient.current.off(WEBSOCKET_EVENTS.TYPING_STOP, callback);
-  };
-
-  const onError = (callback: (error: any) => void) => {
+  }, []);
+
+  const onGmStreamStart = useCallback((callback: (data: GmStreamStartEvent["data"]) => void) => {
+    wsClient.current.on(WEBSOCKET_EVENTS.GM_STREAM_START, callback);
+    return () => wsClient.current.off(WEBSOCKET_EVENTS.GM_STREAM_START, callback);
+  }, []);
+
+  const onGmStreamDelta = useCallback((callback: (data: GmStreamDeltaEvent["data"]) => void) => {
+    wsClient.current.on(WEBSOCKET_EVENTS.GM_STREAM_DELTA, callback);
+    return () => wsClient.current.off(WEBSOCKET_EVENTS.GM_STREAM_DELTA, callback);
+  }, []);
+
+  const onGmStreamEnd = useCallback((callback: (data: GmStreamEndEvent["data"]) => void) => {
+    wsClient.current.on(WEBSOCKET_EVENTS.GM_STREAM_END, callback);
+    return () => wsClient.current.off(WEBSOCKET_EVENTS.GM_STREAM_END, callback);
+  }, []);
+
+  const onGmStreamError = useCallback((callback: (data: GmStreamErrorEvent["data"]) => void) => {
+    wsClient.current.on(WEBSOCKET_EVENTS.GM_STREAM_ERROR, callback);
+    return () => wsClient.current.off(WEBSOCKET_EVENTS.GM_STREAM_ERROR, callback);
+  }, []);
+
+  // Fires on every (re)join; refetch means missed events were lost and history must be reloaded
+  const onRoomSync = useCallback((callback: (data: RoomSyncEvent["data"]) => void) => {
+    wsClient.current.on(WEBSOCKET_EVENTS.ROOM_SYNC, callback);
+    return () => wsClient.current.off(WEBSOCKET_EVENTS.ROOM_SYNC, callback);
+  }, []);
+
+  const onCombatStarted = useCallback((callback: (data: CombatStartedEvent["data"]) => void) => {
+    wsClient.current.on(WEBSOCKET_EVENTS.COMBAT_STARTED, callback);
+    return () => wsClient.current.off(WEBSOCKET_EVENTS.COMBAT_STARTED, callback);
+  }, []);
+
+  const onCombatUpdated = useCallback((callback: (data: CombatUpdatedEvent["data"]) => void) => {
+    wsClient.current.on(WEBSOCKET_EVENTS.COMBAT_UPDATED, callback);
+    return () => wsClient.current.off(WEBSOCKET_EVENTS.COMBAT_UPDATED, callback);
+  }, []);
+
+  const onCombatEnded = useCallback((callback: (data: CombatEndedEvent["data"]) => void) => {
+    wsClient.current.on(WEBSOCKET_EVENTS.COMBAT_ENDED, callback);
+    return () => wsClient.current.off(WEBSOCKET_EVENTS.COMBAT_ENDED, callback);
+  }, []);
+
+  const onError = useCallback((callback: (error: any) => void) => {
     wsClient.current.on(WEBSOCKET_EVENTS.ERROR, callback);
     return () => wsClient.current.off(WEBSOCKET_EVENTS.ERROR, callback);
-  };
+  }, []);
 
   return {
     isConnected,
@@ -102,15 +219,36 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     connect,
     disconnect,
     sendMessage,
+    sendWhisper,
+    editMessage,
+    deleteMessage,
+    addReaction,
+    removeReaction,
     joinRoom,
     leaveRoom,
+    rollDice,
+    startCombat,
+    nextTurn,
+    endCombat,
     startTyping,
     stopTyping,
     onMessage,
+    onMessageUpdated,
+    onMessageDeleted,
+    onReactionAdded,
+    onReactionRemoved,
     onUserJoined,
     onUserLeft,
     onTypingStart,
     onTypingStop,
+    onGmStreamStart,
+    onGmStreamDelta,
+    onGmStreamEnd,
+    onGmStreamError,
+    onRoomSync,
+    onCombatStarted,
+    onCombatUpdated,
+    onCombatEnded,
     onError,
   };
 }
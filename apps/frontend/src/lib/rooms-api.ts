@@ -1,11 +1,14 @@
 import type {
+  ChangeMemberRoleInput,
   CreateRoomInput,
   GenerateInviteInput,
+  MessageWithReactions,
   PaginationInput,
   Room,
+  RoomRole,
   UpdateRoomInput,
 } from "@rpgate/shared/schemas";
-import type { ApiResponse, PaginatedResponse } from "@rpgate/shared/types";
+import type { ApiResponse, PaginatedResponse, RoomAiUsage } from "@rpgate/shared/types";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
@@ -16,8 +19,11 @@ const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
 export interface RoomWithStats extends Room {
   memberCount?: number;
+  // Spectators following the room without being members
+  viewerCount?: number;
   isOwner?: boolean;
   isMember?: boolean;
+  role?: RoomRole | null;
   lastActivityAt?: Date | null;
   maxMembers?: number;
 }
@@ -297,3 +303,77 @@ export async function joinRoomViaInvite(token: string): Promise<Room> {
 
   return data.data.room;
 }
+
+/**
+ * Change a room member's role (owner only)
+ */
+export async function changeMemberRole(
+  roomId: string,
+  userId: string,
+  role: ChangeMemberRoleInput["role"],
+): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/api/v1/rooms/${roomId}/members/${userId}`, {
+    method: "PATCH",
+    credentials: "include",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ role }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || "Ошибка изменения роли участника");
+  }
+}
+
+/**
+ * Fetch the room's AI token usage (owner or GM)
+ */
+export async function fetchRoomAiUsage(roomId: string): Promise<RoomAiUsage> {
+  const response = await fetch(`${API_BASE_URL}/api/v1/rooms/${roomId}/ai-usage`, {
+    method: "GET",
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || "Ошибка загрузки использования ИИ");
+  }
+
+  const data: ApiResponse<{ usage: RoomAiUsage }> = await response.json();
+
+  if (!data.success || !data.data) {
+    throw new Error("Неверный формат ответа сервера");
+  }
+
+  return data.data.usage;
+}
+
+/**
+ * Fetch the latest page of room history, newest first (members only)
+ */
+export async function fetchRoomMessages(
+  roomId: string,
+  limit = 50,
+): Promise<MessageWithReactions[]> {
+  const queryParams = new URLSearchParams({ limit: limit.toString() });
+
+  const response = await fetch(`${API_BASE_URL}/api/v1/rooms/${roomId}/messages?${queryParams}`, {
+    method: "GET",
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || "Ошибка загрузки сообщений");
+  }
+
+  const data: ApiResponse<MessageWithReactions[]> = await response.json();
+
+  if (!data.success || !data.data) {
+    throw new Error("Неверный формат ответа сервера");
+  }
+
+  return data.data;
+}
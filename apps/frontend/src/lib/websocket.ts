@@ -1,18 +1,62 @@
-import { WEBSOCKET_EVENTS } from "@rpgate/shared/constants";
+import {
+  WEBSOCKET_CLOSE_CODES,
+  WEBSOCKET_EVENTS,
+  WEBSOCKET_PROTOCOL,
+} from "@rpgate/shared/constants";
+import type { StartCombatInput } from "@rpgate/shared/schemas";
 import type {
   ClientToServerMessage,
+  NackEvent,
   ServerToClientMessage,
+  WebSocketErrorCode,
   WebSocketUser,
 } from "@rpgate/shared/types";
 
+// How long to wait for the server to ack or nack an event
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Reconnect delays double per failed attempt up to the cap, randomized so clients dropped
+// together do not all come back at once
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+/**
+ * Why the server did not accept an event sent with sendRequest. code is the server's
+ * error code, or "TIMEOUT" / "DISCONNECTED" when no answer arrived.
+ */
+export class WebSocketRequestError extends Error {
+  constructor(
+    message: string,
+    public code: WebSocketErrorCode | "TIMEOUT" | "DISCONNECTED",
+    public retryAfter?: number,
+  ) {
+    super(message);
+    this.name = "WebSocketRequestError";
+  }
+}
+
+interface PendingRequest {
+  resolve: () => void;
+  reject: (error: WebSocketRequestError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
 export class WebSocketClient {
   private ws: WebSocket | null = null;
   private url: string;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private listeners: Map<string, Set<(data: any) => void>> = new Map();
   private user: WebSocketUser | null = null;
+  // GM replies currently streaming, so they can be failed if the connection drops
+  private activeGmStreams = new Map<string, string>();
+  // Events awaiting an ack or nack, by requestId
+  private pendingRequests = new Map<string, PendingRequest>();
+  private requestCounter = 0;
+  // Version the server agreed to speak, once connected
+  private protocolVersion: number | null = null;
+  // Rooms to rejoin after a reconnect, with the seq of the last event seen in each
+  private joinedRooms = new Map<string, number | undefined>();
 
   constructor(url: string) {
     this.url = url;
@@ -22,11 +66,15 @@ export class WebSocketClient {
     return new Promise((resolve, reject) => {
       try {
         this.user = user;
-        this.ws = new WebSocket(this.url);
+        this.ws = new WebSocket(`${this.url}?v=${WEBSOCKET_PROTOCOL.VERSION}`);
 
         this.ws.onopen = () => {
           console.log("WebSocket connected");
           this.reconnectAttempts = 0;
+          // The server forgets a connection's rooms; rejoin them and replay what was missed
+          for (const roomId of this.joinedRooms.keys()) {
+            this.sendRoomJoin(roomId);
+          }
           resolve();
         };
 
@@ -39,8 +87,27 @@ export class WebSocketClient {
           }
         };
 
-        this.ws.onclose = () => {
+        this.ws.onclose = (event) => {
           console.log("WebSocket disconnected");
+          this.protocolVersion = null;
+          this.failActiveGmStreams();
+          this.failPendingRequests();
+
+          // This client is too old for the server; reconnecting would be rejected again
+          if (event.code === WEBSOCKET_CLOSE_CODES.UNSUPPORTED_PROTOCOL) {
+            console.error("WebSocket protocol version not supported:", event.reason);
+            return;
+          }
+
+          // Reconnecting cannot succeed until the user logs in again
+          if (
+            event.code === WEBSOCKET_CLOSE_CODES.UNAUTHORIZED ||
+            event.code === WEBSOCKET_CLOSE_CODES.SESSION_ENDED
+          ) {
+            this.user = null;
+            return;
+          }
+
           this.attemptReconnect();
         };
 
@@ -55,32 +122,151 @@ export class WebSocketClient {
   }
 
   disconnect() {
+    // Closing on purpose, so the close must not trigger a reconnect
+    this.user = null;
+    this.joinedRooms.clear();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
   }
 
+  // Keeps retrying for as long as the page is open, with exponential backoff and jitter
   private attemptReconnect() {
-    if (this.reconnectAttempts < this.maxReconnectAttempts && this.user) {
-      this.reconnectAttempts++;
-      console.log(
-        `Attempting to reconnect... (${this.reconnectAttempts}/${this.maxReconnectAttempts})`,
-      );
+    if (!this.user || this.reconnectTimer) return;
 
-      setTimeout(() => {
-        this.connect(this.user!);
-      }, this.reconnectDelay * this.reconnectAttempts);
-    }
+    const ceiling = Math.min(
+      RECONNECT_MAX_DELAY_MS,
+      RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts,
+    );
+    const delay = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+    this.reconnectAttempts++;
+    console.log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.user) return;
+
+      // A failed attempt closes the socket, which schedules the next one
+      this.connect(this.user).catch((error) => {
+        console.warn("Reconnect attempt failed:", error);
+      });
+    }, delay);
   }
 
   private handleMessage(message: ServerToClientMessage) {
+    switch (message.type) {
+      case WEBSOCKET_EVENTS.CONNECTION_READY:
+        this.protocolVersion = message.data.protocolVersion;
+        break;
+      case WEBSOCKET_EVENTS.ACK:
+        this.settleRequest(message.data.requestId);
+        break;
+      case WEBSOCKET_EVENTS.NACK:
+        this.settleRequest(message.data.requestId, message.data);
+        break;
+      case WEBSOCKET_EVENTS.GM_STREAM_START:
+        this.activeGmStreams.set(message.data.messageId, message.data.roomId);
+        break;
+      case WEBSOCKET_EVENTS.GM_STREAM_END:
+      case WEBSOCKET_EVENTS.GM_STREAM_ERROR:
+        this.activeGmStreams.delete(message.data.messageId);
+        break;
+      case WEBSOCKET_EVENTS.ROOM_SYNC:
+        // The server's position is authoritative, even when lower than the one we had
+        if (this.joinedRooms.has(message.data.roomId)) {
+          this.joinedRooms.set(message.data.roomId, message.data.seq);
+        }
+        break;
+      case WEBSOCKET_EVENTS.ROOM_ACCESS_REVOKED:
+        this.joinedRooms.delete(message.data.roomId);
+        break;
+    }
+
+    const roomId = "roomId" in message.data ? message.data.roomId : undefined;
+    if (message.seq !== undefined && roomId) {
+      this.trackRoomSeq(roomId, message.seq);
+    }
+
     const listeners = this.listeners.get(message.type);
     if (listeners) {
       listeners.forEach((listener) => listener(message.data));
     }
   }
 
+  private trackRoomSeq(roomId: string, seq: number) {
+    if (!this.joinedRooms.has(roomId)) return;
+
+    const lastSeq = this.joinedRooms.get(roomId);
+    if (lastSeq === undefined || seq > lastSeq) {
+      this.joinedRooms.set(roomId, seq);
+    }
+  }
+
+  // A stream cut off by a disconnect never gets its end event; report it as failed instead
+  private failActiveGmStreams() {
+    for (const [messageId, roomId] of this.activeGmStreams) {
+      this.handleMessage({
+        type: WEBSOCKET_EVENTS.GM_STREAM_ERROR,
+        data: { messageId, roomId, error: "Connection lost" },
+      });
+    }
+  }
+
+  private settleRequest(requestId: string, nack?: NackEvent["data"]) {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pendingRequests.delete(requestId);
+    if (nack) {
+      pending.reject(new WebSocketRequestError(nack.message, nack.code, nack.retryAfter));
+    } else {
+      pending.resolve();
+    }
+  }
+
+  // Answers to events sent on a dropped connection never arrive
+  private failPendingRequests() {
+    for (const [requestId, pending] of this.pendingRequests) {
+      clearTimeout(pending.timer);
+      pending.reject(new WebSocketRequestError("Connection lost", "DISCONNECTED"));
+      this.pendingRequests.delete(requestId);
+    }
+  }
+
+  getProtocolVersion(): number | null {
+    return this.protocolVersion;
+  }
+
+  /**
+   * Send an event and wait until the server acks it; rejects with a WebSocketRequestError
+   * when it is nacked, times out, or cannot be sent
+   */
+  sendRequest(message: ClientToServerMessage): Promise<void> {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(
+        new WebSocketRequestError("WebSocket is not connected", "DISCONNECTED"),
+      );
+    }
+
+    const requestId = `req_${Date.now()}_${++this.requestCounter}`;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        reject(new WebSocketRequestError("No response from server", "TIMEOUT"));
+      }, REQUEST_TIMEOUT_MS);
+
+      this.pendingRequests.set(requestId, { resolve, reject, timer });
+      this.send({ ...message, requestId });
+    });
+  }
+
   send(message: ClientToServerMessage) {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(message));
@@ -105,27 +291,106 @@ export class WebSocketClient {
   }
 
   // Convenience methods
-  sendMessage(roomId: string, content: string) {
-    this.send({
+  // Resolves once the server stored the message
+  sendMessage(
+    roomId: string,
+    content: string,
+    kind?: "ic" | "ooc",
+    replyToId?: string,
+  ): Promise<void> {
+    return this.sendRequest({
+      type: WEBSOCKET_EVENTS.MESSAGE_SEND,
+      data: { roomId, content, kind, replyToId },
+    });
+  }
+
+  // Only the recipients (and the sender) receive a whisper
+  sendWhisper(roomId: string, content: string, recipientIds: string[]): Promise<void> {
+    return this.sendRequest({
       type: WEBSOCKET_EVENTS.MESSAGE_SEND,
-      data: { roomId, content },
+      data: { roomId, content, kind: "whisper", recipientIds },
+    });
+  }
+
+  editMessage(roomId: string, messageId: string, content: string) {
+    this.send({
+      type: WEBSOCKET_EVENTS.MESSAGE_EDIT,
+      data: { roomId, messageId, content },
+    });
+  }
+
+  deleteMessage(roomId: string, messageId: string) {
+    this.send({
+      type: WEBSOCKET_EVENTS.MESSAGE_DELETE,
+      data: { roomId, messageId },
+    });
+  }
+
+  addReaction(roomId: string, messageId: string, emoji: string) {
+    this.send({
+      type: WEBSOCKET_EVENTS.REACTION_ADD,
+      data: { roomId, messageId, emoji },
+    });
+  }
+
+  removeReaction(roomId: string, messageId: string, emoji: string) {
+    this.send({
+      type: WEBSOCKET_EVENTS.REACTION_REMOVE,
+      data: { roomId, messageId, emoji },
     });
   }
 
+  // The room is rejoined automatically after every reconnect until it is left
   joinRoom(roomId: string) {
+    if (!this.joinedRooms.has(roomId)) {
+      this.joinedRooms.set(roomId, undefined);
+    }
+    this.sendRoomJoin(roomId);
+  }
+
+  private sendRoomJoin(roomId: string) {
     this.send({
       type: WEBSOCKET_EVENTS.ROOM_JOIN,
-      data: { roomId },
+      data: { roomId, sinceSeq: this.joinedRooms.get(roomId) },
     });
   }
 
   leaveRoom(roomId: string) {
+    this.joinedRooms.delete(roomId);
     this.send({
       type: WEBSOCKET_EVENTS.ROOM_LEAVE,
       data: { roomId },
     });
   }
 
+  rollDice(roomId: string, expression: string) {
+    this.send({
+      type: WEBSOCKET_EVENTS.DICE_ROLL,
+      data: { roomId, expression },
+    });
+  }
+
+  startCombat(input: StartCombatInput) {
+    this.send({
+      type: WEBSOCKET_EVENTS.COMBAT_START,
+      data: input,
+    });
+  }
+
+  nextTurn(roomId: string) {
+    this.send({
+      type: WEBSOCKET_EVENTS.COMBAT_NEXT_TURN,
+      data: { roomId },
+    });
+  }
+
+  endCombat(roomId: string) {
+    this.send({
+      type: WEBSOCKET_EVENTS.COMBAT_END,
+      data: { roomId },
+    });
+  }
+
   startTyping(roomId: string) {
     this.send({
       type: WEBSOCKET_EVENTS.TYPING_START,
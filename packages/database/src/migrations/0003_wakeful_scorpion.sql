@@ -0,0 +1 @@
+CREATE INDEX "messages_room_id_created_at_idx" ON "messages" USING btree ("room_id","created_at");
\ No newline at end of file
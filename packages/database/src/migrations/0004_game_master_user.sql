@@ -0,0 +1,5 @@
+-- Reserved system user that authors AI Game Master messages (see GAME_MASTER in @rpgate/shared).
+-- The password hash is not a valid bcrypt hash, so the account can never log in.
+INSERT INTO "users" ("id", "username", "email", "password_hash")
+VALUES ('00000000-0000-0000-0000-000000000001', 'GM', 'gm@rpgate.local', '!')
+ON CONFLICT ("id") DO NOTHING;
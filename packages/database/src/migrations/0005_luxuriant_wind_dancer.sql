@@ -0,0 +1,4 @@
+ALTER TABLE "messages" ADD COLUMN "kind" varchar(20) DEFAULT 'ic' NOT NULL;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "payload" jsonb;--> statement-breakpoint
+-- Existing Game Master replies become GM narration
+UPDATE "messages" SET "kind" = 'gm' WHERE "user_id" = '00000000-0000-0000-0000-000000000001';
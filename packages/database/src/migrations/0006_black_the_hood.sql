@@ -0,0 +1,24 @@
+CREATE TABLE "characters" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"room_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"class" varchar(50) NOT NULL,
+	"level" integer DEFAULT 1 NOT NULL,
+	"ability_scores" jsonb NOT NULL,
+	"current_hp" integer NOT NULL,
+	"max_hp" integer NOT NULL,
+	"armor_class" integer DEFAULT 10 NOT NULL,
+	"proficiencies" jsonb NOT NULL,
+	"notes" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "character_id" uuid;--> statement-breakpoint
+ALTER TABLE "room_members" ADD COLUMN "active_character_id" uuid;--> statement-breakpoint
+ALTER TABLE "characters" ADD CONSTRAINT "characters_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "characters" ADD CONSTRAINT "characters_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "characters_room_id_user_id_idx" ON "characters" USING btree ("room_id","user_id");--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_character_id_characters_id_fk" FOREIGN KEY ("character_id") REFERENCES "public"."characters"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_members" ADD CONSTRAINT "room_members_active_character_id_characters_id_fk" FOREIGN KEY ("active_character_id") REFERENCES "public"."characters"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "combat_encounters" (
+	"id" uuid PRIMARY KEY NOT NULL,
+	"room_id" uuid NOT NULL,
+	"started_by" uuid NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"round" integer NOT NULL,
+	"state" jsonb NOT NULL,
+	"started_at" timestamp with time zone NOT NULL,
+	"ended_at" timestamp with time zone,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "combat_encounters" ADD CONSTRAINT "combat_encounters_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "combat_encounters" ADD CONSTRAINT "combat_encounters_started_by_users_id_fk" FOREIGN KEY ("started_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "combat_encounters_room_id_status_idx" ON "combat_encounters" USING btree ("room_id","status");
\ No newline at end of file
@@ -0,0 +1,15 @@
+-- pgvector ships with the pgvector/pgvector Postgres image used in docker-compose
+CREATE EXTENSION IF NOT EXISTS vector;
+--> statement-breakpoint
+CREATE TABLE "message_embeddings" (
+	"message_id" uuid PRIMARY KEY NOT NULL,
+	"room_id" uuid NOT NULL,
+	"embedding" vector(1536) NOT NULL,
+	"model" varchar(100) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "message_embeddings" ADD CONSTRAINT "message_embeddings_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_embeddings" ADD CONSTRAINT "message_embeddings_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "message_embeddings_room_id_model_idx" ON "message_embeddings" USING btree ("room_id","model");--> statement-breakpoint
+CREATE INDEX "message_embeddings_embedding_idx" ON "message_embeddings" USING hnsw ("embedding" vector_cosine_ops);
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "session_summaries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"room_id" uuid NOT NULL,
+	"content" text NOT NULL,
+	"from_message_id" uuid,
+	"to_message_id" uuid,
+	"from_created_at" timestamp with time zone NOT NULL,
+	"to_created_at" timestamp with time zone NOT NULL,
+	"message_count" integer NOT NULL,
+	"edited_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "session_summaries" ADD CONSTRAINT "session_summaries_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_summaries" ADD CONSTRAINT "session_summaries_from_message_id_messages_id_fk" FOREIGN KEY ("from_message_id") REFERENCES "public"."messages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_summaries" ADD CONSTRAINT "session_summaries_to_message_id_messages_id_fk" FOREIGN KEY ("to_message_id") REFERENCES "public"."messages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_summaries" ADD CONSTRAINT "session_summaries_edited_by_users_id_fk" FOREIGN KEY ("edited_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "session_summaries_room_id_to_created_at_idx" ON "session_summaries" USING btree ("room_id","to_created_at");
\ No newline at end of file
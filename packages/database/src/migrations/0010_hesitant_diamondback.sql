@@ -0,0 +1,11 @@
+CREATE TABLE "room_ai_usage" (
+	"room_id" uuid NOT NULL,
+	"day" date NOT NULL,
+	"prompt_tokens" integer DEFAULT 0 NOT NULL,
+	"completion_tokens" integer DEFAULT 0 NOT NULL,
+	"requests" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "room_ai_usage_room_id_day_pk" PRIMARY KEY("room_id","day")
+);
+--> statement-breakpoint
+ALTER TABLE "room_ai_usage" ADD CONSTRAINT "room_ai_usage_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
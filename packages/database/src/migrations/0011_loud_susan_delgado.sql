@@ -0,0 +1 @@
+ALTER TABLE "characters" ADD COLUMN "inventory" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
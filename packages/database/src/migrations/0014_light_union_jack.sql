@@ -0,0 +1,3 @@
+ALTER TABLE "room_members" ALTER COLUMN "role" SET DEFAULT 'player';--> statement-breakpoint
+-- Members from before room roles existed become players
+UPDATE "room_members" SET "role" = 'player' WHERE "role" = 'member';
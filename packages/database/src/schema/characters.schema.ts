@@ -0,0 +1,48 @@
+import type { AbilityScores, InventoryItem, Proficiencies } from "@rpgate/shared";
+import {
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { rooms } from "./rooms.schema";
+import { users } from "./users.schema";
+
+/**
+ * Characters table schema
+ * A player's character sheet in a room; the active one is chosen in room_members
+ */
+export const characters = pgTable(
+  "characters",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    roomId: uuid("room_id")
+      .notNull()
+      .references(() => rooms.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    characterClass: varchar("class", { length: 50 }).notNull(),
+    level: integer("level").notNull().default(1),
+    abilityScores: jsonb("ability_scores").$type<AbilityScores>().notNull(),
+    currentHp: integer("current_hp").notNull(),
+    maxHp: integer("max_hp").notNull(),
+    armorClass: integer("armor_class").notNull().default(10),
+    proficiencies: jsonb("proficiencies").$type<Proficiencies>().notNull(),
+    inventory: jsonb("inventory").$type<InventoryItem[]>().notNull().default([]),
+    notes: text("notes"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    roomUserIdx: index("characters_room_id_user_id_idx").on(table.roomId, table.userId),
+  }),
+);
+
+export type Character = typeof characters.$inferSelect;
+export type NewCharacter = typeof characters.$inferInsert;
@@ -0,0 +1,33 @@
+import type { CombatState } from "@rpgate/shared";
+import { index, integer, jsonb, pgTable, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
+import { rooms } from "./rooms.schema";
+import { users } from "./users.schema";
+
+/**
+ * Combat encounters table schema
+ * Live combat state is kept in Redis; this is its durable snapshot
+ */
+export const combatEncounters = pgTable(
+  "combat_encounters",
+  {
+    id: uuid("id").primaryKey(),
+    roomId: uuid("room_id")
+      .notNull()
+      .references(() => rooms.id, { onDelete: "cascade" }),
+    startedBy: uuid("started_by")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    status: varchar("status", { length: 20 }).$type<CombatState["status"]>().notNull(),
+    round: integer("round").notNull(),
+    state: jsonb("state").$type<CombatState>().notNull(),
+    startedAt: timestamp("started_at", { withTimezone: true }).notNull(),
+    endedAt: timestamp("ended_at", { withTimezone: true }),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    roomStatusIdx: index("combat_encounters_room_id_status_idx").on(table.roomId, table.status),
+  }),
+);
+
+export type CombatEncounter = typeof combatEncounters.$inferSelect;
+export type NewCombatEncounter = typeof combatEncounters.$inferInsert;
@@ -6,3 +6,11 @@ export * from "./users.schema";
 export * from "./rooms.schema";
 export * from "./messages.schema";
 export * from "./room-members.schema";
+export * from "./characters.schema";
+export * from "./combat-encounters.schema";
+export * from "./message-embeddings.schema";
+export * from "./session-summaries.schema";
+export * from "./room-ai-usage.schema";
+export * from "./message-edits.schema";
+export * from "./message-reactions.schema";
+export * from "./room-bans.schema";
@@ -0,0 +1,31 @@
+import { index, pgTable, text, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
+import { messages } from "./messages.schema";
+import { users } from "./users.schema";
+
+/**
+ * Message edits table schema
+ * Audit trail of edits and deletions; each row keeps the content as it was before the change
+ */
+export const messageEdits = pgTable(
+  "message_edits",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    messageId: uuid("message_id")
+      .notNull()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    // "edit" by the author, or "delete" by the author or the room owner
+    action: varchar("action", { length: 10 }).$type<"edit" | "delete">().notNull(),
+    previousContent: text("previous_content").notNull(),
+    changedBy: uuid("changed_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    messageCreatedAtIdx: index("message_edits_message_id_created_at_idx").on(
+      table.messageId,
+      table.createdAt,
+    ),
+  }),
+);
+
+export type MessageEdit = typeof messageEdits.$inferSelect;
+export type NewMessageEdit = typeof messageEdits.$inferInsert;
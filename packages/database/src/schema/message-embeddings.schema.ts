@@ -0,0 +1,39 @@
+import { index, pgTable, timestamp, uuid, varchar, vector } from "drizzle-orm/pg-core";
+import { messages } from "./messages.schema";
+import { rooms } from "./rooms.schema";
+
+/**
+ * Dimensions of every stored embedding; embedding providers must produce vectors of this size
+ */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * Message embeddings table schema (pgvector)
+ * Filled asynchronously after a message is stored; used to recall old campaign events
+ */
+export const messageEmbeddings = pgTable(
+  "message_embeddings",
+  {
+    messageId: uuid("message_id")
+      .primaryKey()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    // Denormalized from the message so similarity search can filter by room without a join
+    roomId: uuid("room_id")
+      .notNull()
+      .references(() => rooms.id, { onDelete: "cascade" }),
+    embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }).notNull(),
+    // Embedding model that produced the vector; vectors from different models are never compared
+    model: varchar("model", { length: 100 }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    roomModelIdx: index("message_embeddings_room_id_model_idx").on(table.roomId, table.model),
+    embeddingIdx: index("message_embeddings_embedding_idx").using(
+      "hnsw",
+      table.embedding.op("vector_cosine_ops"),
+    ),
+  }),
+);
+
+export type MessageEmbedding = typeof messageEmbeddings.$inferSelect;
+export type NewMessageEmbedding = typeof messageEmbeddings.$inferInsert;
@@ -0,0 +1,27 @@
+import { pgTable, primaryKey, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
+import { messages } from "./messages.schema";
+import { users } from "./users.schema";
+
+/**
+ * Message reactions table schema
+ * One row per member and emoji on a message
+ */
+export const messageReactions = pgTable(
+  "message_reactions",
+  {
+    messageId: uuid("message_id")
+      .notNull()
+      .references(() => messages.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    emoji: varchar("emoji", { length: 32 }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.messageId, table.userId, table.emoji] }),
+  }),
+);
+
+export type MessageReaction = typeof messageReactions.$inferSelect;
+export type NewMessageReaction = typeof messageReactions.$inferInsert;
@@ -1,21 +1,53 @@
-import { pgTable, uuid, text, timestamp } from "drizzle-orm/pg-core";
+import type { MessageKind, MessagePayload } from "@rpgate/shared";
+import {
+  type AnyPgColumn,
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  index,
+  varchar,
+  jsonb,
+} from "drizzle-orm/pg-core";
 import { users } from "./users.schema";
 import { rooms } from "./rooms.schema";
+import { characters } from "./characters.schema";
 
 /**
  * Messages table schema
- * Note: Vector embeddings will be added later when pgvector extension is available
+ * Embeddings for long-term recall live in message_embeddings, edit history in message_edits,
+ * reactions in message_reactions.
+ * Deleted messages are kept (soft deletion) but left out of history and GM context.
  */
-export const messages = pgTable("messages", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  roomId: uuid("room_id")
-    .notNull()
-    .references(() => rooms.id, { onDelete: "cascade" }),
-  userId: uuid("user_id")
-    .notNull()
-    .references(() => users.id, { onDelete: "cascade" }),
-  content: text("content").notNull(),
-  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
-});
+export const messages = pgTable(
+  "messages",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    roomId: uuid("room_id")
+      .notNull()
+      .references(() => rooms.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    content: text("content").notNull(),
+    // Character the message is spoken by (in-character messages only)
+    characterId: uuid("character_id").references(() => characters.id, { onDelete: "set null" }),
+    kind: varchar("kind", { length: 20 }).$type<MessageKind>().notNull().default("ic"),
+    // Kind-specific data (system event, dice breakdown, whisper recipients), validated on read
+    payload: jsonb("payload").$type<MessagePayload>(),
+    // Earlier message this one replies to
+    replyToId: uuid("reply_to_id").references((): AnyPgColumn => messages.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    editedAt: timestamp("edited_at", { withTimezone: true }),
+    deletedAt: timestamp("deleted_at", { withTimezone: true }),
+    deletedBy: uuid("deleted_by").references(() => users.id, { onDelete: "set null" }),
+  },
+  (table) => ({
+    // Supports cursor-based history pagination per room
+    roomCreatedAtIdx: index("messages_room_id_created_at_idx").on(table.roomId, table.createdAt),
+  }),
+);
 
 export type Message = typeof messages.$inferSelect;
@@ -0,0 +1,26 @@
+import { date, integer, pgTable, primaryKey, timestamp, uuid } from "drizzle-orm/pg-core";
+import { rooms } from "./rooms.schema";
+
+/**
+ * Room AI usage table schema
+ * Model token usage of a room per UTC day; monthly totals are summed from the days
+ */
+export const roomAiUsage = pgTable(
+  "room_ai_usage",
+  {
+    roomId: uuid("room_id")
+      .notNull()
+      .references(() => rooms.id, { onDelete: "cascade" }),
+    day: date("day", { mode: "string" }).notNull(),
+    promptTokens: integer("prompt_tokens").notNull().default(0),
+    completionTokens: integer("completion_tokens").notNull().default(0),
+    requests: integer("requests").notNull().default(0),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.roomId, table.day] }),
+  }),
+);
+
+export type RoomAiUsage = typeof roomAiUsage.$inferSelect;
+export type NewRoomAiUsage = typeof roomAiUsage.$inferInsert;
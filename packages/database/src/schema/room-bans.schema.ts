@@ -0,0 +1,31 @@
+import { pgTable, primaryKey, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { rooms } from "./rooms.schema";
+import { users } from "./users.schema";
+
+/**
+ * Room bans table schema
+ * Users kept out of a room, whether they try to join, use an invite or reconnect
+ */
+export const roomBans = pgTable(
+  "room_bans",
+  {
+    roomId: uuid("room_id")
+      .notNull()
+      .references(() => rooms.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    reason: text("reason"),
+    // Member who issued the ban
+    bannedBy: uuid("banned_by").references(() => users.id, { onDelete: "set null" }),
+    // Null for a permanent ban
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.roomId, table.userId] }),
+  }),
+);
+
+export type RoomBan = typeof roomBans.$inferSelect;
+export type NewRoomBan = typeof roomBans.$inferInsert;
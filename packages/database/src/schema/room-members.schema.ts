@@ -1,6 +1,8 @@
+import type { RoomRole } from "@rpgate/shared";
 import { pgTable, uuid, timestamp, primaryKey, varchar } from "drizzle-orm/pg-core";
 import { users } from "./users.schema";
 import { rooms } from "./rooms.schema";
+import { characters } from "./characters.schema";
 
 /**
  * Room members (many-to-many relationship) table schema
@@ -16,8 +18,13 @@ export const roomMembers = pgTable(
       .references(() => users.id, { onDelete: "cascade" }),
     joinedAt: timestamp("joined_at", { withTimezone: true }).notNull().defaultNow(),
     // New fields for room management features
-    role: varchar("role", { length: 20 }).notNull().default("member"), // 'owner' or 'member'
+    // One of ROOM_ROLES; decides the member's permissions in the room
+    role: varchar("role", { length: 20 }).$type<RoomRole>().notNull().default("player"),
     lastSeenAt: timestamp("last_seen_at", { withTimezone: true }).notNull().defaultNow(),
+    // The one character the member currently plays in this room
+    activeCharacterId: uuid("active_character_id").references(() => characters.id, {
+      onDelete: "set null",
+    }),
   },
   (table) => ({
     pk: primaryKey({ columns: [table.roomId, table.userId] }),
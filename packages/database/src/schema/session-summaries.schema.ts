@@ -0,0 +1,40 @@
+import { index, integer, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { messages } from "./messages.schema";
+import { rooms } from "./rooms.schema";
+import { users } from "./users.schema";
+
+/**
+ * Session summaries table schema
+ * Rolling summaries of older room history; the newest one covers the story so far
+ */
+export const sessionSummaries = pgTable(
+  "session_summaries",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    roomId: uuid("room_id")
+      .notNull()
+      .references(() => rooms.id, { onDelete: "cascade" }),
+    content: text("content").notNull(),
+    // Covered message range; IDs are cleared if the messages are deleted, timestamps stay
+    fromMessageId: uuid("from_message_id").references(() => messages.id, {
+      onDelete: "set null",
+    }),
+    toMessageId: uuid("to_message_id").references(() => messages.id, { onDelete: "set null" }),
+    fromCreatedAt: timestamp("from_created_at", { withTimezone: true }).notNull(),
+    toCreatedAt: timestamp("to_created_at", { withTimezone: true }).notNull(),
+    messageCount: integer("message_count").notNull(),
+    // Owner who last hand-edited the summary
+    editedBy: uuid("edited_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => ({
+    roomToCreatedAtIdx: index("session_summaries_room_id_to_created_at_idx").on(
+      table.roomId,
+      table.toCreatedAt,
+    ),
+  }),
+);
+
+export type SessionSummary = typeof sessionSummaries.$inferSelect;
+export type NewSessionSummary = typeof sessionSummaries.$inferInsert;
@@ -0,0 +1,11 @@
+/**
+ * AI Game Master constants
+ */
+
+/**
+ * Reserved system user that authors Game Master messages
+ */
+export const GAME_MASTER = {
+  USER_ID: "00000000-0000-0000-0000-000000000001",
+  USERNAME: "GM",
+} as const;
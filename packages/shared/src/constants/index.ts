@@ -2,5 +2,7 @@
  * Application constants
  */
 
+export * from "./game-master.constants";
+export * from "./room-role.constants";
 export * from "./socket.constants";
 export * from "./validation.constants";
@@ -0,0 +1,68 @@
+/**
+ * Room member roles and what each may do
+ */
+
+export const ROOM_ROLES = {
+  OWNER: "owner",
+  GAME_MASTER: "gm",
+  CO_GM: "co_gm",
+  PLAYER: "player",
+  SPECTATOR: "spectator",
+} as const;
+
+export const ROOM_PERMISSIONS = {
+  // Chat and play
+  POST_IN_CHARACTER: "post_in_character",
+  ROLL_DICE: "roll_dice",
+  RUN_AI_GM: "run_ai_gm",
+  // Game running
+  EDIT_OTHERS_CHARACTERS: "edit_others_characters",
+  RUN_COMBAT: "run_combat",
+  MODERATE_MESSAGES: "moderate_messages",
+  MANAGE_SUMMARIES: "manage_summaries",
+  // Room administration
+  MANAGE_INVITES: "manage_invites",
+  KICK_MEMBERS: "kick_members",
+  MANAGE_ROOM: "manage_room",
+  MANAGE_ROLES: "manage_roles",
+  DELETE_ROOM: "delete_room",
+} as const;
+
+type Role = (typeof ROOM_ROLES)[keyof typeof ROOM_ROLES];
+type Permission = (typeof ROOM_PERMISSIONS)[keyof typeof ROOM_PERMISSIONS];
+
+const PLAYER_PERMISSIONS: readonly Permission[] = [
+  ROOM_PERMISSIONS.POST_IN_CHARACTER,
+  ROOM_PERMISSIONS.ROLL_DICE,
+  ROOM_PERMISSIONS.RUN_AI_GM,
+];
+
+const CO_GM_PERMISSIONS: readonly Permission[] = [
+  ...PLAYER_PERMISSIONS,
+  ROOM_PERMISSIONS.EDIT_OTHERS_CHARACTERS,
+  ROOM_PERMISSIONS.RUN_COMBAT,
+  ROOM_PERMISSIONS.MODERATE_MESSAGES,
+  ROOM_PERMISSIONS.MANAGE_SUMMARIES,
+  ROOM_PERMISSIONS.MANAGE_INVITES,
+];
+
+const GAME_MASTER_PERMISSIONS: readonly Permission[] = [
+  ...CO_GM_PERMISSIONS,
+  ROOM_PERMISSIONS.KICK_MEMBERS,
+  ROOM_PERMISSIONS.MANAGE_ROOM,
+];
+
+/**
+ * Permissions of each role. Only the owner manages roles and deletes the room;
+ * spectators follow the game and chat out of character.
+ */
+export const ROOM_ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  [ROOM_ROLES.OWNER]: Object.values(ROOM_PERMISSIONS),
+  [ROOM_ROLES.GAME_MASTER]: GAME_MASTER_PERMISSIONS,
+  [ROOM_ROLES.CO_GM]: CO_GM_PERMISSIONS,
+  [ROOM_ROLES.PLAYER]: PLAYER_PERMISSIONS,
+  [ROOM_ROLES.SPECTATOR]: [],
+};
+
+// Role given to members who join without one being chosen
+export const DEFAULT_ROOM_ROLE = ROOM_ROLES.PLAYER;
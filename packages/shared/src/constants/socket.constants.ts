@@ -3,28 +3,127 @@
  */
 
 export const WEBSOCKET_EVENTS = {
+  // Connection events
+  CONNECTION_READY: "connection:ready",
+  ACK: "ack",
+  NACK: "nack",
+
   // Message events
   MESSAGE_NEW: "message:new",
   MESSAGE_SEND: "message:send",
+  MESSAGE_EDIT: "message:edit",
+  MESSAGE_DELETE: "message:delete",
+  MESSAGE_UPDATED: "message:updated",
+  MESSAGE_DELETED: "message:deleted",
+
+  // Reaction events
+  REACTION_ADD: "reaction:add",
+  REACTION_REMOVE: "reaction:remove",
+  REACTION_ADDED: "reaction:added",
+  REACTION_REMOVED: "reaction:removed",
 
   // Room events
   ROOM_JOIN: "room:join",
   ROOM_LEAVE: "room:leave",
+  ROOM_SYNC: "room:sync",
   ROOM_UPDATED: "room:updated",
   ROOM_MEMBER_COUNT_UPDATED: "room:member_count_updated",
+  ROOM_VIEWER_COUNT_UPDATED: "room:viewer_count_updated",
+  ROOM_ACCESS_REVOKED: "room:access_revoked",
 
   // User events
   USER_JOINED: "user:joined",
   USER_LEFT: "user:left",
 
+  // Presence events
+  PRESENCE_SNAPSHOT: "presence:snapshot",
+  PRESENCE_UPDATE: "presence:update",
+
   // Typing events
   TYPING_START: "typing:start",
   TYPING_STOP: "typing:stop",
 
+  // Dice events
+  DICE_ROLL: "dice:roll",
+
+  // Combat (initiative tracker) events
+  COMBAT_START: "combat:start",
+  COMBAT_ADD_COMBATANT: "combat:add_combatant",
+  COMBAT_REMOVE_COMBATANT: "combat:remove_combatant",
+  COMBAT_SET_INITIATIVE: "combat:set_initiative",
+  COMBAT_ADD_CONDITION: "combat:add_condition",
+  COMBAT_REMOVE_CONDITION: "combat:remove_condition",
+  COMBAT_NEXT_TURN: "combat:next_turn",
+  COMBAT_END: "combat:end",
+  COMBAT_STARTED: "combat:started",
+  COMBAT_UPDATED: "combat:updated",
+  COMBAT_ENDED: "combat:ended",
+
+  // Game Master streaming events
+  GM_STREAM_START: "gm:stream_start",
+  GM_STREAM_DELTA: "gm:stream_delta",
+  GM_STREAM_END: "gm:stream_end",
+  GM_STREAM_ERROR: "gm:stream_error",
+
   // Error events
   ERROR: "error",
 } as const;
 
+/**
+ * Error codes carried by the WebSocket "error" and "nack" events
+ */
+export const WEBSOCKET_ERROR_CODES = {
+  WEBSOCKET_ERROR: "WEBSOCKET_ERROR",
+  INVALID_MESSAGE: "INVALID_MESSAGE",
+  INVALID_RECIPIENTS: "INVALID_RECIPIENTS",
+  UNKNOWN_MESSAGE_TYPE: "UNKNOWN_MESSAGE_TYPE",
+  NOT_AUTHENTICATED: "NOT_AUTHENTICATED",
+  NOT_JOINED: "NOT_JOINED",
+  ROOM_NOT_FOUND: "ROOM_NOT_FOUND",
+  ROOM_ARCHIVED: "ROOM_ARCHIVED",
+  NOT_MEMBER: "NOT_MEMBER",
+  PERMISSION_DENIED: "PERMISSION_DENIED",
+  BANNED: "BANNED",
+  MUTED: "MUTED",
+  MESSAGE_FAILED: "MESSAGE_FAILED",
+  MESSAGE_NOT_FOUND: "MESSAGE_NOT_FOUND",
+  NOT_MESSAGE_AUTHOR: "NOT_MESSAGE_AUTHOR",
+  EDIT_WINDOW_EXPIRED: "EDIT_WINDOW_EXPIRED",
+  INVALID_REPLY: "INVALID_REPLY",
+  JOIN_FAILED: "JOIN_FAILED",
+  GM_FAILED: "GM_FAILED",
+  AI_RATE_LIMITED: "AI_RATE_LIMITED",
+  AI_QUOTA_EXCEEDED: "AI_QUOTA_EXCEEDED",
+  INVALID_DICE_EXPRESSION: "INVALID_DICE_EXPRESSION",
+  INVALID_COMBAT_ACTION: "INVALID_COMBAT_ACTION",
+  COMBAT_NOT_ACTIVE: "COMBAT_NOT_ACTIVE",
+  COMBAT_ALREADY_ACTIVE: "COMBAT_ALREADY_ACTIVE",
+  NOT_OWNER: "NOT_OWNER",
+  NOT_YOUR_TURN: "NOT_YOUR_TURN",
+  COMBAT_FAILED: "COMBAT_FAILED",
+} as const;
+
+/**
+ * Application-specific WebSocket close codes (4000-4999 range)
+ */
+export const WEBSOCKET_CLOSE_CODES = {
+  // Upgrade request had no valid session cookie
+  UNAUTHORIZED: 4401,
+  // Session was logged out or expired while connected
+  SESSION_ENDED: 4403,
+  // Client speaks a protocol version the server no longer supports
+  UNSUPPORTED_PROTOCOL: 4426,
+} as const;
+
+/**
+ * WebSocket protocol versions. Clients send the version they speak in the "v" query
+ * parameter; the server answers with the version to use in "connection:ready".
+ */
+export const WEBSOCKET_PROTOCOL = {
+  VERSION: 1,
+  MIN_VERSION: 1,
+} as const;
+
 export const WEBSOCKET_ROOMS = {
   LOBBY: "lobby",
   GLOBAL: "global",
@@ -0,0 +1,166 @@
+import { z } from "zod";
+import { roomIdSchema } from "./room.schema";
+
+/**
+ * Character sheet schemas (D&D 5e style)
+ */
+
+export const ABILITIES = [
+  "strength",
+  "dexterity",
+  "constitution",
+  "intelligence",
+  "wisdom",
+  "charisma",
+] as const;
+
+// Skills and the ability each one is rolled with
+export const SKILL_ABILITIES = {
+  acrobatics: "dexterity",
+  animalHandling: "wisdom",
+  arcana: "intelligence",
+  athletics: "strength",
+  deception: "charisma",
+  history: "intelligence",
+  insight: "wisdom",
+  intimidation: "charisma",
+  investigation: "intelligence",
+  medicine: "wisdom",
+  nature: "intelligence",
+  perception: "wisdom",
+  performance: "charisma",
+  persuasion: "charisma",
+  religion: "intelligence",
+  sleightOfHand: "dexterity",
+  stealth: "dexterity",
+  survival: "wisdom",
+} as const;
+
+export const SKILLS = Object.keys(SKILL_ABILITIES) as [
+  keyof typeof SKILL_ABILITIES,
+  ...(keyof typeof SKILL_ABILITIES)[],
+];
+
+export const abilitySchema = z.enum(ABILITIES);
+export const skillSchema = z.enum(SKILLS);
+
+const abilityScore = z
+  .number()
+  .int({ message: "Значение характеристики должно быть целым числом" })
+  .min(1, { message: "Значение характеристики должно быть не менее 1" })
+  .max(30, { message: "Значение характеристики не должно превышать 30" });
+
+export const abilityScoresSchema = z.object({
+  strength: abilityScore,
+  dexterity: abilityScore,
+  constitution: abilityScore,
+  intelligence: abilityScore,
+  wisdom: abilityScore,
+  charisma: abilityScore,
+});
+
+export const proficienciesSchema = z.object({
+  skills: z.array(skillSchema).default([]),
+  savingThrows: z.array(abilitySchema).default([]),
+  // Weapons, armor, tools and languages as free text
+  other: z.array(z.string().trim().min(1).max(100)).max(50).default([]),
+});
+
+export const INVENTORY_MAX_ITEMS = 100;
+
+export const inventoryItemSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, { message: "Название предмета обязательно" })
+    .max(100, { message: "Название предмета не должно превышать 100 символов" }),
+  quantity: z
+    .number()
+    .int({ message: "Количество должно быть целым числом" })
+    .min(1, { message: "Количество должно быть не менее 1" })
+    .max(9999, { message: "Количество не должно превышать 9999" }),
+});
+
+export const characterSchema = z.object({
+  id: z.string().uuid(),
+  roomId: z.string().uuid(),
+  userId: z.string().uuid(),
+  name: z.string().min(1).max(100),
+  characterClass: z.string().min(1).max(50),
+  level: z.number().int().min(1).max(20),
+  abilityScores: abilityScoresSchema,
+  currentHp: z.number().int(),
+  maxHp: z.number().int().min(1),
+  armorClass: z.number().int().min(0),
+  proficiencies: proficienciesSchema,
+  inventory: z.array(inventoryItemSchema),
+  notes: z.string().max(5000).nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const characterFields = {
+  name: z
+    .string()
+    .trim()
+    .min(1, { message: "Имя персонажа обязательно" })
+    .max(100, { message: "Имя персонажа не должно превышать 100 символов" }),
+  characterClass: z
+    .string()
+    .trim()
+    .min(1, { message: "Класс персонажа обязателен" })
+    .max(50, { message: "Класс персонажа не должен превышать 50 символов" }),
+  level: z
+    .number()
+    .int({ message: "Уровень должен быть целым числом" })
+    .min(1, { message: "Уровень должен быть не менее 1" })
+    .max(20, { message: "Уровень не должен превышать 20" }),
+  abilityScores: abilityScoresSchema,
+  currentHp: z.number().int({ message: "Хиты должны быть целым числом" }),
+  maxHp: z
+    .number()
+    .int({ message: "Максимум хитов должен быть целым числом" })
+    .min(1, { message: "Максимум хитов должен быть не менее 1" }),
+  armorClass: z
+    .number()
+    .int({ message: "Класс доспеха должен быть целым числом" })
+    .min(0, { message: "Класс доспеха не может быть отрицательным" }),
+  proficiencies: proficienciesSchema,
+  inventory: z.array(inventoryItemSchema).max(INVENTORY_MAX_ITEMS, {
+    message: `Инвентарь не может содержать более ${INVENTORY_MAX_ITEMS} предметов`,
+  }),
+  notes: z.string().max(5000, { message: "Заметки не должны превышать 5000 символов" }).nullable(),
+};
+
+export const createCharacterSchema = z.object({
+  ...characterFields,
+  level: characterFields.level.default(1),
+  armorClass: characterFields.armorClass.default(10),
+  proficiencies: proficienciesSchema.default({}),
+  inventory: characterFields.inventory.default([]),
+  notes: characterFields.notes.optional(),
+  // Defaults to maxHp
+  currentHp: characterFields.currentHp.optional(),
+});
+
+export const updateCharacterSchema = z
+  .object(characterFields)
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "Необходимо указать хотя бы одно поле для обновления",
+  });
+
+// Character route parameters schema
+export const characterParamsSchema = roomIdSchema.extend({
+  characterId: z.string().uuid({ message: "Недействительный формат идентификатора персонажа" }),
+});
+
+export type Ability = z.infer<typeof abilitySchema>;
+export type Skill = z.infer<typeof skillSchema>;
+export type AbilityScores = z.infer<typeof abilityScoresSchema>;
+export type Proficiencies = z.infer<typeof proficienciesSchema>;
+export type InventoryItem = z.infer<typeof inventoryItemSchema>;
+export type Character = z.infer<typeof characterSchema>;
+export type CreateCharacterInput = z.input<typeof createCharacterSchema>;
+export type UpdateCharacterInput = z.infer<typeof updateCharacterSchema>;
+export type CharacterParamsInput = z.infer<typeof characterParamsSchema>;
@@ -0,0 +1,127 @@
+import { z } from "zod";
+
+/**
+ * Combat (initiative tracker) schemas
+ */
+
+export const COMBAT_LIMITS = {
+  MAX_COMBATANTS: 50,
+  MAX_CONDITIONS: 20,
+} as const;
+
+// A condition such as "poisoned"; remainingRounds null lasts until removed
+export const combatConditionSchema = z.object({
+  name: z.string().min(1).max(50),
+  remainingRounds: z.number().int().min(1).nullable(),
+});
+
+export const combatantSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1).max(100),
+  kind: z.enum(["character", "npc"]),
+  characterId: z.string().uuid().nullable(),
+  // Player who acts on this turn; null for NPCs, which the room owner runs
+  userId: z.string().uuid().nullable(),
+  initiative: z.number().int(),
+  // Breaks initiative ties (higher goes first)
+  initiativeModifier: z.number().int(),
+  conditions: z.array(combatConditionSchema).max(COMBAT_LIMITS.MAX_CONDITIONS),
+});
+
+export const combatStateSchema = z.object({
+  id: z.string().uuid(),
+  roomId: z.string().uuid(),
+  status: z.enum(["active", "ended"]),
+  round: z.number().int().min(1),
+  // Index into combatants of the current actor
+  turnIndex: z.number().int().min(0),
+  // Ordered by initiative, highest first
+  combatants: z.array(combatantSchema).max(COMBAT_LIMITS.MAX_COMBATANTS),
+  startedBy: z.string().uuid(),
+  startedAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+// A character (by ID) or an NPC (by name); initiative is rolled when not given
+export const combatantInputSchema = z
+  .object({
+    characterId: z.string().uuid().optional(),
+    name: z
+      .string()
+      .trim()
+      .min(1, { message: "Имя участника боя обязательно" })
+      .max(100, { message: "Имя участника боя не должно превышать 100 символов" })
+      .optional(),
+    initiative: z.number().int({ message: "Инициатива должна быть целым числом" }).optional(),
+    initiativeModifier: z
+      .number()
+      .int({ message: "Модификатор инициативы должен быть целым числом" })
+      .min(-10)
+      .max(20)
+      .optional(),
+  })
+  .refine((data) => data.characterId || data.name, {
+    message: "Укажите персонажа или имя NPC",
+  });
+
+export const startCombatSchema = z.object({
+  roomId: z.string().uuid(),
+  combatants: z.array(combatantInputSchema).max(COMBAT_LIMITS.MAX_COMBATANTS).default([]),
+  // Also add every member's active character that is not listed
+  includeParty: z.boolean().default(true),
+});
+
+export const addCombatantSchema = z.object({
+  roomId: z.string().uuid(),
+  combatant: combatantInputSchema,
+});
+
+export const removeCombatantSchema = z.object({
+  roomId: z.string().uuid(),
+  combatantId: z.string().uuid(),
+});
+
+export const setInitiativeSchema = z.object({
+  roomId: z.string().uuid(),
+  combatantId: z.string().uuid(),
+  initiative: z.number().int({ message: "Инициатива должна быть целым числом" }),
+});
+
+export const addConditionSchema = z.object({
+  roomId: z.string().uuid(),
+  combatantId: z.string().uuid(),
+  name: z
+    .string()
+    .trim()
+    .min(1, { message: "Название состояния обязательно" })
+    .max(50, { message: "Название состояния не должно превышать 50 символов" }),
+  // Omit for a condition that lasts until removed
+  rounds: z
+    .number()
+    .int({ message: "Длительность должна быть целым числом" })
+    .min(1, { message: "Длительность должна быть не менее 1 раунда" })
+    .max(1000)
+    .optional(),
+});
+
+export const removeConditionSchema = z.object({
+  roomId: z.string().uuid(),
+  combatantId: z.string().uuid(),
+  name: z.string().trim().min(1).max(50),
+});
+
+export const combatRoomSchema = z.object({
+  roomId: z.string().uuid(),
+});
+
+export type CombatCondition = z.infer<typeof combatConditionSchema>;
+export type Combatant = z.infer<typeof combatantSchema>;
+export type CombatState = z.infer<typeof combatStateSchema>;
+export type CombatantInput = z.infer<typeof combatantInputSchema>;
+export type StartCombatInput = z.input<typeof startCombatSchema>;
+export type AddCombatantInput = z.infer<typeof addCombatantSchema>;
+export type RemoveCombatantInput = z.infer<typeof removeCombatantSchema>;
+export type SetInitiativeInput = z.infer<typeof setInitiativeSchema>;
+export type AddConditionInput = z.infer<typeof addConditionSchema>;
+export type RemoveConditionInput = z.infer<typeof removeConditionSchema>;
+export type CombatRoomInput = z.infer<typeof combatRoomSchema>;
@@ -0,0 +1,56 @@
+import { z } from "zod";
+
+/**
+ * Dice roll schemas
+ */
+
+export const DICE_EXPRESSION_MAX_LENGTH = 100;
+
+// Dice roll request (from the dice:roll event or a /roll command)
+export const diceRollSchema = z.object({
+  roomId: z.string().uuid(),
+  expression: z
+    .string()
+    .trim()
+    .min(1, { message: "Укажите выражение броска" })
+    .max(DICE_EXPRESSION_MAX_LENGTH, {
+      message: `Выражение броска не должно превышать ${DICE_EXPRESSION_MAX_LENGTH} символов`,
+    }),
+});
+
+// A single die in a rolled pool
+export const dieResultSchema = z.object({
+  value: z.number().int().min(1),
+  // False when removed by keep/drop
+  kept: z.boolean(),
+  // True when the die rolled its maximum and added another die
+  exploded: z.boolean(),
+});
+
+export const diceTermResultSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("dice"),
+    notation: z.string(),
+    sign: z.union([z.literal(1), z.literal(-1)]),
+    dice: z.array(dieResultSchema),
+    subtotal: z.number().int(),
+  }),
+  z.object({
+    type: z.literal("constant"),
+    notation: z.string(),
+    sign: z.union([z.literal(1), z.literal(-1)]),
+    subtotal: z.number().int(),
+  }),
+]);
+
+// Full breakdown of a roll, as broadcast to the room
+export const diceRollResultSchema = z.object({
+  expression: z.string(),
+  terms: z.array(diceTermResultSchema).min(1),
+  total: z.number().int(),
+});
+
+export type DiceRollInput = z.infer<typeof diceRollSchema>;
+export type DieResult = z.infer<typeof dieResultSchema>;
+export type DiceTermResult = z.infer<typeof diceTermResultSchema>;
+export type DiceRollResult = z.infer<typeof diceRollResultSchema>;
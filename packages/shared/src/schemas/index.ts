@@ -4,6 +4,12 @@
  */
 
 export * from "./auth.schema";
+export * from "./character.schema";
+export * from "./combat.schema";
+export * from "./dice.schema";
 export * from "./message.schema";
 export * from "./room.schema";
+export * from "./room-settings.schema";
+export * from "./socket.schema";
+export * from "./summary.schema";
 export * from "./user.schema";
@@ -1,21 +1,238 @@
 import { z } from "zod";
+import { abilitySchema, skillSchema } from "./character.schema";
+import { diceRollResultSchema } from "./dice.schema";
+import { roomIdSchema, roomRoleSchema } from "./room.schema";
 
 /**
  * Message schemas
  */
 
-export const messageSchema = z.object({
+export const MESSAGE_CONTENT_MAX_LENGTH = 4000;
+
+export const WHISPER_MAX_RECIPIENTS = 20;
+
+// How long after posting an author may still edit a message
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+// Kinds players write themselves, and so may edit
+export const EDITABLE_MESSAGE_KINDS = ["ic", "ooc", "whisper"] as const;
+
+export const REACTION_EMOJI_MAX_LENGTH = 32;
+
+// Reactions on Game Master messages that count as feedback on its replies
+export const GM_FEEDBACK_REACTIONS = {
+  POSITIVE: "👍",
+  NEGATIVE: "👎",
+} as const;
+
+// ic: in-character speech, ooc: out-of-character chatter, gm: Game Master narration,
+// system: room events, roll: dice results, whisper: private messages
+export const MESSAGE_KINDS = ["ic", "ooc", "gm", "system", "roll", "whisper"] as const;
+
+export const messageKindSchema = z.enum(MESSAGE_KINDS);
+
+// A check the GM may ask for: a skill or a raw ability
+export const checkSchema = z.union([skillSchema, abilitySchema]);
+
+// Room events recorded in history as system messages
+export const systemEventSchema = z.discriminatedUnion("event", [
+  z.object({
+    event: z.literal("member_joined"),
+    userId: z.string().uuid(),
+    username: z.string(),
+  }),
+  z.object({
+    event: z.literal("member_left"),
+    userId: z.string().uuid(),
+    username: z.string(),
+  }),
+  z.object({
+    event: z.literal("member_removed"),
+    userId: z.string().uuid(),
+    username: z.string(),
+    removedBy: z.string().uuid(),
+  }),
+  z.object({
+    event: z.literal("member_banned"),
+    userId: z.string().uuid(),
+    username: z.string(),
+    bannedBy: z.string().uuid(),
+    // ISO timestamp the ban lifts at, null if permanent
+    expiresAt: z.string().datetime().nullable(),
+  }),
+  z.object({
+    event: z.literal("ownership_transferred"),
+    previousOwnerId: z.string().uuid(),
+    newOwnerId: z.string().uuid(),
+    newOwnerUsername: z.string(),
+    // "leave" when ownership passed on automatically because the owner left
+    reason: z.enum(["manual", "leave"]),
+  }),
+  z.object({
+    event: z.literal("member_role_changed"),
+    userId: z.string().uuid(),
+    username: z.string(),
+    role: roomRoleSchema,
+    changedBy: z.string().uuid(),
+  }),
+  z.object({
+    event: z.literal("combat_started"),
+    combatId: z.string().uuid(),
+  }),
+  z.object({
+    event: z.literal("combat_ended"),
+    combatId: z.string().uuid(),
+    rounds: z.number().int().min(1),
+  }),
+  // Events below are recorded when the Game Master changes the game through its tools
+  z.object({
+    event: z.literal("skill_check_requested"),
+    characterId: z.string().uuid(),
+    characterName: z.string(),
+    check: checkSchema,
+    dc: z.number().int().nullable(),
+    reason: z.string().nullable(),
+  }),
+  z.object({
+    event: z.literal("hp_changed"),
+    characterId: z.string().uuid(),
+    characterName: z.string(),
+    // Negative for damage, positive for healing (after clamping)
+    change: z.number().int(),
+    currentHp: z.number().int(),
+    maxHp: z.number().int(),
+  }),
+  z.object({
+    event: z.literal("inventory_changed"),
+    characterId: z.string().uuid(),
+    characterName: z.string(),
+    item: z.string(),
+    // Negative when items are removed
+    change: z.number().int(),
+  }),
+]);
+
+export const whisperPayloadSchema = z.object({
+  recipientIds: z.array(z.string().uuid()).min(1),
+});
+
+// Kind-specific payload stored alongside the content
+export const messageKindPayloadSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("ic"), payload: z.null() }),
+  z.object({ kind: z.literal("ooc"), payload: z.null() }),
+  z.object({ kind: z.literal("gm"), payload: z.null() }),
+  z.object({ kind: z.literal("system"), payload: systemEventSchema }),
+  z.object({ kind: z.literal("roll"), payload: z.object({ roll: diceRollResultSchema }) }),
+  z.object({ kind: z.literal("whisper"), payload: whisperPayloadSchema }),
+]);
+
+const messageBaseSchema = z.object({
   id: z.string().uuid(),
   roomId: z.string().uuid(),
   userId: z.string().uuid(),
-  content: z.string().min(1).max(4000),
+  // Character the message is spoken by (in-character messages only)
+  characterId: z.string().uuid().nullable(),
+  content: z.string().min(1).max(MESSAGE_CONTENT_MAX_LENGTH),
+  // Earlier message in the same room this one replies to
+  replyToId: z.string().uuid().nullable(),
   createdAt: z.date(),
+  // Set when the author last edited the message
+  editedAt: z.date().nullable(),
 });
 
-export const createMessageSchema = z.object({
+export const messageSchema = z.intersection(messageBaseSchema, messageKindPayloadSchema);
+
+// Players may only post speech and whispers directly; other kinds are produced by the server
+export const createMessageSchema = z
+  .object({
+    roomId: z.string().uuid(),
+    content: z.string().min(1).max(MESSAGE_CONTENT_MAX_LENGTH),
+    kind: z.enum(["ic", "ooc", "whisper"]).default("ic"),
+    // Whispers only: members (or the GM) who may read the message besides its author
+    recipientIds: z
+      .array(z.string().uuid())
+      .max(WHISPER_MAX_RECIPIENTS, {
+        message: `Шёпот может быть адресован не более чем ${WHISPER_MAX_RECIPIENTS} участникам`,
+      })
+      .optional(),
+    replyToId: z.string().uuid().optional(),
+  })
+  .refine((data) => (data.kind === "whisper") === (data.recipientIds?.length ?? 0) > 0, {
+    message: "Получатели указываются только для шёпота, и у шёпота должен быть хотя бы один",
+    path: ["recipientIds"],
+  });
+
+export const editMessageSchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, { message: "Сообщение не может быть пустым" })
+    .max(MESSAGE_CONTENT_MAX_LENGTH, {
+      message: `Сообщение не должно превышать ${MESSAGE_CONTENT_MAX_LENGTH} символов`,
+    }),
+});
+
+// An emoji reaction: an emoji sequence (with modifiers and joiners) or a flag
+export const reactionEmojiSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(REACTION_EMOJI_MAX_LENGTH)
+  .regex(/^(?:\p{Extended_Pictographic}|\p{Emoji_Component}|\u200d|\ufe0f)+$/u, {
+    message: "Реакция должна быть эмодзи",
+  })
+  .refine((emoji) => /\p{Extended_Pictographic}|\p{Regional_Indicator}/u.test(emoji), {
+    message: "Реакция должна быть эмодзи",
+  });
+
+export const reactionSchema = z.object({
   roomId: z.string().uuid(),
-  content: z.string().min(1).max(4000),
+  messageId: z.string().uuid(),
+  emoji: reactionEmojiSchema,
+});
+
+// Message route parameters schema
+export const messageParamsSchema = roomIdSchema.extend({
+  messageId: z.string().uuid({ message: "Недействительный формат идентификатора сообщения" }),
 });
 
+// Message history query (cursor-based, newest first)
+export const messageHistoryQuerySchema = z.object({
+  before: z.string().min(1).max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+// Message as broadcast to clients, with the author's username and character name resolved
+export const messageWithAuthorSchema = z.intersection(
+  messageBaseSchema.extend({ username: z.string(), characterName: z.string().nullable() }),
+  messageKindPayloadSchema,
+);
+
+// How many members reacted to a message with one emoji, and who
+export const reactionCountSchema = z.object({
+  emoji: z.string(),
+  count: z.number().int().min(1),
+  userIds: z.array(z.string().uuid()),
+});
+
+// Message in a history page, with its reactions aggregated per emoji
+export const messageWithReactionsSchema = z.intersection(
+  messageWithAuthorSchema,
+  z.object({ reactions: z.array(reactionCountSchema) }),
+);
+
+export type MessageKind = z.infer<typeof messageKindSchema>;
+export type Check = z.infer<typeof checkSchema>;
+export type SystemEvent = z.infer<typeof systemEventSchema>;
+export type WhisperPayload = z.infer<typeof whisperPayloadSchema>;
+export type MessageKindPayload = z.infer<typeof messageKindPayloadSchema>;
+export type MessagePayload = MessageKindPayload["payload"];
 export type Message = z.infer<typeof messageSchema>;
-export type CreateMessageInput = z.infer<typeof createMessageSchema>;
+export type MessageWithAuthor = z.infer<typeof messageWithAuthorSchema>;
+export type MessageHistoryQuery = z.infer<typeof messageHistoryQuerySchema>;
+export type CreateMessageInput = z.input<typeof createMessageSchema>;
+export type EditMessageInput = z.infer<typeof editMessageSchema>;
+export type MessageParamsInput = z.infer<typeof messageParamsSchema>;
+export type ReactionInput = z.infer<typeof reactionSchema>;
+export type ReactionCount = z.infer<typeof reactionCountSchema>;
+export type MessageWithReactions = z.infer<typeof messageWithReactionsSchema>;
@@ -0,0 +1,94 @@
+import { z } from "zod";
+
+/**
+ * Room settings schemas: Game Master configuration and room-wide rules.
+ * Stored as JSONB on the room; every stored blob carries a version so older
+ * shapes can be upgraded on read (see migrateRoomSettings).
+ */
+
+export const ROOM_SETTINGS_VERSION = 1;
+
+// Rules the GM adjudicates with
+export const RULESETS = ["dnd5e", "d20", "narrative"] as const;
+
+export const GM_VERBOSITY_LEVELS = ["brief", "normal", "detailed"] as const;
+
+export const CONTENT_RATINGS = ["family", "teen", "mature"] as const;
+
+// "mention": the GM replies only to messages with @gm; "auto": to every in-character message
+export const GM_RESPONSE_MODES = ["mention", "auto"] as const;
+
+export const GM_PERSONA_MAX_LENGTH = 500;
+export const GM_SYSTEM_PROMPT_MAX_LENGTH = 2000;
+export const ROOM_LORE_MAX_LENGTH = 10000;
+
+export const rulesetSchema = z.enum(RULESETS);
+export const gmVerbositySchema = z.enum(GM_VERBOSITY_LEVELS);
+export const contentRatingSchema = z.enum(CONTENT_RATINGS);
+export const gmResponseModeSchema = z.enum(GM_RESPONSE_MODES);
+
+export const gmSettingsSchema = z.object({
+  // Who the GM plays, e.g. "a gruff dwarven storyteller"
+  persona: z
+    .string()
+    .trim()
+    .max(GM_PERSONA_MAX_LENGTH, {
+      message: `Персона мастера не должна превышать ${GM_PERSONA_MAX_LENGTH} символов`,
+    })
+    .default(""),
+  // Extra instructions from the room owner, added after the built-in ones
+  systemPrompt: z
+    .string()
+    .trim()
+    .max(GM_SYSTEM_PROMPT_MAX_LENGTH, {
+      message: `Инструкции мастеру не должны превышать ${GM_SYSTEM_PROMPT_MAX_LENGTH} символов`,
+    })
+    .default(""),
+  ruleset: rulesetSchema.default("dnd5e"),
+  // Language of GM replies; null means the language the players write in
+  language: z
+    .string()
+    .trim()
+    .min(2, { message: "Название языка должно содержать не менее 2 символов" })
+    .max(50, { message: "Название языка не должно превышать 50 символов" })
+    .nullable()
+    .default(null),
+  verbosity: gmVerbositySchema.default("normal"),
+  contentRating: contentRatingSchema.default("teen"),
+  responseMode: gmResponseModeSchema.default("mention"),
+});
+
+export const roomSettingsSchema = z.object({
+  version: z.literal(ROOM_SETTINGS_VERSION),
+  gm: gmSettingsSchema.default({}),
+  // Campaign lore pinned by the owner; always given to the GM
+  lore: z
+    .string()
+    .trim()
+    .max(ROOM_LORE_MAX_LENGTH, {
+      message: `Описание мира не должно превышать ${ROOM_LORE_MAX_LENGTH} символов`,
+    })
+    .default(""),
+  // During combat, only the current combatant may post in-character
+  restrictCombatPosting: z.boolean().default(false),
+  // Public rooms only: anyone may follow the game read-only without joining
+  allowSpectators: z.boolean().default(false),
+  // Set by the server when the last member leaves
+  archived: z.boolean().default(false),
+});
+
+// Settings the owner may change; version and archived are managed by the server
+export const updateRoomSettingsSchema = z.object({
+  gm: gmSettingsSchema.partial().optional(),
+  lore: roomSettingsSchema.shape.lore.optional(),
+  restrictCombatPosting: z.boolean().optional(),
+  allowSpectators: z.boolean().optional(),
+});
+
+export type Ruleset = z.infer<typeof rulesetSchema>;
+export type GmVerbosity = z.infer<typeof gmVerbositySchema>;
+export type ContentRating = z.infer<typeof contentRatingSchema>;
+export type GmResponseMode = z.infer<typeof gmResponseModeSchema>;
+export type GmSettings = z.infer<typeof gmSettingsSchema>;
+export type RoomSettings = z.infer<typeof roomSettingsSchema>;
+export type UpdateRoomSettingsInput = z.infer<typeof updateRoomSettingsSchema>;
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { ROOM_ROLES } from "../constants";
+import { roomSettingsSchema, updateRoomSettingsSchema } from "./room-settings.schema";
 
 /**
  * Room (chat room) schemas
@@ -10,6 +12,7 @@ export const roomSchema = z.object({
   description: z.string().max(500).optional(),
   createdBy: z.string().uuid(),
   isPrivate: z.boolean().default(false),
+  settings: roomSettingsSchema,
   createdAt: z.date(),
 });
 
@@ -44,6 +47,7 @@ export const updateRoomSchema = z
       .trim()
       .optional(),
     isPrivate: z.boolean().optional(),
+    settings: updateRoomSettingsSchema.optional(),
   })
   .refine((data) => Object.keys(data).length > 0, {
     message: "Необходимо указать хотя бы одно поле для обновления",
@@ -110,6 +114,11 @@ export const removeMemberSchema = z.object({
 
 export type RemoveMemberInput = z.infer<typeof removeMemberSchema>;
 
+// Room member route parameters schema
+export const roomMemberParamsSchema = roomIdSchema.merge(removeMemberSchema);
+
+export type RoomMemberParamsInput = z.infer<typeof roomMemberParamsSchema>;
+
 // Transfer ownership schema
 export const transferOwnershipSchema = z.object({
   newOwnerId: z
@@ -118,3 +127,54 @@ export const transferOwnershipSchema = z.object({
 });
 
 export type TransferOwnershipInput = z.infer<typeof transferOwnershipSchema>;
+
+// Member role schema
+export const roomRoleSchema = z.nativeEnum(ROOM_ROLES);
+
+export type RoomRole = z.infer<typeof roomRoleSchema>;
+
+// Change member role schema (ownership moves only by transfer)
+export const changeMemberRoleSchema = z.object({
+  role: z.enum(
+    [ROOM_ROLES.GAME_MASTER, ROOM_ROLES.CO_GM, ROOM_ROLES.PLAYER, ROOM_ROLES.SPECTATOR],
+    {
+      message: "Недопустимая роль участника",
+    },
+  ),
+});
+
+export type ChangeMemberRoleInput = z.infer<typeof changeMemberRoleSchema>;
+
+// Ban member schema; without expiresIn the ban is permanent
+export const banMemberSchema = removeMemberSchema.extend({
+  reason: z
+    .string()
+    .max(500, { message: "Причина не должна превышать 500 символов" })
+    .trim()
+    .optional(),
+  expiresIn: z
+    .number()
+    .int({ message: "Срок блокировки должен быть целым числом" })
+    .min(60, { message: "Минимальный срок блокировки - 1 минута (60 секунд)" })
+    .max(31536000, { message: "Максимальный срок блокировки - 1 год (31536000 секунд)" })
+    .optional(),
+});
+
+export type BanMemberInput = z.infer<typeof banMemberSchema>;
+
+// Mute member schema
+export const muteMemberSchema = removeMemberSchema.extend({
+  reason: z
+    .string()
+    .max(500, { message: "Причина не должна превышать 500 символов" })
+    .trim()
+    .optional(),
+  duration: z
+    .number()
+    .int({ message: "Длительность должна быть целым числом" })
+    .min(60, { message: "Минимальная длительность - 1 минута (60 секунд)" })
+    .max(604800, { message: "Максимальная длительность - 7 дней (604800 секунд)" })
+    .default(3600),
+});
+
+export type MuteMemberInput = z.infer<typeof muteMemberSchema>;
@@ -0,0 +1,302 @@
+import { z } from "zod";
+import { WEBSOCKET_ERROR_CODES, WEBSOCKET_EVENTS } from "../constants";
+import {
+  addCombatantSchema,
+  addConditionSchema,
+  combatRoomSchema,
+  combatStateSchema,
+  removeCombatantSchema,
+  removeConditionSchema,
+  setInitiativeSchema,
+  startCombatSchema,
+} from "./combat.schema";
+import { diceRollSchema } from "./dice.schema";
+import {
+  createMessageSchema,
+  editMessageSchema,
+  messageWithAuthorSchema,
+  reactionSchema,
+} from "./message.schema";
+import { roomSchema } from "./room.schema";
+import { publicUserSchema } from "./user.schema";
+
+/**
+ * WebSocket event schemas, the source of the event types in types/socket.types
+ */
+
+export const SOCKET_REQUEST_ID_MAX_LENGTH = 64;
+
+// Chosen by the client to match an ack or nack to the event it sent
+export const socketRequestIdSchema = z.string().min(1).max(SOCKET_REQUEST_ID_MAX_LENGTH);
+
+export const webSocketErrorCodeSchema = z.nativeEnum(WEBSOCKET_ERROR_CODES);
+
+const roomRefSchema = z.object({ roomId: z.string().uuid() });
+const roomSeqSchema = z.number().int().min(0);
+const roomUserSchema = roomRefSchema.extend({ userId: z.string().uuid() });
+const messageRefSchema = roomRefSchema.extend({ messageId: z.string().uuid() });
+const reactionChangeSchema = reactionSchema.extend({
+  userId: z.string().uuid(),
+  // How many members now react with the emoji
+  count: z.number().int().min(0),
+});
+const combatEventDataSchema = roomRefSchema.extend({ combat: combatStateSchema });
+const gmStreamSchema = roomRefSchema.extend({ messageId: z.string() });
+
+function clientEvent<T extends string, D extends z.ZodTypeAny>(type: T, data: D) {
+  return z.object({
+    type: z.literal(type),
+    data,
+    requestId: socketRequestIdSchema.optional(),
+  });
+}
+
+// seq is the event's position in its room's stream, set on events that can be replayed
+function serverEvent<T extends string, D extends z.ZodTypeAny>(type: T, data: D) {
+  return z.object({ type: z.literal(type), data, seq: roomSeqSchema.optional() });
+}
+
+// Client to server events
+export const messageSendEventSchema = clientEvent(
+  WEBSOCKET_EVENTS.MESSAGE_SEND,
+  createMessageSchema,
+);
+export const messageEditEventSchema = clientEvent(
+  WEBSOCKET_EVENTS.MESSAGE_EDIT,
+  messageRefSchema.extend({ content: editMessageSchema.shape.content }),
+);
+export const messageDeleteEventSchema = clientEvent(
+  WEBSOCKET_EVENTS.MESSAGE_DELETE,
+  messageRefSchema,
+);
+export const reactionAddEventSchema = clientEvent(WEBSOCKET_EVENTS.REACTION_ADD, reactionSchema);
+export const reactionRemoveEventSchema = clientEvent(
+  WEBSOCKET_EVENTS.REACTION_REMOVE,
+  reactionSchema,
+);
+// sinceSeq is the last room event seen before a reconnect; the events after it are replayed
+export const roomJoinEventSchema = clientEvent(
+  WEBSOCKET_EVENTS.ROOM_JOIN,
+  roomRefSchema.extend({ sinceSeq: roomSeqSchema.optional() }),
+);
+export const roomLeaveEventSchema = clientEvent(WEBSOCKET_EVENTS.ROOM_LEAVE, roomRefSchema);
+export const diceRollEventSchema = clientEvent(WEBSOCKET_EVENTS.DICE_ROLL, diceRollSchema);
+export const combatStartClientEventSchema = clientEvent(
+  WEBSOCKET_EVENTS.COMBAT_START,
+  startCombatSchema,
+);
+export const combatAddCombatantEventSchema = clientEvent(
+  WEBSOCKET_EVENTS.COMBAT_ADD_COMBATANT,
+  addCombatantSchema,
+);
+export const combatRemoveCombatantEventSchema = clientEvent(
+  WEBSOCKET_EVENTS.COMBAT_REMOVE_COMBATANT,
+  removeCombatantSchema,
+);
+export const combatSetInitiativeEventSchema = clientEvent(
+  WEBSOCKET_EVENTS.COMBAT_SET_INITIATIVE,
+  setInitiativeSchema,
+);
+export const combatAddConditionEventSchema = clientEvent(
+  WEBSOCKET_EVENTS.COMBAT_ADD_CONDITION,
+  addConditionSchema,
+);
+export const combatRemoveConditionEventSchema = clientEvent(
+  WEBSOCKET_EVENTS.COMBAT_REMOVE_CONDITION,
+  removeConditionSchema,
+);
+export const combatNextTurnEventSchema = clientEvent(
+  WEBSOCKET_EVENTS.COMBAT_NEXT_TURN,
+  combatRoomSchema,
+);
+export const combatEndClientEventSchema = clientEvent(
+  WEBSOCKET_EVENTS.COMBAT_END,
+  combatRoomSchema,
+);
+export const typingStartClientEventSchema = clientEvent(
+  WEBSOCKET_EVENTS.TYPING_START,
+  roomRefSchema,
+);
+export const typingStopClientEventSchema = clientEvent(WEBSOCKET_EVENTS.TYPING_STOP, roomRefSchema);
+
+export const clientToServerMessageSchema = z.discriminatedUnion("type", [
+  messageSendEventSchema,
+  messageEditEventSchema,
+  messageDeleteEventSchema,
+  reactionAddEventSchema,
+  reactionRemoveEventSchema,
+  roomJoinEventSchema,
+  roomLeaveEventSchema,
+  diceRollEventSchema,
+  combatStartClientEventSchema,
+  combatAddCombatantEventSchema,
+  combatRemoveCombatantEventSchema,
+  combatSetInitiativeEventSchema,
+  combatAddConditionEventSchema,
+  combatRemoveConditionEventSchema,
+  combatNextTurnEventSchema,
+  combatEndClientEventSchema,
+  typingStartClientEventSchema,
+  typingStopClientEventSchema,
+]);
+
+// Server to client events
+export const connectionReadyEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.CONNECTION_READY,
+  z.object({ protocolVersion: z.number().int().min(1) }),
+);
+export const ackEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.ACK,
+  z.object({ requestId: socketRequestIdSchema }),
+);
+// retryAfter (seconds) is set when the action was rate limited
+export const nackEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.NACK,
+  z.object({
+    requestId: socketRequestIdSchema,
+    message: z.string(),
+    code: webSocketErrorCodeSchema,
+    roomId: z.string().uuid().optional(),
+    retryAfter: z.number().int().min(0).optional(),
+  }),
+);
+export const messageNewEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.MESSAGE_NEW,
+  messageWithAuthorSchema,
+);
+// An edited message; whispers only reach their author and recipients
+export const messageUpdatedEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.MESSAGE_UPDATED,
+  messageWithAuthorSchema,
+);
+export const messageDeletedEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.MESSAGE_DELETED,
+  messageRefSchema,
+);
+// Reactions on whispers only reach the whisper's author and recipients
+export const reactionAddedEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.REACTION_ADDED,
+  reactionChangeSchema,
+);
+export const reactionRemovedEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.REACTION_REMOVED,
+  reactionChangeSchema,
+);
+export const roomUpdatedEventSchema = serverEvent(WEBSOCKET_EVENTS.ROOM_UPDATED, roomSchema);
+// Sent on every join, after any replayed events. refetch means the missed events could not
+// be replayed and history has to be loaded again; spectating means the connection follows
+// the room read-only, without being a member.
+export const roomSyncEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.ROOM_SYNC,
+  roomRefSchema.extend({
+    seq: roomSeqSchema,
+    replayed: z.number().int().min(0),
+    refetch: z.boolean(),
+    spectating: z.boolean().optional(),
+  }),
+);
+export const roomMemberCountUpdatedEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.ROOM_MEMBER_COUNT_UPDATED,
+  roomRefSchema.extend({ memberCount: z.number().int().min(0) }),
+);
+// Spectators following the room without being members
+export const roomViewerCountUpdatedEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.ROOM_VIEWER_COUNT_UPDATED,
+  roomRefSchema.extend({ viewerCount: z.number().int().min(0) }),
+);
+export const userJoinedEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.USER_JOINED,
+  roomRefSchema.extend({ user: publicUserSchema.pick({ id: true, username: true }) }),
+);
+export const userLeftEventSchema = serverEvent(WEBSOCKET_EVENTS.USER_LEFT, roomUserSchema);
+// Members online in a room, sent to a connection when it joins
+export const presenceSnapshotEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.PRESENCE_SNAPSHOT,
+  roomRefSchema.extend({ userIds: z.array(z.string().uuid()) }),
+);
+// A member's first connection joined or last connection left; lastSeenAt (ISO) is set when offline
+export const presenceUpdateEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.PRESENCE_UPDATE,
+  roomUserSchema.extend({
+    status: z.enum(["online", "offline"]),
+    lastSeenAt: z.string().datetime().optional(),
+  }),
+);
+export const typingStartEventSchema = serverEvent(WEBSOCKET_EVENTS.TYPING_START, roomUserSchema);
+export const typingStopEventSchema = serverEvent(WEBSOCKET_EVENTS.TYPING_STOP, roomUserSchema);
+export const roomAccessRevokedEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.ROOM_ACCESS_REVOKED,
+  roomRefSchema,
+);
+// Combat state, broadcast in full after every change
+export const combatStartedEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.COMBAT_STARTED,
+  combatEventDataSchema,
+);
+export const combatUpdatedEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.COMBAT_UPDATED,
+  combatEventDataSchema,
+);
+export const combatEndedEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.COMBAT_ENDED,
+  combatEventDataSchema,
+);
+// Game Master reply streaming. messageId becomes the stored message ID once the stream ends.
+export const gmStreamStartEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.GM_STREAM_START,
+  gmStreamSchema,
+);
+export const gmStreamDeltaEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.GM_STREAM_DELTA,
+  gmStreamSchema.extend({ delta: z.string() }),
+);
+export const gmStreamEndEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.GM_STREAM_END,
+  gmStreamSchema.extend({ message: messageWithAuthorSchema }),
+);
+// Nothing is stored for a failed stream; clients keep the partial text marked as interrupted
+export const gmStreamErrorEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.GM_STREAM_ERROR,
+  gmStreamSchema.extend({ error: z.string() }),
+);
+// roomId is set when the error relates to a specific room (e.g. a rejected join);
+// retryAfter (seconds) is set when the action was rate limited
+export const errorEventSchema = serverEvent(
+  WEBSOCKET_EVENTS.ERROR,
+  z.object({
+    message: z.string(),
+    code: webSocketErrorCodeSchema.optional(),
+    roomId: z.string().uuid().optional(),
+    retryAfter: z.number().int().min(0).optional(),
+  }),
+);
+
+export const serverToClientMessageSchema = z.discriminatedUnion("type", [
+  connectionReadyEventSchema,
+  ackEventSchema,
+  nackEventSchema,
+  messageNewEventSchema,
+  messageUpdatedEventSchema,
+  messageDeletedEventSchema,
+  reactionAddedEventSchema,
+  reactionRemovedEventSchema,
+  roomUpdatedEventSchema,
+  roomSyncEventSchema,
+  roomMemberCountUpdatedEventSchema,
+  roomViewerCountUpdatedEventSchema,
+  userJoinedEventSchema,
+  userLeftEventSchema,
+  presenceSnapshotEventSchema,
+  presenceUpdateEventSchema,
+  typingStartEventSchema,
+  typingStopEventSchema,
+  roomAccessRevokedEventSchema,
+  combatStartedEventSchema,
+  combatUpdatedEventSchema,
+  combatEndedEventSchema,
+  gmStreamStartEventSchema,
+  gmStreamDeltaEventSchema,
+  gmStreamEndEventSchema,
+  gmStreamErrorEventSchema,
+  errorEventSchema,
+]);
@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { roomIdSchema } from "./room.schema";
+
+/**
+ * Session summary schemas
+ * A summary compresses the room's story up to (and including) its last covered message
+ */
+
+export const SESSION_SUMMARY_MAX_LENGTH = 20000;
+
+export const sessionSummarySchema = z.object({
+  id: z.string().uuid(),
+  roomId: z.string().uuid(),
+  content: z.string().min(1).max(SESSION_SUMMARY_MAX_LENGTH),
+  // Covered range, oldest to newest; summaries are rolling, so each covers the story so far
+  fromMessageId: z.string().uuid().nullable(),
+  toMessageId: z.string().uuid().nullable(),
+  fromCreatedAt: z.date(),
+  toCreatedAt: z.date(),
+  messageCount: z.number().int().min(1),
+  // Set when an owner has hand-edited the generated text
+  editedBy: z.string().uuid().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const updateSessionSummarySchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, { message: "Текст сводки обязателен" })
+    .max(SESSION_SUMMARY_MAX_LENGTH, {
+      message: `Текст сводки не должен превышать ${SESSION_SUMMARY_MAX_LENGTH} символов`,
+    }),
+});
+
+// Summary route parameters schema
+export const summaryParamsSchema = roomIdSchema.extend({
+  summaryId: z.string().uuid({ message: "Недействительный формат идентификатора сводки" }),
+});
+
+export type SessionSummary = z.infer<typeof sessionSummarySchema>;
+export type UpdateSessionSummaryInput = z.infer<typeof updateSessionSummarySchema>;
+export type SummaryParamsInput = z.infer<typeof summaryParamsSchema>;
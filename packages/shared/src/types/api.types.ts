@@ -26,3 +26,29 @@ export interface ApiError {
   statusCode: number;
   details?: unknown;
 }
+
+/**
+ * AI token usage of a room over one period; limit is null when the period is uncapped
+ */
+export interface AiUsagePeriod {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  requests: number;
+  limit: number | null;
+  resetsAt: string;
+}
+
+/**
+ * Feedback reactions (👍/👎) members left on a room's Game Master messages
+ */
+export interface GmFeedback {
+  positive: number;
+  negative: number;
+}
+
+export interface RoomAiUsage {
+  daily: AiUsagePeriod;
+  monthly: AiUsagePeriod;
+  gmFeedback: GmFeedback;
+}
@@ -1,13 +1,65 @@
-import type { Message, Room, PublicUser } from "../schemas";
+import type { z } from "zod";
+import type {
+  ackEventSchema,
+  clientToServerMessageSchema,
+  combatAddCombatantEventSchema,
+  combatAddConditionEventSchema,
+  combatEndClientEventSchema,
+  combatEndedEventSchema,
+  combatNextTurnEventSchema,
+  combatRemoveCombatantEventSchema,
+  combatRemoveConditionEventSchema,
+  combatSetInitiativeEventSchema,
+  combatStartClientEventSchema,
+  combatStartedEventSchema,
+  combatUpdatedEventSchema,
+  connectionReadyEventSchema,
+  diceRollEventSchema,
+  errorEventSchema,
+  gmStreamDeltaEventSchema,
+  gmStreamEndEventSchema,
+  gmStreamErrorEventSchema,
+  gmStreamStartEventSchema,
+  messageDeletedEventSchema,
+  messageDeleteEventSchema,
+  messageEditEventSchema,
+  messageNewEventSchema,
+  messageSendEventSchema,
+  messageUpdatedEventSchema,
+  nackEventSchema,
+  presenceSnapshotEventSchema,
+  presenceUpdateEventSchema,
+  reactionAddedEventSchema,
+  reactionAddEventSchema,
+  reactionRemovedEventSchema,
+  reactionRemoveEventSchema,
+  roomAccessRevokedEventSchema,
+  roomJoinEventSchema,
+  roomLeaveEventSchema,
+  roomMemberCountUpdatedEventSchema,
+  roomSyncEventSchema,
+  roomUpdatedEventSchema,
+  roomViewerCountUpdatedEventSchema,
+  serverToClientMessageSchema,
+  typingStartClientEventSchema,
+  typingStartEventSchema,
+  typingStopClientEventSchema,
+  typingStopEventSchema,
+  userJoinedEventSchema,
+  userLeftEventSchema,
+} from "../schemas";
+import type { WEBSOCKET_ERROR_CODES } from "../constants";
 
 /**
- * WebSocket message types
+ * WebSocket message types, inferred from the event schemas in schemas/socket.schema
  */
 
 export interface WebSocketMessage {
   type: string;
   data: any;
   timestamp?: number;
+  // Position in the room's event stream, set on events a reconnecting client can replay
+  seq?: number;
 }
 
 export interface WebSocketUser {
@@ -15,90 +67,61 @@ export interface WebSocketUser {
   username: string;
 }
 
-// Server to Client message types
-export interface MessageNewEvent {
-  type: "message:new";
-  data: Message;
-}
-
-export interface RoomUpdatedEvent {
-  type: "room:updated";
-  data: Room;
-}
-
-export interface UserJoinedEvent {
-  type: "user:joined";
-  data: { user: PublicUser; roomId: string };
-}
-
-export interface UserLeftEvent {
-  type: "user:left";
-  data: { userId: string; roomId: string };
-}
-
-export interface RoomMemberCountUpdatedEvent {
-  type: "room:member_count_updated";
-  data: {
-    roomId: string;
-    memberCount: number;
-  };
-}
-
-export interface TypingStartEvent {
-  type: "typing:start";
-  data: { userId: string; roomId: string };
-}
-
-export interface TypingStopEvent {
-  type: "typing:stop";
-  data: { userId: string; roomId: string };
-}
+export type WebSocketErrorCode = (typeof WEBSOCKET_ERROR_CODES)[keyof typeof WEBSOCKET_ERROR_CODES];
 
-export interface ErrorEvent {
-  type: "error";
-  data: { message: string; code?: string };
-}
-
-// Client to Server message types
-export interface MessageSendEvent {
-  type: "message:send";
-  data: { roomId: string; content: string };
-}
-
-export interface RoomJoinEvent {
-  type: "room:join";
-  data: { roomId: string };
-}
-
-export interface RoomLeaveEvent {
-  type: "room:leave";
-  data: { roomId: string };
-}
-
-export interface TypingStartClientEvent {
-  type: "typing:start";
-  data: { roomId: string };
-}
-
-export interface TypingStopClientEvent {
-  type: "typing:stop";
-  data: { roomId: string };
-}
+// Server to Client message types
+export type ConnectionReadyEvent = z.infer<typeof connectionReadyEventSchema>;
+export type AckEvent = z.infer<typeof ackEventSchema>;
+export type NackEvent = z.infer<typeof nackEventSchema>;
+export type MessageNewEvent = z.infer<typeof messageNewEventSchema>;
+export type MessageUpdatedEvent = z.infer<typeof messageUpdatedEventSchema>;
+export type MessageDeletedEvent = z.infer<typeof messageDeletedEventSchema>;
+export type ReactionAddedEvent = z.infer<typeof reactionAddedEventSchema>;
+export type ReactionRemovedEvent = z.infer<typeof reactionRemovedEventSchema>;
+export type RoomUpdatedEvent = z.infer<typeof roomUpdatedEventSchema>;
+export type RoomSyncEvent = z.infer<typeof roomSyncEventSchema>;
+export type RoomMemberCountUpdatedEvent = z.infer<typeof roomMemberCountUpdatedEventSchema>;
+export type RoomViewerCountUpdatedEvent = z.infer<typeof roomViewerCountUpdatedEventSchema>;
+export type UserJoinedEvent = z.infer<typeof userJoinedEventSchema>;
+export type UserLeftEvent = z.infer<typeof userLeftEventSchema>;
+export type PresenceSnapshotEvent = z.infer<typeof presenceSnapshotEventSchema>;
+export type PresenceUpdateEvent = z.infer<typeof presenceUpdateEventSchema>;
+export type TypingStartEvent = z.infer<typeof typingStartEventSchema>;
+export type TypingStopEvent = z.infer<typeof typingStopEventSchema>;
+export type ErrorEvent = z.infer<typeof errorEventSchema>;
+export type RoomAccessRevokedEvent = z.infer<typeof roomAccessRevokedEventSchema>;
+export type CombatStartedEvent = z.infer<typeof combatStartedEventSchema>;
+export type CombatUpdatedEvent = z.infer<typeof combatUpdatedEventSchema>;
+export type CombatEndedEvent = z.infer<typeof combatEndedEventSchema>;
+export type GmStreamStartEvent = z.infer<typeof gmStreamStartEventSchema>;
+export type GmStreamDeltaEvent = z.infer<typeof gmStreamDeltaEventSchema>;
+export type GmStreamEndEvent = z.infer<typeof gmStreamEndEventSchema>;
+export type GmStreamErrorEvent = z.infer<typeof gmStreamErrorEventSchema>;
+
+// Client to Server message types, as sent (before schema defaults are applied)
+export type MessageSendEvent = z.input<typeof messageSendEventSchema>;
+export type MessageEditEvent = z.input<typeof messageEditEventSchema>;
+export type MessageDeleteEvent = z.input<typeof messageDeleteEventSchema>;
+export type ReactionAddEvent = z.input<typeof reactionAddEventSchema>;
+export type ReactionRemoveEvent = z.input<typeof reactionRemoveEventSchema>;
+export type RoomJoinEvent = z.input<typeof roomJoinEventSchema>;
+export type RoomLeaveEvent = z.input<typeof roomLeaveEventSchema>;
+export type DiceRollEvent = z.input<typeof diceRollEventSchema>;
+export type CombatStartClientEvent = z.input<typeof combatStartClientEventSchema>;
+export type CombatAddCombatantEvent = z.input<typeof combatAddCombatantEventSchema>;
+export type CombatRemoveCombatantEvent = z.input<typeof combatRemoveCombatantEventSchema>;
+export type CombatSetInitiativeEvent = z.input<typeof combatSetInitiativeEventSchema>;
+export type CombatAddConditionEvent = z.input<typeof combatAddConditionEventSchema>;
+export type CombatRemoveConditionEvent = z.input<typeof combatRemoveConditionEventSchema>;
+export type CombatNextTurnEvent = z.input<typeof combatNextTurnEventSchema>;
+export type CombatEndClientEvent = z.input<typeof combatEndClientEventSchema>;
+export type TypingStartClientEvent = z.input<typeof typingStartClientEventSchema>;
+export type TypingStopClientEvent = z.input<typeof typingStopClientEventSchema>;
 
 // Union types for type safety
-export type ServerToClientMessage =
-  | MessageNewEvent
-  | RoomUpdatedEvent
-  | RoomMemberCountUpdatedEvent
-  | UserJoinedEvent
-  | UserLeftEvent
-  | TypingStartEvent
-  | TypingStopEvent
-  | ErrorEvent;
+export type ServerToClientMessage = z.infer<typeof serverToClientMessageSchema>;
+
+export type ClientToServerMessage = z.input<typeof clientToServerMessageSchema>;
 
-export type ClientToServerMessage =
-  | MessageSendEvent
-  | RoomJoinEvent
-  | RoomLeaveEvent
-  | TypingStartClientEvent
-  | TypingStopClientEvent;
+// A client event after validation, with schema defaults applied
+export type ParsedClientToServerMessage = z.infer<typeof clientToServerMessageSchema>;
@@ -0,0 +1,113 @@
+import {
+  type Ability,
+  type AbilityScores,
+  type InventoryItem,
+  type Proficiencies,
+  SKILL_ABILITIES,
+  type Skill,
+} from "../schemas/character.schema";
+
+/**
+ * The parts of a character sheet that check modifiers are derived from
+ */
+export interface CharacterModifierSource {
+  level: number;
+  abilityScores: AbilityScores;
+  proficiencies: Pick<Proficiencies, "skills" | "savingThrows">;
+}
+
+/**
+ * Ability modifier for a score, e.g. 8 → -1, 10 → 0, 15 → +2
+ */
+export function getAbilityModifier(score: number): number {
+  return Math.floor((score - 10) / 2);
+}
+
+/**
+ * Proficiency bonus by character level (+2 at levels 1–4, up to +6 at 17–20)
+ */
+export function getProficiencyBonus(level: number): number {
+  return Math.ceil(level / 4) + 1;
+}
+
+/**
+ * Total modifier for a skill check, including proficiency when the character has it
+ */
+export function getSkillModifier(character: CharacterModifierSource, skill: Skill): number {
+  const ability = SKILL_ABILITIES[skill];
+  const proficient = character.proficiencies.skills.includes(skill);
+  return (
+    getAbilityModifier(character.abilityScores[ability]) +
+    (proficient ? getProficiencyBonus(character.level) : 0)
+  );
+}
+
+/**
+ * Total modifier for a saving throw, including proficiency when the character has it
+ */
+export function getSavingThrowModifier(
+  character: CharacterModifierSource,
+  ability: Ability,
+): number {
+  const proficient = character.proficiencies.savingThrows.includes(ability);
+  return (
+    getAbilityModifier(character.abilityScores[ability]) +
+    (proficient ? getProficiencyBonus(character.level) : 0)
+  );
+}
+
+/**
+ * Signed modifier text, e.g. "+3" or "-1"
+ */
+export function formatModifier(modifier: number): string {
+  return modifier >= 0 ? `+${modifier}` : String(modifier);
+}
+
+/**
+ * Current HP after damage (negative change) or healing (positive change).
+ * Damage stops at 0 and healing at max HP.
+ */
+export function applyHpChange(currentHp: number, maxHp: number, change: number): number {
+  if (change < 0) {
+    return Math.max(0, currentHp + change);
+  }
+  return Math.max(currentHp, Math.min(maxHp, currentHp + change));
+}
+
+function isSameItem(item: InventoryItem, name: string): boolean {
+  return item.name.toLowerCase() === name.trim().toLowerCase();
+}
+
+/**
+ * Add items to an inventory, stacking them onto an item of the same name
+ */
+export function addInventoryItem(
+  inventory: InventoryItem[],
+  name: string,
+  quantity: number,
+): InventoryItem[] {
+  if (!inventory.some((item) => isSameItem(item, name))) {
+    return [...inventory, { name: name.trim(), quantity }];
+  }
+  return inventory.map((item) =>
+    isSameItem(item, name) ? { ...item, quantity: item.quantity + quantity } : item,
+  );
+}
+
+/**
+ * Remove items from an inventory, dropping the entry when none are left.
+ * Returns null when the inventory holds fewer than `quantity` of the item.
+ */
+export function removeInventoryItem(
+  inventory: InventoryItem[],
+  name: string,
+  quantity: number,
+): InventoryItem[] | null {
+  const existing = inventory.find((item) => isSameItem(item, name));
+  if (!existing || existing.quantity < quantity) {
+    return null;
+  }
+  return inventory
+    .map((item) => (item === existing ? { ...item, quantity: item.quantity - quantity } : item))
+    .filter((item) => item.quantity > 0);
+}
@@ -0,0 +1,89 @@
+import type { CombatState, Combatant } from "../schemas/combat.schema";
+
+/**
+ * Pure turn-order helpers for the initiative tracker.
+ * Every function returns a new state and leaves its input untouched.
+ */
+
+/**
+ * Initiative order: highest initiative first, then highest modifier;
+ * remaining ties keep their existing order
+ */
+export function compareInitiative(a: Combatant, b: Combatant): number {
+  return b.initiative - a.initiative || b.initiativeModifier - a.initiativeModifier;
+}
+
+/**
+ * The combatant whose turn it is
+ */
+export function getCurrentCombatant(state: CombatState): Combatant | undefined {
+  return state.combatants[state.turnIndex];
+}
+
+/**
+ * Place combatants in initiative order, keeping the current actor's turn
+ */
+export function sortCombatants(state: CombatState): CombatState {
+  const current = getCurrentCombatant(state);
+  const combatants = [...state.combatants].sort(compareInitiative);
+  const turnIndex = current ? combatants.findIndex(({ id }) => id === current.id) : 0;
+
+  return { ...state, combatants, turnIndex: Math.max(0, turnIndex) };
+}
+
+/**
+ * Add a combatant in initiative order without changing whose turn it is
+ */
+export function insertCombatant(state: CombatState, combatant: Combatant): CombatState {
+  return sortCombatants({ ...state, combatants: [...state.combatants, combatant] });
+}
+
+/**
+ * Remove a combatant. If it was their turn, the next combatant in order acts.
+ */
+export function removeCombatant(state: CombatState, combatantId: string): CombatState {
+  const index = state.combatants.findIndex(({ id }) => id === combatantId);
+  if (index === -1) return state;
+
+  const combatants = state.combatants.filter(({ id }) => id !== combatantId);
+  let { turnIndex, round } = state;
+
+  if (index < turnIndex) {
+    turnIndex--;
+  } else if (index === turnIndex && turnIndex >= combatants.length) {
+    // The last combatant in the round was removed on their turn
+    turnIndex = 0;
+    round++;
+  }
+
+  return { ...state, combatants, turnIndex: combatants.length ? turnIndex : 0, round };
+}
+
+/**
+ * End the current combatant's turn: their timed conditions tick down (expiring at 0),
+ * then the next combatant acts, starting a new round after the last one
+ */
+export function advanceTurn(state: CombatState): CombatState {
+  const combatants = state.combatants.map((combatant, index) =>
+    index === state.turnIndex
+      ? {
+          ...combatant,
+          conditions: combatant.conditions.flatMap((condition) => {
+            if (condition.remainingRounds === null) return [condition];
+            const remainingRounds = condition.remainingRounds - 1;
+            return remainingRounds > 0 ? [{ ...condition, remainingRounds }] : [];
+          }),
+        }
+      : combatant,
+  );
+
+  const nextIndex = state.turnIndex + 1;
+  const wraps = nextIndex >= combatants.length;
+
+  return {
+    ...state,
+    combatants,
+    turnIndex: wraps ? 0 : nextIndex,
+    round: wraps ? state.round + 1 : state.round,
+  };
+}
@@ -0,0 +1,253 @@
+import type { DiceRollResult, DiceTermResult, DieResult } from "../schemas/dice.schema";
+
+/**
+ * Dice notation parser and roller
+ *
+ * Supported notation (case-insensitive, whitespace ignored):
+ * - `NdM`, `dM`, `d%`        – N dice with M sides (N defaults to 1, % is 100)
+ * - `kh[n]`, `kl[n]`          – keep the highest / lowest n dice (n defaults to 1)
+ * - `dh[n]`, `dl[n]`          – drop the highest / lowest n dice
+ * - `!`                       – exploding dice: a maximum roll adds another die
+ * - `adv`, `dis`              – advantage / disadvantage on a single d20 (`1d20adv`, or `adv` alone)
+ * - `+`, `-` between terms    – e.g. `1d20+5+1d4`, `4d6kh3`, `2d6!-1`
+ */
+
+export const DICE_LIMITS = {
+  MAX_TERMS: 20,
+  MAX_DICE: 100,
+  MAX_SIDES: 1000,
+  MAX_CONSTANT: 10000,
+  // Extra dice a single term may add through explosions
+  MAX_EXPLOSIONS: 100,
+} as const;
+
+/**
+ * Returns a uniformly distributed integer in [1, sides]
+ */
+export type DiceRandom = (sides: number) => number;
+
+export interface DiceSelection {
+  keep: "highest" | "lowest";
+  count: number;
+}
+
+export type DiceTerm =
+  | {
+      type: "dice";
+      sign: 1 | -1;
+      count: number;
+      sides: number;
+      explode: boolean;
+      selection?: DiceSelection;
+    }
+  | {
+      type: "constant";
+      sign: 1 | -1;
+      value: number;
+    };
+
+export interface DiceExpression {
+  terms: DiceTerm[];
+}
+
+export class DiceParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DiceParseError";
+  }
+}
+
+const DICE_TERM_PATTERN = /^(\d*)d(\d+|%)((?:[a-z!][a-z!\d]*)?)$/;
+const MODIFIER_PATTERN = /(kh|kl|dh|dl)(\d*)|!|adv|dis/y;
+
+/**
+ * Parse dice notation into terms, throwing DiceParseError on invalid input
+ */
+export function parseDiceExpression(input: string): DiceExpression {
+  const source = input.toLowerCase().replace(/\s+/g, "");
+  if (!source) {
+    throw new DiceParseError("Dice expression is empty");
+  }
+
+  const parts = source.split(/(?=[+-])/);
+  if (parts.length > DICE_LIMITS.MAX_TERMS) {
+    throw new DiceParseError(`Too many terms (max ${DICE_LIMITS.MAX_TERMS})`);
+  }
+
+  return { terms: parts.map(parseTerm) };
+}
+
+function parseTerm(part: string): DiceTerm {
+  const sign = part.startsWith("-") ? -1 : 1;
+  const body = part.replace(/^[+-]/, "");
+
+  if (!body) {
+    throw new DiceParseError(`Missing term after "${part}"`);
+  }
+
+  if (/^\d+$/.test(body)) {
+    const value = Number(body);
+    if (value > DICE_LIMITS.MAX_CONSTANT) {
+      throw new DiceParseError(`Modifier too large (max ${DICE_LIMITS.MAX_CONSTANT})`);
+    }
+    return { type: "constant", sign, value };
+  }
+
+  // Bare advantage/disadvantage is shorthand for a d20 roll
+  const match = DICE_TERM_PATTERN.exec(body === "adv" || body === "dis" ? `1d20${body}` : body);
+  if (!match) {
+    throw new DiceParseError(`Invalid dice term "${body}"`);
+  }
+
+  const [, countText, sidesText, modifiers = ""] = match;
+  let count = countText ? Number(countText) : 1;
+  const sides = sidesText === "%" ? 100 : Number(sidesText);
+
+  if (count < 1 || count > DICE_LIMITS.MAX_DICE) {
+    throw new DiceParseError(`Dice count must be between 1 and ${DICE_LIMITS.MAX_DICE}`);
+  }
+  if (sides < 1 || sides > DICE_LIMITS.MAX_SIDES) {
+    throw new DiceParseError(`Dice sides must be between 1 and ${DICE_LIMITS.MAX_SIDES}`);
+  }
+
+  let explode = false;
+  let selection: DiceSelection | undefined;
+
+  MODIFIER_PATTERN.lastIndex = 0;
+  while (MODIFIER_PATTERN.lastIndex < modifiers.length) {
+    const modifier = MODIFIER_PATTERN.exec(modifiers);
+    if (!modifier) {
+      throw new DiceParseError(`Invalid modifier in "${body}"`);
+    }
+
+    const [token, selector = "", amountText] = modifier;
+
+    if (token === "!") {
+      if (explode) throw new DiceParseError(`Duplicate "!" in "${body}"`);
+      if (sides === 1) throw new DiceParseError("A d1 cannot explode");
+      explode = true;
+      continue;
+    }
+
+    if (selection) {
+      throw new DiceParseError(`Only one keep, drop or advantage modifier allowed in "${body}"`);
+    }
+
+    if (token === "adv" || token === "dis") {
+      if (count !== 1 || sides !== 20) {
+        throw new DiceParseError("Advantage and disadvantage apply to a single d20");
+      }
+      count = 2;
+      selection = { keep: token === "adv" ? "highest" : "lowest", count: 1 };
+      continue;
+    }
+
+    const amount = amountText ? Number(amountText) : 1;
+    const isDrop = selector.startsWith("d");
+    if (amount < 1 || amount > count || (isDrop && amount === count)) {
+      throw new DiceParseError(`Cannot ${isDrop ? "drop" : "keep"} ${amount} of ${count} dice`);
+    }
+
+    // Drops are stored as the equivalent keep
+    switch (selector) {
+      case "kh":
+        selection = { keep: "highest", count: amount };
+        break;
+      case "kl":
+        selection = { keep: "lowest", count: amount };
+        break;
+      case "dh":
+        selection = { keep: "lowest", count: count - amount };
+        break;
+      case "dl":
+        selection = { keep: "highest", count: count - amount };
+        break;
+    }
+  }
+
+  return { type: "dice", sign, count, sides, explode, selection };
+}
+
+/**
+ * Canonical notation of a parsed term, e.g. "4d6kh3" or "2d20kh1"
+ */
+export function formatDiceTerm(term: DiceTerm): string {
+  if (term.type === "constant") {
+    return String(term.value);
+  }
+
+  const explode = term.explode ? "!" : "";
+  const selection = term.selection
+    ? `${term.selection.keep === "highest" ? "kh" : "kl"}${term.selection.count}`
+    : "";
+  return `${term.count}d${term.sides}${explode}${selection}`;
+}
+
+/**
+ * Canonical notation of a parsed expression, e.g. "1d20+5+1d4"
+ */
+export function formatDiceExpression(expression: DiceExpression): string {
+  return expression.terms
+    .map((term, index) => {
+      const notation = formatDiceTerm(term);
+      if (term.sign === -1) return `-${notation}`;
+      return index === 0 ? notation : `+${notation}`;
+    })
+    .join("");
+}
+
+/**
+ * Roll a parsed expression. The caller supplies the random source
+ * (the backend uses a cryptographically secure one).
+ */
+export function rollDiceExpression(expression: DiceExpression, random: DiceRandom): DiceRollResult {
+  const terms = expression.terms.map((term) => rollTerm(term, random));
+
+  return {
+    expression: formatDiceExpression(expression),
+    terms,
+    total: terms.reduce((total, term) => total + term.sign * term.subtotal, 0),
+  };
+}
+
+function rollTerm(term: DiceTerm, random: DiceRandom): DiceTermResult {
+  const notation = formatDiceTerm(term);
+
+  if (term.type === "constant") {
+    return { type: "constant", notation, sign: term.sign, subtotal: term.value };
+  }
+
+  const dice: DieResult[] = [];
+  let explosions = 0;
+
+  for (let i = 0; i < term.count; i++) {
+    let value = random(term.sides);
+    // Each maximum roll adds another die to the pool
+    while (term.explode && value === term.sides && explosions < DICE_LIMITS.MAX_EXPLOSIONS) {
+      dice.push({ value, kept: true, exploded: true });
+      explosions++;
+      value = random(term.sides);
+    }
+    dice.push({ value, kept: true, exploded: false });
+  }
+
+  if (term.selection) {
+    const { keep, count } = term.selection;
+    // Array.prototype.sort is stable, so ties keep the earlier roll
+    const ranked = [...dice].sort((a, b) =>
+      keep === "highest" ? b.value - a.value : a.value - b.value,
+    );
+
+    for (const die of ranked.slice(count)) {
+      die.kept = false;
+    }
+  }
+
+  return {
+    type: "dice",
+    notation,
+    sign: term.sign,
+    dice,
+    subtotal: dice.reduce((sum, die) => (die.kept ? sum + die.value : sum), 0),
+  };
+}
@@ -4,3 +4,9 @@
 
 export * from "./logger.util";
 export * from "./date.util";
+export * from "./character.util";
+export * from "./combat.util";
+export * from "./dice.util";
+export * from "./message.util";
+export * from "./room-settings.util";
+export * from "./room-role.util";
@@ -0,0 +1,109 @@
+import type { DiceRollResult } from "../schemas/dice.schema";
+import type { Check, MessageKindPayload, SystemEvent } from "../schemas/message.schema";
+import type { RoomRole } from "../schemas/room.schema";
+
+const CHECK_LABELS: Record<Check, string> = {
+  strength: "Сила",
+  dexterity: "Ловкость",
+  constitution: "Телосложение",
+  intelligence: "Интеллект",
+  wisdom: "Мудрость",
+  charisma: "Харизма",
+  acrobatics: "Акробатика",
+  animalHandling: "Уход за животными",
+  arcana: "Магия",
+  athletics: "Атлетика",
+  deception: "Обман",
+  history: "История",
+  insight: "Проницательность",
+  intimidation: "Запугивание",
+  investigation: "Анализ",
+  medicine: "Медицина",
+  nature: "Природа",
+  perception: "Восприятие",
+  performance: "Выступление",
+  persuasion: "Убеждение",
+  religion: "Религия",
+  sleightOfHand: "Ловкость рук",
+  stealth: "Скрытность",
+  survival: "Выживание",
+};
+
+const ROLE_LABELS: Record<RoomRole, string> = {
+  owner: "владелец",
+  gm: "мастер",
+  co_gm: "помощник мастера",
+  player: "игрок",
+  spectator: "зритель",
+};
+
+/**
+ * Human-readable text of a system event, stored as the message content
+ */
+export function describeSystemEvent(event: SystemEvent): string {
+  switch (event.event) {
+    case "member_joined":
+      return `${event.username} присоединяется к комнате`;
+    case "member_left":
+      return `${event.username} покидает комнату`;
+    case "member_removed":
+      return `${event.username} удалён из комнаты`;
+    case "member_banned":
+      return event.expiresAt
+        ? `${event.username} временно заблокирован в комнате`
+        : `${event.username} заблокирован в комнате`;
+    case "ownership_transferred":
+      return `Владелец комнаты теперь — ${event.newOwnerUsername}`;
+    case "member_role_changed":
+      return `${event.username} теперь ${ROLE_LABELS[event.role]}`;
+    case "combat_started":
+      return "Начинается бой";
+    case "combat_ended":
+      return `Бой окончен (раундов: ${event.rounds})`;
+    case "skill_check_requested":
+      return [
+        `Мастер просит ${event.characterName} пройти проверку: ${CHECK_LABELS[event.check]}`,
+        event.dc !== null ? ` (СЛ ${event.dc})` : "",
+        event.reason ? ` — ${event.reason}` : "",
+      ].join("");
+    case "hp_changed":
+      return event.change < 0
+        ? `${event.characterName} получает ${-event.change} урона (хиты: ${event.currentHp}/${event.maxHp})`
+        : `${event.characterName} восстанавливает ${event.change} хитов (хиты: ${event.currentHp}/${event.maxHp})`;
+    case "inventory_changed":
+      return event.change > 0
+        ? `${event.characterName} получает: ${event.item} ×${event.change}`
+        : `${event.characterName} теряет: ${event.item} ×${-event.change}`;
+  }
+}
+
+/**
+ * Human-readable text of a dice roll, stored as the message content
+ */
+export function describeDiceRoll(username: string, roll: DiceRollResult): string {
+  return `${username} бросает ${roll.expression}: ${roll.total}`;
+}
+
+/**
+ * Users a message is delivered to; null means everyone in the room.
+ * A whisper reaches only its author and recipients.
+ */
+export function getMessageAudience(
+  message: MessageKindPayload & { userId: string },
+): string[] | null {
+  if (message.kind !== "whisper") {
+    return null;
+  }
+  return [...new Set([message.userId, ...message.payload.recipientIds])];
+}
+
+/**
+ * Whether a user may see a message in the room
+ */
+export function canViewMessage(
+  message: MessageKindPayload & { userId: string },
+  userId: string,
+): boolean {
+  const audience = getMessageAudience(message);
+  return audience === null || audience.includes(userId);
+}
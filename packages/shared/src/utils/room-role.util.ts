@@ -0,0 +1,39 @@
+import {
+  type ROOM_PERMISSIONS,
+  ROOM_ROLES,
+  ROOM_ROLE_PERMISSIONS,
+} from "../constants/room-role.constants";
+import { type RoomRole, roomRoleSchema } from "../schemas/room.schema";
+
+export type RoomPermission = (typeof ROOM_PERMISSIONS)[keyof typeof ROOM_PERMISSIONS];
+
+/**
+ * Read a stored role; anything unknown counts as a spectator so it grants nothing
+ */
+export function parseRoomRole(role: string): RoomRole {
+  const result = roomRoleSchema.safeParse(role);
+  return result.success ? result.data : ROOM_ROLES.SPECTATOR;
+}
+
+/**
+ * Whether a member with the given role may do something in the room
+ */
+export function hasRoomPermission(role: string, permission: RoomPermission): boolean {
+  return ROOM_ROLE_PERMISSIONS[parseRoomRole(role)].includes(permission);
+}
+
+// Lowest to highest
+const ROLE_RANKS: readonly RoomRole[] = [
+  ROOM_ROLES.SPECTATOR,
+  ROOM_ROLES.PLAYER,
+  ROOM_ROLES.CO_GM,
+  ROOM_ROLES.GAME_MASTER,
+  ROOM_ROLES.OWNER,
+];
+
+/**
+ * Whether a role ranks above another, e.g. so a game master may kick players but not the owner
+ */
+export function outranksRoomRole(role: string, other: string): boolean {
+  return ROLE_RANKS.indexOf(parseRoomRole(role)) > ROLE_RANKS.indexOf(parseRoomRole(other));
+}
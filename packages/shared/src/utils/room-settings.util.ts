@@ -0,0 +1,92 @@
+import {
+  ROOM_LORE_MAX_LENGTH,
+  ROOM_SETTINGS_VERSION,
+  type RoomSettings,
+  type UpdateRoomSettingsInput,
+  roomSettingsSchema,
+} from "../schemas/room-settings.schema";
+
+type StoredSettings = Record<string, unknown>;
+
+/**
+ * Upgrade steps for stored room settings, keyed by the version they upgrade from.
+ * Each step returns a blob of the next version.
+ */
+const MIGRATIONS: Record<number, (settings: StoredSettings) => StoredSettings> = {
+  // Version 0: the untyped blob from before settings were versioned
+  0: (settings) => ({
+    version: 1,
+    lore:
+      typeof settings.lore === "string" ? settings.lore.trim().slice(0, ROOM_LORE_MAX_LENGTH) : "",
+    restrictCombatPosting: settings.restrictCombatPosting === true,
+    archived: settings.archived === true,
+  }),
+};
+
+function isRecord(value: unknown): value is StoredSettings {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Settings of a new room
+ */
+export function createDefaultRoomSettings(): RoomSettings {
+  return roomSettingsSchema.parse({ version: ROOM_SETTINGS_VERSION });
+}
+
+/**
+ * Read stored room settings of any version as current settings, filling in defaults.
+ * A blob that still fails validation falls back to the defaults (keeping the archive flag)
+ * rather than making the room unreadable.
+ */
+export function migrateRoomSettings(stored: unknown): RoomSettings {
+  let settings = isRecord(stored) ? stored : {};
+  let version = typeof settings.version === "number" ? settings.version : 0;
+
+  while (version < ROOM_SETTINGS_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) break;
+
+    settings = migrate(settings);
+    version = settings.version as number;
+  }
+
+  const result = roomSettingsSchema.safeParse(settings);
+  if (result.success) {
+    return result.data;
+  }
+
+  return { ...createDefaultRoomSettings(), archived: settings.archived === true };
+}
+
+/**
+ * Apply an owner's partial update; GM settings are merged field by field
+ */
+export function applyRoomSettingsUpdate(
+  settings: RoomSettings,
+  update: UpdateRoomSettingsInput,
+): RoomSettings {
+  return {
+    ...settings,
+    ...(update.lore !== undefined && { lore: update.lore }),
+    ...(update.restrictCombatPosting !== undefined && {
+      restrictCombatPosting: update.restrictCombatPosting,
+    }),
+    ...(update.allowSpectators !== undefined && { allowSpectators: update.allowSpectators }),
+    gm: { ...settings.gm, ...stripUndefined(update.gm ?? {}) },
+  };
+}
+
+/**
+ * Whether non-members may follow a room read-only. Private rooms are never spectated,
+ * whatever their settings say.
+ */
+export function canSpectateRoom(room: { isPrivate: boolean; settings: unknown }): boolean {
+  return !room.isPrivate && migrateRoomSettings(room.settings).allowSpectators;
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined),
+  ) as Partial<T>;
+}